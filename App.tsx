@@ -1,79 +1,299 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { PromptInput } from './components/PromptInput';
 import { HouseDisplay } from './components/HouseDisplay';
+import { HouseModelViewer } from './components/HouseModelViewer';
+import { AssemblyGuide } from './components/AssemblyGuide';
 import { CuttingListDisplay } from './components/CuttingListDisplay';
 import { SketchDisplay } from './components/SketchDisplay';
 import { EditForm } from './components/EditForm';
-import { generateHouseDesign, editHouseDesign } from './services/geminiService';
-import type { CuttingList, ImageView, EditPreferences } from './types';
-import { ConstructionIcon, EditIcon } from './components/icons';
+import { DesignChat } from './components/DesignChat';
+import { DesignGallery } from './components/DesignGallery';
+import { VersionTimeline } from './components/VersionTimeline';
+import { CompareView } from './components/CompareView';
+import { GenerationProgress, type AssetStatus } from './components/GenerationProgress';
+import { ErrorNotice } from './components/ErrorNotice';
+import { ConstraintsPanel } from './components/ConstraintsPanel';
+import { ConstraintWarnings } from './components/ConstraintWarnings';
+import { generateHouseDesign, editHouseDesign, chatAboutDesign, generateView, generateSketch, generateCuttingList, replaceView, findMissingAssets, isAbortError, scaleDesign, type GenerationEvent } from './services/designService';
+import { DailyLimitError, MalformedResponseError, PartialResultError, toDesignError, type DesignError } from './services/designErrors';
+import { createDesign, updateDesign } from './services/designStore';
+import { DEFAULT_CONSTRAINTS, loadConstraints, saveConstraints } from './services/designConstraints';
+import { FIT_TO_RULES_REQUEST } from './services/designEdits';
+import { loadUnitSystem, saveUnitSystem, type UnitSystem } from './services/units';
+import { loadLocale, saveLocale, translator, type Locale } from './services/i18n';
+import { DEFAULT_NARRATION, loadNarrationSettings, saveNarrationSettings, type NarrationSettings } from './services/narration';
+import {
+  addDesignToday,
+  applyParentalLimits,
+  countToday,
+  dayOf,
+  DEFAULT_PARENTAL_SETTINGS,
+  hasReachedDailyLimit,
+  loadDailyUsage,
+  loadParentalSettings,
+  saveDailyUsage,
+  saveParentalSettings,
+  type DailyUsage,
+  type ParentalSettings,
+} from './services/parentalControls';
+import { isSharingSupported, shareDesign } from './services/share';
+import { EMPTY_HISTORY, addVersion, startHistory, undo, redo, jumpToVersion, discardVersion, updateVersion, canUndo, canRedo, getCurrentVersion, getVersion, toDesignResult } from './services/versionHistory';
+import type { ChatMessage, ChatProposal, CuttingList, ImageView, EditOperation, DesignConstraints, DesignResult, DesignVersion, HouseSpec, SavedDesign, SourceImage, VersionHistory } from './types';
+import { ChatIcon, ConstructionIcon, EditIcon } from './components/icons';
+import { VIEWS } from './constants';
 
-type ActiveView = 'design' | 'sketch';
+type ActiveView = 'model' | 'render' | 'sketch' | 'build' | 'gallery';
 
-const getFriendlyErrorMessage = (error: unknown): string => {
-  if (error instanceof Error) {
-    const message = error.message.toLowerCase();
+/**
+ * A failure on screen, with what to do about it. The actions are bound to the step that failed,
+ * so "Try again" repeats exactly that step.
+ */
+interface ErrorState {
+  error: DesignError;
+  retry?: () => void;
+  rephrase?: () => void;
+}
 
-    // Invalid API Key
-    if (message.includes('api key not valid') || message.includes('api_key_invalid') || message.includes('permission denied')) {
-      return "There's a problem with the connection to the creative engine. Please ask an adult to check the API Key configuration.";
-    }
-
-    // Quota Exceeded
-    if (message.includes('quota')) {
-      return "The Dream Builder is very popular right now and has run out of creative energy for the moment. Please try again later!";
-    }
-
-    // Content safety issues
-    if (message.includes('safety') || message.includes('blocked')) {
-      return "Your idea is super creative, but the Dream Builder couldn't process it. Could you try describing your house in a different way?";
-    }
-
-    // A more specific generic error for other cases
-    return `The blueprint machine had a little hiccup: ${error.message}. Please try again.`;
-  }
-
-  // The most generic fallback for non-Error types
-  return 'Oh no! The blueprint machine got stuck. Please try a different idea.';
-};
+// Remaking a design to fit the building rules is recorded as an edit, so it shows on the timeline.
+const FIT_TO_RULES: EditOperation[] = [{ type: 'request', text: FIT_TO_RULES_REQUEST }];
 
+// Resizing is recorded the same way, so it can be undone and compared like any other change.
+const resizeEdit = (factor: number): EditOperation[] => [{ type: 'scale', percent: Math.round(factor * 100) }];
 
 const App: React.FC = () => {
   const [prompt, setPrompt] = useState<string>('');
+  // The picture in the idea box, and the one the design on screen was made from.
+  const [sourceImage, setSourceImage] = useState<SourceImage | null>(null);
+  const [designSourceImage, setDesignSourceImage] = useState<SourceImage | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorState | null>(null);
   const [imageViews, setImageUrls] = useState<ImageView[] | null>(null);
   const [sketchUrl, setSketchUrl] = useState<string | null>(null);
   const [cuttingList, setCuttingList] = useState<CuttingList | null>(null);
-  const [activeView, setActiveView] = useState<ActiveView>('design');
+  const [activeView, setActiveView] = useState<ActiveView>('model');
   const [detailedDescription, setDetailedDescription] = useState<string | null>(null);
+  const [houseSpec, setHouseSpec] = useState<HouseSpec | null>(null);
   const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [isChatting, setIsChatting] = useState<boolean>(false);
+  // The chat about the version on screen; it moves into the history with the version it builds.
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [isChatReplying, setIsChatReplying] = useState<boolean>(false);
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [freshIdeas, setFreshIdeas] = useState<boolean>(false);
+  const [currentDesignId, setCurrentDesignId] = useState<string | null>(null);
+  const [galleryRefreshKey, setGalleryRefreshKey] = useState<number>(0);
+  const [history, setHistory] = useState<VersionHistory>(EMPTY_HISTORY);
+  const [regeneratingAssets, setRegeneratingAssets] = useState<string[]>([]);
+  // Single assets finish in any order; the ref lets each one build on the history the previous one left.
+  const historyRef = useRef<VersionHistory>(history);
+  historyRef.current = history;
+  const [isPlanReady, setIsPlanReady] = useState<boolean>(false);
+  const [assetProgress, setAssetProgress] = useState<Record<string, AssetStatus>>({});
+  const abortRef = useRef<AbortController | null>(null);
+  const [constraints, setConstraints] = useState<DesignConstraints>(DEFAULT_CONSTRAINTS);
+  const [units, setUnits] = useState<UnitSystem>('metric');
+  const [locale, setLocale] = useState<Locale>('en');
+  const [narration, setNarration] = useState<NarrationSettings>(DEFAULT_NARRATION);
+  const [parental, setParental] = useState<ParentalSettings>(DEFAULT_PARENTAL_SETTINGS);
+  const [usage, setUsage] = useState<DailyUsage>(() => ({ day: dayOf(), count: 0 }));
+  // The idea or wish as it was used, when the content checks made it friendlier.
+  const [softenedText, setSoftenedText] = useState<string | null>(null);
+  const t = translator(locale);
+  // Designs are made to the family's rules, within what a grown-up allows.
+  const designConstraints = applyParentalLimits(constraints, parental);
 
-  const clearContent = () => {
-    setImageUrls(null);
-    setSketchUrl(null);
-    setCuttingList(null);
-    setDetailedDescription(null);
+  useEffect(() => {
+    // The loaders fall back to the defaults themselves; a failure they didn't expect does the same here.
+    const loadOr = <T,>(load: () => Promise<T>, apply: (value: T) => void, fallback: T, what: string) =>
+      load().then(apply).catch(e => {
+        console.warn(`Could not load ${what}`, e);
+        apply(fallback);
+      });
+    loadOr(loadConstraints, setConstraints, DEFAULT_CONSTRAINTS, 'the building rules');
+    loadOr(loadUnitSystem, setUnits, 'metric', 'the units');
+    loadOr(loadLocale, setLocale, 'en', 'the language');
+    loadOr(loadNarrationSettings, setNarration, DEFAULT_NARRATION, 'the reading settings');
+    loadOr(loadParentalSettings, setParental, DEFAULT_PARENTAL_SETTINGS, 'the grown-up settings');
+    loadOr(loadDailyUsage, setUsage, { day: dayOf(), count: 0 }, 'the number of designs made today');
+  }, []);
+
+  // Screen readers and the browser's own spelling and hyphenation follow the page's language.
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const handleConstraintsChange = (next: DesignConstraints) => {
+    setConstraints(next);
+    saveConstraints(next).catch(e => console.warn('Could not save the building rules', e));
+  };
+
+  const handleUnitsChange = (next: UnitSystem) => {
+    setUnits(next);
+    saveUnitSystem(next).catch(e => console.warn('Could not save the units', e));
+  };
+
+  const handleLocaleChange = (next: Locale) => {
+    setLocale(next);
+    saveLocale(next).catch(e => console.warn('Could not save the language', e));
+  };
+
+  const handleNarrationChange = (next: NarrationSettings) => {
+    setNarration(next);
+    saveNarrationSettings(next).catch(e => console.warn('Could not save the reading settings', e));
+  };
+
+  const handleParentalChange = (next: ParentalSettings) => {
+    setParental(next);
+    saveParentalSettings(next).catch(e => console.warn('Could not save the grown-up settings', e));
+  };
+
+  // Only designs that were made count towards the daily limit, so a failed one can be tried again.
+  const countDesign = () => {
+    const next = addDesignToday(usage);
+    setUsage(next);
+    saveDailyUsage(next).catch(e => console.warn('Could not save the number of designs made today', e));
+  };
+
+  /**
+   * Refuses to start a design once the daily limit is used up.
+   * @returns True if the limit has been reached.
+   */
+  const stopAtDailyLimit = (): boolean => {
+    if (!hasReachedDailyLimit(parental, usage)) return false;
+    setError({ error: new DailyLimitError(t('error.dailyLimit.reached', { limit: parental.dailyLimit! })) });
+    return true;
+  };
+
+  const handleShare = () => {
+    if (!cuttingList) return;
+    shareDesign(cuttingList, imageViews?.[0] ?? null).catch(e => console.warn('Could not share the design', e));
+  };
+
+  const handleGenerationResult = (result: DesignResult) => {
+      setImageUrls(result.imageViews);
+      setSketchUrl(result.sketchUrl);
+      setCuttingList(result.cuttingList);
+      setDetailedDescription(result.detailedDescription);
+      setHouseSpec(result.houseSpec);
+  };
+
+  // Saving is best-effort: a browser without storage should still be able to build houses.
+  const saveResult = async (
+    result: DesignResult,
+    nextHistory: VersionHistory,
+    designId: string | null,
+    sourcePrompt: string,
+    sourcePicture: SourceImage | null = null
+  ) => {
+    try {
+      const saved = designId
+        ? await updateDesign(designId, { ...result, history: nextHistory })
+        : await createDesign(sourcePrompt, { ...result, history: nextHistory, sourceImage: sourcePicture ?? undefined });
+      if (saved) setCurrentDesignId(saved.id);
+      setGalleryRefreshKey(key => key + 1);
+    } catch (e) {
+      console.error('Could not save the design', e);
+    }
+  };
+
+  const handleOpenDesign = (design: SavedDesign) => {
+    handleGenerationResult(design);
+    // Designs saved before versions were recorded start a fresh history.
+    setHistory(design.history ?? startHistory(design));
+    setPrompt(design.prompt);
+    setSourceImage(design.sourceImage ?? null);
+    setDesignSourceImage(design.sourceImage ?? null);
+    setCurrentDesignId(design.id);
     setError(null);
     setIsEditing(false);
+    setIsChatting(false);
+    setChatMessages([]);
+    setIsComparing(false);
+    setActiveView(design.houseSpec ? 'model' : design.imageViews ? 'render' : 'sketch');
+  };
+
+  const handleDesignDeleted = (id: string) => {
+    if (id === currentDesignId) setCurrentDesignId(null);
+  };
+
+  // Fills the screen in as each part of the design arrives, instead of all at once at the end.
+  const handleGenerationEvent = (event: GenerationEvent) => {
+    const markAsset = (asset: string, ok: boolean) =>
+      setAssetProgress(progress => ({ ...progress, [asset]: ok ? 'done' : 'failed' }));
+
+    switch (event.type) {
+      case 'moderated':
+        setSoftenedText(event.text);
+        break;
+      case 'description':
+        setDetailedDescription(event.detailedDescription);
+        break;
+      case 'spec':
+        setHouseSpec(event.houseSpec);
+        setIsPlanReady(true);
+        break;
+      case 'view': {
+        const { view } = event;
+        if (view) setImageUrls(views => replaceView(views, view));
+        markAsset(event.label, !!view);
+        break;
+      }
+      case 'sketch':
+        setSketchUrl(event.sketchUrl);
+        markAsset('sketch', !!event.sketchUrl);
+        break;
+      case 'cuttingList':
+        setCuttingList(event.cuttingList);
+        markAsset('cuttingList', !!event.cuttingList);
+        break;
+    }
+  };
+
+  const startGeneration = (): AbortSignal => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setSoftenedText(null);
+    setIsPlanReady(false);
+    setAssetProgress({});
+    return controller.signal;
+  };
+
+  const finishGeneration = () => {
+    abortRef.current = null;
+    setIsPlanReady(false);
+    setAssetProgress({});
+    setIsLoading(false);
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const showError = (e: unknown, actions: Omit<ErrorState, 'error'> = {}) => {
+    console.error(e);
+    setError({ error: toDesignError(e), ...actions });
   };
 
-  const handleGenerationResult = (result: {
-    imageViews: ImageView[] | null;
-    sketchUrl: string | null;
-    cuttingList: CuttingList | null;
-    detailedDescription: string | null;
-  }) => {
-      if (result.imageViews) setImageUrls(result.imageViews);
-      if (result.sketchUrl) setSketchUrl(result.sketchUrl);
-      if (result.cuttingList) setCuttingList(result.cuttingList);
-      if (result.detailedDescription) setDetailedDescription(result.detailedDescription);
+  const focusPrompt = () => {
+    setError(null);
+    document.getElementById('prompt-input')?.focus();
   };
 
-  const handleSubmit = useCallback(async () => {
-    if (!prompt.trim() || isLoading) return;
+  // A design that finished with some parts missing is kept, with a way to redo just those parts.
+  const reportMissingAssets = (result: DesignResult) => {
+    const missing = findMissingAssets(result);
+    if (missing.length === 0) return;
+    setError({
+      error: new PartialResultError(
+        missing.length === 1 ? t('error.partialResult.missingOne') : t('error.partialResult.missing', { count: missing.length }),
+        missing
+      ),
+      retry: () => retryMissingAssets(missing),
+    });
+  };
+
+  const generateDesign = useCallback(async (fresh: boolean) => {
+    if ((!prompt.trim() && !sourceImage) || isLoading || stopAtDailyLimit()) return;
 
     setIsLoading(true);
     setError(null);
@@ -81,22 +301,49 @@ const App: React.FC = () => {
     setSketchUrl(null);
     setCuttingList(null);
     setDetailedDescription(null);
+    setHouseSpec(null);
     setIsEditing(false);
-    setActiveView('design');
+    setIsChatting(false);
+    setChatMessages([]);
+    setIsComparing(false);
+    setCurrentDesignId(null);
+    setHistory(EMPTY_HISTORY);
+    setDesignSourceImage(sourceImage);
+    setActiveView('model');
+    const signal = startGeneration();
 
     try {
-      const result = await generateHouseDesign(prompt);
+      const result = await generateHouseDesign(prompt, {
+        onEvent: handleGenerationEvent,
+        signal,
+        fresh,
+        constraints: designConstraints,
+        locale,
+        sourceImage: sourceImage ?? undefined,
+        strictness: parental.strictness,
+      });
+      countDesign();
+      const nextHistory = startHistory(result);
       handleGenerationResult(result);
+      setHistory(nextHistory);
+      reportMissingAssets(result);
+      await saveResult(result, nextHistory, null, prompt, sourceImage);
     } catch (e) {
-      console.error(e);
-      setError(getFriendlyErrorMessage(e));
+      if (isAbortError(e)) {
+        // Stopped on purpose: drop the half-finished design rather than saving it.
+        handleGenerationResult({ imageViews: null, sketchUrl: null, cuttingList: null, detailedDescription: null, houseSpec: null });
+      } else {
+        showError(e, { retry: () => generateDesign(fresh), rephrase: focusPrompt });
+      }
     } finally {
-      setIsLoading(false);
+      finishGeneration();
     }
-  }, [prompt, isLoading]);
+  }, [prompt, sourceImage, isLoading, constraints, locale, parental, usage]);
+
+  const handleSubmit = () => generateDesign(freshIdeas);
   
-  const handleEditSubmit = useCallback(async (preferences: EditPreferences) => {
-    if (!detailedDescription || isLoading) return;
+  const handleEditSubmit = useCallback(async (edits: EditOperation[], fresh = false, chat?: ChatMessage[]) => {
+    if (!detailedDescription || !houseSpec || isLoading || stopAtDailyLimit()) return;
 
     setIsLoading(true);
     setError(null);
@@ -104,23 +351,177 @@ const App: React.FC = () => {
     setSketchUrl(null);
     setCuttingList(null);
     setIsEditing(false);
-    setActiveView('design');
-    
+    setActiveView('model');
+    const signal = startGeneration();
+
     try {
-      const result = await editHouseDesign(detailedDescription, preferences);
+      const result = await editHouseDesign(houseSpec, detailedDescription, edits, {
+        onEvent: handleGenerationEvent,
+        signal,
+        fresh,
+        constraints: designConstraints,
+        locale,
+        strictness: parental.strictness,
+      });
+      countDesign();
+      // The edit becomes a child of the version on screen, so editing an older version branches.
+      // The history is read as it is now, not as it was when the edit started: a view redone in
+      // the meantime is kept.
+      const nextHistory = addVersion(historyRef.current, result, edits, chat);
+      historyRef.current = nextHistory;
       handleGenerationResult(result);
+      setHistory(nextHistory);
+      // The chat is kept with the version it built; talking about the new one starts afresh.
+      if (chat) setChatMessages([]);
+      reportMissingAssets(result);
+      await saveResult(result, nextHistory, currentDesignId, prompt);
     } catch (e) {
-      console.error(e);
-      setError(getFriendlyErrorMessage(e));
+      if (!isAbortError(e)) {
+        showError(e, {
+          retry: () => handleEditSubmit(edits, fresh, chat),
+          rephrase: () => {
+            setError(null);
+            if (chat) setIsChatting(true);
+            else setIsEditing(true);
+          },
+        });
+      }
+      // Nothing was lost: put the version the edit started from back on screen.
+      const current = getCurrentVersion(historyRef.current);
+      if (current) handleGenerationResult(current);
     } finally {
-      setIsLoading(false);
+      finishGeneration();
     }
-  }, [detailedDescription, isLoading]);
+  }, [detailedDescription, houseSpec, isLoading, currentDesignId, prompt, constraints, locale, parental, usage]);
 
+  const handleChatSend = async (text: string) => {
+    if (!houseSpec || !detailedDescription || isChatReplying) return;
+    const asked: ChatMessage[] = [...chatMessages, { role: 'user', text }];
+    setChatMessages(asked);
+    setIsChatReplying(true);
+    setError(null);
+    try {
+      const answer = await chatAboutDesign(houseSpec, detailedDescription, asked, { constraints: designConstraints, locale, strictness: parental.strictness });
+      setChatMessages([...asked, { role: 'assistant', text: answer.reply, ...(answer.proposal && { proposal: answer.proposal }) }]);
+    } catch (e) {
+      // The chat must take turns, so a message without an answer is taken back.
+      setChatMessages(chatMessages);
+      showError(e, { retry: () => handleChatSend(text) });
+    } finally {
+      setIsChatReplying(false);
+    }
+  };
 
-  const handleUndo = useCallback(() => {
-    clearContent();
-  }, []);
+  const handleChatConfirm = (proposal: ChatProposal, agreement?: string) => {
+    const chat: ChatMessage[] = agreement ? [...chatMessages, { role: 'user', text: agreement }] : chatMessages;
+    setChatMessages(chat);
+    handleEditSubmit(proposal.edits, false, chat);
+  };
+
+  const saveHistory = (nextHistory: VersionHistory) => {
+    const version = getCurrentVersion(nextHistory);
+    if (!currentDesignId || !version) return;
+    updateDesign(currentDesignId, { ...toDesignResult(version), history: nextHistory })
+      .then(() => setGalleryRefreshKey(key => key + 1))
+      .catch(e => console.error('Could not save the design', e));
+  };
+
+  const showVersion = (nextHistory: VersionHistory) => {
+    const version = getCurrentVersion(nextHistory);
+    if (!version || nextHistory === history) return;
+    setHistory(nextHistory);
+    handleGenerationResult(version);
+    setError(null);
+    setIsEditing(false);
+    setChatMessages([]);
+    saveHistory(nextHistory);
+  };
+
+  /**
+   * Redoes one asset of the version on screen without touching the others.
+   * `regenerate` resolves to a patch that is applied to the version as it is when the asset
+   * arrives, so two views retried at the same time don't overwrite each other.
+   */
+  const handleRegenerate = async (
+    asset: string,
+    regenerate: (spec: HouseSpec) => Promise<(version: DesignVersion) => Partial<DesignResult>>
+  ) => {
+    const version = getCurrentVersion(historyRef.current);
+    if (!version?.houseSpec || regeneratingAssets.includes(asset)) return;
+
+    setRegeneratingAssets(assets => [...assets, asset]);
+    setError(null);
+    try {
+      const patch = await regenerate(version.houseSpec);
+      const latest = getVersion(historyRef.current, version.id);
+      if (!latest) return; // The version was discarded while the asset was being made.
+      const nextHistory = updateVersion(historyRef.current, version.id, patch(latest));
+      historyRef.current = nextHistory;
+      setHistory(nextHistory);
+      if (nextHistory.currentId === version.id) {
+        handleGenerationResult(getCurrentVersion(nextHistory)!);
+      }
+      saveHistory(nextHistory);
+    } catch (e) {
+      showError(e, { retry: () => handleRegenerate(asset, regenerate) });
+    } finally {
+      setRegeneratingAssets(assets => assets.filter(item => item !== asset));
+    }
+  };
+
+  const handleRetryView = (view: string) => handleRegenerate(view, async spec => {
+    const image = await generateView(spec, view, { fresh: true });
+    if (!image) throw new MalformedResponseError(`The ${view.toLowerCase()} came back empty`);
+    return latest => ({ imageViews: replaceView(latest.imageViews, image) });
+  });
+
+  const handleRetrySketch = () => handleRegenerate('sketch', async spec => {
+    const sketch = await generateSketch(spec, { fresh: true });
+    if (!sketch) throw new MalformedResponseError('The sketch came back empty');
+    return () => ({ sketchUrl: sketch });
+  });
+
+  const handleRegenerateCuttingList = () => handleRegenerate('cuttingList', async spec => {
+    const list = await generateCuttingList(spec, { fresh: true, locale, strictness: parental.strictness });
+    return () => ({ cuttingList: list });
+  });
+
+  const retryMissingAssets = (assets: string[]) => {
+    for (const asset of assets) {
+      if (asset === 'sketch') handleRetrySketch();
+      else if (asset === 'cuttingList') handleRegenerateCuttingList();
+      else handleRetryView(asset);
+    }
+  };
+
+  // Every part is worked out again locally, so resizing is instant and needs no provider.
+  const handleScale = (factor: number) => {
+    const version = getCurrentVersion(historyRef.current);
+    if (!version?.houseSpec || isLoading) return;
+    const result = scaleDesign(toDesignResult(version), factor);
+    // Like an edit, the resize is added to the latest history, so a view still being redone keeps its place.
+    const nextHistory = addVersion(historyRef.current, result, resizeEdit(factor));
+    historyRef.current = nextHistory;
+    handleGenerationResult(result);
+    setHistory(nextHistory);
+    setError(null);
+    saveResult(result, nextHistory, currentDesignId, prompt);
+  };
+
+  const handleUndo = () => showVersion(undo(history));
+  const handleRedo = () => showVersion(redo(history));
+  const handleSelectVersion = (id: string) => showVersion(jumpToVersion(history, id));
+
+  const handleKeepVersion = (keepId: string, discardId: string) => {
+    showVersion(discardVersion(history, discardId, keepId));
+    setIsComparing(false);
+  };
+
+  // Compare the version on screen with the one it was edited from, or with the newest other version.
+  const currentVersion = getCurrentVersion(history);
+  const compareBaseId = currentVersion?.parentId
+    ?? [...history.versions].reverse().find(version => version.id !== currentVersion?.id)?.id
+    ?? null;
 
   const TabButton: React.FC<{ view: ActiveView; label: string }> = ({ view, label }) => (
     <button
@@ -144,24 +545,48 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen font-sans text-gray-800 flex flex-col items-center p-4 sm:p-6 lg:p-8">
-      <Header />
+      <Header
+        units={units}
+        onUnitsChange={handleUnitsChange}
+        locale={locale}
+        onLocaleChange={handleLocaleChange}
+        narration={narration}
+        onNarrationChange={handleNarrationChange}
+        parental={parental}
+        onParentalChange={handleParentalChange}
+        usedToday={countToday(usage)}
+      />
       <main className="w-full max-w-6xl mx-auto flex flex-col items-center gap-8">
-        {/* Visually hidden assertive live region for screen readers */}
-        {isLoading && <div className="sr-only" role="status">Generating your amazing house design, please wait.</div>}
 
-        {isEditing ? (
+        {isEditing && houseSpec ? (
           <EditForm
+            houseSpec={houseSpec}
+            units={units}
             onUpdate={handleEditSubmit}
             onCancel={() => setIsEditing(false)}
             isLoading={isLoading}
+            locale={locale}
+          />
+        ) : isChatting && houseSpec && detailedDescription ? (
+          <DesignChat
+            houseSpec={houseSpec}
+            units={units}
+            messages={chatMessages}
+            previousChat={currentVersion?.chat}
+            onSend={handleChatSend}
+            onConfirm={handleChatConfirm}
+            onClose={() => setIsChatting(false)}
+            isReplying={isChatReplying}
+            isLoading={isLoading}
+            locale={locale}
           />
         ) : (
           <div className="w-full max-w-3xl text-center bg-white/60 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-sky-200">
             <p className="text-xl text-sky-700 mb-4" id="prompt-heading">
-              What does your dream mini house look like?
+              {t('app.promptHeading')}
             </p>
             <p className="text-gray-500 mb-6">
-              Describe it below! For example, "a cozy mushroom cottage with a round door" or "a futuristic space station house".
+              {t('app.promptHint')}
             </p>
             <PromptInput
               prompt={prompt}
@@ -169,50 +594,188 @@ const App: React.FC = () => {
               onSubmit={handleSubmit}
               isLoading={isLoading}
               onUndo={handleUndo}
-              hasContent={!!hasContent}
+              onRedo={handleRedo}
+              canUndo={canUndo(history)}
+              canRedo={canRedo(history)}
+              freshIdeas={freshIdeas}
+              setFreshIdeas={setFreshIdeas}
+              sourceImage={sourceImage}
+              setSourceImage={setSourceImage}
+              locale={locale}
+            />
+            <ConstraintsPanel
+              constraints={constraints}
+              onChange={handleConstraintsChange}
+              disabled={isLoading}
+              units={units}
+              allowCraftKnife={parental.allowCraftKnife}
+              locale={locale}
             />
           </div>
         )}
 
+        {isLoading && <GenerationProgress isPlanReady={isPlanReady} progress={assetProgress} onCancel={handleCancel} locale={locale} narration={narration} />}
+
+        {softenedText && (
+          <p className="w-full max-w-3xl p-3 rounded-md bg-sky-50 border-l-4 border-sky-400 text-sky-800" role="status">
+            {t('moderation.softened', { text: softenedText })}
+          </p>
+        )}
+
         {error && (
-          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 rounded-md shadow-md w-full max-w-3xl" role="alert">
-            <p className="font-bold">Oops!</p>
-            <p>{error}</p>
-          </div>
+          <ErrorNotice
+            error={error.error}
+            onRetry={error.retry}
+            onRephrase={error.rephrase}
+            onOpenGallery={() => {
+              setError(null);
+              setIsEditing(false);
+              setActiveView('gallery');
+            }}
+            onDismiss={() => setError(null)}
+            locale={locale}
+            narration={narration}
+          />
+        )}
+
+        {!isLoading && !isEditing && !isComparing && (
+          <ConstraintWarnings
+            houseSpec={houseSpec}
+            cuttingList={cuttingList}
+            constraints={designConstraints}
+            units={units}
+            locale={locale}
+            onFix={detailedDescription ? () => handleEditSubmit(FIT_TO_RULES, true) : undefined}
+          />
         )}
 
         {!isLoading && !hasContent && !error && (
            <div className="text-center text-sky-600 p-8 w-full max-w-3xl">
              <ConstructionIcon className="w-24 h-24 mx-auto text-sky-300" aria-hidden="true" />
-             <p className="mt-4 text-lg">Your amazing designs will appear here!</p>
+             <p className="mt-4 text-lg">{t('app.empty')}</p>
           </div>
         )}
         
+        {isComparing && currentVersion && compareBaseId ? (
+          <CompareView
+            history={history}
+            initialBeforeId={compareBaseId}
+            initialAfterId={currentVersion.id}
+            units={units}
+            locale={locale}
+            onKeep={handleKeepVersion}
+            onClose={() => setIsComparing(false)}
+          />
+        ) : (
+        <>
         <div className="w-full grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
             <div className="w-full">
-                {hasContent && !isLoading && !isEditing && (
-                    <div role="tablist" aria-label="Design and Sketch views" className="flex items-end gap-2">
-                        {imageViews && <TabButton view="design" label="3D Design" />}
-                        {sketchUrl && <TabButton view="sketch" label="Assembly Sketch" />}
-                        <button
-                            onClick={() => setIsEditing(true)}
+                {!isLoading && !isEditing && (
+                    <div role="tablist" aria-label={t('app.tabs')} className="flex items-end gap-2">
+                        {houseSpec && <TabButton view="model" label={t('app.tab.model')} />}
+                        {(imageViews || houseSpec) && <TabButton view="render" label={t('app.tab.render')} />}
+                        {(sketchUrl || houseSpec) && <TabButton view="sketch" label={t('app.tab.sketch')} />}
+                        {houseSpec && <TabButton view="build" label={t('app.tab.build')} />}
+                        <TabButton view="gallery" label={t('app.tab.gallery')} />
+                        {hasContent && houseSpec && detailedDescription && <button
+                            onClick={() => {
+                              setIsEditing(false);
+                              setIsChatting(true);
+                            }}
                             className="ml-auto mb-1 flex items-center gap-2 px-4 py-2 text-md font-semibold text-sky-700 bg-white/80 rounded-lg shadow-sm hover:bg-yellow-100 transition-colors duration-300 border border-sky-200"
-                            aria-label="Edit Design"
+                            aria-label={t('app.chatLabel')}
+                        >
+                            <ChatIcon className="w-5 h-5" aria-hidden="true" />
+                            {t('app.chat')}
+                        </button>}
+                        {hasContent && <button
+                            onClick={() => {
+                              setIsChatting(false);
+                              setIsEditing(true);
+                            }}
+                            className="mb-1 flex items-center gap-2 px-4 py-2 text-md font-semibold text-sky-700 bg-white/80 rounded-lg shadow-sm hover:bg-yellow-100 transition-colors duration-300 border border-sky-200"
+                            aria-label={t('app.edit')}
                         >
                             <EditIcon className="w-5 h-5" aria-hidden="true" />
-                            Edit Design
-                        </button>
+                            {t('app.edit')}
+                        </button>}
+                        {compareBaseId && <button
+                            onClick={() => setIsComparing(true)}
+                            className="mb-1 px-4 py-2 text-md font-semibold text-sky-700 bg-white/80 rounded-lg shadow-sm hover:bg-yellow-100 transition-colors duration-300 border border-sky-200"
+                        >
+                            {t('app.compare')}
+                        </button>}
                     </div>
                 )}
-                <div id="design-panel" role="tabpanel" aria-labelledby="design-tab" hidden={activeView !== 'design'}>
-                    <HouseDisplay imageViews={imageViews} isLoading={isLoading} />
+                <div id="model-panel" role="tabpanel" aria-labelledby="model-tab" hidden={activeView !== 'model'}>
+                    <HouseModelViewer
+                        houseSpec={houseSpec}
+                        materials={cuttingList?.materials ?? null}
+                        isLoading={isLoading}
+                        units={units}
+                        locale={locale}
+                    />
+                </div>
+                <div id="render-panel" role="tabpanel" aria-labelledby="render-tab" hidden={activeView !== 'render'}>
+                    <HouseDisplay
+                        imageViews={imageViews}
+                        isLoading={isLoading && !isPlanReady}
+                        onRetryView={houseSpec && !isLoading ? handleRetryView : undefined}
+                        pendingViews={isLoading ? VIEWS.filter(view => !assetProgress[view]) : regeneratingAssets}
+                        sourceImage={designSourceImage}
+                        locale={locale}
+                    />
                 </div>
                  <div id="sketch-panel" role="tabpanel" aria-labelledby="sketch-tab" hidden={activeView !== 'sketch'}>
-                    <SketchDisplay sketchUrl={sketchUrl} isLoading={isLoading} />
+                    <SketchDisplay
+                        sketchUrl={sketchUrl}
+                        isLoading={isLoading && !assetProgress.sketch}
+                        onRetry={houseSpec && !isLoading ? handleRetrySketch : undefined}
+                        isRetrying={regeneratingAssets.includes('sketch')}
+                        locale={locale}
+                    />
+                </div>
+                <div id="build-panel" role="tabpanel" aria-labelledby="build-tab" hidden={activeView !== 'build'}>
+                    {activeView === 'build' && (
+                        <AssemblyGuide
+                            houseSpec={houseSpec}
+                            materials={cuttingList?.materials ?? null}
+                            narration={narration}
+                            allowCraftKnife={parental.allowCraftKnife}
+                            locale={locale}
+                        />
+                    )}
+                </div>
+                <div id="gallery-panel" role="tabpanel" aria-labelledby="gallery-tab" hidden={activeView !== 'gallery'}>
+                    {activeView === 'gallery' && (
+                        <DesignGallery
+                            refreshKey={galleryRefreshKey}
+                            currentDesignId={currentDesignId}
+                            onOpen={handleOpenDesign}
+                            onDeleted={handleDesignDeleted}
+                            locale={locale}
+                        />
+                    )}
                 </div>
             </div>
-            <CuttingListDisplay cuttingList={cuttingList} isLoading={isLoading} />
+            <CuttingListDisplay
+                cuttingList={cuttingList}
+                houseSpec={houseSpec}
+                isLoading={isLoading && !assetProgress.cuttingList}
+                units={units}
+                onRegenerate={houseSpec && !isLoading ? handleRegenerateCuttingList : undefined}
+                isRegenerating={regeneratingAssets.includes('cuttingList')}
+                onScale={houseSpec && !isLoading ? handleScale : undefined}
+                locale={locale}
+                narration={narration}
+                allowCraftKnife={parental.allowCraftKnife}
+                onShare={parental.allowSharing && isSharingSupported() ? handleShare : undefined}
+            />
         </div>
+
+        <VersionTimeline history={history} onSelect={handleSelectVersion} disabled={isLoading} units={units} locale={locale} />
+        </>
+        )}
       </main>
     </div>
   );
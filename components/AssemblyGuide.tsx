@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { HouseSpec, Material } from '../types';
+import { assembleHouse } from '../services/houseAssembly';
+import { buildAssemblySteps, buildStepDiagram, describeStep, diagramShapeStyle, type StepDiagram, type StepNoteKind } from '../services/assemblyInstructions';
+import { isSpeechSupported, speak, stopSpeaking } from '../services/speech';
+import { speechOptions, type NarrationSettings } from '../services/narration';
+import { translatePartLabel, translator, type Locale, type MessageKey } from '../services/i18n';
+
+interface AssemblyGuideProps {
+  houseSpec: HouseSpec | null;
+  /** The cutting list rows the steps are worked out from. Without them the parts are worked out from the spec. */
+  materials: Material[] | null;
+  narration: NarrationSettings;
+  /** Whether a grown-up has allowed the craft knife. Without it, windows are painted on. */
+  allowCraftKnife: boolean;
+  locale: Locale;
+}
+
+const NOTE_STYLES: Record<StepNoteKind, { label: MessageKey; className: string }> = {
+  safety: { label: 'guide.note.safety', className: 'bg-red-100 text-red-800 border-red-300' },
+  drying: { label: 'guide.note.drying', className: 'bg-sky-100 text-sky-800 border-sky-300' },
+  tip: { label: 'guide.note.tip', className: 'bg-green-100 text-green-800 border-green-300' },
+};
+
+const DIAGRAM_PADDING_MM = 8;
+
+const DiagramView: React.FC<{ diagram: StepDiagram; label: string }> = ({ diagram, label }) => (
+  <svg
+    viewBox={`${-DIAGRAM_PADDING_MM} ${-DIAGRAM_PADDING_MM} ${diagram.widthMm + 2 * DIAGRAM_PADDING_MM} ${diagram.heightMm + 2 * DIAGRAM_PADDING_MM}`}
+    className="w-full max-h-72"
+    role="img"
+    aria-label={label}
+  >
+    {diagram.shapes.map((shape, index) => {
+      const style = diagramShapeStyle(shape);
+      return (
+        <polygon
+          key={index}
+          points={shape.points.map(([x, y]) => `${x},${y}`).join(' ')}
+          fill={style.fill}
+          stroke={style.stroke}
+          strokeWidth={style.widthMm}
+          strokeLinejoin="round"
+        />
+      );
+    })}
+  </svg>
+);
+
+export const AssemblyGuide: React.FC<AssemblyGuideProps> = ({ houseSpec, materials, narration, allowCraftKnife, locale }) => {
+  const t = translator(locale);
+  const [index, setIndex] = useState<number>(0);
+  const [isReading, setIsReading] = useState<boolean>(false);
+
+  const assembly = useMemo(() => (houseSpec ? assembleHouse(houseSpec, materials) : null), [houseSpec, materials]);
+  const steps = useMemo(
+    () => (houseSpec ? buildAssemblySteps(houseSpec, materials, { allowCraftKnife, locale }) : []),
+    [houseSpec, materials, allowCraftKnife, locale]
+  );
+
+  // A new house starts again from the first step.
+  useEffect(() => setIndex(0), [houseSpec]);
+
+  // Reading stops when the step changes or the guide goes away.
+  useEffect(() => {
+    return () => {
+      stopSpeaking();
+      setIsReading(false);
+    };
+  }, [index, steps]);
+
+  if (!houseSpec || !assembly || steps.length === 0) {
+    return null;
+  }
+
+  const current = Math.min(index, steps.length - 1);
+  const step = steps[current];
+  const diagram = buildStepDiagram(assembly, steps, current);
+
+  const handleReadAloud = () => {
+    if (isReading) {
+      stopSpeaking();
+      setIsReading(false);
+      return;
+    }
+    setIsReading(true);
+    speak(describeStep(step, current + 1, steps.length, locale), () => setIsReading(false), speechOptions(narration, locale));
+  };
+
+  const navButtonClass = "px-4 py-2 font-bold rounded-lg shadow-sm transition-colors duration-300 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-lg border border-sky-200 animate-fade-in">
+      <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center">{t('guide.title')}</h2>
+
+      <nav aria-label={t('guide.steps')} className="flex flex-wrap justify-center gap-1 mb-4">
+        {steps.map((item, stepIndex) => (
+          <button
+            key={stepIndex}
+            type="button"
+            onClick={() => setIndex(stepIndex)}
+            aria-current={stepIndex === current ? 'step' : undefined}
+            aria-label={t('guide.stepButton', { number: stepIndex + 1, title: item.title })}
+            className={`w-9 h-9 rounded-full font-bold transition-colors duration-200 ${
+              stepIndex === current ? 'bg-yellow-400 text-sky-900' : stepIndex < current ? 'bg-sky-600 text-white' : 'bg-sky-100 text-sky-700 hover:bg-sky-200'
+            }`}
+          >
+            {stepIndex + 1}
+          </button>
+        ))}
+      </nav>
+
+      <section aria-live="polite" aria-labelledby="build-step-title">
+        <h3 id="build-step-title" className="text-xl font-bold text-sky-800">
+          {t('guide.step', { number: current + 1, total: steps.length, title: step.title })}
+        </h3>
+
+        {diagram && (
+          <div className="my-4 rounded-2xl bg-sky-50 p-2">
+            <DiagramView diagram={diagram} label={t('guide.diagram', { title: step.title })} />
+          </div>
+        )}
+
+        <p className="mt-2 text-lg text-gray-700">{step.instruction}</p>
+
+        {step.parts.length > 0 && (
+          <div className="mt-3">
+            <p className="text-sm font-semibold text-sky-800">{t('guide.parts')}</p>
+            <ul className="flex flex-wrap gap-2 mt-1">
+              {step.parts.map(part => (
+                <li key={part.id} className="px-2 py-1 text-sm rounded-md bg-yellow-100 text-sky-900">
+                  <span className="font-bold">{part.id}</span> {translatePartLabel(locale, part.label)}{part.count > 1 ? ` x${part.count}` : ''}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {step.joins.length > 0 && (
+          <ul className="mt-3 list-disc list-inside text-gray-700">
+            {step.joins.map(join => <li key={join}>{join}</li>)}
+          </ul>
+        )}
+
+        {step.notes.length > 0 && (
+          <ul className="mt-3 space-y-2">
+            {step.notes.map(note => (
+              <li key={note.text} className={`p-2 rounded-lg border text-sm ${NOTE_STYLES[note.kind].className}`}>
+                <span className="font-bold">{t(NOTE_STYLES[note.kind].label)}:</span> {note.text}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <div className="mt-6 flex flex-wrap items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => setIndex(current - 1)}
+          disabled={current === 0}
+          className={`${navButtonClass} bg-sky-100 text-sky-800 hover:bg-sky-200`}
+        >
+          {t('guide.previous')}
+        </button>
+        {isSpeechSupported() && (
+          <button
+            type="button"
+            onClick={handleReadAloud}
+            aria-pressed={isReading}
+            className={`${navButtonClass} bg-white text-sky-700 border border-sky-200 hover:bg-sky-100`}
+          >
+            {isReading ? t('narration.stop') : t('guide.readAloud')}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setIndex(current + 1)}
+          disabled={current === steps.length - 1}
+          className={`${navButtonClass} bg-yellow-400 text-sky-900 hover:bg-yellow-500`}
+        >
+          {t('guide.next')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import type { DesignVersion, VersionHistory } from '../types';
+import { VIEWS } from '../constants';
+import { getVersion, summarizeVersion } from '../services/versionHistory';
+import { diffMaterials, diffText, type DiffStatus } from '../services/versionDiff';
+import { formatDimensions, type UnitSystem } from '../services/units';
+import { translate, translateName, translatePartLabel, translator, type Locale, type MessageKey, type Translate } from '../services/i18n';
+
+interface CompareViewProps {
+  history: VersionHistory;
+  /** The versions shown first, usually the current one and the one it was edited from. */
+  initialBeforeId: string;
+  initialAfterId: string;
+  units: UnitSystem;
+  locale: Locale;
+  onKeep: (keepId: string, discardId: string) => void;
+  onClose: () => void;
+}
+
+const versionLabel = (version: DesignVersion, history: VersionHistory, units: UnitSystem, locale: Locale): string =>
+  translate(locale, 'version.label', { number: version.id.slice(1), summary: summarizeVersion(version, history, units, locale) });
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  same: '',
+  added: 'bg-green-50',
+  removed: 'bg-red-50',
+  changed: 'bg-yellow-50',
+};
+
+const STATUS_LABELS: Record<DiffStatus, MessageKey> = {
+  same: 'compare.status.same',
+  added: 'compare.status.added',
+  removed: 'compare.status.removed',
+  changed: 'compare.status.changed',
+};
+
+const ViewImage: React.FC<{ url: string | undefined; label: string; versionId: string; t: Translate }> = ({ url, label, versionId, t }) => (
+  <div className="aspect-square w-full overflow-hidden rounded-xl border bg-white flex items-center justify-center">
+    {url
+      ? <img src={url} alt={t('compare.picture', { view: label, number: versionId.slice(1) })} className="w-full h-full object-cover" />
+      : <p className="text-sm text-gray-500 p-2 text-center">{t('compare.noPicture')}</p>}
+  </div>
+);
+
+export const CompareView: React.FC<CompareViewProps> = ({ history, initialBeforeId, initialAfterId, units, locale, onKeep, onClose }) => {
+  const t = translator(locale);
+  const [beforeId, setBeforeId] = useState<string>(initialBeforeId);
+  const [afterId, setAfterId] = useState<string>(initialAfterId);
+
+  const before = getVersion(history, beforeId);
+  const after = getVersion(history, afterId);
+
+  const textDiff = useMemo(
+    () => diffText(before?.detailedDescription ?? '', after?.detailedDescription ?? ''),
+    [before, after]
+  );
+  const materialRows = useMemo(
+    () => diffMaterials(before?.cuttingList?.materials ?? [], after?.cuttingList?.materials ?? [], units, locale),
+    [before, after, units, locale]
+  );
+
+  if (!before || !after) {
+    return null;
+  }
+
+  const selectClass = "w-full p-2 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300 focus:border-yellow-500";
+  const labelClass = "block mb-1 text-sm font-semibold text-sky-800";
+  const keepClass = "w-full mt-2 px-4 py-2 font-bold rounded-lg shadow-md bg-yellow-400 text-sky-900 hover:bg-yellow-500 transition-colors duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed";
+  const sameVersion = before.id === after.id;
+
+  const handleKeep = (keep: DesignVersion, discard: DesignVersion) => {
+    if (window.confirm(t('compare.confirmKeep', { version: versionLabel(keep, history, units, locale), discard: discard.id.slice(1) }))) {
+      onKeep(keep.id, discard.id);
+    }
+  };
+
+  const columns: Array<{ version: DesignVersion; other: DesignVersion; id: string; setId: (id: string) => void; title: string }> = [
+    { version: before, other: after, id: 'compare-before', setId: setBeforeId, title: t('compare.before') },
+    { version: after, other: before, id: 'compare-after', setId: setAfterId, title: t('compare.after') },
+  ];
+
+  return (
+    <section className="w-full bg-white/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-lg border border-sky-200 animate-fade-in" aria-labelledby="compare-heading">
+      <div className="flex items-center mb-4">
+        <h2 id="compare-heading" className="text-2xl font-bold text-sky-800 flex-1 text-center">{t('compare.title')}</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 font-semibold text-sky-700 bg-white rounded-lg shadow-sm hover:bg-sky-100 transition-colors duration-300 border border-sky-200"
+        >
+          {t('compare.done')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        {columns.map(({ version, other, id, setId, title }) => (
+          <div key={id}>
+            <label htmlFor={id} className={labelClass}>{title}</label>
+            <select id={id} value={version.id} onChange={e => setId(e.target.value)} className={selectClass}>
+              {history.versions.map(option => (
+                <option key={option.id} value={option.id}>{versionLabel(option, history, units, locale)}</option>
+              ))}
+            </select>
+            <button type="button" onClick={() => handleKeep(version, other)} disabled={sameVersion} className={keepClass}>
+              {t('compare.keep', { number: version.id.slice(1) })}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {sameVersion && (
+        <p className="text-center text-sky-600 mb-6" role="status">{t('compare.same')}</p>
+      )}
+
+      <h3 className="text-xl font-bold text-sky-800 mb-2">{t('compare.sideBySide')}</h3>
+      <div className="space-y-4 mb-6">
+        {VIEWS.map(label => (
+          <figure key={label} role="group" aria-label={translateName(locale, 'asset', label)}>
+            <div className="grid grid-cols-2 gap-4">
+              {columns.map(({ version, id }) => (
+                <ViewImage key={id} url={version.imageViews?.find(view => view.label === label)?.url} label={translateName(locale, 'asset', label)} versionId={version.id} t={t} />
+              ))}
+            </div>
+            <figcaption className="text-center font-semibold text-sky-700 mt-1">{translateName(locale, 'asset', label)}</figcaption>
+          </figure>
+        ))}
+      </div>
+
+      <h3 className="text-xl font-bold text-sky-800 mb-2">{t('compare.description')}</h3>
+      <p className="bg-white rounded-xl border border-sky-200 p-4 mb-2 leading-relaxed whitespace-pre-line">
+        {textDiff.map((segment, index) =>
+          segment.status === 'added' ? (
+            <ins key={index} className="bg-green-100 text-green-900 no-underline rounded px-0.5">{segment.text}</ins>
+          ) : segment.status === 'removed' ? (
+            <del key={index} className="bg-red-100 text-red-800 rounded px-0.5">{segment.text}</del>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </p>
+      <p className="text-sm text-gray-500 mb-6">
+        <ins className="bg-green-100 text-green-900 no-underline rounded px-0.5">{t('compare.green')}</ins> {t('compare.greenWords', { number: after.id.slice(1) })}{' '}
+        <del className="bg-red-100 text-red-800 rounded px-0.5">{t('compare.red')}</del> {t('compare.redWords', { number: before.id.slice(1) })}
+      </p>
+
+      <h3 className="text-xl font-bold text-sky-800 mb-2">{t('compare.whatToCut')}</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <caption className="sr-only">{t('compare.caption', { before: before.id.slice(1), after: after.id.slice(1) })}</caption>
+          <thead>
+            <tr className="bg-sky-100">
+              <th scope="col" className="p-3 font-bold text-sky-800 rounded-tl-lg">{t('list.part')}</th>
+              <th scope="col" className="p-3 font-bold text-sky-800">{t('compare.whatChanged')}</th>
+              <th scope="col" className="p-3 font-bold text-sky-800">{t('version.number', { number: before.id.slice(1) })}</th>
+              <th scope="col" className="p-3 font-bold text-sky-800">{t('version.number', { number: after.id.slice(1) })}</th>
+              <th scope="col" className="p-3 font-bold text-sky-800 text-center rounded-tr-lg">{t('compare.pieces')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {materialRows.map(row => (
+              <tr key={row.key} className={`border-b border-sky-100 ${STATUS_STYLES[row.status]}`}>
+                <td className="p-3 font-semibold">
+                  {(row.after ?? row.before)?.part ? translatePartLabel(locale, row.key) : translateName(locale, 'material', row.key)}
+                </td>
+                <td className="p-3">
+                  <span className="font-semibold">{t(STATUS_LABELS[row.status])}</span>
+                  {row.changes.length > 0 && <span className="block text-sm text-gray-600">{row.changes.join('; ')}</span>}
+                </td>
+                <td className="p-3 text-sm">{row.before ? `${row.before.quantity} × ${formatDimensions(row.before.dimensions, units)}` : '—'}</td>
+                <td className="p-3 text-sm">{row.after ? `${row.after.quantity} × ${formatDimensions(row.after.dimensions, units)}` : '—'}</td>
+                <td className="p-3 text-center font-bold">
+                  {row.quantityDelta > 0 ? `+${row.quantityDelta}` : row.quantityDelta < 0 ? row.quantityDelta : '±0'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
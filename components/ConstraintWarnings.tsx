@@ -0,0 +1,68 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { CuttingList, DesignConstraints, HouseSpec } from '../types';
+import { checkDesignConstraints } from '../services/designConstraints';
+import { loadCatalog, loadInventory, type Inventory, type MaterialsCatalog } from '../services/materialsCatalog';
+import { buildShoppingList } from '../services/shoppingList';
+import type { UnitSystem } from '../services/units';
+import { translator, type Locale } from '../services/i18n';
+
+interface ConstraintWarningsProps {
+  houseSpec: HouseSpec | null;
+  cuttingList: CuttingList | null;
+  constraints: DesignConstraints;
+  units: UnitSystem;
+  locale: Locale;
+  /** Remakes the design so it keeps to the rules. */
+  onFix?: () => void;
+}
+
+/**
+ * Flags a design that breaks the building rules, e.g. one made before the rules changed or one
+ * the model couldn't fit, with a way to make it again.
+ */
+export const ConstraintWarnings: React.FC<ConstraintWarningsProps> = ({ houseSpec, cuttingList, constraints, units, locale, onFix }) => {
+  const t = translator(locale);
+  const [pricing, setPricing] = useState<{ catalog: MaterialsCatalog; inventory: Inventory } | null>(null);
+  const hasBudget = !!constraints.budget;
+
+  // Prices are only needed to check the budget. They are read again for every design, in case
+  // they were changed in the shopping list.
+  useEffect(() => {
+    if (!hasBudget || !cuttingList) return;
+    let isCurrent = true;
+    Promise.all([loadCatalog(), loadInventory()]).then(([catalog, inventory]) => {
+      if (isCurrent) setPricing({ catalog, inventory });
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [hasBudget, cuttingList]);
+
+  const problems = useMemo(() => {
+    if (!houseSpec) return [];
+    const shopping = cuttingList && pricing ? buildShoppingList(cuttingList, houseSpec, pricing.catalog, pricing.inventory) : null;
+    return checkDesignConstraints(houseSpec, cuttingList, constraints, shopping, units, locale);
+  }, [houseSpec, cuttingList, constraints, pricing, units, locale]);
+
+  if (problems.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-3xl rounded-2xl bg-yellow-50 border-4 border-dashed border-yellow-300 p-4 text-yellow-800 animate-fade-in" role="status">
+      <p className="font-bold">{t('rules.broken')}</p>
+      <ul className="list-disc list-inside">
+        {problems.map(problem => <li key={problem}>{problem}</li>)}
+      </ul>
+      {onFix && (
+        <button
+          type="button"
+          onClick={onFix}
+          className="mt-3 px-6 py-2 font-bold rounded-xl shadow-md bg-yellow-400 text-sky-900 hover:bg-yellow-500 transition-colors duration-300"
+        >
+          {t('rules.fix')}
+        </button>
+      )}
+    </div>
+  );
+};
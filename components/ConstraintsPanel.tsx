@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import type { AgeBand, DesignConstraints, SheetMaterial, SizePreset, ToolLevel } from '../types';
+import { AGE_BANDS, SIZE_PRESETS, TOOL_LABELS } from '../services/designConstraints';
+import { SHEET_MATERIAL_NAMES } from '../services/cuttingListEngine';
+import { formatPrice, loadCatalog } from '../services/materialsCatalog';
+import { formatLength, formatRange, type UnitSystem } from '../services/units';
+import { translateName, translator, type Locale } from '../services/i18n';
+
+interface ConstraintsPanelProps {
+  constraints: DesignConstraints;
+  onChange: (constraints: DesignConstraints) => void;
+  disabled: boolean;
+  units: UnitSystem;
+  /** Whether a grown-up allows the craft knife. Without it, the rules are for scissors whatever is chosen here. */
+  allowCraftKnife: boolean;
+  locale: Locale;
+}
+
+const DEFAULT_BUDGET = 15;
+
+/**
+ * Keeps the rules possible: scissors can't cut foam board, so cardboard is always to hand with them.
+ */
+const normalize = (constraints: DesignConstraints): DesignConstraints =>
+  constraints.tools === 'scissors' && !constraints.sheetMaterials.includes('cardboard')
+    ? { ...constraints, sheetMaterials: ['cardboard', ...constraints.sheetMaterials] }
+    : constraints;
+
+/**
+ * The building rules next to the idea box: how big, how much, what's to hand, which tools and
+ * who is building. Every design is made and checked against them.
+ */
+export const ConstraintsPanel: React.FC<ConstraintsPanelProps> = ({ constraints, onChange, disabled, units, allowCraftKnife, locale }) => {
+  const t = translator(locale);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [currency, setCurrency] = useState<string>('USD');
+
+  // The budget is in the same currency as the prices in the materials catalog.
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCurrent = true;
+    loadCatalog().then(catalog => {
+      if (isCurrent) setCurrency(catalog.currency);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [isOpen]);
+
+  const update = (changes: Partial<DesignConstraints>) => onChange(normalize({ ...constraints, ...changes }));
+
+  const toggleSheet = (material: SheetMaterial, checked: boolean) => {
+    const sheetMaterials = checked
+      ? [...constraints.sheetMaterials, material]
+      : constraints.sheetMaterials.filter(item => item !== material);
+    if (sheetMaterials.length > 0) update({ sheetMaterials });
+  };
+
+  const { budget } = constraints;
+  // The choice is kept for when the craft knife is allowed again, but scissors are what designs are made for.
+  const tools: ToolLevel = allowCraftKnife ? constraints.tools : 'scissors';
+  const preset: SizePreset = constraints.size;
+  const ageBand: AgeBand = constraints.ageBand;
+  const size = SIZE_PRESETS[preset];
+  const summary = [
+    t(`size.${preset}`),
+    constraints.sheetMaterials.map(material => translateName(locale, 'material', SHEET_MATERIAL_NAMES[material])).join(` ${t('rules.or')} `),
+    t(`tools.${tools}.short`),
+    t('rules.agesSummary', { age: t(`age.${ageBand}`) }),
+    budget ? t('rules.upTo', { price: formatPrice(budget.amount, budget.currency) }) : t('rules.noBudget'),
+  ].join(' · ');
+
+  const labelClass = "block mb-1 text-sm font-semibold text-sky-800";
+  const selectClass = "w-full p-2 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300 disabled:bg-gray-100";
+
+  return (
+    <div className="mt-4 text-left">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-controls="constraints-panel"
+        className="w-full px-4 py-2 text-sm font-semibold rounded-lg bg-sky-100 text-sky-800 hover:bg-sky-200 transition-colors duration-300 text-left"
+      >
+        <span className="mr-2">{isOpen ? '▾' : '▸'}</span>
+        {t('rules.heading')} <span className="font-normal">{summary}</span>
+      </button>
+
+      {isOpen && (
+        <fieldset id="constraints-panel" disabled={disabled} className="mt-2 p-4 rounded-xl bg-white/80 border border-sky-200 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <legend className="sr-only">{t('rules.title')}</legend>
+
+          <div>
+            <label htmlFor="constraint-size" className={labelClass}>{t('rules.size')}</label>
+            <select
+              id="constraint-size"
+              value={constraints.size}
+              onChange={e => update({ size: e.target.value as SizePreset })}
+              className={selectClass}
+              aria-describedby="constraint-size-help"
+            >
+              {(Object.keys(SIZE_PRESETS) as SizePreset[]).map(size => <option key={size} value={size}>{t(`size.${size}`)}</option>)}
+            </select>
+            <p id="constraint-size-help" className="mt-1 text-xs text-gray-500">
+              {size.maxTotalHeightMm
+                ? t('rules.sizeHelpRoof', {
+                  width: formatRange(size.widthMm.min, size.widthMm.max, units, locale),
+                  height: formatRange(size.wallHeightMm.min, size.wallHeightMm.max, units, locale),
+                  max: formatLength(size.maxTotalHeightMm, units),
+                })
+                : t('rules.sizeHelp', {
+                  width: formatRange(size.widthMm.min, size.widthMm.max, units, locale),
+                  height: formatRange(size.wallHeightMm.min, size.wallHeightMm.max, units, locale),
+                })}
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="constraint-age" className={labelClass}>{t('rules.who')}</label>
+            <select
+              id="constraint-age"
+              value={constraints.ageBand}
+              onChange={e => update({ ageBand: e.target.value as AgeBand })}
+              className={selectClass}
+            >
+              {(Object.keys(AGE_BANDS) as AgeBand[]).map(age => <option key={age} value={age}>{t('rules.ages', { age: t(`age.${age}`) })}</option>)}
+            </select>
+          </div>
+
+          <div role="group" aria-labelledby="constraint-materials-label">
+            <p id="constraint-materials-label" className={labelClass}>{t('rules.materials')}</p>
+            {(Object.keys(SHEET_MATERIAL_NAMES) as SheetMaterial[]).map(material => (
+              <label key={material} className="mr-4 inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={constraints.sheetMaterials.includes(material)}
+                  onChange={e => toggleSheet(material, e.target.checked)}
+                  className="w-4 h-4 accent-yellow-400"
+                />
+                {translateName(locale, 'material', SHEET_MATERIAL_NAMES[material])}
+              </label>
+            ))}
+          </div>
+
+          <div role="radiogroup" aria-labelledby="constraint-tools-label">
+            <p id="constraint-tools-label" className={labelClass}>{t('rules.tools')}</p>
+            {(Object.keys(TOOL_LABELS) as ToolLevel[]).map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="constraint-tools"
+                  value={option}
+                  checked={tools === option}
+                  onChange={() => update({ tools: option })}
+                  disabled={!allowCraftKnife && option === 'craft-knife'}
+                  className="w-4 h-4 accent-yellow-400"
+                />
+                {t(`tools.${option}`)}
+              </label>
+            ))}
+            {!allowCraftKnife && (
+              <p className="mt-1 text-xs text-gray-500">{t('rules.knifeOff')}</p>
+            )}
+            {tools === 'scissors' && (
+              <p className="mt-1 text-xs text-gray-500">{t('rules.scissorsHelp')}</p>
+            )}
+          </div>
+
+          <div className="sm:col-span-2 flex flex-wrap items-center gap-2">
+            <label className="inline-flex items-center gap-2 text-sm font-semibold text-sky-800">
+              <input
+                type="checkbox"
+                checked={!!budget}
+                onChange={e => update({ budget: e.target.checked ? { amount: DEFAULT_BUDGET, currency } : undefined })}
+                className="w-4 h-4 accent-yellow-400"
+              />
+              {t('rules.spendAtMost')}
+            </label>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              aria-label={t('rules.budget')}
+              value={budget?.amount ?? DEFAULT_BUDGET}
+              onChange={e => update({ budget: { amount: Math.max(0, Number(e.target.value) || 0), currency: budget?.currency ?? currency } })}
+              disabled={disabled || !budget}
+              className="w-24 p-1 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300 disabled:bg-gray-100"
+            />
+            <span className="text-sm text-gray-700">{budget?.currency ?? currency}</span>
+            {budget && budget.currency !== currency && (
+              <button
+                type="button"
+                onClick={() => update({ budget: { ...budget, currency } })}
+                className="px-2 py-1 text-xs font-semibold rounded-lg bg-sky-100 text-sky-800 hover:bg-sky-200"
+              >
+                {t('rules.switchCurrency', { currency })}
+              </button>
+            )}
+          </div>
+        </fieldset>
+      )}
+    </div>
+  );
+};
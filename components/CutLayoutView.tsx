@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import type { Material, PartGeometry } from '../types';
+import { nestParts, STOCK_SHEETS, type GrainDirection, type PlacedPiece } from '../services/sheetNesting';
+import { formatLength, formatSize, type UnitSystem } from '../services/units';
+import { translateName, translatePartLabel, translator, type Locale } from '../services/i18n';
+
+interface CutLayoutViewProps {
+  materials: Material[];
+  units: UnitSystem;
+  locale: Locale;
+}
+
+const PIECE_COLORS = ['#fde68a', '#bae6fd', '#bbf7d0', '#fbcfe8', '#ddd6fe', '#fed7aa'];
+
+/**
+ * Maps a point of the part (origin bottom-left, y up) onto the sheet (origin top-left, y down),
+ * turning it a quarter turn when the planner rotated the piece.
+ */
+const toSheetPoint = (piece: PlacedPiece, part: PartGeometry, xMm: number, yMm: number): string => {
+  const [x, y] = piece.rotated ? [yMm, xMm] : [xMm, part.heightMm - yMm];
+  return `${piece.xMm + x},${piece.yMm + y}`;
+};
+
+const PieceShape: React.FC<{ piece: PlacedPiece; part: PartGeometry | undefined; color: string; locale: Locale }> = ({ piece, part, color, locale }) => {
+  const fontSize = Math.max(8, Math.min(18, Math.min(piece.widthMm, piece.heightMm) / 4));
+  return (
+    <g>
+      <rect x={piece.xMm} y={piece.yMm} width={piece.widthMm} height={piece.heightMm} fill="none" stroke="#94a3b8" strokeDasharray="4 3" />
+      {part?.outline ? (
+        <polygon points={part.outline.map(p => toSheetPoint(piece, part, p.xMm, p.yMm)).join(' ')} fill={color} stroke="#0c4a6e" strokeWidth={1.5} />
+      ) : (
+        <rect x={piece.xMm} y={piece.yMm} width={piece.widthMm} height={piece.heightMm} fill={color} stroke="#0c4a6e" strokeWidth={1.5} />
+      )}
+      <text x={piece.xMm + piece.widthMm / 2} y={piece.yMm + piece.heightMm / 2} fontSize={fontSize} textAnchor="middle" dominantBaseline="middle" fill="#0c4a6e" fontWeight="bold">
+        {piece.partId}
+      </text>
+      <text x={piece.xMm + piece.widthMm / 2} y={piece.yMm + piece.heightMm / 2 + fontSize} fontSize={fontSize * 0.6} textAnchor="middle" dominantBaseline="middle" fill="#334155">
+        {translatePartLabel(locale, piece.label)}
+      </text>
+    </g>
+  );
+};
+
+export const CutLayoutView: React.FC<CutLayoutViewProps> = ({ materials, units, locale }) => {
+  const t = translator(locale);
+  const [sheetId, setSheetId] = useState<string>(STOCK_SHEETS[0].id);
+  const [kerfMm, setKerfMm] = useState<number>(1);
+  const [grain, setGrain] = useState<GrainDirection>('any');
+
+  const sheet = STOCK_SHEETS.find(s => s.id === sheetId) ?? STOCK_SHEETS[0];
+  const result = useMemo(() => nestParts(materials, { sheet, kerfMm, grain }), [materials, sheet, kerfMm, grain]);
+  const partsById = useMemo(() => new Map(materials.filter(m => m.part).map(m => [m.part!.id, m.part!])), [materials]);
+  const colorFor = (partId: string) => PIECE_COLORS[(parseInt(partId.replace(/\D/g, ''), 10) || 0) % PIECE_COLORS.length];
+
+  const selectClass = "w-full p-2 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300 focus:border-yellow-500";
+  const labelClass = "block mb-1 text-sm font-semibold text-sky-800";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="layout-sheet" className={labelClass}>{t('layout.sheet')}</label>
+          <select id="layout-sheet" value={sheetId} onChange={e => setSheetId(e.target.value)} className={selectClass}>
+            {STOCK_SHEETS.map(s => <option key={s.id} value={s.id}>{translateName(locale, 'paper', s.label)} ({formatSize([s.widthMm, s.heightMm], units)})</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="layout-kerf" className={labelClass}>{t('layout.kerf')}</label>
+          <input
+            id="layout-kerf"
+            type="number"
+            min={0}
+            max={10}
+            step={0.5}
+            value={kerfMm}
+            onChange={e => setKerfMm(Math.max(0, Number(e.target.value) || 0))}
+            className={selectClass}
+            aria-describedby={units === 'imperial' ? 'layout-kerf-help' : undefined}
+          />
+          {units === 'imperial' && (
+            // Blades are sold by millimetres even where rulers are in inches, so the cut width stays in millimetres.
+            <p id="layout-kerf-help" className="mt-1 text-xs text-gray-500">{t('layout.kerfAbout', { length: formatLength(kerfMm, units) })}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="layout-grain" className={labelClass}>{t('layout.grain')}</label>
+          <select id="layout-grain" value={grain} onChange={e => setGrain(e.target.value as GrainDirection)} className={selectClass}>
+            <option value="any">{t('layout.grain.any')}</option>
+            <option value="vertical">{t('layout.grain.vertical')}</option>
+            <option value="horizontal">{t('layout.grain.horizontal')}</option>
+          </select>
+        </div>
+      </div>
+
+      <p className="text-center text-lg text-sky-800" role="status">
+        {result.sheetCount === 1
+          ? t('layout.sheetNeeded', { waste: result.wastePercent })
+          : t('layout.sheetsNeeded', { count: result.sheetCount, waste: result.wastePercent })}
+      </p>
+
+      {result.unplaced.length > 0 && (
+        <p className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 p-3 rounded-md" role="alert">
+          {t('layout.tooBig', { parts: result.unplaced.map(p => `${p.partId} ${translatePartLabel(locale, p.label)}`).join(', ') })}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {result.sheets.map((layout, index) => (
+          <figure key={index} className="bg-white rounded-xl border border-sky-200 p-2">
+            <svg
+              viewBox={`0 0 ${sheet.widthMm} ${sheet.heightMm}`}
+              className="w-full h-auto"
+              role="img"
+              aria-label={t('layout.sheetPieces', { number: index + 1, parts: layout.pieces.map(p => p.partId).join(', ') })}
+            >
+              <rect x={0} y={0} width={sheet.widthMm} height={sheet.heightMm} fill="#f8fafc" stroke="#0f172a" strokeWidth={2} />
+              {layout.pieces.map(piece => (
+                <PieceShape key={`${piece.partId}-${piece.copy}`} piece={piece} part={partsById.get(piece.partId)} color={colorFor(piece.partId)} locale={locale} />
+              ))}
+            </svg>
+            <figcaption className="text-center text-sm font-semibold text-sky-700 mt-1">{t('layout.sheetNumber', { number: index + 1 })}</figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+};
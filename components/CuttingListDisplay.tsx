@@ -1,29 +1,162 @@
 
-import React from 'react';
-import type { CuttingList } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { CuttingList, HouseSpec, PartCutout } from '../types';
 import { LoadingSpinner } from './LoadingSpinner';
+import { CutLayoutView } from './CutLayoutView';
+import { TemplateDownloads } from './TemplateDownloads';
+import { ShoppingListView } from './ShoppingListView';
+import { ScaleControl } from './ScaleControl';
+import { formatDimensions, formatLength, formatSize, type UnitSystem } from '../services/units';
+import { narrateCuttingList, speechOptions, type NarrationSettings } from '../services/narration';
+import { isSpeechSupported, speakAll, stopSpeaking } from '../services/speech';
+import { translateName, translatePartLabel, translator, type Locale } from '../services/i18n';
 
 interface CuttingListProps {
   cuttingList: CuttingList | null;
+  houseSpec: HouseSpec | null;
   isLoading: boolean;
+  units: UnitSystem;
+  /** Rebuilds just the cutting list (and the house name) from the current house model. */
+  onRegenerate?: () => void;
+  isRegenerating?: boolean;
+  /** Makes the whole house bigger or smaller and works every part out again. */
+  onScale?: (factor: number) => void;
+  locale: Locale;
+  narration: NarrationSettings;
+  /** Whether the printed build steps may use a craft knife. */
+  allowCraftKnife: boolean;
+  /** Opens the share sheet for the design; left out when a grown-up hasn't allowed sharing. */
+  onShare?: () => void;
 }
 
-const Placeholder: React.FC = () => (
+const Placeholder: React.FC<{ locale: Locale }> = ({ locale }) => (
     <div className="w-full h-64 bg-gray-200/80 rounded-2xl flex items-center justify-center">
-        <LoadingSpinner />
+        <LoadingSpinner locale={locale} />
     </div>
 );
 
+type ListTab = 'materials' | 'layout' | 'shopping';
 
-export const CuttingListDisplay: React.FC<CuttingListProps> = ({ cuttingList, isLoading }) => {
+// What is read, in the order of `narrateCuttingList`: the name, the description, then the rows.
+const NAME_TEXT = 0;
+const DESCRIPTION_TEXT = 1;
+const FIRST_ROW_TEXT = 2;
+
+interface WordRange {
+  text: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Text with the word being read marked, so a child can follow along.
+ */
+const HighlightedText: React.FC<{ text: string; word?: WordRange | null }> = ({ text, word }) =>
+  word ? (
+    <>
+      {text.slice(0, word.start)}
+      <mark className="bg-yellow-300 text-inherit rounded">{text.slice(word.start, word.end)}</mark>
+      {text.slice(word.end)}
+    </>
+  ) : (
+    <>{text}</>
+  );
+
+export const CuttingListDisplay: React.FC<CuttingListProps> = ({ cuttingList, houseSpec, isLoading, units, onRegenerate, isRegenerating = false, onScale, locale, narration, allowCraftKnife, onShare }) => {
+  const t = translator(locale);
+  const [activeTab, setActiveTab] = useState<ListTab>('materials');
+  // The text being read aloud, and the word within it.
+  const [readingText, setReadingText] = useState<number | null>(null);
+  const [word, setWord] = useState<WordRange | null>(null);
+  // Skipping starts a new reading; events from the one it replaced are ignored.
+  const readingRef = useRef<number>(0);
+  const isReadingRef = useRef<boolean>(false);
+
+  const texts = useMemo(() => (cuttingList ? narrateCuttingList(cuttingList, units, locale) : []), [cuttingList, units, locale]);
+
+  const stopReading = () => {
+    readingRef.current += 1;
+    // Other things may be speaking, such as progress being read out; only this reading is stopped.
+    if (isReadingRef.current) stopSpeaking();
+    isReadingRef.current = false;
+    setReadingText(null);
+    setWord(null);
+  };
+
+  const readFrom = (from: number) => {
+    const reading = ++readingRef.current;
+    const isCurrent = () => reading === readingRef.current;
+    isReadingRef.current = true;
+    setActiveTab('materials');
+    setReadingText(from);
+    setWord(null);
+    speakAll(texts.slice(from), {
+      onStart: index => {
+        if (!isCurrent()) return;
+        setReadingText(from + index);
+        setWord(null);
+      },
+      onWord: (index, start, end) => {
+        if (isCurrent()) setWord({ text: from + index, start, end });
+      },
+      onEnd: () => {
+        if (!isCurrent()) return;
+        isReadingRef.current = false;
+        setReadingText(null);
+        setWord(null);
+      },
+    }, speechOptions(narration, locale));
+  };
+
+  // Reading stops when the list changes or goes away.
+  useEffect(() => stopReading, [texts, isLoading, isRegenerating]);
+
+  // Keeps the row being read in sight.
+  useEffect(() => {
+    if (readingText !== null && readingText >= FIRST_ROW_TEXT) {
+      document.getElementById(`material-row-${readingText - FIRST_ROW_TEXT}`)?.scrollIntoView?.({ block: 'nearest' });
+    }
+  }, [readingText]);
+
+  // While reading, the arrows skip between rows and Escape stops, wherever the focus is in the list.
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (readingText === null || event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+    if (event.key === 'Escape') {
+      stopReading();
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const next = readingText + (event.key === 'ArrowDown' ? 1 : -1);
+      if (next >= 0 && next < texts.length) readFrom(next);
+    }
+  };
+
+  const wordIn = (text: number): WordRange | null => (word?.text === text ? word : null);
+  const readingClass = (text: number): string => (readingText === text ? 'bg-yellow-100' : '');
   const containerClass = "bg-white/80 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-sky-200";
   
-  if (isLoading) {
+  if (isLoading || isRegenerating) {
     return (
         <div className={containerClass}>
-            <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center">Calculating the materials...</h2>
-            <Placeholder />
+            <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center">{t('list.loading')}</h2>
+            <Placeholder locale={locale} />
+        </div>
+    );
+  }
+
+  if (!cuttingList && onRegenerate) {
+    return (
+      <div className={containerClass}>
+        <div className="w-full rounded-2xl bg-yellow-50 border-4 border-dashed border-yellow-300 flex flex-col items-center justify-center gap-4 p-6 text-center" role="alert">
+          <p className="text-lg text-yellow-800">{t('list.missing')}</p>
+          <button
+            type="button"
+            onClick={onRegenerate}
+            className="px-6 py-3 font-bold rounded-xl shadow-md bg-yellow-400 text-sky-900 hover:bg-yellow-500 transition-colors duration-300"
+          >
+            {t('list.tryAgain')}
+          </button>
         </div>
+      </div>
     );
   }
 
@@ -31,32 +164,147 @@ export const CuttingListDisplay: React.FC<CuttingListProps> = ({ cuttingList, is
     return null;
   }
 
+  const hasParts = cuttingList.materials.some(material => material.part);
+
+  const TabButton: React.FC<{ tab: ListTab; label: string }> = ({ tab, label }) => (
+    <button
+      id={`${tab}-list-tab`}
+      role="tab"
+      aria-selected={activeTab === tab}
+      aria-controls={`${tab}-list-panel`}
+      onClick={() => setActiveTab(tab)}
+      className={`px-4 py-2 font-bold rounded-lg transition-colors duration-300 ${
+        activeTab === tab ? 'bg-sky-600 text-white' : 'bg-sky-100 text-sky-700 hover:bg-sky-200'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
   return (
-    <div className={`${containerClass} animate-fade-in`}>
-      <h2 className="text-2xl font-bold text-sky-800 mb-2 text-center">{cuttingList.houseName}</h2>
-      <p className="text-center text-gray-600 mb-6 italic">"{cuttingList.description}"</p>
-      
-      <div className="overflow-x-auto">
+    <div className={`${containerClass} animate-fade-in`} onKeyDown={handleKeyDown}>
+      <h2 className={`text-2xl font-bold text-sky-800 mb-2 text-center rounded-lg ${readingClass(NAME_TEXT)}`}>
+        <HighlightedText text={cuttingList.houseName} word={wordIn(NAME_TEXT)} />
+      </h2>
+      <p className={`text-center text-gray-600 mb-6 italic rounded-lg ${readingClass(DESCRIPTION_TEXT)}`}>
+        "<HighlightedText text={cuttingList.description} word={wordIn(DESCRIPTION_TEXT)} />"
+      </p>
+      {(onRegenerate || onShare || isSpeechSupported()) && (
+        <p className="text-center -mt-4 mb-4 flex flex-wrap justify-center gap-2">
+          {isSpeechSupported() && (
+            <button
+              type="button"
+              onClick={() => (readingText === null ? readFrom(NAME_TEXT) : stopReading())}
+              aria-pressed={readingText !== null}
+              aria-describedby={readingText !== null ? 'reading-keys' : undefined}
+              className="px-3 py-1 text-sm font-semibold rounded-lg bg-yellow-100 text-sky-800 hover:bg-yellow-200 transition-colors duration-300"
+            >
+              {readingText === null ? t('narration.read') : t('narration.stop')}
+            </button>
+          )}
+          {onRegenerate && (
+            <button
+              type="button"
+              onClick={onRegenerate}
+              className="px-3 py-1 text-sm font-semibold rounded-lg bg-sky-100 text-sky-800 hover:bg-sky-200 transition-colors duration-300"
+            >
+              {t('list.redo')}
+            </button>
+          )}
+          {onShare && (
+            <button
+              type="button"
+              onClick={onShare}
+              className="px-3 py-1 text-sm font-semibold rounded-lg bg-sky-100 text-sky-800 hover:bg-sky-200 transition-colors duration-300"
+            >
+              {t('share.button')}
+            </button>
+          )}
+        </p>
+      )}
+      {readingText !== null && <p id="reading-keys" className="text-center -mt-2 mb-4 text-xs text-gray-500">{t('narration.keys')}</p>}
+
+      {houseSpec && onScale && <ScaleControl houseSpec={houseSpec} units={units} onScale={onScale} locale={locale} />}
+
+      {cuttingList.problems && cuttingList.problems.length > 0 && (
+        <div className="mb-4 rounded-xl bg-yellow-50 border-4 border-dashed border-yellow-300 p-4 text-yellow-800" role="status">
+          <p className="font-bold">{t('list.incomplete')}</p>
+          <ul className="list-disc list-inside">
+            {cuttingList.problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+          {onRegenerate && <p className="mt-1 text-sm">{t('list.redoHint')}</p>}
+        </div>
+      )}
+
+      {hasParts && <TemplateDownloads cuttingList={cuttingList} houseSpec={houseSpec} units={units} allowCraftKnife={allowCraftKnife} locale={locale} />}
+
+      {hasParts && (
+        <div role="tablist" aria-label={t('list.tabs')} className="flex justify-center gap-2 mb-4">
+          <TabButton tab="materials" label={t('list.tab.materials')} />
+          <TabButton tab="layout" label={t('list.tab.layout')} />
+          <TabButton tab="shopping" label={t('list.tab.shopping')} />
+        </div>
+      )}
+
+      <div id="materials-list-panel" role="tabpanel" aria-labelledby="materials-list-tab" hidden={hasParts && activeTab !== 'materials'} className="overflow-x-auto">
         <table className="w-full text-left border-collapse">
-          <caption className="sr-only">Materials and cutting list for {cuttingList.houseName}</caption>
+          <caption className="sr-only">{t('list.caption', { name: cuttingList.houseName })}</caption>
           <thead>
             <tr className="bg-sky-200/50">
-              <th scope="col" className="p-3 text-lg font-semibold text-sky-900 rounded-tl-lg">Material</th>
-              <th scope="col" className="p-3 text-lg font-semibold text-sky-900">Quantity</th>
-              <th scope="col" className="p-3 text-lg font-semibold text-sky-900 rounded-tr-lg">Dimensions</th>
+              <th scope="col" className="p-3 text-lg font-semibold text-sky-900 rounded-tl-lg">{t('list.part')}</th>
+              <th scope="col" className="p-3 text-lg font-semibold text-sky-900">{t('list.material')}</th>
+              <th scope="col" className="p-3 text-lg font-semibold text-sky-900">{t('list.quantity')}</th>
+              <th scope="col" className="p-3 text-lg font-semibold text-sky-900 rounded-tr-lg">{t('list.size')}</th>
             </tr>
           </thead>
           <tbody>
             {cuttingList.materials.map((item, index) => (
-              <tr key={index} className="border-b border-sky-200 last:border-b-0">
-                <th scope="row" className="p-3 text-gray-700 font-medium">{item.name}</th>
+              <tr
+                key={item.part?.id ?? index}
+                id={`material-row-${index}`}
+                aria-current={readingText === FIRST_ROW_TEXT + index ? 'true' : undefined}
+                className={`border-b border-sky-200 last:border-b-0 transition-colors duration-300 ${readingClass(FIRST_ROW_TEXT + index)}`}
+              >
+                <th scope="row" className="p-3 text-gray-700 font-medium">
+                  {item.part ? (
+                    <>
+                      <span className="inline-block min-w-[2.5rem] mr-2 px-2 py-0.5 text-sm font-bold text-sky-800 bg-yellow-200 rounded-md text-center">{item.part.id}</span>
+                      {translatePartLabel(locale, item.part.label)}
+                      {item.part.cutouts.length > 0 && (
+                        <span className="block text-sm font-normal text-gray-500">
+                          {item.part.cutouts.map((cutout: PartCutout) => t(`list.cutout.${cutout.kind}`, { size: formatSize([cutout.widthMm, cutout.heightMm], units) })).join(', ')}
+                        </span>
+                      )}
+                    </>
+                  ) : translateName(locale, 'material', item.name)}
+                </th>
+                <td className="p-3 text-gray-700">{item.part ? translateName(locale, 'material', item.name) : ''}</td>
                 <td className="p-3 text-gray-700">{item.quantity}</td>
-                <td className="p-3 text-gray-700">{item.dimensions}</td>
+                <td className="p-3 text-gray-700">
+                  {item.part ? (
+                    <>
+                      {formatSize([item.part.widthMm, item.part.heightMm], units)}
+                      <span className="block text-sm text-gray-500">{t('list.thick', { thickness: formatLength(item.part.thicknessMm, units) })}</span>
+                    </>
+                  ) : formatDimensions(item.dimensions, units)}
+                </td>
               </tr>
             ))}
           </tbody>
         </table>
       </div>
+
+      {hasParts && (
+        <div id="layout-list-panel" role="tabpanel" aria-labelledby="layout-list-tab" hidden={activeTab !== 'layout'}>
+          {activeTab === 'layout' && <CutLayoutView materials={cuttingList.materials} units={units} locale={locale} />}
+        </div>
+      )}
+
+      {hasParts && (
+        <div id="shopping-list-panel" role="tabpanel" aria-labelledby="shopping-list-tab" hidden={activeTab !== 'shopping'}>
+          {activeTab === 'shopping' && <ShoppingListView cuttingList={cuttingList} houseSpec={houseSpec} locale={locale} />}
+        </div>
+      )}
     </div>
   );
 };
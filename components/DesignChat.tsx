@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ChatMessage, ChatProposal, HouseSpec } from '../types';
+import { describeEdits } from '../services/designEdits';
+import { createDictation, isSpeechInputSupported, type Dictation } from '../services/speechInput';
+import type { UnitSystem } from '../services/units';
+import { LOCALES, translator, type Locale, type Translate } from '../services/i18n';
+import { MicrophoneIcon, SparklesIcon } from './icons';
+
+interface DesignChatProps {
+  houseSpec: HouseSpec;
+  units: UnitSystem;
+  /** The chat so far about the house on screen. */
+  messages: ChatMessage[];
+  /** The chat that led to the house on screen, if it was made in one. */
+  previousChat?: ChatMessage[];
+  onSend: (text: string) => void;
+  /** Builds the suggested changes. The chat is kept with the new version. */
+  onConfirm: (proposal: ChatProposal, agreement?: string) => void;
+  onClose: () => void;
+  /** True while the assistant is thinking of an answer. */
+  isReplying: boolean;
+  /** True while the changes are being built. */
+  isLoading: boolean;
+  locale: Locale;
+}
+
+// Saying yes to a suggestion builds it straight away, which matters most when talking instead of typing.
+// Only a plain yes counts: "yes, but make it blue" is a new wish for the assistant. A yes in any of
+// the app's languages counts, whichever one is picked.
+const AGREEMENT = /^[\s¡]*(yes|yeah|yep|yup|ok|okay|sure|do it|build it|go ahead|sounds good|sí|si|vale|claro|hazlo|adelante|oui|ouais|d'accord|vas-y|fais-le)(,?\s*(please|build it|do it|por favor|hazlo|s'il te plaît|fais-le))*[\s.!]*$/i;
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const Bubble: React.FC<{ message: Pick<ChatMessage, 'role' | 'text'>; t: Translate }> = ({ message, t }) => (
+  <li className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+    <p
+      className={`max-w-[85%] px-4 py-2 rounded-2xl text-left whitespace-pre-wrap ${
+        message.role === 'user' ? 'bg-sky-600 text-white rounded-br-sm' : 'bg-white text-sky-900 border border-sky-200 rounded-bl-sm'
+      }`}
+    >
+      <span className="sr-only">{message.role === 'user' ? t('chat.youSaid') : t('chat.helperSaid')}</span>
+      {message.text}
+    </p>
+  </li>
+);
+
+export const DesignChat: React.FC<DesignChatProps> = ({ houseSpec, units, messages, previousChat, onSend, onConfirm, onClose, isReplying, isLoading, locale }) => {
+  const t = translator(locale);
+  const [draft, setDraft] = useState('');
+  const [isListening, setIsListening] = useState(false);
+  const dictationRef = useRef<Dictation | null>(null);
+  const endRef = useRef<HTMLLIElement>(null);
+  const isSpeechSupported = isSpeechInputSupported();
+
+  useEffect(() => {
+    const dictation = createDictation({ lang: LOCALES[locale].speechLang, onText: setDraft, onListeningChange: setIsListening });
+    dictationRef.current = dictation;
+    return () => {
+      dictation?.dispose();
+      setIsListening(false);
+    };
+  }, [locale]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, [messages.length, isReplying]);
+
+  const last = messages[messages.length - 1];
+  const pending = last?.role === 'assistant' ? last.proposal : undefined;
+  const isBusy = isReplying || isLoading;
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text || isBusy) return;
+    dictationRef.current?.stop();
+    setDraft('');
+    if (pending && AGREEMENT.test(text)) {
+      onConfirm(pending, text);
+    } else {
+      onSend(text);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    send();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      send();
+    }
+  };
+
+  const toggleListening = () => {
+    if (isListening) {
+      dictationRef.current?.stop();
+    } else {
+      setDraft('');
+      dictationRef.current?.start();
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl bg-white/80 backdrop-blur-sm p-6 sm:p-8 rounded-2xl shadow-lg border border-sky-200 animate-fade-in">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h2 className="text-3xl font-bold text-sky-800">{t('chat.title')}</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isLoading}
+          className="px-4 py-2 font-bold text-gray-600 bg-gray-200 rounded-xl hover:bg-gray-300 transition-colors duration-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
+        >
+          {t('chat.close')}
+        </button>
+      </div>
+
+      {previousChat && previousChat.length > 0 && (
+        <details className="mb-4 p-3 rounded-xl bg-sky-50 border border-sky-200">
+          <summary className="cursor-pointer font-semibold text-sky-800">{t('chat.previous')}</summary>
+          <ol className="mt-3 space-y-2">
+            {previousChat.map((message, index) => <Bubble key={index} message={message} t={t} />)}
+          </ol>
+        </details>
+      )}
+
+      <ol className="space-y-3 max-h-96 overflow-y-auto p-3 rounded-xl bg-sky-50/60" aria-live="polite" aria-label={t('chat.label')}>
+        <Bubble message={{ role: 'assistant', text: t('chat.greeting') }} t={t} />
+        {messages.map((message, index) => <Bubble key={index} message={message} t={t} />)}
+        {isReplying && (
+          <li className="flex justify-start">
+            <p className="px-4 py-2 rounded-2xl bg-white border border-sky-200 text-sky-600 animate-pulse" role="status">{t('chat.thinking')}</p>
+          </li>
+        )}
+        <li ref={endRef} aria-hidden="true" />
+      </ol>
+
+      {pending && (
+        <section aria-labelledby="proposal-heading" className="mt-4 p-4 rounded-xl bg-yellow-50 border-4 border-dashed border-yellow-300">
+          <h3 id="proposal-heading" className="font-bold text-sky-800 mb-2">{capitalize(pending.summary)}?</h3>
+          <ol className="space-y-1 list-decimal list-inside text-sm text-sky-900">
+            {describeEdits(pending.edits, houseSpec, units, locale).map((change, index) => <li key={index}>{capitalize(change)}</li>)}
+          </ol>
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={() => onConfirm(pending)}
+              disabled={isBusy}
+              className="flex items-center gap-2 bg-yellow-400 text-sky-900 font-bold px-6 py-2 rounded-xl shadow-md hover:bg-yellow-500 transition-colors duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              <SparklesIcon className="w-5 h-5" aria-hidden="true" />
+              {isLoading ? t('chat.building') : t('chat.build')}
+            </button>
+            <span className="text-sm text-sky-700">{t('chat.orChange')}</span>
+          </div>
+        </section>
+      )}
+
+      <form onSubmit={handleSubmit} className="mt-4 flex items-center gap-3">
+        <label htmlFor="chat-input" className="sr-only">{t('chat.message')}</label>
+        <textarea
+          id="chat-input"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={isListening ? t('chat.listening') : t('chat.placeholder')}
+          className="w-full h-14 p-3 text-lg bg-white border-2 border-sky-300 rounded-xl focus:ring-4 focus:ring-yellow-300 focus:border-yellow-500 transition-all duration-300 resize-none"
+          disabled={isLoading}
+        />
+        {isSpeechSupported && (
+          <button
+            type="button"
+            onClick={toggleListening}
+            disabled={isLoading}
+            aria-label={isListening ? t('chat.stopListening') : t('chat.startListening')}
+            aria-pressed={isListening}
+            className={`flex-shrink-0 w-14 h-14 flex items-center justify-center rounded-xl shadow-md transition-colors duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed ${
+              isListening ? 'bg-red-500 text-white animate-pulse' : 'bg-sky-600 text-white hover:bg-sky-700'
+            }`}
+          >
+            <MicrophoneIcon className="w-7 h-7" aria-hidden="true" />
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isBusy || !draft.trim()}
+          className="flex-shrink-0 bg-yellow-400 text-sky-900 font-bold text-lg px-6 py-3 rounded-xl shadow-md hover:bg-yellow-500 transition-colors duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {t('chat.send')}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { SavedDesign } from '../types';
+import { listDesigns, renameDesign, duplicateDesign, deleteDesign } from '../services/designStore';
+import { LoadingSpinner } from './LoadingSpinner';
+import { HouseIcon } from './icons';
+import { translator, type Locale } from '../services/i18n';
+
+interface DesignGalleryProps {
+  /** Changes whenever a design has been saved elsewhere, so the list is reloaded. */
+  refreshKey: number;
+  currentDesignId: string | null;
+  onOpen: (design: SavedDesign) => void;
+  onDeleted: (id: string) => void;
+  locale: Locale;
+}
+
+const formatDate = (timestamp: number, locale: Locale): string =>
+  new Date(timestamp).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const DesignGallery: React.FC<DesignGalleryProps> = ({ refreshKey, currentDesignId, onOpen, onDeleted, locale }) => {
+  const t = translator(locale);
+  const [designs, setDesigns] = useState<SavedDesign[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState<string>('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setDesigns(await listDesigns());
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError(t('gallery.loadFailed'));
+      setDesigns([]);
+    }
+  }, [locale]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  const handleRename = async (e: React.FormEvent, id: string) => {
+    e.preventDefault();
+    await renameDesign(id, newName);
+    setRenamingId(null);
+    refresh();
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateDesign(id);
+    refresh();
+  };
+
+  const handleDelete = async (design: SavedDesign) => {
+    if (!window.confirm(t('gallery.confirmDelete', { name: design.name }))) return;
+    await deleteDesign(design.id);
+    onDeleted(design.id);
+    refresh();
+  };
+
+  const containerClass = "bg-white/80 backdrop-blur-sm p-4 sm:p-6 rounded-b-2xl rounded-tr-2xl shadow-lg border border-sky-200";
+  const actionClass = "px-3 py-1 text-sm font-semibold rounded-lg transition-colors duration-300";
+
+  if (!designs) {
+    return (
+      <div className={containerClass}>
+        <LoadingSpinner locale={locale} />
+      </div>
+    );
+  }
+
+  return (
+    <div className={`${containerClass} animate-fade-in`}>
+      <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center" id="gallery-list-heading">{t('gallery.heading')}</h2>
+
+      {error && <p className="text-center text-red-700 mb-4" role="alert">{error}</p>}
+
+      {designs.length === 0 && !error && (
+        <p className="text-center text-sky-600">{t('gallery.empty')}</p>
+      )}
+
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4" aria-labelledby="gallery-list-heading">
+        {designs.map(design => {
+          const thumbnail = design.imageViews?.[0]?.url ?? design.sketchUrl;
+          const isCurrent = design.id === currentDesignId;
+          return (
+            <li
+              key={design.id}
+              className={`flex flex-col rounded-xl border-4 bg-white overflow-hidden ${isCurrent ? 'border-yellow-400' : 'border-sky-100'}`}
+            >
+              <button
+                type="button"
+                onClick={() => onOpen(design)}
+                className="aspect-video w-full bg-sky-50 flex items-center justify-center overflow-hidden"
+                aria-label={t('gallery.openNamed', { name: design.name })}
+              >
+                {thumbnail
+                  ? <img src={thumbnail} alt="" className="w-full h-full object-cover" />
+                  : <HouseIcon className="w-12 h-12 text-sky-300" />}
+              </button>
+              <div className="p-3 flex flex-col gap-2">
+                {renamingId === design.id ? (
+                  <form onSubmit={e => handleRename(e, design.id)} className="flex gap-2">
+                    <label htmlFor={`rename-${design.id}`} className="sr-only">{t('gallery.newName')}</label>
+                    <input
+                      id={`rename-${design.id}`}
+                      value={newName}
+                      onChange={e => setNewName(e.target.value)}
+                      className="flex-1 p-1 border-2 border-sky-300 rounded-lg"
+                      autoFocus
+                    />
+                    <button type="submit" className={`${actionClass} bg-yellow-400 text-sky-900 hover:bg-yellow-500`}>{t('gallery.save')}</button>
+                  </form>
+                ) : (
+                  <p className="font-bold text-sky-800 truncate" title={design.name}>{design.name}</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  {t('gallery.created', { date: formatDate(design.createdAt, locale) })}
+                  {design.updatedAt !== design.createdAt && <> &middot; {t('gallery.changed', { date: formatDate(design.updatedAt, locale) })}</>}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <button type="button" onClick={() => onOpen(design)} className={`${actionClass} bg-sky-600 text-white hover:bg-sky-700`}>{t('gallery.open')}</button>
+                  <button
+                    type="button"
+                    onClick={() => { setRenamingId(design.id); setNewName(design.name); }}
+                    className={`${actionClass} bg-sky-100 text-sky-800 hover:bg-sky-200`}
+                  >
+                    {t('gallery.rename')}
+                  </button>
+                  <button type="button" onClick={() => handleDuplicate(design.id)} className={`${actionClass} bg-sky-100 text-sky-800 hover:bg-sky-200`}>{t('gallery.duplicate')}</button>
+                  <button type="button" onClick={() => handleDelete(design)} className={`${actionClass} bg-red-100 text-red-700 hover:bg-red-200`}>{t('gallery.delete')}</button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -1,92 +1,452 @@
-
-import React, { useState } from 'react';
-import type { EditPreferences } from '../types';
+import React, { useMemo, useState } from 'react';
+import type { AccessoryKind, EditOperation, HouseSpec, NamedColor, Opening, RoofType, StyleTheme, WallSide } from '../types';
+import {
+  ACCESSORY_KINDS,
+  COLOR_ROLES,
+  COLOR_SWATCHES,
+  MAX_STOREYS,
+  STYLE_THEMES,
+  applyEdits,
+  checkEdits,
+  describeEdit,
+  describeOpeningPlace,
+  wallLengthMm,
+} from '../services/designEdits';
+import { storeyHeightMm } from '../services/cuttingListEngine';
+import { MM_PER_INCH, UNIT_SYSTEMS, formatSize, type UnitSystem } from '../services/units';
+import { translateName, translator, type Locale, type Translate } from '../services/i18n';
 import { SparklesIcon } from './icons';
 
 interface EditFormProps {
-  onUpdate: (preferences: EditPreferences) => void;
+  houseSpec: HouseSpec;
+  units: UnitSystem;
+  /** Called with every change, in the order they were made. */
+  onUpdate: (edits: EditOperation[]) => void;
   onCancel: () => void;
   isLoading: boolean;
+  locale: Locale;
+}
+
+type ColorRole = keyof HouseSpec['colors'];
+
+const WALLS: WallSide[] = ['front', 'back', 'left', 'right'];
+const ROOF_TYPES: RoofType[] = ['gable', 'hip', 'shed', 'flat'];
+const SHAPES: Opening['shape'][] = ['rectangle', 'arch', 'round'];
+const DEFAULT_PITCH_DEG = 35;
+
+// Edits that set one thing replace an earlier edit that set the same thing, so the list stays short.
+const sameSetting = (a: EditOperation, b: EditOperation): boolean =>
+  (a.type === b.type && ['theme', 'roofShape', 'resize', 'roofMaterial'].includes(a.type)) ||
+  (a.type === 'color' && b.type === 'color' && a.role === b.role);
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+interface LengthFieldProps {
+  id: string;
+  label: string;
+  valueMm: number;
+  units: UnitSystem;
+  onChange: (mm: number) => void;
+  disabled: boolean;
 }
 
-export const EditForm: React.FC<EditFormProps> = ({ onUpdate, onCancel, isLoading }) => {
-  const [preferences, setPreferences] = useState<EditPreferences>({
-    primaryColor: '',
-    secondaryColor: '',
-    roofMaterial: '',
-    featureHighlights: '',
-  });
-
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
-    setPreferences(prev => ({ ...prev, [name]: value }));
+/**
+ * A length typed in the family's units and kept in millimetres. Inches are typed as decimals,
+ * to the nearest eighth.
+ */
+const LengthField: React.FC<LengthFieldProps> = ({ id, label, valueMm, units, onChange, disabled }) => {
+  const isImperial = units === 'imperial';
+  const shown = isImperial ? Math.round((valueMm / MM_PER_INCH) * 8) / 8 : Math.round(valueMm);
+  return (
+    <div>
+      <label htmlFor={id} className="block mb-1 text-sm font-semibold text-sky-800">{label} ({UNIT_SYSTEMS[units].shortLabel})</label>
+      <input
+        id={id}
+        type="number"
+        min={0}
+        step={isImperial ? 0.125 : 1}
+        value={shown}
+        onChange={e => {
+          const value = Number(e.target.value);
+          if (Number.isFinite(value)) onChange(Math.max(0, Math.round(isImperial ? value * MM_PER_INCH : value)));
+        }}
+        disabled={disabled}
+        className="w-full p-2 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300 disabled:bg-gray-100"
+      />
+    </div>
+  );
+};
+
+interface SwatchRowProps {
+  role: ColorRole;
+  current: NamedColor;
+  onPick: (color: NamedColor) => void;
+  disabled: boolean;
+  locale: Locale;
+  t: Translate;
+}
+
+const SwatchRow: React.FC<SwatchRowProps> = ({ role, current, onPick, disabled, locale, t }) => (
+  <div role="radiogroup" aria-label={t('edit.colourOf', { role: t(`colorRole.${role}`) })} className="flex flex-wrap items-center gap-2">
+    <span className="w-14 text-sm font-semibold text-sky-800">{t(`colorRole.${role}`)}</span>
+    {COLOR_SWATCHES.map(swatch => {
+      const isCurrent = swatch.hex.toLowerCase() === current.hex.toLowerCase();
+      // The colour name goes to the model with the change, so it is sent in the child's language.
+      const name = translateName(locale, 'color', swatch.name);
+      return (
+        <button
+          key={swatch.hex}
+          type="button"
+          role="radio"
+          aria-checked={isCurrent}
+          aria-label={name}
+          title={name}
+          onClick={() => onPick({ ...swatch, name })}
+          disabled={disabled}
+          className={`w-7 h-7 rounded-full border-2 transition-transform duration-300 hover:scale-110 disabled:hover:scale-100 ${
+            isCurrent ? 'border-sky-900 ring-4 ring-yellow-300' : 'border-white shadow'
+          }`}
+          style={{ backgroundColor: swatch.hex }}
+        />
+      );
+    })}
+  </div>
+);
+
+/**
+ * Changes to a finished design, made with pickers: each choice is added to a list of exact
+ * changes, previewed against the house, and sent together when the child is happy with them.
+ */
+export const EditForm: React.FC<EditFormProps> = ({ houseSpec, units, onUpdate, onCancel, isLoading, locale }) => {
+  const t = translator(locale);
+  const [edits, setEdits] = useState<EditOperation[]>([]);
+  const [request, setRequest] = useState<string>('');
+
+  const preview = useMemo(() => applyEdits(houseSpec, edits), [houseSpec, edits]);
+  const problems = useMemo(() => checkEdits(houseSpec, edits, units, locale), [houseSpec, edits, units, locale]);
+  const storeyHeight = storeyHeightMm(preview);
+
+  const [newOpening, setNewOpening] = useState<Opening>(() => ({
+    kind: 'window', wall: 'front', shape: 'rectangle', offsetMm: 20, bottomMm: Math.round(storeyHeightMm(houseSpec) * 0.4), widthMm: 25, heightMm: 25,
+  }));
+  const [movingIndex, setMovingIndex] = useState<number | null>(null);
+  const [move, setMove] = useState<{ wall: WallSide; offsetMm: number; bottomMm: number }>({ wall: 'front', offsetMm: 0, bottomMm: 0 });
+  const [pitchDeg, setPitchDeg] = useState<number>(houseSpec.roof.type === 'flat' ? DEFAULT_PITCH_DEG : houseSpec.roof.pitchDeg);
+  const [roofMaterial, setRoofMaterial] = useState<string>('');
+  const [footprint, setFootprint] = useState(houseSpec.footprint);
+  const [accessoryWalls, setAccessoryWalls] = useState<Record<AccessoryKind, WallSide>>({ chimney: 'right', porch: 'front', balcony: 'front' });
+
+  const addEdit = (edit: EditOperation) => setEdits(prev => [...prev.filter(other => !sameSetting(other, edit)), edit]);
+  const removeEdit = (index: number) => setEdits(prev => prev.filter((_, i) => i !== index));
+
+  const startMove = (index: number) => {
+    const opening = preview.openings[index];
+    setMovingIndex(index);
+    setMove({ wall: opening.wall, offsetMm: opening.offsetMm, bottomMm: opening.bottomMm });
+  };
+
+  const finishMove = () => {
+    if (movingIndex === null) return;
+    addEdit({ type: 'moveOpening', index: movingIndex, ...move });
+    setMovingIndex(null);
   };
 
+  const addOpening = () => addEdit({ type: 'addOpening', opening: { ...newOpening, bottomMm: newOpening.kind === 'door' ? 0 : newOpening.bottomMm } });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onUpdate(preferences);
+    const all: EditOperation[] = request.trim() ? [...edits, { type: 'request', text: request.trim() }] : edits;
+    if (all.length > 0 && problems.length === 0) onUpdate(all);
   };
 
   const inputClass = "w-full p-3 text-lg bg-white border-2 border-sky-300 rounded-xl focus:ring-4 focus:ring-yellow-300 focus:border-yellow-500 transition-all duration-300";
   const labelClass = "block mb-2 text-lg font-semibold text-sky-800";
+  const smallLabelClass = "block mb-1 text-sm font-semibold text-sky-800";
+  const selectClass = "w-full p-2 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300 disabled:bg-gray-100";
+  const smallButtonClass = "px-3 py-1 text-sm font-semibold rounded-lg transition-colors duration-300 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed";
+  const pickClass = (isPicked: boolean) => `${smallButtonClass} ${isPicked ? 'bg-sky-600 text-white' : 'bg-sky-100 text-sky-800 hover:bg-sky-200'}`;
+  const hasChanges = edits.length > 0 || request.trim().length > 0;
+  const storeys = preview.storeys ?? 1;
 
   return (
     <div className="w-full max-w-3xl bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-sky-200 animate-fade-in">
-      <h2 className="text-3xl font-bold text-sky-800 text-center mb-6">Edit Your Design</h2>
-      <form onSubmit={handleSubmit} className="space-y-6">
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
-          <div>
-            <label htmlFor="primaryColor" className={labelClass}>Primary Color</label>
-            <input
-              type="text"
-              id="primaryColor"
-              name="primaryColor"
-              value={preferences.primaryColor}
-              onChange={handleChange}
-              placeholder="like a big, red strawberry"
-              className={inputClass}
-              disabled={isLoading}
-            />
+      <h2 className="text-3xl font-bold text-sky-800 text-center mb-6">{t('edit.title')}</h2>
+      <form onSubmit={handleSubmit} className="space-y-8">
+        <fieldset disabled={isLoading}>
+          <legend className={labelClass}>{t('edit.style')}</legend>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {(Object.keys(STYLE_THEMES) as StyleTheme[]).map(theme => {
+              const info = STYLE_THEMES[theme];
+              const isPicked = preview.theme === theme;
+              return (
+                <button
+                  key={theme}
+                  type="button"
+                  onClick={() => addEdit({ type: 'theme', theme })}
+                  aria-pressed={isPicked}
+                  className={`p-3 text-left rounded-xl border-4 transition-colors duration-300 ${isPicked ? 'border-yellow-400 bg-yellow-50' : 'border-sky-100 bg-white hover:border-sky-300'}`}
+                >
+                  <span className="flex gap-1 mb-1" aria-hidden="true">
+                    {Object.values(info.colors).map(color => (
+                      <span key={color.hex} className="w-4 h-4 rounded-full border border-white shadow" style={{ backgroundColor: color.hex }} />
+                    ))}
+                  </span>
+                  <span className="block font-bold text-sky-800">{t(`theme.${theme}.label`)}</span>
+                  <span className="block text-xs text-gray-600">{t(`theme.${theme}.description`)}</span>
+                </button>
+              );
+            })}
           </div>
-          <div>
-            <label htmlFor="secondaryColor" className={labelClass}>Secondary Color</label>
-            <input
-              type="text"
-              id="secondaryColor"
-              name="secondaryColor"
-              value={preferences.secondaryColor}
-              onChange={handleChange}
-              placeholder="like a fluffy white cloud"
-              className={inputClass}
+        </fieldset>
+
+        <fieldset disabled={isLoading} className="space-y-2">
+          <legend className={labelClass}>{t('edit.colours')}</legend>
+          {COLOR_ROLES.map(role => (
+            <SwatchRow
+              key={role}
+              role={role}
+              current={preview.colors[role]}
+              onPick={color => addEdit({ type: 'color', role, color })}
               disabled={isLoading}
+              locale={locale}
+              t={t}
             />
+          ))}
+        </fieldset>
+
+        <fieldset disabled={isLoading} className="space-y-3">
+          <legend className={labelClass}>{t('edit.roof')}</legend>
+          <div className="flex flex-wrap items-center gap-2" role="radiogroup" aria-label={t('edit.roofShape')}>
+            {ROOF_TYPES.map(roofType => (
+              <button
+                key={roofType}
+                type="button"
+                role="radio"
+                aria-checked={preview.roof.type === roofType}
+                onClick={() => addEdit({ type: 'roofShape', roofType, pitchDeg })}
+                className={pickClass(preview.roof.type === roofType)}
+              >
+                {capitalize(t(`roof.${roofType}`))}
+              </button>
+            ))}
           </div>
-        </div>
-        <div>
-          <label htmlFor="roofMaterial" className={labelClass}>Roof Material / Style</label>
-          <input
-            type="text"
-            id="roofMaterial"
-            name="roofMaterial"
-            value={preferences.roofMaterial}
-            onChange={handleChange}
-            placeholder="made of shiny chocolate tiles"
-            className={inputClass}
-            disabled={isLoading}
-          />
-        </div>
+          {preview.roof.type !== 'flat' && (
+            <div>
+              <label htmlFor="roof-pitch" className={smallLabelClass}>{t('edit.steepness', { pitch: pitchDeg })}</label>
+              <input
+                id="roof-pitch"
+                type="range"
+                min={10}
+                max={60}
+                step={5}
+                value={pitchDeg}
+                onChange={e => setPitchDeg(Number(e.target.value))}
+                onPointerUp={() => addEdit({ type: 'roofShape', roofType: preview.roof.type, pitchDeg })}
+                onKeyUp={() => addEdit({ type: 'roofShape', roofType: preview.roof.type, pitchDeg })}
+                className="w-full accent-sky-600"
+              />
+            </div>
+          )}
+          <div className="flex gap-2 items-end">
+            <div className="flex-grow">
+              <label htmlFor="roof-material" className={smallLabelClass}>{t('edit.madeOf')}</label>
+              <input
+                id="roof-material"
+                type="text"
+                value={roofMaterial}
+                onChange={e => setRoofMaterial(e.target.value)}
+                placeholder={preview.roof.material}
+                maxLength={120}
+                className={selectClass}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => addEdit({ type: 'roofMaterial', material: roofMaterial.trim() })}
+              disabled={!roofMaterial.trim()}
+              className={`${smallButtonClass} py-2 bg-sky-100 text-sky-800 hover:bg-sky-200`}
+            >
+              {t('edit.useIt')}
+            </button>
+          </div>
+        </fieldset>
+
+        <fieldset disabled={isLoading} className="space-y-3">
+          <legend className={labelClass}>{t('edit.openings')}</legend>
+          {preview.openings.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('edit.noOpenings')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {preview.openings.map((opening, index) => (
+                <li key={index} className="p-2 rounded-lg bg-sky-50">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="flex-grow text-sm text-sky-900">
+                      {capitalize(describeOpeningPlace(opening, locale))}, {formatSize([opening.widthMm, opening.heightMm], units)}
+                    </span>
+                    <button type="button" onClick={() => startMove(index)} className={pickClass(movingIndex === index)}>{t('edit.move')}</button>
+                    <button type="button" onClick={() => addEdit({ type: 'removeOpening', index })} className={`${smallButtonClass} bg-red-100 text-red-800 hover:bg-red-200`}>
+                      {t('edit.remove')}
+                    </button>
+                  </div>
+                  {movingIndex === index && (
+                    <div className="mt-2 grid grid-cols-2 sm:grid-cols-4 gap-2 items-end">
+                      <div>
+                        <label htmlFor="move-wall" className={smallLabelClass}>{t('edit.wall')}</label>
+                        <select id="move-wall" value={move.wall} onChange={e => setMove({ ...move, wall: e.target.value as WallSide })} className={selectClass}>
+                          {WALLS.map(wall => <option key={wall} value={wall}>{t(`wall.${wall}.label`)}</option>)}
+                        </select>
+                      </div>
+                      <LengthField id="move-offset" label={t('edit.fromLeft')} valueMm={move.offsetMm} units={units} onChange={offsetMm => setMove({ ...move, offsetMm })} disabled={isLoading} />
+                      {opening.kind === 'window' && (
+                        <LengthField id="move-bottom" label={t('edit.upFromGround')} valueMm={move.bottomMm} units={units} onChange={bottomMm => setMove({ ...move, bottomMm })} disabled={isLoading} />
+                      )}
+                      <button type="button" onClick={finishMove} className={`${smallButtonClass} py-2 bg-yellow-400 text-sky-900 hover:bg-yellow-500`}>{t('edit.moveHere')}</button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="p-3 rounded-lg border-2 border-dashed border-sky-200 grid grid-cols-2 sm:grid-cols-4 gap-2 items-end">
+            <div>
+              <label htmlFor="new-kind" className={smallLabelClass}>{t('edit.addA')}</label>
+              <select id="new-kind" value={newOpening.kind} onChange={e => setNewOpening({ ...newOpening, kind: e.target.value as Opening['kind'] })} className={selectClass}>
+                <option value="window">{t('edit.window')}</option>
+                <option value="door">{t('edit.door')}</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="new-shape" className={smallLabelClass}>{t('edit.shape')}</label>
+              <select id="new-shape" value={newOpening.shape} onChange={e => setNewOpening({ ...newOpening, shape: e.target.value as Opening['shape'] })} className={selectClass}>
+                {SHAPES.map(shape => <option key={shape} value={shape}>{t(`shape.${shape}`)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="new-wall" className={smallLabelClass}>{t('edit.onWall')}</label>
+              <select id="new-wall" value={newOpening.wall} onChange={e => setNewOpening({ ...newOpening, wall: e.target.value as WallSide })} className={selectClass}>
+                {WALLS.map(wall => <option key={wall} value={wall}>{t(`wall.${wall}.label`)}</option>)}
+              </select>
+            </div>
+            <LengthField id="new-offset" label={t('edit.fromLeft')} valueMm={newOpening.offsetMm} units={units} onChange={offsetMm => setNewOpening({ ...newOpening, offsetMm })} disabled={isLoading} />
+            <LengthField id="new-width" label={t('edit.width')} valueMm={newOpening.widthMm} units={units} onChange={widthMm => setNewOpening({ ...newOpening, widthMm })} disabled={isLoading} />
+            <LengthField id="new-height" label={t('edit.height')} valueMm={newOpening.heightMm} units={units} onChange={heightMm => setNewOpening({ ...newOpening, heightMm })} disabled={isLoading} />
+            {newOpening.kind === 'window' && (
+              <LengthField id="new-bottom" label={t('edit.upFromGround')} valueMm={newOpening.bottomMm} units={units} onChange={bottomMm => setNewOpening({ ...newOpening, bottomMm })} disabled={isLoading} />
+            )}
+            <button
+              type="button"
+              onClick={addOpening}
+              disabled={newOpening.offsetMm + newOpening.widthMm > wallLengthMm(preview, newOpening.wall)}
+              className={`${smallButtonClass} py-2 bg-yellow-400 text-sky-900 hover:bg-yellow-500`}
+            >
+              {t('edit.addIt')}
+            </button>
+          </div>
+        </fieldset>
+
+        <fieldset disabled={isLoading} className="space-y-3">
+          <legend className={labelClass}>{t('edit.size')}</legend>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 items-end">
+            <LengthField id="resize-width" label={t('edit.width')} valueMm={footprint.widthMm} units={units} onChange={widthMm => setFootprint({ ...footprint, widthMm })} disabled={isLoading} />
+            <LengthField id="resize-depth" label={t('edit.depth')} valueMm={footprint.depthMm} units={units} onChange={depthMm => setFootprint({ ...footprint, depthMm })} disabled={isLoading} />
+            <button
+              type="button"
+              onClick={() => addEdit({ type: 'resize', ...footprint })}
+              disabled={footprint.widthMm === preview.footprint.widthMm && footprint.depthMm === preview.footprint.depthMm}
+              className={`${smallButtonClass} py-2 bg-sky-100 text-sky-800 hover:bg-sky-200`}
+            >
+              {t('edit.resize')}
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm text-sky-900">
+              {storeys === 1
+                ? t('edit.oneFloor', { height: formatSize([storeyHeight], units) })
+                : t('edit.floors', { count: storeys, height: formatSize([storeyHeight], units) })}
+            </span>
+            <button type="button" onClick={() => addEdit({ type: 'addStorey' })} disabled={storeys >= MAX_STOREYS} className={`${smallButtonClass} bg-sky-100 text-sky-800 hover:bg-sky-200`}>
+              {t('edit.addFloor')}
+            </button>
+          </div>
+        </fieldset>
+
+        <fieldset disabled={isLoading} className="space-y-2">
+          <legend className={labelClass}>{t('edit.extras')}</legend>
+          {ACCESSORY_KINDS.map(kind => {
+            const wall = accessoryWalls[kind];
+            const has = preview.accessories?.some(accessory => accessory.kind === kind && accessory.wall === wall) ?? false;
+            return (
+              <div key={kind} className="flex flex-wrap items-center gap-2">
+                <span className="w-20 text-sm font-semibold text-sky-800">{t(`accessory.${kind}.label`)}</span>
+                <label htmlFor={`accessory-${kind}`} className="sr-only">{t('edit.accessoryWall', { name: t(`accessory.${kind}.name`) })}</label>
+                <select
+                  id={`accessory-${kind}`}
+                  value={wall}
+                  onChange={e => setAccessoryWalls({ ...accessoryWalls, [kind]: e.target.value as WallSide })}
+                  className={`${selectClass} w-auto`}
+                >
+                  {WALLS.map(side => (
+                    <option key={side} value={side}>{t('edit.wallOption', { label: t(`wall.${side}.label`), wall: t(`wall.${side}`) })}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => addEdit({ type: has ? 'removeAccessory' : 'addAccessory', accessory: { kind, wall } })}
+                  className={pickClass(has)}
+                  aria-pressed={has}
+                >
+                  {has ? t('edit.takeAway') : t('edit.addIt')}
+                </button>
+                <span className="text-xs text-gray-500">{t(`accessory.${kind}.description`)}</span>
+              </div>
+            );
+          })}
+        </fieldset>
+
         <div>
-          <label htmlFor="featureHighlights" className={labelClass}>Add or Change Features</label>
+          <label htmlFor="request" className={labelClass}>{t('edit.anythingElse')}</label>
           <textarea
-            id="featureHighlights"
-            name="featureHighlights"
-            value={preferences.featureHighlights}
-            onChange={handleChange}
-            placeholder="add a secret trap door!"
+            id="request"
+            value={request}
+            onChange={e => setRequest(e.target.value)}
+            placeholder={t('edit.requestPlaceholder')}
+            maxLength={500}
             className={`${inputClass} h-24 resize-none`}
             disabled={isLoading}
           />
         </div>
+
+        {edits.length > 0 && (
+          <section aria-labelledby="changes-heading" className="p-4 rounded-xl bg-sky-50 border border-sky-200">
+            <h3 id="changes-heading" className="font-bold text-sky-800 mb-2">{t('edit.changes')}</h3>
+            <ol className="space-y-1 list-decimal list-inside">
+              {edits.map((edit, index) => (
+                <li key={index} className="text-sm text-sky-900">
+                  {capitalize(describeEdit(edit, applyEdits(houseSpec, edits.slice(0, index)), units, locale))}
+                  <button
+                    type="button"
+                    onClick={() => removeEdit(index)}
+                    disabled={isLoading}
+                    className="ml-2 text-red-700 hover:underline"
+                    aria-label={t('edit.undoLabel', { number: index + 1 })}
+                  >
+                    {t('edit.undo')}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+
+        {problems.length > 0 && (
+          <div className="rounded-xl bg-yellow-50 border-4 border-dashed border-yellow-300 p-4 text-yellow-800" role="status">
+            <p className="font-bold mb-1">{t('edit.problems')}</p>
+            <ul className="list-disc list-inside text-sm space-y-1">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          </div>
+        )}
+
         <div className="flex justify-end gap-4 pt-4">
           <button
             type="button"
@@ -94,11 +454,11 @@ export const EditForm: React.FC<EditFormProps> = ({ onUpdate, onCancel, isLoadin
             disabled={isLoading}
             className="px-6 py-3 text-lg font-bold text-gray-600 bg-gray-200 rounded-xl hover:bg-gray-300 transition-colors duration-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
           >
-            Cancel
+            {t('edit.cancel')}
           </button>
           <button
             type="submit"
-            disabled={isLoading}
+            disabled={isLoading || !hasChanges || problems.length > 0}
             className="w-auto flex-shrink-0 bg-yellow-400 text-sky-900 font-bold text-lg px-8 py-3 rounded-xl shadow-md hover:bg-yellow-500 transform hover:scale-105 transition-all duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed disabled:scale-100 flex items-center justify-center gap-2"
           >
             {isLoading ? (
@@ -107,12 +467,12 @@ export const EditForm: React.FC<EditFormProps> = ({ onUpdate, onCancel, isLoadin
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                Updating...
+                {t('edit.updating')}
               </span>
             ) : (
               <>
                 <SparklesIcon className="w-6 h-6" aria-hidden="true" />
-                Update Design
+                {t('edit.update')}
               </>
             )}
           </button>
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { GENERATED_ASSETS } from '../services/designService';
+import { PartialResultError, type DesignError, type DesignErrorKind } from '../services/designErrors';
+import { translateName, translator, type Locale } from '../services/i18n';
+import { joinSentences, speechOptions, type NarrationSettings } from '../services/narration';
+import { speak } from '../services/speech';
+
+interface ErrorNoticeProps {
+  error: DesignError;
+  /** Tries the same thing again. For a partial result, redoes just the missing parts. */
+  onRetry?: () => void;
+  /** Lets the child describe the idea (or the edit) another way. */
+  onRephrase?: () => void;
+  onOpenGallery: () => void;
+  onDismiss: () => void;
+  locale: Locale;
+  narration: NarrationSettings;
+}
+
+type RecoveryAction = 'retry' | 'rephrase' | 'gallery' | 'askAdult';
+
+// What each failure offers; the words for it are in the message catalogs under error.<kind>.
+const RECOVERY_ACTIONS: Record<DesignErrorKind, RecoveryAction> = {
+  rateLimit: 'retry',
+  quotaExhausted: 'gallery',
+  safetyBlocked: 'rephrase',
+  invalidKey: 'askAdult',
+  network: 'retry',
+  malformedResponse: 'retry',
+  dailyLimit: 'gallery',
+  partialResult: 'retry',
+  unknown: 'retry',
+};
+
+/**
+ * Counts down the wait the service asked for, so "Try again" only lights up once it can work.
+ */
+const useSecondsLeft = (waitMs: number | undefined): number => {
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.ceil((waitMs ?? 0) / 1000));
+
+  useEffect(() => {
+    if (!waitMs) {
+      setSecondsLeft(0);
+      return;
+    }
+    const readyAt = Date.now() + waitMs;
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((readyAt - Date.now()) / 1000)));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [waitMs]);
+
+  return secondsLeft;
+};
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onRephrase, onOpenGallery, onDismiss, locale, narration }) => {
+  const t = translator(locale);
+  const kind: DesignErrorKind = error.kind;
+  const action = RECOVERY_ACTIONS[kind];
+  const actionLabel = t(`error.${kind}.action`);
+  const secondsLeft = useSecondsLeft(error.kind === 'rateLimit' ? error.retryAfterMs : undefined);
+  const isPartial = error instanceof PartialResultError;
+
+  const handlers: Record<RecoveryAction, (() => void) | undefined> = {
+    retry: onRetry,
+    rephrase: onRephrase,
+    gallery: onOpenGallery,
+    askAdult: onDismiss,
+  };
+  const handleAction = handlers[action];
+
+  // Read the problem out for children who can't read it yet.
+  useEffect(() => {
+    if (narration.announce) speak(joinSentences(t(`error.${kind}.title`), t(`error.${kind}.message`)), undefined, speechOptions(narration, locale));
+  }, [error]);
+
+  return (
+    <div
+      className={`w-full max-w-3xl p-4 rounded-md shadow-md ${
+        isPartial ? 'bg-yellow-50 border-4 border-dashed border-yellow-300 text-sky-800' : 'bg-red-100 border-l-4 border-red-500 text-red-700'
+      }`}
+      role="alert"
+    >
+      <p className="font-bold">{t(`error.${kind}.title`)}</p>
+      <p>{t(`error.${kind}.message`)}</p>
+      {isPartial && error.failedAssets.length > 0 && (
+        <p className="mt-1 text-sm">
+          {t('error.missing', {
+            missing: error.failedAssets.length,
+            total: GENERATED_ASSETS.length,
+            assets: error.failedAssets.map(asset => translateName(locale, 'asset', asset)).join(', '),
+          })}
+        </p>
+      )}
+      {error.kind === 'unknown' && <p className="mt-1 text-sm opacity-80">{error.message}</p>}
+      <div className="mt-3 flex flex-wrap gap-2">
+        {handleAction && (
+          <button
+            type="button"
+            onClick={handleAction}
+            disabled={secondsLeft > 0}
+            className="px-4 py-2 font-bold text-sky-900 bg-yellow-400 rounded-lg shadow-sm hover:bg-yellow-500 transition-colors duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {secondsLeft > 0 ? t('error.wait', { action: actionLabel, seconds: secondsLeft }) : actionLabel}
+          </button>
+        )}
+        {action !== 'askAdult' && (
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="px-4 py-2 font-semibold text-sky-700 bg-white rounded-lg shadow-sm hover:bg-sky-100 transition-colors duration-300 border border-sky-200"
+          >
+            {t('error.close')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
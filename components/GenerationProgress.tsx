@@ -0,0 +1,76 @@
+import React, { useEffect } from 'react';
+import { GENERATED_ASSETS } from '../services/designService';
+import { translateName, translator, type Locale } from '../services/i18n';
+import { speechOptions, type NarrationSettings } from '../services/narration';
+import { speak } from '../services/speech';
+
+export type AssetStatus = 'done' | 'failed';
+
+interface GenerationProgressProps {
+  /** True once the description and the house model are ready and the assets are being made. */
+  isPlanReady: boolean;
+  /** The status of every finished asset, keyed by GENERATED_ASSETS; missing keys are still pending. */
+  progress: Record<string, AssetStatus>;
+  onCancel: () => void;
+  locale: Locale;
+  narration: NarrationSettings;
+}
+
+export const GenerationProgress: React.FC<GenerationProgressProps> = ({ isPlanReady, progress, onCancel, locale, narration }) => {
+  const t = translator(locale);
+  const finished = GENERATED_ASSETS.filter(asset => progress[asset]).length;
+  const total = GENERATED_ASSETS.length;
+  const status = isPlanReady ? t('progress.count', { finished, total }) : t('progress.planning');
+
+  // Read out each step for children who can't read it yet. A newer step cuts off an older one.
+  useEffect(() => {
+    if (narration.announce) speak(status, undefined, speechOptions(narration, locale));
+  }, [status]);
+
+  return (
+    <section className="w-full max-w-3xl bg-white/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-lg border border-sky-200" aria-labelledby="progress-heading">
+      <div className="flex items-center gap-4 mb-3">
+        <h2 id="progress-heading" className="flex-1 text-xl font-bold text-sky-800" role="status" aria-live="polite">{status}</h2>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 font-semibold text-sky-700 bg-white rounded-lg shadow-sm hover:bg-red-100 transition-colors duration-300 border border-sky-200"
+        >
+          {t('progress.stop')}
+        </button>
+      </div>
+      <div
+        className="w-full h-3 bg-sky-100 rounded-full overflow-hidden mb-4"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={total}
+        aria-valuenow={finished}
+        aria-label={t('progress.label')}
+      >
+        <div className="h-full bg-yellow-400 transition-all duration-500" style={{ width: `${(finished / total) * 100}%` }} />
+      </div>
+      <ul className="flex flex-wrap gap-2">
+        {GENERATED_ASSETS.map(asset => {
+          const assetStatus = progress[asset];
+          return (
+            <li
+              key={asset}
+              className={`px-3 py-1 text-sm font-semibold rounded-full ${
+                assetStatus === 'done' ? 'bg-green-100 text-green-800'
+                  : assetStatus === 'failed' ? 'bg-yellow-100 text-yellow-800'
+                  : 'bg-sky-50 text-sky-600 animate-pulse'
+              }`}
+            >
+              {translateName(locale, 'asset', asset)}
+              <span className="sr-only">
+                {t(assetStatus === 'done' ? 'progress.done' : assetStatus === 'failed' ? 'progress.failed' : 'progress.pending')}
+              </span>
+              {assetStatus === 'done' && <span aria-hidden="true"> &#10003;</span>}
+              {assetStatus === 'failed' && <span aria-hidden="true"> !</span>}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
@@ -1,7 +1,37 @@
 import React from 'react';
 import { HouseIcon } from './icons';
+import { UNIT_SYSTEMS, type UnitSystem } from '../services/units';
+import { LOCALES, translator, type Locale } from '../services/i18n';
+import type { NarrationSettings } from '../services/narration';
+import { NarrationPanel } from './NarrationPanel';
+import type { ParentalSettings } from '../services/parentalControls';
+import { ParentalPanel } from './ParentalPanel';
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  units: UnitSystem;
+  onUnitsChange: (units: UnitSystem) => void;
+  locale: Locale;
+  onLocaleChange: (locale: Locale) => void;
+  narration: NarrationSettings;
+  onNarrationChange: (narration: NarrationSettings) => void;
+  parental: ParentalSettings;
+  onParentalChange: (parental: ParentalSettings) => void;
+  /** How many designs and edits have been made today, for the daily limit. */
+  usedToday: number;
+}
+
+export const Header: React.FC<HeaderProps> = ({
+  units,
+  onUnitsChange,
+  locale,
+  onLocaleChange,
+  narration,
+  onNarrationChange,
+  parental,
+  onParentalChange,
+  usedToday,
+}) => {
+  const t = translator(locale);
   return (
     <header className="w-full text-center mb-8">
       <div className="inline-flex items-center gap-4">
@@ -11,6 +41,38 @@ export const Header: React.FC = () => {
         </h1>
         <HouseIcon className="w-12 h-12 text-teal-500" />
       </div>
+      <div className="mt-3 flex flex-wrap items-center justify-center sm:justify-end gap-3">
+        <label className="inline-flex items-center gap-2 text-sm font-semibold text-sky-700">
+          {t('header.language')}
+          <select
+            value={locale}
+            onChange={e => onLocaleChange(e.target.value as Locale)}
+            className="px-2 py-1 text-sm font-semibold bg-white/80 text-sky-700 border border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300"
+          >
+            {(Object.keys(LOCALES) as Locale[]).map(option => (
+              <option key={option} value={option} lang={option}>{LOCALES[option].label}</option>
+            ))}
+          </select>
+        </label>
+        <div className="inline-flex" role="radiogroup" aria-label={t('header.units')}>
+          {(Object.keys(UNIT_SYSTEMS) as UnitSystem[]).map((system, index) => (
+            <button
+              key={system}
+              type="button"
+              role="radio"
+              aria-checked={units === system}
+              onClick={() => onUnitsChange(system)}
+              className={`px-3 py-1 text-sm font-semibold border border-sky-300 transition-colors duration-300 ${
+                index === 0 ? 'rounded-l-lg' : 'rounded-r-lg'
+              } ${units === system ? 'bg-sky-600 text-white' : 'bg-white/80 text-sky-700 hover:bg-sky-100'}`}
+            >
+              {t(`units.${system}`)}
+            </button>
+          ))}
+        </div>
+        <NarrationPanel settings={narration} onChange={onNarrationChange} locale={locale} />
+        <ParentalPanel settings={parental} onChange={onParentalChange} usedToday={usedToday} locale={locale} />
+      </div>
     </header>
   );
-};
\ No newline at end of file
+};
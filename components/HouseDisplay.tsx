@@ -1,72 +1,145 @@
-
 import React, { useState } from 'react';
 import { LoadingSpinner } from './LoadingSpinner';
-import type { ImageView } from '../types';
+import type { ImageView, SourceImage } from '../types';
+import { VIEWS } from '../constants';
+import { translateName, translator, type Locale, type Translate } from '../services/i18n';
 
 interface HouseDisplayProps {
   imageViews: ImageView[] | null;
   isLoading: boolean;
+  /** Regenerates a single view. When given, every one of the VIEWS gets a slot, even if it failed. */
+  onRetryView?: (view: string) => void;
+  /** Views being drawn right now, for the first time or again. */
+  pendingViews?: string[];
+  /** The drawing or photo the design was made from, shown beside the views. */
+  sourceImage?: SourceImage | null;
+  locale: Locale;
 }
 
-const Placeholder: React.FC = () => (
+const Placeholder: React.FC<{ locale: Locale }> = ({ locale }) => (
     <div className="w-full aspect-square bg-gray-200/80 rounded-2xl flex items-center justify-center">
-        <LoadingSpinner />
+        <LoadingSpinner locale={locale} />
     </div>
 );
 
-export const HouseDisplay: React.FC<HouseDisplayProps> = ({ imageViews, isLoading }) => {
-  const [mainImage, setMainImage] = useState<ImageView | null>(imageViews ? imageViews[0] : null);
+const SourceImageFigure: React.FC<{ sourceImage: SourceImage; t: Translate }> = ({ sourceImage, t }) => {
+    const kind = t(`sourceImage.${sourceImage.kind}.label`);
+    return (
+        <figure className="sm:w-1/3 flex-shrink-0">
+            <div className="w-full overflow-hidden rounded-2xl border-4 border-white shadow-md bg-white">
+                <img src={sourceImage.url} alt={t('display.sourceAlt', { kind })} className="w-full h-auto object-contain" />
+            </div>
+            <figcaption className="text-center font-semibold text-sky-700 mt-2">{t('display.madeFrom', { kind: kind.toLowerCase() })}</figcaption>
+        </figure>
+    );
+};
+
+export const HouseDisplay: React.FC<HouseDisplayProps> = ({ imageViews, isLoading, onRetryView, pendingViews = [], sourceImage, locale }) => {
+  const t = translator(locale);
+  // Views are kept under their English labels, which the prompts use too.
+  const viewName = (label: string) => translateName(locale, 'asset', label);
+  // While views are arriving, or when they can be retried, missing views keep their place.
+  const labels = onRetryView || pendingViews.length > 0 ? VIEWS : (imageViews ?? []).map(view => view.label);
+  const findView = (label: string | null) => imageViews?.find(view => view.label === label) ?? null;
 
+  const [mainLabel, setMainLabel] = useState<string | null>(labels[0] ?? null);
+
+  const labelsKey = labels.join('|');
   React.useEffect(() => {
-    if (imageViews && imageViews.length > 0) {
-      setMainImage(imageViews[0]);
-    } else {
-      setMainImage(null);
-    }
-  }, [imageViews]);
+    const available = labelsKey ? labelsKey.split('|') : [];
+    setMainLabel(current => (current && available.includes(current) ? current : available[0] ?? null));
+  }, [labelsKey]);
 
-  const containerClass = "bg-white/80 backdrop-blur-sm p-4 sm:p-6 rounded-b-2xl rounded-tr-2xl shadow-lg border border-sky-200";
+  const containerClass = "bg-white/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-lg border border-sky-200";
 
   if (isLoading) {
     return (
         <div className={containerClass}>
-            <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center">Conceptualizing the 3D model...</h2>
-            <Placeholder />
+            <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center">{t('display.loading')}</h2>
+            <div className="flex flex-col sm:flex-row gap-4">
+                <div className="flex-1"><Placeholder locale={locale} /></div>
+                {sourceImage && <SourceImageFigure sourceImage={sourceImage} t={t} />}
+            </div>
         </div>
     );
   }
 
-  if (!imageViews || imageViews.length === 0) {
+  if (labels.length === 0) {
     return null;
   }
 
+  const mainImage = findView(mainLabel);
+  const isMainPending = !!mainLabel && pendingViews.includes(mainLabel);
+
   return (
     <div className={`${containerClass} animate-fade-in`}>
-      <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center" id="gallery-heading">Your 3D House Design!</h2>
-      
-      {mainImage && (
-        <div className="mb-4">
-            <figure role="group" aria-labelledby="gallery-heading">
-                <div className="aspect-square w-full overflow-hidden rounded-2xl shadow-inner">
-                  <img src={mainImage.url} alt={`Generated miniature house design - ${mainImage.label}`} className="w-full h-full object-cover" />
-                </div>
-                <figcaption className="text-center font-semibold text-sky-700 mt-2">{mainImage.label}</figcaption>
+      <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center" id="gallery-heading">{t('display.title')}</h2>
+
+      {mainLabel && (
+        <div className="mb-4 flex flex-col sm:flex-row gap-4">
+            <figure role="group" aria-labelledby="gallery-heading" className="flex-1">
+                {isMainPending ? (
+                  <Placeholder locale={locale} />
+                ) : mainImage ? (
+                  <div className="aspect-square w-full overflow-hidden rounded-2xl shadow-inner">
+                    <img src={mainImage.url} alt={t('display.viewAlt', { view: viewName(mainImage.label) })} className="w-full h-full object-cover" />
+                  </div>
+                ) : (
+                  <div className="aspect-square w-full rounded-2xl bg-yellow-50 border-4 border-dashed border-yellow-300 flex flex-col items-center justify-center gap-4 p-6 text-center" role="alert">
+                    <p className="text-lg text-yellow-800">{t('display.viewMissing', { view: viewName(mainLabel).toLowerCase() })}</p>
+                    {onRetryView && <button
+                      type="button"
+                      onClick={() => onRetryView?.(mainLabel)}
+                      className="px-6 py-3 font-bold rounded-xl shadow-md bg-yellow-400 text-sky-900 hover:bg-yellow-500 transition-colors duration-300"
+                    >
+                      {t('display.tryAgain')}
+                    </button>}
+                  </div>
+                )}
+                <figcaption className="text-center font-semibold text-sky-700 mt-2">
+                  {viewName(mainLabel)}
+                  {mainImage && onRetryView && !isMainPending && (
+                    <button
+                      type="button"
+                      onClick={() => onRetryView(mainLabel)}
+                      className="ml-3 px-3 py-1 text-sm font-semibold rounded-lg bg-sky-100 text-sky-800 hover:bg-sky-200 transition-colors duration-300"
+                    >
+                      {t('display.redo')}
+                    </button>
+                  )}
+                </figcaption>
             </figure>
+            {sourceImage && <SourceImageFigure sourceImage={sourceImage} t={t} />}
         </div>
       )}
-      
-      <div className="grid grid-cols-5 gap-2" role="group" aria-label="Image view controls">
-        {imageViews.map((view, index) => (
-            <button 
-              key={index} 
-              onClick={() => setMainImage(view)} 
-              aria-label={`View ${view.label}`}
-              aria-pressed={mainImage?.url === view.url}
-              className={`aspect-square w-full overflow-hidden rounded-lg border-4 transition-colors duration-200 ${mainImage?.url === view.url ? 'border-yellow-400' : 'border-transparent hover:border-sky-300'}`}
+
+      <div className="grid grid-cols-5 gap-2" role="group" aria-label={t('display.views')}>
+        {labels.map(label => {
+          const view = findView(label);
+          const isSelected = mainLabel === label;
+          const isPending = pendingViews.includes(label);
+          const name = viewName(label);
+          return (
+            <button
+              key={label}
+              onClick={() => setMainLabel(label)}
+              aria-label={t(view ? 'display.show' : isPending ? 'display.drawingLabel' : onRetryView ? 'display.failedRetryLabel' : 'display.failedLabel', { view: name })}
+              aria-pressed={isSelected}
+              className={`aspect-square w-full overflow-hidden rounded-lg border-4 transition-colors duration-200 ${isSelected ? 'border-yellow-400' : 'border-transparent hover:border-sky-300'}`}
             >
-                <img src={view.url} alt={`Thumbnail of ${view.label}`} className="w-full h-full object-cover" />
+                {isPending ? (
+                  <span className="w-full h-full flex items-center justify-center bg-gray-200/80 text-xs text-gray-600">{t('display.drawing')}</span>
+                ) : view ? (
+                  <img src={view.url} alt={t('display.thumbnail', { view: name })} className="w-full h-full object-cover" />
+                ) : (
+                  <span className="w-full h-full flex flex-col items-center justify-center bg-yellow-50 text-xs font-semibold text-yellow-800 p-1 text-center">
+                    <span aria-hidden="true" className="text-lg">!</span>
+                    {t(onRetryView ? 'display.failedRetry' : 'display.failed')}
+                  </span>
+                )}
             </button>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { LoadingSpinner } from './LoadingSpinner';
+import type { HouseSpec, Material, PartGeometry, PartRole, RoofType } from '../types';
+import { assembleHouse, type HouseAssembly } from '../services/houseAssembly';
+import { cutoutPath, rectangleOutline } from '../services/partOutline';
+import { formatSize, type UnitSystem } from '../services/units';
+import { translator, type Locale } from '../services/i18n';
+
+interface HouseModelViewerProps {
+  houseSpec: HouseSpec | null;
+  /** The cutting list rows the model is built from. Without them the parts are worked out from the spec. */
+  materials: Material[] | null;
+  isLoading: boolean;
+  units: UnitSystem;
+  locale: Locale;
+}
+
+// How far apart the parts move at the end of the slider, as a share of the house's largest size.
+const EXPLODE_DISTANCE = 0.6;
+const EDGE_COLOR = '#0c4a6e';
+
+interface Viewer {
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  controls: OrbitControls;
+}
+
+interface HouseMeshes {
+  group: THREE.Group;
+  /** Each part's group with its assembled position and the way it moves when exploded. */
+  parts: Array<{ object: THREE.Object3D; position: THREE.Vector3; direction: THREE.Vector3 }>;
+  explodeDistanceMm: number;
+}
+
+const toShapePoints = (points: Array<[number, number]>): THREE.Vector2[] => points.map(([x, y]) => new THREE.Vector2(x, y));
+
+/**
+ * Draws the flat outline of a part with its windows as holes. Doors sit on the bottom edge, so
+ * they are notched into the outline instead, walking round each door as the bottom edge reaches it.
+ */
+const partShape = (part: PartGeometry): THREE.Shape => {
+  const outline = (part.outline ?? rectangleOutline(part)).map((point): [number, number] => [point.xMm, point.yMm]);
+  const paths = part.cutouts.map(cutoutPath);
+  const notches = paths.filter(path => !path.closed).sort((a, b) => a.points[0][0] - b.points[0][0]);
+
+  // Every outline starts with the bottom edge, from (0, 0) to (width, 0).
+  const shape = new THREE.Shape(toShapePoints([outline[0], ...notches.flatMap(path => path.points), ...outline.slice(1)]));
+  shape.holes = paths.filter(path => path.closed).map(path => new THREE.Path(toShapePoints(path.points)));
+  return shape;
+};
+
+/**
+ * Builds the meshes for one part: the board itself with its edges outlined, and a door-coloured
+ * panel set back in every door opening.
+ */
+const buildPart = (part: PartGeometry, materials: Record<PartRole | 'door', THREE.Material>): THREE.Group => {
+  const group = new THREE.Group();
+  const geometry = new THREE.ExtrudeGeometry(partShape(part), { depth: part.thicknessMm, bevelEnabled: false, curveSegments: 16 });
+  group.add(new THREE.Mesh(geometry, materials[part.role]));
+  group.add(new THREE.LineSegments(new THREE.EdgesGeometry(geometry, 30), new THREE.LineBasicMaterial({ color: EDGE_COLOR })));
+
+  for (const cutout of part.cutouts.filter(cutout => cutout.kind === 'door')) {
+    const { points } = cutoutPath(cutout);
+    const door = new THREE.ExtrudeGeometry(new THREE.Shape(toShapePoints(points)), { depth: part.thicknessMm / 2, bevelEnabled: false });
+    group.add(new THREE.Mesh(door, materials.door));
+  }
+  return group;
+};
+
+/**
+ * Builds the whole house from its placed parts, coloured like the design.
+ */
+const buildHouse = (assembly: HouseAssembly, spec: HouseSpec): HouseMeshes => {
+  const material = (hex: string) => new THREE.MeshStandardMaterial({ color: new THREE.Color(hex), roughness: 0.85, side: THREE.DoubleSide });
+  const materials = {
+    base: material(spec.colors.trim.hex),
+    wall: material(spec.colors.walls.hex),
+    roof: material(spec.colors.roof.hex),
+    floor: material(spec.colors.trim.hex),
+    accessory: material(spec.colors.trim.hex),
+    door: material(spec.colors.door.hex),
+  };
+
+  const group = new THREE.Group();
+  const parts = assembly.parts.map(placed => {
+    const object = buildPart(placed.part, materials);
+    // Turn about x first, then y, as the assembly describes.
+    object.rotation.set(placed.rotation.x, placed.rotation.y, 0, 'YXZ');
+    const position = new THREE.Vector3(placed.position.x, placed.position.y, placed.position.z);
+    object.position.copy(position);
+    group.add(object);
+    const { x, y, z } = placed.explodeDirection;
+    return { object, position, direction: new THREE.Vector3(x, y, z) };
+  });
+
+  const { x, y, z } = assembly.size;
+  return { group, parts, explodeDistanceMm: Math.max(x, y, z) * EXPLODE_DISTANCE };
+};
+
+const disposeObject = (object: THREE.Object3D) => {
+  object.traverse(child => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+      child.geometry.dispose();
+      const materials = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach(material => material.dispose());
+    }
+  });
+};
+
+/**
+ * Points the camera at the house from the front-right corner, far enough back to see all of it.
+ */
+const frameHouse = (viewer: Viewer, assembly: HouseAssembly) => {
+  const { x, y, z } = assembly.size;
+  const distance = Math.max(x, y, z) * 2;
+  viewer.controls.target.set(0, y / 2, 0);
+  viewer.camera.position.set(distance * 0.6, y / 2 + distance * 0.45, distance * 0.8);
+  viewer.camera.near = distance / 100;
+  viewer.camera.far = distance * 20;
+  viewer.camera.updateProjectionMatrix();
+  viewer.controls.minDistance = distance / 5;
+  viewer.controls.maxDistance = distance * 5;
+  viewer.controls.update();
+};
+
+export const HouseModelViewer: React.FC<HouseModelViewerProps> = ({ houseSpec, materials, isLoading, units, locale }) => {
+  const t = translator(locale);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewerRef = useRef<Viewer | null>(null);
+  const houseRef = useRef<HouseMeshes | null>(null);
+  const [isSupported, setIsSupported] = useState<boolean>(true);
+  const [explode, setExplode] = useState<number>(0);
+
+  const assembly = useMemo(() => (houseSpec ? assembleHouse(houseSpec, materials) : null), [houseSpec, materials]);
+  const hasCanvas = !!houseSpec && isSupported;
+
+  // The renderer lives as long as the canvas; only the house inside it is rebuilt.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let renderer: THREE.WebGLRenderer;
+    try {
+      renderer = new THREE.WebGLRenderer({ canvas, antialias: true, alpha: true });
+    } catch (e) {
+      console.error('WebGL is not available', e);
+      setIsSupported(false);
+      return;
+    }
+    renderer.setPixelRatio(window.devicePixelRatio);
+
+    const scene = new THREE.Scene();
+    scene.add(new THREE.HemisphereLight('#ffffff', '#bae6fd', 1.6));
+    const sun = new THREE.DirectionalLight('#ffffff', 1.8);
+    sun.position.set(1, 2, 1.5);
+    scene.add(sun);
+
+    const camera = new THREE.PerspectiveCamera(40, 1, 1, 10_000);
+    const controls = new OrbitControls(camera, canvas);
+    controls.enableDamping = true;
+    controls.listenToKeyEvents(canvas);
+    viewerRef.current = { scene, camera, controls };
+
+    // The canvas has no size while its tab is hidden, so it is measured whenever that changes.
+    const resize = () => {
+      const { clientWidth: width, clientHeight: height } = canvas;
+      if (width === 0 || height === 0) return;
+      renderer.setSize(width, height, false);
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+    };
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+
+    renderer.setAnimationLoop(() => {
+      if (canvas.clientWidth === 0) return;
+      controls.update();
+      renderer.render(scene, camera);
+    });
+
+    return () => {
+      renderer.setAnimationLoop(null);
+      observer.disconnect();
+      controls.dispose();
+      if (houseRef.current) disposeObject(houseRef.current.group);
+      houseRef.current = null;
+      renderer.dispose();
+      viewerRef.current = null;
+    };
+  }, [hasCanvas]);
+
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer || !assembly || !houseSpec) return;
+
+    const house = buildHouse(assembly, houseSpec);
+    viewer.scene.add(house.group);
+    houseRef.current = house;
+    frameHouse(viewer, assembly);
+
+    return () => {
+      viewer.scene.remove(house.group);
+      disposeObject(house.group);
+      if (houseRef.current === house) houseRef.current = null;
+    };
+  }, [assembly, houseSpec, hasCanvas]);
+
+  useEffect(() => {
+    const house = houseRef.current;
+    if (!house) return;
+    for (const { object, position, direction } of house.parts) {
+      object.position.copy(position).addScaledVector(direction, explode * house.explodeDistanceMm);
+    }
+  }, [explode, assembly]);
+
+  const containerClass = "bg-white/80 backdrop-blur-sm p-4 sm:p-6 rounded-b-2xl rounded-tr-2xl shadow-lg border border-sky-200";
+
+  if (!houseSpec) {
+    if (!isLoading) return null;
+    return (
+      <div className={containerClass}>
+        <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center">{t('model.planning')}</h2>
+        <div className="w-full aspect-square bg-gray-200/80 rounded-2xl flex items-center justify-center">
+          <LoadingSpinner locale={locale} />
+        </div>
+      </div>
+    );
+  }
+
+  const { widthMm, depthMm } = houseSpec.footprint;
+  const partCount = assembly?.parts.length ?? 0;
+  const roofType: RoofType = houseSpec.roof.type;
+
+  return (
+    <div className={`${containerClass} animate-fade-in`}>
+      <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center" id="model-heading">{t('model.heading')}</h2>
+      {hasCanvas ? (
+        <>
+          <canvas
+            ref={canvasRef}
+            tabIndex={0}
+            role="img"
+            aria-labelledby="model-heading"
+            aria-describedby="model-help"
+            className="block w-full aspect-square rounded-2xl bg-gradient-to-b from-sky-100 to-white shadow-inner cursor-grab active:cursor-grabbing focus:outline-none focus:ring-4 focus:ring-yellow-300"
+          />
+          <p id="model-help" className="mt-2 text-sm text-center text-sky-700">
+            {t('model.help')}{' '}
+            {t('model.builtFrom', { count: partCount, size: formatSize([widthMm, depthMm], units), roof: t(`roof.${roofType}`) })}
+          </p>
+          <div className="mt-4 flex flex-wrap items-center gap-4">
+            <label htmlFor="explode-slider" className="text-sm font-semibold text-sky-800">{t('model.pullApart')}</label>
+            <input
+              id="explode-slider"
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(explode * 100)}
+              onChange={e => setExplode(Number(e.target.value) / 100)}
+              className="flex-1 accent-yellow-500"
+            />
+            <button
+              type="button"
+              onClick={() => viewerRef.current && assembly && frameHouse(viewerRef.current, assembly)}
+              className="px-3 py-1 text-sm font-semibold rounded-lg bg-sky-100 text-sky-800 hover:bg-sky-200 transition-colors duration-300"
+            >
+              {t('model.resetView')}
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="w-full aspect-square rounded-2xl bg-yellow-50 border-4 border-dashed border-yellow-300 flex items-center justify-center p-6 text-center" role="alert">
+          <p className="text-lg text-yellow-800">{t('model.noWebGl')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
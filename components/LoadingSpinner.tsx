@@ -1,11 +1,16 @@
 
 import React from 'react';
+import { translate, type Locale } from '../services/i18n';
 
-export const LoadingSpinner: React.FC = () => {
+interface LoadingSpinnerProps {
+  locale: Locale;
+}
+
+export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ locale }) => {
     return (
         <div role="status" className="flex flex-col items-center justify-center gap-4">
             <div className="w-16 h-16 border-8 border-dashed rounded-full animate-spin border-yellow-500"></div>
-            <p className="text-sky-700 font-semibold">Working our magic...</p>
+            <p className="text-sky-700 font-semibold">{translate(locale, 'spinner.working')}</p>
         </div>
     );
 };
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { NARRATION_RATES, speechOptions, type NarrationRate, type NarrationSettings } from '../services/narration';
+import { isSpeechSupported, listVoices, onVoicesChanged, speak } from '../services/speech';
+import { LOCALES, translator, type Locale } from '../services/i18n';
+import { SpeakerIcon } from './icons';
+
+interface NarrationPanelProps {
+  settings: NarrationSettings;
+  onChange: (settings: NarrationSettings) => void;
+  locale: Locale;
+}
+
+/**
+ * How the app reads aloud: the voice, from those that speak the app's language, how fast, and
+ * whether progress and problems are read out on their own.
+ */
+export const NarrationPanel: React.FC<NarrationPanelProps> = ({ settings, onChange, locale }) => {
+  const t = translator(locale);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const speechLang = LOCALES[locale].speechLang;
+
+  // Browsers load their voices after the page, and each language has its own.
+  useEffect(() => {
+    const refresh = () => setVoices(listVoices(speechLang));
+    refresh();
+    return onVoicesChanged(refresh);
+  }, [speechLang]);
+
+  if (!isSpeechSupported()) {
+    return null;
+  }
+
+  const update = (changes: Partial<NarrationSettings>) => onChange({ ...settings, ...changes });
+  const tryIt = (changes: Partial<NarrationSettings> = {}) => speak(t('narration.sample'), undefined, speechOptions({ ...settings, ...changes }, locale));
+  const hasVoice = voices.some(voice => voice.voiceURI === settings.voiceURI);
+
+  const labelClass = "block mb-1 text-sm font-semibold text-sky-800";
+
+  return (
+    <div className="relative" onKeyDown={e => e.key === 'Escape' && setIsOpen(false)}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-controls="narration-panel"
+        className="inline-flex items-center gap-2 px-3 py-1 text-sm font-semibold bg-white/80 text-sky-700 border border-sky-300 rounded-lg hover:bg-sky-100 transition-colors duration-300"
+      >
+        <SpeakerIcon className="w-4 h-4" aria-hidden="true" />
+        {t('narration.title')}
+      </button>
+
+      {isOpen && (
+        <fieldset
+          id="narration-panel"
+          className="absolute right-0 z-10 mt-2 w-72 p-4 space-y-3 text-left rounded-xl bg-white border border-sky-200 shadow-lg"
+        >
+          <legend className="sr-only">{t('narration.title')}</legend>
+
+          <div>
+            <label htmlFor="narration-voice" className={labelClass}>{t('narration.voice')}</label>
+            <select
+              id="narration-voice"
+              value={hasVoice ? settings.voiceURI ?? '' : ''}
+              onChange={e => {
+                const voiceURI = e.target.value || null;
+                update({ voiceURI });
+                tryIt({ voiceURI });
+              }}
+              className="w-full p-2 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300"
+            >
+              <option value="">{t('narration.defaultVoice')}</option>
+              {voices.map(voice => (
+                <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+              ))}
+            </select>
+          </div>
+
+          <div role="radiogroup" aria-labelledby="narration-speed-label">
+            <p id="narration-speed-label" className={labelClass}>{t('narration.speed')}</p>
+            <div className="inline-flex">
+              {(Object.keys(NARRATION_RATES) as NarrationRate[]).map((rate, index, rates) => (
+                <button
+                  key={rate}
+                  type="button"
+                  role="radio"
+                  aria-checked={settings.rate === rate}
+                  onClick={() => {
+                    update({ rate });
+                    tryIt({ rate });
+                  }}
+                  className={`px-3 py-1 text-sm font-semibold border border-sky-300 transition-colors duration-300 ${
+                    index === 0 ? 'rounded-l-lg' : index === rates.length - 1 ? 'rounded-r-lg' : ''
+                  } ${settings.rate === rate ? 'bg-sky-600 text-white' : 'bg-white/80 text-sky-700 hover:bg-sky-100'}`}
+                >
+                  {t(`narration.rate.${rate}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.announce}
+              onChange={e => update({ announce: e.target.checked })}
+              className="w-4 h-4 accent-yellow-400"
+            />
+            {t('narration.announce')}
+          </label>
+
+          <button
+            type="button"
+            onClick={() => tryIt()}
+            className="px-3 py-1 text-sm font-semibold rounded-lg bg-sky-100 text-sky-800 hover:bg-sky-200 transition-colors duration-300"
+          >
+            {t('narration.try')}
+          </button>
+        </fieldset>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import type { Strictness } from '../types';
+import { STRICTNESS_LEVELS } from '../services/moderation';
+import { checkPin, hashPin, MAX_DAILY_LIMIT, PIN_PATTERN, type ParentalSettings } from '../services/parentalControls';
+import { translator, type Locale } from '../services/i18n';
+import { LockIcon } from './icons';
+
+interface ParentalPanelProps {
+  settings: ParentalSettings;
+  onChange: (settings: ParentalSettings) => void;
+  /** How many designs and edits have been made today. */
+  usedToday: number;
+  locale: Locale;
+}
+
+// After this many wrong PINs in a row, the panel stops listening for a while.
+const MAX_TRIES = 5;
+const LOCKOUT_MS = 60_000;
+const DEFAULT_DAILY_LIMIT = 5;
+
+/**
+ * The grown-ups' settings: how careful the content checks are, a daily limit on designs, sharing
+ * and the craft knife. A PIN is chosen the first time, and asked for every time the panel is
+ * opened; closing it locks it again.
+ */
+export const ParentalPanel: React.FC<ParentalPanelProps> = ({ settings, onChange, usedToday, locale }) => {
+  const t = translator(locale);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [isUnlocked, setIsUnlocked] = useState<boolean>(false);
+  const [isChangingPin, setIsChangingPin] = useState<boolean>(false);
+  const [pin, setPin] = useState<string>('');
+  const [confirmPin, setConfirmPin] = useState<string>('');
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const clearPins = () => {
+    setPin('');
+    setConfirmPin('');
+    setProblem(null);
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    setIsUnlocked(false);
+    setIsChangingPin(false);
+    clearPins();
+  };
+
+  const update = (changes: Partial<ParentalSettings>) => onChange({ ...settings, ...changes });
+
+  const handleSetPin = async (e: { preventDefault: () => void }) => {
+    e.preventDefault();
+    if (!PIN_PATTERN.test(pin)) {
+      setProblem(t('parental.pinInvalid'));
+      return;
+    }
+    if (pin !== confirmPin) {
+      setProblem(t('parental.pinMismatch'));
+      return;
+    }
+    update({ pinHash: await hashPin(pin), wrongTries: 0, lockedUntil: 0 });
+    setIsUnlocked(true);
+    setIsChangingPin(false);
+    clearPins();
+  };
+
+  const handleUnlock = async (e: { preventDefault: () => void }) => {
+    e.preventDefault();
+    if (Date.now() < settings.lockedUntil) {
+      setProblem(t('parental.lockedOut'));
+      return;
+    }
+    if (await checkPin(settings, pin)) {
+      setIsUnlocked(true);
+      if (settings.wrongTries > 0) update({ wrongTries: 0 });
+      clearPins();
+      return;
+    }
+    const tries = settings.wrongTries + 1;
+    setPin('');
+    if (tries >= MAX_TRIES) {
+      update({ wrongTries: 0, lockedUntil: Date.now() + LOCKOUT_MS });
+      setProblem(t('parental.lockedOut'));
+    } else {
+      update({ wrongTries: tries });
+      setProblem(t('parental.wrongPin', { left: MAX_TRIES - tries }));
+    }
+  };
+
+  const labelClass = "block mb-1 text-sm font-semibold text-sky-800";
+  const inputClass = "w-full p-2 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300";
+  const buttonClass = "px-3 py-1 text-sm font-semibold rounded-lg bg-sky-100 text-sky-800 hover:bg-sky-200 transition-colors duration-300";
+  const pinInputProps = { type: 'password', inputMode: 'numeric' as const, autoComplete: 'off', maxLength: 8, className: inputClass };
+
+  const problemText = problem && <p role="alert" className="text-sm text-red-700">{problem}</p>;
+
+  const renderSetPin = () => (
+    <form onSubmit={handleSetPin} className="space-y-3">
+      <p className="text-sm text-gray-700">{t('parental.setPinIntro')}</p>
+      <div>
+        <label htmlFor="parental-new-pin" className={labelClass}>{t('parental.pin')}</label>
+        <input id="parental-new-pin" {...pinInputProps} value={pin} onChange={e => setPin(e.target.value)} autoFocus />
+      </div>
+      <div>
+        <label htmlFor="parental-confirm-pin" className={labelClass}>{t('parental.confirmPin')}</label>
+        <input id="parental-confirm-pin" {...pinInputProps} value={confirmPin} onChange={e => setConfirmPin(e.target.value)} />
+      </div>
+      {problemText}
+      <button type="submit" className={buttonClass}>{t('parental.setPin')}</button>
+    </form>
+  );
+
+  const renderUnlock = () => (
+    <form onSubmit={handleUnlock} className="space-y-3">
+      <div>
+        <label htmlFor="parental-pin" className={labelClass}>{t('parental.enterPin')}</label>
+        <input id="parental-pin" {...pinInputProps} value={pin} onChange={e => setPin(e.target.value)} autoFocus />
+      </div>
+      {problemText}
+      <button type="submit" className={buttonClass}>{t('parental.unlock')}</button>
+      <p className="text-xs text-gray-500">{t('parental.forgotPin')}</p>
+    </form>
+  );
+
+  const renderSettings = () => (
+    <div className="space-y-4">
+      <div role="radiogroup" aria-labelledby="parental-strictness-label">
+        <p id="parental-strictness-label" className={labelClass}>{t('parental.strictness')}</p>
+        {STRICTNESS_LEVELS.map((level: Strictness) => (
+          <label key={level} className="flex items-start gap-2 mb-1 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="parental-strictness"
+              value={level}
+              checked={settings.strictness === level}
+              onChange={() => update({ strictness: level })}
+              className="mt-1 w-4 h-4 accent-yellow-400"
+            />
+            <span>
+              <span className="font-semibold">{t(`parental.strictness.${level}`)}</span>
+              <span className="block text-xs text-gray-500">{t(`parental.strictness.${level}.help`)}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="inline-flex items-center gap-2 text-sm font-semibold text-sky-800">
+            <input
+              type="checkbox"
+              checked={settings.dailyLimit !== null}
+              onChange={e => update({ dailyLimit: e.target.checked ? DEFAULT_DAILY_LIMIT : null })}
+              className="w-4 h-4 accent-yellow-400"
+            />
+            {t('parental.dailyLimit')}
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={MAX_DAILY_LIMIT}
+            aria-label={t('parental.dailyLimitLabel')}
+            value={settings.dailyLimit ?? DEFAULT_DAILY_LIMIT}
+            onChange={e => update({ dailyLimit: Math.min(MAX_DAILY_LIMIT, Math.max(1, Math.round(Number(e.target.value)) || 1)) })}
+            disabled={settings.dailyLimit === null}
+            className="w-16 p-1 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300 disabled:bg-gray-100"
+          />
+          <span className="text-sm text-gray-700">{t('parental.perDay')}</span>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">{t('parental.usedToday', { count: usedToday })}</p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={settings.allowSharing}
+          onChange={e => update({ allowSharing: e.target.checked })}
+          className="w-4 h-4 accent-yellow-400"
+        />
+        {t('parental.allowSharing')}
+      </label>
+
+      <div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.allowCraftKnife}
+            onChange={e => update({ allowCraftKnife: e.target.checked })}
+            aria-describedby="parental-craft-knife-help"
+            className="w-4 h-4 accent-yellow-400"
+          />
+          {t('parental.allowCraftKnife')}
+        </label>
+        <p id="parental-craft-knife-help" className="mt-1 text-xs text-gray-500">{t('parental.craftKnifeHelp')}</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => {
+            clearPins();
+            setIsChangingPin(true);
+          }}
+          className={buttonClass}
+        >
+          {t('parental.changePin')}
+        </button>
+        <button type="button" onClick={close} className={buttonClass}>{t('parental.lock')}</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="relative" onKeyDown={e => e.key === 'Escape' && close()}>
+      <button
+        type="button"
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        aria-expanded={isOpen}
+        aria-controls="parental-panel"
+        className="inline-flex items-center gap-2 px-3 py-1 text-sm font-semibold bg-white/80 text-sky-700 border border-sky-300 rounded-lg hover:bg-sky-100 transition-colors duration-300"
+      >
+        <LockIcon className="w-4 h-4" aria-hidden="true" />
+        {t('parental.title')}
+      </button>
+
+      {isOpen && (
+        <div
+          id="parental-panel"
+          role="group"
+          aria-label={t('parental.title')}
+          className="absolute right-0 z-10 mt-2 w-80 p-4 text-left rounded-xl bg-white border border-sky-200 shadow-lg"
+        >
+          {settings.pinHash === null || isChangingPin ? renderSetPin() : isUnlocked ? renderSettings() : renderUnlock()}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,47 +1,10 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { SparklesIcon, MicrophoneIcon, UndoIcon } from './icons';
-
-// Fix: Add type definitions for the Web Speech API to resolve TypeScript errors.
-// These experimental APIs are not included in the default TypeScript DOM library.
-interface SpeechRecognitionEvent extends Event {
-  readonly results: SpeechRecognitionResultList;
-}
-
-interface SpeechRecognitionResultList {
-  readonly [index: number]: SpeechRecognitionResult;
-  readonly item: (index: number) => SpeechRecognitionResult;
-}
-
-interface SpeechRecognitionResult {
-  readonly [index: number]: SpeechRecognitionAlternative;
-}
-
-interface SpeechRecognitionAlternative {
-  readonly transcript: string;
-}
-
-interface SpeechRecognitionErrorEvent extends Event {
-  readonly error: string;
-}
-
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start(): void;
-  stop(): void;
-  onresult: (event: SpeechRecognitionEvent) => void;
-  onerror: (event: SpeechRecognitionErrorEvent) => void;
-  onend: () => void;
-}
-
-declare global {
-  interface Window {
-    SpeechRecognition: new () => SpeechRecognition;
-    webkitSpeechRecognition: new () => SpeechRecognition;
-  }
-}
+import { SparklesIcon, MicrophoneIcon, UndoIcon, RedoIcon, ImageIcon, CameraIcon } from './icons';
+import type { SourceImage, SourceImageKind } from '../types';
+import { readSourceImage, SOURCE_IMAGE_KINDS } from '../services/sourceImage';
+import { createDictation, isSpeechInputSupported, type Dictation } from '../services/speechInput';
+import { LOCALES, translator, type Locale } from '../services/i18n';
 
 interface PromptInputProps {
   prompt: string;
@@ -49,14 +12,44 @@ interface PromptInputProps {
   onSubmit: () => void;
   isLoading: boolean;
   onUndo: () => void;
-  hasContent: boolean;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** When on, Create! asks for brand new ideas instead of reusing the answer to the same idea. */
+  freshIdeas: boolean;
+  setFreshIdeas: (freshIdeas: boolean) => void;
+  /** A drawing or photo to design from. With one, the idea is optional. */
+  sourceImage: SourceImage | null;
+  setSourceImage: (sourceImage: SourceImage | null) => void;
+  /** The language of the labels, and of the speech listened for. */
+  locale: Locale;
 }
 
-export const PromptInput: React.FC<PromptInputProps> = ({ prompt, setPrompt, onSubmit, isLoading, onUndo, hasContent }) => {
+const pictureButtonClass = "inline-flex items-center gap-2 px-4 py-2 font-semibold rounded-xl shadow-md bg-sky-600 text-white hover:bg-sky-700 focus-within:ring-4 focus-within:ring-yellow-300 transition-colors duration-300 cursor-pointer";
+
+export const PromptInput: React.FC<PromptInputProps> = ({
+  prompt,
+  setPrompt,
+  onSubmit,
+  isLoading,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  freshIdeas,
+  setFreshIdeas,
+  sourceImage,
+  setSourceImage,
+  locale,
+}) => {
+  const t = translator(locale);
   const [isRecording, setIsRecording] = useState(false);
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const [pictureKind, setPictureKind] = useState<SourceImageKind>('drawing');
+  const [pictureError, setPictureError] = useState<string | null>(null);
+  const [isReadingPicture, setIsReadingPicture] = useState(false);
+  const dictationRef = useRef<Dictation | null>(null);
 
-  const isSpeechRecognitionSupported = typeof window !== 'undefined' && ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window);
+  const isSpeechRecognitionSupported = isSpeechInputSupported();
 
   useEffect(() => {
     if (!isSpeechRecognitionSupported) {
@@ -64,108 +57,198 @@ export const PromptInput: React.FC<PromptInputProps> = ({ prompt, setPrompt, onS
       return;
     }
 
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    const recognition = new SpeechRecognition();
-    recognitionRef.current = recognition;
-
-    recognition.continuous = false;
-    recognition.interimResults = false;
-    recognition.lang = 'en-US';
-
-    recognition.onresult = (event) => {
-      const transcript = event.results[0][0].transcript;
-      setPrompt(transcript);
-    };
-
-    recognition.onerror = (event) => {
-      console.error('Speech recognition error:', event.error);
-      setIsRecording(false);
-    };
-
-    recognition.onend = () => {
-      setIsRecording(false);
-    };
+    // Keeps listening through pauses until the button is pressed again.
+    const dictation = createDictation({ lang: LOCALES[locale].speechLang, onText: setPrompt, onListeningChange: setIsRecording });
+    dictationRef.current = dictation;
 
+    // Changing the language starts a new dictation, so listening stops until it is asked for again.
     return () => {
-      recognition.stop();
+      dictation?.dispose();
+      setIsRecording(false);
     };
-  }, [isSpeechRecognitionSupported, setPrompt]);
+  }, [isSpeechRecognitionSupported, setPrompt, locale]);
 
   const handleToggleRecording = () => {
-    if (!recognitionRef.current) return;
+    if (!dictationRef.current) return;
 
     if (isRecording) {
-      recognitionRef.current.stop();
-      setIsRecording(false);
+      dictationRef.current.stop();
     } else {
       setPrompt(''); // Clear prompt before starting new recording
-      recognitionRef.current.start();
-      setIsRecording(true);
+      dictationRef.current.start();
     }
   };
   
+  const handlePictureChosen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Cleared so choosing the same file again still counts as a change.
+    event.target.value = '';
+    if (!file) return;
+    setPictureError(null);
+    setIsReadingPicture(true);
+    try {
+      setSourceImage(await readSourceImage(file, sourceImage?.kind ?? pictureKind));
+    } catch (e) {
+      setPictureError(e instanceof Error ? e.message : t('prompt.pictureFailed'));
+    } finally {
+      setIsReadingPicture(false);
+    }
+  };
+
+  const handlePictureKindChange = (kind: SourceImageKind) => {
+    setPictureKind(kind);
+    if (sourceImage) setSourceImage({ ...sourceImage, kind });
+  };
+
+  const canSubmit = !!prompt.trim() || !!sourceImage;
+
+  // Listening carries on through pauses, so it has to be stopped when the idea is sent.
+  const submit = () => {
+    dictationRef.current?.stop();
+    onSubmit();
+  };
+
   const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (event.key === 'Enter' && !event.shiftKey) {
       event.preventDefault();
-      onSubmit();
+      submit();
     }
   };
+
+  // The kind of the picture in the box, or of the next one to be added.
+  const shownKind: SourceImageKind = sourceImage?.kind ?? pictureKind;
   
   return (
-    <div className="flex flex-col sm:flex-row items-center gap-4 w-full">
-      <textarea
-        value={prompt}
-        onChange={(e) => setPrompt(e.target.value)}
-        onKeyDown={handleKeyDown}
-        placeholder={isRecording ? "Listening..." : "a fairy cottage made of candy..."}
-        aria-label="Describe your dream mini house"
-        aria-describedby="prompt-heading"
-        className="w-full h-24 sm:h-14 p-4 text-lg bg-sky-900 text-white placeholder-sky-400 border-2 border-sky-700 rounded-xl focus:ring-4 focus:ring-yellow-300 focus:border-yellow-500 transition-all duration-300 resize-none"
-        disabled={isLoading}
-      />
-      {isSpeechRecognitionSupported && (
-        <button
-          onClick={handleToggleRecording}
+    <div className="w-full">
+      <div className="flex flex-col sm:flex-row items-center gap-4 w-full">
+        <textarea
+          id="prompt-input"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={t(isRecording ? 'prompt.listening' : sourceImage ? 'prompt.placeholderWithPicture' : 'prompt.placeholder')}
+          aria-label={t('prompt.label')}
+          aria-describedby="prompt-heading"
+          className="w-full h-24 sm:h-14 p-4 text-lg bg-sky-900 text-white placeholder-sky-400 border-2 border-sky-700 rounded-xl focus:ring-4 focus:ring-yellow-300 focus:border-yellow-500 transition-all duration-300 resize-none"
           disabled={isLoading}
-          aria-label={isRecording ? 'Stop voice recording' : 'Start voice recording'}
-          className={`flex-shrink-0 w-16 h-16 sm:w-14 sm:h-14 flex items-center justify-center rounded-xl shadow-md transform hover:scale-105 transition-all duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed disabled:scale-100 ${
-            isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-sky-600 text-white hover:bg-sky-700'
-          }`}
-        >
-          <MicrophoneIcon className="w-7 h-7" aria-hidden="true" />
-        </button>
-      )}
-      {hasContent && !isLoading && (
+        />
+        {isSpeechRecognitionSupported && (
           <button
-            onClick={onUndo}
+            onClick={handleToggleRecording}
             disabled={isLoading}
-            aria-label="Undo and start over"
-            className="flex-shrink-0 w-16 h-16 sm:w-14 sm:h-14 flex items-center justify-center rounded-xl shadow-md transform hover:scale-105 transition-all duration-300 bg-sky-600 text-white hover:bg-sky-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            aria-label={t(isRecording ? 'prompt.stopRecording' : 'prompt.startRecording')}
+            className={`flex-shrink-0 w-16 h-16 sm:w-14 sm:h-14 flex items-center justify-center rounded-xl shadow-md transform hover:scale-105 transition-all duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed disabled:scale-100 ${
+              isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-sky-600 text-white hover:bg-sky-700'
+            }`}
           >
-            <UndoIcon className="w-7 h-7" aria-hidden="true" />
+            <MicrophoneIcon className="w-7 h-7" aria-hidden="true" />
           </button>
-      )}
-      <button
-        onClick={onSubmit}
-        disabled={isLoading || !prompt.trim()}
-        aria-label="Create house design"
-        className="w-full sm:w-auto flex-shrink-0 bg-yellow-400 text-sky-900 font-bold text-lg px-8 py-4 rounded-xl shadow-md hover:bg-yellow-500 transform hover:scale-105 transition-all duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed disabled:scale-100 flex items-center justify-center gap-2"
-      >
-        {isLoading ? (
-          <span className="flex items-center justify-center">
-            <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-sky-900" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-            </svg>
-            Building...
-          </span>
-        ) : (
+        )}
+        {(canUndo || canRedo) && !isLoading && (
           <>
-            <SparklesIcon className="w-6 h-6" aria-hidden="true" />
-            Create!
+            <button
+              onClick={onUndo}
+              disabled={isLoading || !canUndo}
+              aria-label={t('prompt.undo')}
+              className="flex-shrink-0 w-16 h-16 sm:w-14 sm:h-14 flex items-center justify-center rounded-xl shadow-md transform hover:scale-105 transition-all duration-300 bg-sky-600 text-white hover:bg-sky-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              <UndoIcon className="w-7 h-7" aria-hidden="true" />
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={isLoading || !canRedo}
+              aria-label={t('prompt.redo')}
+              className="flex-shrink-0 w-16 h-16 sm:w-14 sm:h-14 flex items-center justify-center rounded-xl shadow-md transform hover:scale-105 transition-all duration-300 bg-sky-600 text-white hover:bg-sky-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              <RedoIcon className="w-7 h-7" aria-hidden="true" />
+            </button>
           </>
         )}
-      </button>
+        <button
+          onClick={submit}
+          disabled={isLoading || isReadingPicture || !canSubmit}
+          aria-label={t('prompt.createLabel')}
+          className="w-full sm:w-auto flex-shrink-0 bg-yellow-400 text-sky-900 font-bold text-lg px-8 py-4 rounded-xl shadow-md hover:bg-yellow-500 transform hover:scale-105 transition-all duration-300 disabled:bg-gray-300 disabled:cursor-not-allowed disabled:scale-100 flex items-center justify-center gap-2"
+        >
+          {isLoading ? (
+            <span className="flex items-center justify-center">
+              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-sky-900" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              {t('prompt.building')}
+            </span>
+          ) : (
+            <>
+              <SparklesIcon className="w-6 h-6" aria-hidden="true" />
+              {t('prompt.create')}
+            </>
+          )}
+        </button>
+      </div>
+      <div className="mt-4 flex flex-wrap items-center justify-center gap-3">
+        <span className="text-sm font-semibold text-sky-700">{t('prompt.orPicture')}</span>
+        <label className={`${pictureButtonClass} ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}>
+          <ImageIcon className="w-5 h-5" aria-hidden="true" />
+          {t('prompt.upload')}
+          <input type="file" accept="image/*" className="sr-only" onChange={handlePictureChosen} disabled={isLoading} />
+        </label>
+        <label className={`${pictureButtonClass} ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}>
+          <CameraIcon className="w-5 h-5" aria-hidden="true" />
+          {t('prompt.takePhoto')}
+          <input type="file" accept="image/*" capture="environment" className="sr-only" onChange={handlePictureChosen} disabled={isLoading} />
+        </label>
+        <div className="inline-flex" role="radiogroup" aria-label={t('prompt.pictureIs')}>
+          {SOURCE_IMAGE_KINDS.map((kind, index) => (
+            <button
+              key={kind}
+              type="button"
+              role="radio"
+              aria-checked={shownKind === kind}
+              onClick={() => handlePictureKindChange(kind)}
+              disabled={isLoading}
+              title={t(`sourceImage.${kind}.description`)}
+              className={`px-3 py-2 text-sm font-semibold border border-sky-300 transition-colors duration-300 ${
+                index === 0 ? 'rounded-l-lg' : 'rounded-r-lg'
+              } ${shownKind === kind ? 'bg-sky-600 text-white' : 'bg-white/80 text-sky-700 hover:bg-sky-100'}`}
+            >
+              {t(`sourceImage.${kind}.label`)}
+            </button>
+          ))}
+        </div>
+      </div>
+      {isReadingPicture && <p className="mt-3 text-sm text-sky-700" role="status">{t('prompt.readingPicture')}</p>}
+      {sourceImage && !isReadingPicture && (
+        <div className="mt-3 mx-auto w-fit flex items-center gap-3 p-2 pr-4 rounded-xl bg-white/80 border border-sky-200 shadow-sm">
+          <img src={sourceImage.url} alt={t('prompt.pictureAlt', { kind: t(`sourceImage.${shownKind}.label`) })} className="h-20 w-20 object-cover rounded-lg" />
+          <div className="text-left">
+            <p className="text-sm font-semibold text-sky-800">{t(`sourceImage.${shownKind}.description`)}</p>
+            <button
+              type="button"
+              onClick={() => setSourceImage(null)}
+              disabled={isLoading}
+              className="mt-1 px-3 py-1 text-sm font-semibold rounded-lg bg-sky-100 text-sky-800 hover:bg-sky-200 transition-colors duration-300 disabled:opacity-50"
+            >
+              {t('prompt.removePicture')}
+            </button>
+          </div>
+        </div>
+      )}
+      {pictureError && (
+        <div className="mt-3 rounded-xl bg-yellow-50 border-4 border-dashed border-yellow-300 p-4 text-yellow-800" role="status">
+          {pictureError}
+        </div>
+      )}
+      <label className="mt-3 inline-flex items-center gap-2 text-sm font-semibold text-sky-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={freshIdeas}
+          onChange={(e) => setFreshIdeas(e.target.checked)}
+          disabled={isLoading}
+          className="w-4 h-4 accent-yellow-400"
+        />
+        {t('prompt.freshIdeas')}
+      </label>
     </div>
   );
 };
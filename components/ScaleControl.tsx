@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import type { HouseSpec } from '../types';
+import { scaleHouseSpec } from '../services/houseSpec';
+import { houseSpecSchema } from '../services/designSchemas';
+import { formatLength, formatSize, type UnitSystem } from '../services/units';
+import { translator, type Locale } from '../services/i18n';
+
+interface ScaleControlProps {
+  houseSpec: HouseSpec;
+  units: UnitSystem;
+  /** Makes the whole house bigger or smaller, e.g. by 1.5 for 150%. */
+  onScale: (factor: number) => void;
+  locale: Locale;
+}
+
+const SCALE_PRESETS = [50, 75, 125, 150, 200];
+
+/**
+ * Resizes the whole house at once, with a preview of the new size before any part is recomputed.
+ */
+export const ScaleControl: React.FC<ScaleControlProps> = ({ houseSpec, units, onScale, locale }) => {
+  const t = translator(locale);
+  const [percent, setPercent] = useState<number>(150);
+
+  const scaled = useMemo(() => scaleHouseSpec(houseSpec, percent / 100), [houseSpec, percent]);
+  const fits = useMemo(() => houseSpecSchema.validate(scaled).length === 0, [scaled]);
+  const isSame = percent === 100;
+
+  const smallButtonClass = "px-2 py-1 text-sm font-semibold rounded-lg transition-colors duration-300";
+
+  return (
+    <div className="mb-4 p-3 rounded-xl bg-sky-50 border border-sky-200 text-center" role="group" aria-labelledby="scale-label">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <label id="scale-label" htmlFor="scale-percent" className="text-sm font-semibold text-sky-800">{t('scale.label')}</label>
+        <input
+          id="scale-percent"
+          type="number"
+          min={10}
+          max={500}
+          step={5}
+          value={percent}
+          onChange={e => setPercent(Math.max(1, Math.round(Number(e.target.value)) || 100))}
+          className="w-20 p-1 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300"
+          aria-describedby="scale-preview"
+        />
+        <span className="text-sm text-sky-800">%</span>
+        {SCALE_PRESETS.map(preset => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => setPercent(preset)}
+            aria-pressed={percent === preset}
+            className={`${smallButtonClass} ${percent === preset ? 'bg-sky-600 text-white' : 'bg-sky-100 text-sky-800 hover:bg-sky-200'}`}
+          >
+            {preset}%
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => onScale(percent / 100)}
+          disabled={!fits || isSame}
+          className={`${smallButtonClass} bg-yellow-400 text-sky-900 hover:bg-yellow-500 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed`}
+        >
+          {t('scale.resize')}
+        </button>
+      </div>
+      <p id="scale-preview" className={`mt-1 text-xs ${fits ? 'text-gray-500' : 'text-yellow-800'}`} role="status">
+        {fits
+          ? t(isSame ? 'scale.now' : 'scale.would', {
+              size: formatSize([scaled.footprint.widthMm, scaled.footprint.depthMm], units),
+              height: formatLength(scaled.wallHeightMm, units),
+            })
+          : t(percent > 100 ? 'scale.tooBig' : 'scale.tooSmall', { percent })}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { CuttingList, HouseSpec } from '../types';
+import {
+  catalogSchema,
+  DEFAULT_CATALOG,
+  formatPrice,
+  loadCatalog,
+  loadInventory,
+  saveCatalog,
+  saveInventory,
+  type CatalogItem,
+  type Inventory,
+  type MaterialsCatalog,
+} from '../services/materialsCatalog';
+import { buildShoppingList, countUnits } from '../services/shoppingList';
+import { createShoppingChecklistPdf, createShoppingCsv } from '../services/shoppingExport';
+import { PAPER_SIZES, type PaperSize } from '../services/templateExport';
+import { downloadFile, toFileName } from '../services/download';
+import { translateName, translator, type Locale, type Translate } from '../services/i18n';
+
+interface ShoppingListViewProps {
+  cuttingList: CuttingList;
+  houseSpec: HouseSpec | null;
+  locale: Locale;
+}
+
+const inputClass = "p-1 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300";
+const smallButtonClass = "px-3 py-1 text-sm font-semibold rounded-lg bg-sky-100 text-sky-800 hover:bg-sky-200 transition-colors duration-300";
+
+interface CatalogEditorProps {
+  catalog: MaterialsCatalog;
+  onChange: (catalog: MaterialsCatalog) => void;
+  t: Translate;
+}
+
+/**
+ * Lets a grown-up match the prices and pack sizes to their own shop, or swap the whole catalog
+ * for a JSON file.
+ */
+const CatalogEditor: React.FC<CatalogEditorProps> = ({ catalog, onChange, t }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const updateItem = (id: string, changes: Partial<CatalogItem>) =>
+    onChange({ ...catalog, items: catalog.items.map(item => (item.id === id ? { ...item, ...changes } : item)) });
+
+  const handleImport = async (file: File) => {
+    try {
+      const parsed: unknown = JSON.parse(await file.text());
+      const issues = catalogSchema.validate(parsed, 'catalog');
+      if (issues.length > 0) {
+        setImportError(t('shop.notCatalog', { issues: issues.slice(0, 3).join('; ') }));
+        return;
+      }
+      setImportError(null);
+      onChange(parsed as MaterialsCatalog);
+    } catch {
+      setImportError(t('shop.notJson'));
+    }
+  };
+
+  return (
+    <div className="mt-4 p-4 rounded-xl bg-sky-50 border border-sky-200">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <label htmlFor="catalog-currency" className="text-sm font-semibold text-sky-800">{t('shop.currency')}</label>
+        <input
+          id="catalog-currency"
+          value={catalog.currency}
+          maxLength={3}
+          onChange={e => {
+            const currency = e.target.value.toUpperCase();
+            if (/^[A-Z]{0,3}$/.test(currency)) onChange({ ...catalog, currency });
+          }}
+          className={`${inputClass} w-16 uppercase`}
+          aria-describedby="catalog-currency-help"
+        />
+        <span id="catalog-currency-help" className="text-xs text-gray-500">{t('shop.currencyHelp')}</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm border-collapse">
+          <caption className="sr-only">{t('shop.catalog')}</caption>
+          <thead>
+            <tr className="text-sky-900">
+              <th scope="col" className="p-1">{t('shop.item')}</th>
+              <th scope="col" className="p-1">{t('shop.packSize')}</th>
+              <th scope="col" className="p-1">{t('shop.unit')}</th>
+              <th scope="col" className="p-1">{t('shop.packPrice')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {catalog.items.map(item => (
+              <tr key={item.id}>
+                <td className="p-1">
+                  <input aria-label={t('shop.nameOf', { item: item.id })} value={item.name} onChange={e => updateItem(item.id, { name: e.target.value })} className={`${inputClass} w-full min-w-[10rem]`} />
+                </td>
+                <td className="p-1">
+                  <input
+                    type="number"
+                    min={1}
+                    aria-label={t('shop.packSizeOf', { item: item.name })}
+                    value={item.packSize}
+                    onChange={e => updateItem(item.id, { packSize: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+                    className={`${inputClass} w-20`}
+                  />
+                </td>
+                <td className="p-1">
+                  <input aria-label={t('shop.unitOf', { item: item.name })} value={item.unit} onChange={e => updateItem(item.id, { unit: e.target.value })} className={`${inputClass} w-20`} />
+                </td>
+                <td className="p-1">
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    aria-label={t('shop.packPriceOf', { item: item.name })}
+                    value={item.price}
+                    onChange={e => updateItem(item.id, { price: Math.max(0, Number(e.target.value) || 0) })}
+                    className={`${inputClass} w-24`}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button type="button" onClick={() => onChange(DEFAULT_CATALOG)} className={smallButtonClass}>{t('shop.reset')}</button>
+        <button
+          type="button"
+          onClick={() => downloadFile(JSON.stringify(catalog, null, 2), 'application/json', 'materials-catalog.json')}
+          className={smallButtonClass}
+        >
+          {t('shop.export')}
+        </button>
+        <button type="button" onClick={() => fileRef.current?.click()} className={smallButtonClass}>{t('shop.import')}</button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+      {importError && <p className="mt-2 text-sm text-red-700" role="alert">{importError}</p>}
+    </div>
+  );
+};
+
+export const ShoppingListView: React.FC<ShoppingListViewProps> = ({ cuttingList, houseSpec, locale }) => {
+  const t = translator(locale);
+  const [catalog, setCatalog] = useState<MaterialsCatalog | null>(null);
+  const [inventory, setInventory] = useState<Inventory>({});
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [paper, setPaper] = useState<PaperSize>('a4');
+
+  useEffect(() => {
+    let isCurrent = true;
+    Promise.all([loadCatalog(), loadInventory()]).then(([savedCatalog, savedInventory]) => {
+      if (!isCurrent) return;
+      setCatalog(savedCatalog);
+      setInventory(savedInventory);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  // A half-typed currency code is kept on screen but not priced with or saved.
+  const usableCatalog = catalog && catalogSchema.validate(catalog).length === 0 ? catalog : null;
+  const list = useMemo(
+    () => (usableCatalog ? buildShoppingList(cuttingList, houseSpec, usableCatalog, inventory, locale) : null),
+    [cuttingList, houseSpec, usableCatalog, inventory, locale]
+  );
+
+  if (!catalog) {
+    return <p className="text-center text-sky-700">{t('shop.loading')}</p>;
+  }
+
+  const handleCatalogChange = (next: MaterialsCatalog) => {
+    setCatalog(next);
+    if (catalogSchema.validate(next).length === 0) {
+      saveCatalog(next).catch(e => console.warn('Could not save the materials catalog', e));
+    }
+  };
+
+  const handleOwnedChange = (id: string, value: string) => {
+    const next = { ...inventory, [id]: Math.max(0, Math.floor(Number(value)) || 0) };
+    setInventory(next);
+    saveInventory(next).catch(e => console.warn('Could not save the inventory', e));
+  };
+
+  const fileName = toFileName(cuttingList.houseName);
+  const buttonClass = "px-4 py-2 font-bold text-sky-900 bg-yellow-400 rounded-lg shadow-sm hover:bg-yellow-500 transition-colors duration-300 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed";
+
+  return (
+    <div>
+      {list ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <caption className="sr-only">{t('shop.caption', { name: cuttingList.houseName })}</caption>
+            <thead>
+              <tr className="bg-sky-200/50">
+                <th scope="col" className="p-3 font-semibold text-sky-900 rounded-tl-lg">{t('shop.item')}</th>
+                <th scope="col" className="p-3 font-semibold text-sky-900">{t('shop.need')}</th>
+                <th scope="col" className="p-3 font-semibold text-sky-900">{t('shop.have')}</th>
+                <th scope="col" className="p-3 font-semibold text-sky-900">{t('shop.buy')}</th>
+                <th scope="col" className="p-3 font-semibold text-sky-900 text-right rounded-tr-lg">{t('shop.cost')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {list.lines.map(line => (
+                <tr key={line.item.id} className="border-b border-sky-200 last:border-b-0">
+                  <th scope="row" className="p-3 text-gray-700 font-medium">
+                    {translateName(locale, 'catalog', line.item.name)}
+                    <span className="block text-sm font-normal text-gray-500">{line.reason}</span>
+                  </th>
+                  <td className="p-3 text-gray-700">{countUnits(line.needed, line.item.unit, locale)}</td>
+                  <td className="p-3">
+                    <input
+                      type="number"
+                      min={0}
+                      aria-label={t('shop.haveLabel', { units: translateName(locale, 'unit', `${line.item.unit}s`), item: translateName(locale, 'catalog', line.item.name) })}
+                      value={inventory[line.item.id] ?? 0}
+                      onChange={e => handleOwnedChange(line.item.id, e.target.value)}
+                      className={`${inputClass} w-20`}
+                    />
+                  </td>
+                  <td className="p-3 text-gray-700">
+                    {line.packs === 0 ? t('shop.nothing') : t(line.packs === 1 ? 'shop.pack' : 'shop.packs', { count: line.packs })}
+                    {line.item.packSize > 1 && <span className="block text-sm text-gray-500">{t('shop.perPack', { count: line.item.packSize })}</span>}
+                  </td>
+                  <td className="p-3 text-gray-700 text-right">{formatPrice(line.cost, list.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <th scope="row" colSpan={4} className="p-3 text-right text-lg font-bold text-sky-900">{t('shop.total')}</th>
+                <td className="p-3 text-right text-lg font-bold text-sky-900">{formatPrice(list.total, list.currency)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      ) : (
+        <p className="text-center text-yellow-800">{t('shop.finishEditing')}</p>
+      )}
+
+      {list && list.unmatched.length > 0 && (
+        <div className="mt-4 rounded-xl bg-yellow-50 border-4 border-dashed border-yellow-300 p-4 text-yellow-800" role="status">
+          <p className="font-bold">{t('shop.unmatched')}</p>
+          <ul className="list-disc list-inside">
+            {list.unmatched.map(item => <li key={item}>{item}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center justify-center gap-2" role="group" aria-label={t('shop.downloads')}>
+        <button
+          type="button"
+          disabled={!list}
+          onClick={() => list && downloadFile(createShoppingCsv(list, locale), 'text/csv', `${fileName}-shopping-list.csv`)}
+          className={buttonClass}
+        >
+          {t('shop.csv')}
+        </button>
+        <label htmlFor="shopping-paper" className="text-sm font-semibold text-sky-800">{t('shop.paper')}</label>
+        <select
+          id="shopping-paper"
+          value={paper}
+          onChange={e => setPaper(e.target.value as PaperSize)}
+          className="p-2 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300"
+        >
+          {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => <option key={size} value={size}>{translateName(locale, 'paper', PAPER_SIZES[size].label)}</option>)}
+        </select>
+        <button
+          type="button"
+          disabled={!list}
+          onClick={() => list && downloadFile(createShoppingChecklistPdf(list, cuttingList.houseName, paper, locale), 'application/pdf', `${fileName}-shopping-checklist.pdf`)}
+          className={buttonClass}
+        >
+          {t('shop.checklist')}
+        </button>
+      </div>
+
+      <p className="mt-4 text-center">
+        <button type="button" onClick={() => setIsEditing(!isEditing)} aria-expanded={isEditing} className={smallButtonClass}>
+          {isEditing ? t('shop.doneEditing') : t('shop.editPrices')}
+        </button>
+      </p>
+      {isEditing && <CatalogEditor catalog={catalog} onChange={handleCatalogChange} t={t} />}
+    </div>
+  );
+};
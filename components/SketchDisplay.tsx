@@ -1,39 +1,74 @@
 import React from 'react';
 import { LoadingSpinner } from './LoadingSpinner';
+import { translator, type Locale } from '../services/i18n';
 
 interface SketchDisplayProps {
   sketchUrl: string | null;
   isLoading: boolean;
+  /** Redraws just the sketch. When given, a missing sketch shows a retry card instead of nothing. */
+  onRetry?: () => void;
+  isRetrying?: boolean;
+  locale: Locale;
 }
 
-const Placeholder: React.FC = () => (
+const Placeholder: React.FC<{ locale: Locale }> = ({ locale }) => (
     <div className="w-full aspect-square bg-gray-200/80 rounded-2xl flex items-center justify-center">
-        <LoadingSpinner />
+        <LoadingSpinner locale={locale} />
     </div>
 );
 
-export const SketchDisplay: React.FC<SketchDisplayProps> = ({ sketchUrl, isLoading }) => {
+export const SketchDisplay: React.FC<SketchDisplayProps> = ({ sketchUrl, isLoading, onRetry, isRetrying = false, locale }) => {
+  const t = translator(locale);
   const containerClass = "bg-white/80 backdrop-blur-sm p-4 sm:p-6 rounded-b-2xl rounded-tl-2xl shadow-lg border border-sky-200";
 
-  if (isLoading) {
+  if (isLoading || isRetrying) {
     return (
         <div className={containerClass}>
-            <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center">Drafting the blueprints...</h2>
-            <Placeholder />
+            <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center">{t('sketch.drafting')}</h2>
+            <Placeholder locale={locale} />
         </div>
     );
   }
 
+  if (!sketchUrl && onRetry) {
+    return (
+      <div className={containerClass}>
+        <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center">{t('app.tab.sketch')}</h2>
+        <div className="w-full aspect-square rounded-2xl bg-yellow-50 border-4 border-dashed border-yellow-300 flex flex-col items-center justify-center gap-4 p-6 text-center" role="alert">
+          <p className="text-lg text-yellow-800">{t('sketch.failed')}</p>
+          <button
+            type="button"
+            onClick={onRetry}
+            className="px-6 py-3 font-bold rounded-xl shadow-md bg-yellow-400 text-sky-900 hover:bg-yellow-500 transition-colors duration-300"
+          >
+            {t('sketch.retry')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (!sketchUrl) {
     return null;
   }
 
   return (
     <div className={`${containerClass} animate-fade-in`}>
-      <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center">Assembly Sketch</h2>
+      <h2 className="text-2xl font-bold text-sky-800 mb-4 text-center">{t('app.tab.sketch')}</h2>
       <div className="aspect-square w-full overflow-hidden rounded-2xl border bg-white">
-        <img src={sketchUrl} alt="Generated assembly sketch with measurements" className="w-full h-full object-contain" />
+        <img src={sketchUrl} alt={t('sketch.alt')} className="w-full h-full object-contain" />
       </div>
+      {onRetry && (
+        <p className="text-center mt-3">
+          <button
+            type="button"
+            onClick={onRetry}
+            className="px-3 py-1 text-sm font-semibold rounded-lg bg-sky-100 text-sky-800 hover:bg-sky-200 transition-colors duration-300"
+          >
+            {t('sketch.redo')}
+          </button>
+        </p>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import type { CuttingList, HouseSpec } from '../types';
+import { createTemplatePdf, createTemplateSvg, PAPER_SIZES, type PaperSize } from '../services/templateExport';
+import { downloadFile, toFileName } from '../services/download';
+import type { UnitSystem } from '../services/units';
+import { translateName, translator, type Locale } from '../services/i18n';
+
+interface TemplateDownloadsProps {
+  cuttingList: CuttingList;
+  houseSpec: HouseSpec | null;
+  units: UnitSystem;
+  /** Whether the printed build steps may use a craft knife. */
+  allowCraftKnife: boolean;
+  locale: Locale;
+}
+
+export const TemplateDownloads: React.FC<TemplateDownloadsProps> = ({ cuttingList, houseSpec, units, allowCraftKnife, locale }) => {
+  const t = translator(locale);
+  // Families measuring in inches usually print on US Letter.
+  const [paper, setPaper] = useState<PaperSize>(units === 'imperial' ? 'letter' : 'a4');
+
+  const handlePdf = () => {
+    const pdf = createTemplatePdf(cuttingList, houseSpec, paper, units, { allowCraftKnife, locale });
+    downloadFile(pdf, 'application/pdf', `${toFileName(cuttingList.houseName)}-templates-${paper}.pdf`);
+  };
+
+  const handleSvg = () => {
+    downloadFile(createTemplateSvg(cuttingList, units, locale), 'image/svg+xml', `${toFileName(cuttingList.houseName)}-templates.svg`);
+  };
+
+  const buttonClass = "px-4 py-2 font-bold text-sky-900 bg-yellow-400 rounded-lg shadow-sm hover:bg-yellow-500 transition-colors duration-300";
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-6" role="group" aria-label={t('template.download')}>
+      <label htmlFor="template-paper" className="text-sm font-semibold text-sky-800">{t('template.printable')}</label>
+      <select
+        id="template-paper"
+        value={paper}
+        onChange={e => setPaper(e.target.value as PaperSize)}
+        className="p-2 bg-white border-2 border-sky-300 rounded-lg focus:ring-4 focus:ring-yellow-300"
+      >
+        {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => <option key={size} value={size}>{translateName(locale, 'paper', PAPER_SIZES[size].label)}</option>)}
+      </select>
+      <button type="button" onClick={handlePdf} className={buttonClass}>{t('template.pdf')}</button>
+      <button type="button" onClick={handleSvg} className={buttonClass}>{t('template.svg')}</button>
+    </div>
+  );
+};
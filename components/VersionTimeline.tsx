@@ -0,0 +1,102 @@
+import React from 'react';
+import type { DesignVersion, VersionHistory } from '../types';
+import { getChildVersions, summarizeVersion } from '../services/versionHistory';
+import { HouseIcon } from './icons';
+import type { UnitSystem } from '../services/units';
+import { translator, type Locale } from '../services/i18n';
+
+interface VersionTimelineProps {
+  history: VersionHistory;
+  onSelect: (id: string) => void;
+  disabled: boolean;
+  units: UnitSystem;
+  locale: Locale;
+}
+
+const VersionCard: React.FC<{ version: DesignVersion; history: VersionHistory; isCurrent: boolean; onSelect: () => void; disabled: boolean; units: UnitSystem; locale: Locale }> = ({ version, history, isCurrent, onSelect, disabled, units, locale }) => {
+  const t = translator(locale);
+  const thumbnail = version.imageViews?.[0]?.url ?? version.sketchUrl;
+  const summary = summarizeVersion(version, history, units, locale);
+  const label = [
+    t('version.label', { number: version.id.slice(1), summary }),
+    version.chat ? t('timeline.inChat') : '',
+    isCurrent ? t('timeline.showing') : '',
+  ].filter(Boolean).join(', ');
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      disabled={disabled}
+      aria-current={isCurrent ? 'true' : undefined}
+      aria-label={label}
+      className={`flex-shrink-0 w-32 text-left rounded-xl border-4 bg-white overflow-hidden transition-transform duration-300 hover:scale-105 disabled:hover:scale-100 disabled:opacity-60 ${
+        isCurrent ? 'border-yellow-400' : 'border-sky-100'
+      }`}
+    >
+      <div className="aspect-square w-full bg-sky-50 flex items-center justify-center overflow-hidden">
+        {thumbnail
+          ? <img src={thumbnail} alt="" className="w-full h-full object-cover" />
+          : <HouseIcon className="w-10 h-10 text-sky-300" />}
+      </div>
+      <p className="px-2 pt-1 text-xs font-bold text-sky-800">{t('version.number', { number: version.id.slice(1) })}</p>
+      <p className="px-2 pb-2 text-xs text-gray-600 line-clamp-2" title={summary}>{summary}</p>
+      {version.chat && <p className="px-2 pb-2 -mt-1 text-xs font-semibold text-sky-600">{t('timeline.chat')}</p>}
+    </button>
+  );
+};
+
+/**
+ * Draws one version followed by everything edited from it. The first edit continues the row;
+ * every other edit is a separate branch, shown indented underneath.
+ */
+const Branch: React.FC<{ version: DesignVersion } & VersionTimelineProps> = ({ version, history, onSelect, disabled, units, locale }) => {
+  const t = translator(locale);
+  const row: DesignVersion[] = [version];
+  const branches: DesignVersion[] = [];
+  let children = getChildVersions(history, version.id);
+  while (children.length > 0) {
+    const [next, ...others] = children;
+    branches.push(...others);
+    row.push(next);
+    children = getChildVersions(history, next.id);
+  }
+
+  return (
+    <li>
+      <ol className="flex items-center gap-2 overflow-x-auto pb-2">
+        {row.map((item, index) => (
+          <li key={item.id} className="flex items-center gap-2">
+            {index > 0 && <span className="text-sky-400 font-bold" aria-hidden="true">&rarr;</span>}
+            <VersionCard version={item} history={history} isCurrent={item.id === history.currentId} onSelect={() => onSelect(item.id)} disabled={disabled} units={units} locale={locale} />
+          </li>
+        ))}
+      </ol>
+      {branches.length > 0 && (
+        <ul className="ml-6 pl-4 border-l-4 border-dashed border-sky-200 space-y-2" aria-label={t('timeline.branches')}>
+          {branches.map(branch => (
+            <Branch key={branch.id} version={branch} history={history} onSelect={onSelect} disabled={disabled} units={units} locale={locale} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const VersionTimeline: React.FC<VersionTimelineProps> = ({ history, onSelect, disabled, units, locale }) => {
+  const t = translator(locale);
+  if (history.versions.length < 2) {
+    return null;
+  }
+
+  return (
+    <section className="w-full bg-white/80 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-lg border border-sky-200 animate-fade-in" aria-labelledby="timeline-heading">
+      <h2 id="timeline-heading" className="text-2xl font-bold text-sky-800 mb-1 text-center">{t('timeline.title')}</h2>
+      <p className="text-center text-sky-600 mb-4">{t('timeline.help')}</p>
+      <ul className="space-y-2">
+        {getChildVersions(history, null).map(root => (
+          <Branch key={root.id} version={root} history={history} onSelect={onSelect} disabled={disabled} units={units} locale={locale} />
+        ))}
+      </ul>
+    </section>
+  );
+};
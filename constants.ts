@@ -0,0 +1,4 @@
+/**
+ * The camera angles rendered for every house design, in display order.
+ */
+export const VIEWS = ['Front view', 'Back view', 'Left side view', 'Right side view', 'Top-down view'];
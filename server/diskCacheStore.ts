@@ -0,0 +1,69 @@
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { CacheEntryInfo, CacheStore } from '../services/responseCache';
+
+/**
+ * Keeps cached model responses on disk, one JSON file per key. A file's modification time
+ * records when it was last used, so the cache survives restarts without a separate index.
+ */
+
+const EXTENSION = '.json';
+
+let temporaryCount = 0;
+
+const isMissing = (error: unknown): boolean => (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+/**
+ * Creates a store in a directory, which is created when the first response is written.
+ * @param directory Where to keep the files.
+ * @returns The store.
+ */
+export const createDiskCacheStore = (directory: string): CacheStore => {
+  // Keys are hex digests, but never let one point outside the directory.
+  const fileOf = (key: string): string => path.join(directory, `${key.replace(/[^a-z0-9]/gi, '')}${EXTENSION}`);
+
+  return {
+    async get(key) {
+      const file = fileOf(key);
+      try {
+        const value = JSON.parse(await readFile(file, 'utf8'));
+        const time = new Date();
+        await utimes(file, time, time);
+        return value;
+      } catch (error) {
+        if (isMissing(error)) return undefined;
+        throw error;
+      }
+    },
+    async set(entry, value) {
+      await mkdir(directory, { recursive: true });
+      // Write next to the real file and rename, so a crash never leaves half a response behind.
+      const file = fileOf(entry.key);
+      const temporary = `${file}.${process.pid}.tmp`;
+      await writeFile(temporary, JSON.stringify(value));
+      await rename(temporary, file);
+    },
+    async delete(key) {
+      await rm(fileOf(key), { force: true });
+    },
+    async list() {
+      let names: string[];
+      try {
+        names = await readdir(directory);
+      } catch (error) {
+        if (isMissing(error)) return [];
+        throw error;
+      }
+      const entries: CacheEntryInfo[] = [];
+      for (const name of names.filter(name => name.endsWith(EXTENSION))) {
+        try {
+          const info = await stat(path.join(directory, name));
+          entries.push({ key: name.slice(0, -EXTENSION.length), sizeBytes: info.size, lastUsedAt: info.mtimeMs });
+        } catch (error) {
+          if (!isMissing(error)) throw error;
+        }
+      }
+      return entries;
+    },
+  };
+};
@@ -0,0 +1,406 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import path from 'node:path';
+import type { ChatMessage, DesignConstraints, EditOperation, HouseSpec, SourceImage, Strictness } from '../types';
+import { VIEWS } from '../constants';
+import { getDesignProvider } from '../services/designProvider';
+import {
+  chatAboutDesign,
+  editHouseDesign,
+  generateCuttingList,
+  generateHouseDesign,
+  generateSketch,
+  generateView,
+  isAbortError,
+  GENERATED_ASSETS,
+  type GenerationOptions,
+} from '../services/designService';
+import type { DesignStreamMessage } from '../services/designApiClient';
+import { configureResponseCache } from '../services/responseCache';
+import { toDesignError, type DesignError } from '../services/designErrors';
+import { chatMessagesSchema, editsSchema, houseSpecSchema, sourceImageSchema } from '../services/designSchemas';
+import { checkEdits } from '../services/designEdits';
+import { constraintsSchema, DEFAULT_CONSTRAINTS } from '../services/designConstraints';
+import { isLocale, LOCALES, type Locale } from '../services/i18n';
+import { DEFAULT_STRICTNESS, isStrictness, STRICTNESS_LEVELS } from '../services/moderation';
+import { createDiskCacheStore } from './diskCacheStore';
+import { createRateLimiter } from './rateLimiter';
+
+/**
+ * A small proxy between the browser and the model provider. It owns the API key, runs the
+ * design steps from designService.ts, and streams each result back as a line of JSON.
+ *
+ *   POST /api/design         { prompt, constraints?, sourceImage?, fresh?, locale?, strictness? }                  -> stream
+ *   POST /api/design/edit    { houseSpec, detailedDescription, edits, constraints?, fresh?, locale?, strictness? }  -> stream
+ *   POST /api/design/chat    { houseSpec, detailedDescription, messages, constraints?, fresh?, locale?, strictness? } -> { value }
+ *   POST /api/design/asset   { asset, houseSpec, view?, fresh?, locale?, strictness? }                            -> { value }
+ *
+ * Model answers are cached on disk, so asking for the same thing again costs nothing; `fresh`
+ * asks the model again instead. `locale` is the language names, descriptions and replies are
+ * written in; the house model stays the same in every language. `strictness` is how careful the
+ * content checks on ideas, wishes and the model's own words are. They run here, so a page can't
+ * skip them, and never more loosely than MIN_STRICTNESS.
+ *
+ * When the app has been built, the files in dist/ are served as well, so one process is enough
+ * for a deployment.
+ */
+
+// --- START: Configuration ---
+for (const file of ['.env.local', '.env']) {
+  try {
+    process.loadEnvFile(file);
+  } catch {
+    // The file is optional.
+  }
+}
+// The providers read the key from API_KEY, the same name the browser build used to inline.
+process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+
+const PORT = Number(process.env.SERVER_PORT) || 8787;
+const DIST_DIR = path.resolve('dist');
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_PROMPT_LENGTH = 1000;
+
+// A new design makes a description, a spec and every asset; an edit makes a revision and every asset.
+const DESIGN_COST = GENERATED_ASSETS.length + 2;
+const EDIT_COST = GENERATED_ASSETS.length + 1;
+const ASSET_COST = 1;
+const CHAT_COST = 1;
+
+const rateLimiter = createRateLimiter({
+  capacity: Number(process.env.RATE_LIMIT_CAPACITY) || 4 * DESIGN_COST,
+  refillPerMinute: Number(process.env.RATE_LIMIT_REFILL_PER_MINUTE) || DESIGN_COST / 2,
+});
+
+// A RESPONSE_CACHE_MAX_MB of 0 turns the cache off; identical requests in flight are still shared.
+configureResponseCache(createDiskCacheStore(path.resolve(process.env.RESPONSE_CACHE_DIR || '.cache/responses')), {
+  maxBytes: (Number(process.env.RESPONSE_CACHE_MAX_MB || 200) || 0) * 1024 * 1024,
+});
+
+// The loosest checks a client may ask for; a page asking for less gets these instead.
+const MIN_STRICTNESS = process.env.MIN_STRICTNESS || 'relaxed';
+if (!isStrictness(MIN_STRICTNESS)) {
+  throw new Error(`MIN_STRICTNESS must be one of: ${STRICTNESS_LEVELS.join(', ')}.`);
+}
+// --- END: Configuration ---
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Identifies the client for rate limiting. Forwarded addresses are only trusted behind a
+ * proxy we control, otherwise anyone could dodge the limit by sending a fake header.
+ */
+const clientIdOf = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (process.env.TRUST_PROXY === '1' && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const enforceRateLimit = (req: IncomingMessage, cost: number): void => {
+  const decision = rateLimiter.take(clientIdOf(req), cost);
+  if (!decision.allowed) {
+    throw new HttpError(
+      429,
+      `Too many designs in a short time. Please wait ${decision.retryAfterSeconds} seconds and try again.`,
+      { 'Retry-After': String(decision.retryAfterSeconds) }
+    );
+  }
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'The request is too large.');
+    }
+    chunks.push(chunk);
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch {
+    // Reported below.
+  }
+  throw new HttpError(400, 'The request body must be a JSON object.');
+};
+
+// --- START: Request validation ---
+const requireString = (value: unknown, field: string, maxLength = Infinity): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${field}" must be a non-empty string.`);
+  }
+  if (value.length > maxLength) {
+    throw new HttpError(400, `"${field}" must be at most ${maxLength} characters long.`);
+  }
+  return value;
+};
+
+const requireHouseSpec = (value: unknown): HouseSpec => {
+  const issues = houseSpecSchema.validate(value, 'houseSpec');
+  if (issues.length > 0) {
+    throw new HttpError(400, `"houseSpec" must be a house model: ${issues.slice(0, 5).join('; ')}.`);
+  }
+  return value as HouseSpec;
+};
+
+const requireEdits = (value: unknown, houseSpec: HouseSpec): EditOperation[] => {
+  const issues = editsSchema.validate(value, 'edits');
+  if (issues.length > 0) {
+    throw new HttpError(400, `"edits" must be a list of changes: ${issues.slice(0, 5).join('; ')}.`);
+  }
+  const problems = checkEdits(houseSpec, value as EditOperation[]);
+  if (problems.length > 0) {
+    throw new HttpError(400, `"edits" can't be made to this house: ${problems.slice(0, 5).join(' ')}`);
+  }
+  return value as EditOperation[];
+};
+const requireMessages = (value: unknown): ChatMessage[] => {
+  const issues = chatMessagesSchema.validate(value, 'messages');
+  if (issues.length > 0) {
+    throw new HttpError(400, `"messages" must be a chat: ${issues.slice(0, 5).join('; ')}.`);
+  }
+  return value as ChatMessage[];
+};
+const readConstraints = (value: unknown): DesignConstraints => {
+  if (value === undefined) return DEFAULT_CONSTRAINTS;
+  const issues = constraintsSchema.validate(value, 'constraints');
+  if (issues.length > 0) {
+    throw new HttpError(400, `"constraints" must be building rules: ${issues.slice(0, 5).join('; ')}.`);
+  }
+  return value as DesignConstraints;
+};
+const readSourceImage = (value: unknown): SourceImage | null => {
+  if (value === undefined || value === null) return null;
+  const issues = sourceImageSchema.validate(value, 'sourceImage');
+  if (issues.length > 0) {
+    throw new HttpError(400, `"sourceImage" must be a picture: ${issues.slice(0, 5).join('; ')}.`);
+  }
+  return value as SourceImage;
+};
+// With a picture to design from, the idea is optional.
+const readPrompt = (value: unknown, sourceImage: SourceImage | null): string =>
+  sourceImage && (value === undefined || (typeof value === 'string' && !value.trim()))
+    ? ''
+    : requireString(value, 'prompt', MAX_PROMPT_LENGTH);
+const readFresh = (value: unknown): boolean => value === true;
+const readLocale = (value: unknown): Locale => {
+  if (value === undefined) return 'en';
+  if (!isLocale(value)) {
+    throw new HttpError(400, `"locale" must be one of: ${Object.keys(LOCALES).join(', ')}.`);
+  }
+  return value;
+};
+const readStrictness = (value: unknown): Strictness => {
+  const requested = value === undefined ? DEFAULT_STRICTNESS : value;
+  if (!isStrictness(requested)) {
+    throw new HttpError(400, `"strictness" must be one of: ${STRICTNESS_LEVELS.join(', ')}.`);
+  }
+  return STRICTNESS_LEVELS.indexOf(requested) < STRICTNESS_LEVELS.indexOf(MIN_STRICTNESS) ? MIN_STRICTNESS : requested;
+};
+// --- END: Request validation ---
+
+const retryAfterSecondsOf = (error: DesignError): number | undefined =>
+  error.retryAfterMs !== undefined ? Math.ceil(error.retryAfterMs / 1000) : undefined;
+
+/** Gives a signal that is aborted when the browser goes away before the answer is sent. */
+const abortOnClose = (res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+/**
+ * Streams a generation back to the browser, one event per line. Errors after the stream has
+ * started can't change the status code any more, so they are sent as a final error line.
+ * If the browser goes away, the generation is cancelled.
+ */
+const streamDesign = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  run: (options: GenerationOptions) => Promise<unknown>
+): Promise<void> => {
+  const signal = abortOnClose(res);
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+  const send = (message: DesignStreamMessage) => res.write(`${JSON.stringify(message)}\n`);
+
+  try {
+    await run({ onEvent: send, signal });
+    send({ type: 'done' });
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error(`${req.url} failed`, error);
+      const designError = toDesignError(error);
+      send({
+        type: 'error',
+        message: designError.message,
+        status: designError.status,
+        kind: designError.kind,
+        retryAfterSeconds: retryAfterSecondsOf(designError),
+      });
+    }
+  } finally {
+    res.end();
+  }
+};
+
+const handleApi = async (req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> => {
+  if (pathname === '/api/health' && req.method === 'GET') {
+    sendJson(res, 200, { ok: true, provider: getDesignProvider().name });
+    return;
+  }
+  if (req.method !== 'POST') {
+    throw new HttpError(405, 'Use POST for this endpoint.', { Allow: 'POST' });
+  }
+
+  switch (pathname) {
+    case '/api/design': {
+      const body = await readJsonBody(req);
+      const sourceImage = readSourceImage(body.sourceImage);
+      const prompt = readPrompt(body.prompt, sourceImage);
+      const constraints = readConstraints(body.constraints);
+      const locale = readLocale(body.locale);
+      const strictness = readStrictness(body.strictness);
+      enforceRateLimit(req, DESIGN_COST);
+      await streamDesign(req, res, options =>
+        generateHouseDesign(prompt, { ...options, constraints, sourceImage: sourceImage ?? undefined, fresh: readFresh(body.fresh), locale, strictness })
+      );
+      return;
+    }
+    case '/api/design/edit': {
+      const body = await readJsonBody(req);
+      const houseSpec = requireHouseSpec(body.houseSpec);
+      const detailedDescription = requireString(body.detailedDescription, 'detailedDescription');
+      const edits = requireEdits(body.edits, houseSpec);
+      const constraints = readConstraints(body.constraints);
+      const locale = readLocale(body.locale);
+      const strictness = readStrictness(body.strictness);
+      enforceRateLimit(req, EDIT_COST);
+      await streamDesign(req, res, options =>
+        editHouseDesign(houseSpec, detailedDescription, edits, { ...options, constraints, fresh: readFresh(body.fresh), locale, strictness })
+      );
+      return;
+    }
+    case '/api/design/chat': {
+      const body = await readJsonBody(req);
+      const houseSpec = requireHouseSpec(body.houseSpec);
+      const detailedDescription = requireString(body.detailedDescription, 'detailedDescription');
+      const messages = requireMessages(body.messages);
+      const constraints = readConstraints(body.constraints);
+      const locale = readLocale(body.locale);
+      const strictness = readStrictness(body.strictness);
+      enforceRateLimit(req, CHAT_COST);
+      const signal = abortOnClose(res);
+      sendJson(res, 200, {
+        value: await chatAboutDesign(houseSpec, detailedDescription, messages, { signal, constraints, fresh: readFresh(body.fresh), locale, strictness }),
+      });
+      return;
+    }
+    case '/api/design/asset': {
+      const body = await readJsonBody(req);
+      const houseSpec = requireHouseSpec(body.houseSpec);
+      const options = { signal: abortOnClose(res), fresh: readFresh(body.fresh), locale: readLocale(body.locale) };
+      const strictness = readStrictness(body.strictness);
+      let generate: () => Promise<unknown>;
+      if (body.asset === 'view') {
+        const view = requireString(body.view, 'view');
+        if (!VIEWS.includes(view)) throw new HttpError(400, `"view" must be one of: ${VIEWS.join(', ')}.`);
+        generate = () => generateView(houseSpec, view, options);
+      } else if (body.asset === 'sketch') {
+        generate = () => generateSketch(houseSpec, options);
+      } else if (body.asset === 'cuttingList') {
+        generate = () => generateCuttingList(houseSpec, { ...options, strictness });
+      } else {
+        throw new HttpError(400, '"asset" must be "view", "sketch" or "cuttingList".');
+      }
+      enforceRateLimit(req, ASSET_COST);
+      sendJson(res, 200, { value: await generate() });
+      return;
+    }
+    default:
+      throw new HttpError(404, 'There is no such endpoint.');
+  }
+};
+
+// --- START: Static files ---
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+/**
+ * Serves the built app. Unknown paths fall back to index.html, like the Vite dev server.
+ */
+const serveStatic = (res: ServerResponse, pathname: string): void => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch (error) {
+    if (error instanceof URIError) throw new HttpError(400, 'The address is not valid.');
+    throw error;
+  }
+  const requested = path.join(DIST_DIR, path.normalize(decoded).replace(/^([/\\])+/, ''));
+  const isInside = requested.startsWith(DIST_DIR + path.sep);
+  const file = isInside && existsSync(requested) && statSync(requested).isFile() ? requested : path.join(DIST_DIR, 'index.html');
+  if (!existsSync(file)) {
+    throw new HttpError(404, 'The app has not been built. Run "npm run build", or use "npm run dev" during development.');
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+  res.end(readFileSync(file));
+};
+// --- END: Static files ---
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  try {
+    if (pathname.startsWith('/api/')) {
+      await handleApi(req, res, pathname);
+    } else {
+      serveStatic(res, pathname);
+    }
+  } catch (error) {
+    // Nobody is left to answer when the browser went away and the call was cancelled.
+    if (res.headersSent || isAbortError(error)) {
+      res.end();
+      return;
+    }
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message }, error.headers);
+      return;
+    }
+    console.error(`${req.method} ${pathname} failed`, error);
+    // Tell the browser what kind of failure it was, so it can show the right message and way out.
+    const designError = toDesignError(error);
+    const retryAfterSeconds = retryAfterSecondsOf(designError);
+    sendJson(
+      res,
+      designError.status ?? 500,
+      { error: designError.message, kind: designError.kind },
+      retryAfterSeconds !== undefined ? { 'Retry-After': String(retryAfterSeconds) } : {}
+    );
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Design server using the "${getDesignProvider().name}" provider on http://localhost:${PORT}`);
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+describe('createRateLimiter', () => {
+  it('allows a burst up to the capacity, then refuses', () => {
+    const limiter = createRateLimiter({ capacity: 3, refillPerMinute: 6 }, () => 0);
+    expect([1, 2, 3].map(() => limiter.take('a').allowed)).toEqual([true, true, true]);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterSeconds: 10 });
+  });
+
+  it('refills over time, never past the capacity', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ capacity: 2, refillPerMinute: 6 }, () => time);
+    limiter.take('a', 2);
+    time = 10_000;
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+
+    time = 10 * 60_000;
+    expect(limiter.take('a', 2).allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+
+  it('charges what the request costs', () => {
+    const limiter = createRateLimiter({ capacity: 10, refillPerMinute: 60 }, () => 0);
+    expect(limiter.take('a', 8).allowed).toBe(true);
+    const refused = limiter.take('a', 5);
+    expect(refused.allowed).toBe(false);
+    // Three more tokens are needed, at one a second.
+    expect(refused.retryAfterSeconds).toBe(3);
+    // A refused request spends nothing.
+    expect(limiter.take('a', 2).allowed).toBe(true);
+  });
+
+  it('lets a request dearer than the whole bucket through on a full bucket', () => {
+    const limiter = createRateLimiter({ capacity: 3, refillPerMinute: 6 }, () => 0);
+    expect(limiter.take('a', 10).allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+
+  it('keeps a bucket for each client', () => {
+    const limiter = createRateLimiter({ capacity: 1, refillPerMinute: 1 }, () => 0);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+    expect(limiter.take('b').allowed).toBe(true);
+  });
+});
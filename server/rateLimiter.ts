@@ -0,0 +1,79 @@
+/**
+ * A per-client token bucket. Each client starts with a full bucket; every request spends
+ * tokens according to how many model calls it makes, and the bucket slowly refills.
+ */
+
+export interface RateLimiterOptions {
+  /** Most tokens a client can hold, i.e. the largest burst allowed. */
+  capacity: number;
+  /** Tokens given back to every client per minute. */
+  refillPerMinute: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** When not allowed, how long until enough tokens are back. */
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Spends tokens for a request if the client has enough.
+   * @param clientId Identifies the client, e.g. its IP address.
+   * @param cost The number of tokens the request needs.
+   * @returns Whether the request may go ahead.
+   */
+  take(clientId: string, cost?: number): RateLimitDecision;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Forget clients with full buckets once this many are tracked, so memory stays bounded.
+const MAX_TRACKED_CLIENTS = 10_000;
+
+/**
+ * Creates a rate limiter.
+ * @param options Bucket size and refill speed.
+ * @param now The clock, replaceable for testing.
+ * @returns The rate limiter.
+ */
+export const createRateLimiter = ({ capacity, refillPerMinute }: RateLimiterOptions, now: () => number = Date.now): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = refillPerMinute / 60_000;
+
+  const refill = (bucket: Bucket, time: number): void => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = time;
+  };
+
+  const prune = (time: number): void => {
+    for (const [clientId, bucket] of buckets) {
+      refill(bucket, time);
+      if (bucket.tokens >= capacity) buckets.delete(clientId);
+    }
+  };
+
+  return {
+    take(clientId, cost = 1) {
+      const time = now();
+      let bucket = buckets.get(clientId);
+      if (!bucket) {
+        if (buckets.size >= MAX_TRACKED_CLIENTS) prune(time);
+        bucket = { tokens: capacity, updatedAt: time };
+        buckets.set(clientId, bucket);
+      }
+      refill(bucket, time);
+
+      const needed = Math.min(cost, capacity);
+      if (bucket.tokens >= needed) {
+        bucket.tokens -= needed;
+        return { allowed: true, retryAfterSeconds: 0 };
+      }
+      const waitMs = refillPerMs > 0 ? (needed - bucket.tokens) / refillPerMs : Infinity;
+      return { allowed: false, retryAfterSeconds: Math.ceil(waitMs / 1000) };
+    },
+  };
+};
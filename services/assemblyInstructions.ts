@@ -0,0 +1,362 @@
+import type { AccessoryKind, HouseSpec, Material, PartEdge, PartGeometry, SheetMaterial, WallSide } from '../types';
+import { assembleHouse, toHousePoint, type HouseAssembly, type PlacedPart } from './houseAssembly';
+import { cutoutPath, rectangleOutline } from './partOutline';
+import { translateName, translator, type Locale, type MessageKey, type Translate } from './i18n';
+
+/**
+ * Turns the parts of a house into an ordered list of build steps a child can follow: cut, fold,
+ * then stand the walls on the base one side at a time, and finally put the roof on. Which edges
+ * get glued comes from the glue tabs of the parts, so the steps always match the templates.
+ */
+
+export type StepNoteKind = 'safety' | 'drying' | 'tip';
+
+export interface StepNote {
+  kind: StepNoteKind;
+  text: string;
+}
+
+export interface StepPart {
+  id: string;
+  label: string;
+  /** How many copies of the part this step uses. */
+  count: number;
+}
+
+export interface AssemblyStep {
+  title: string;
+  instruction: string;
+  parts: StepPart[];
+  /** Which edges to glue or tape together, one sentence each. */
+  joins: string[];
+  notes: StepNote[];
+  /** The placed parts (see houseAssembly.ts) that go on in this step, highlighted in its diagram. */
+  newPartKeys: string[];
+}
+
+interface GlueAdvice {
+  glue: MessageKey;
+  holdSeconds: number;
+  dryMinutes: number;
+  safety?: MessageKey;
+}
+
+const GLUE_ADVICE: Record<SheetMaterial, GlueAdvice> = {
+  'cardboard': { glue: 'step.glue', holdSeconds: 30, dryMinutes: 15 },
+  'foam-board': { glue: 'step.glue', holdSeconds: 60, dryMinutes: 30, safety: 'step.glueGun' },
+};
+
+// "the left wall (P4)": the label without its note, such as "(gable end)".
+/**
+ * Whether the roof seams are taped, so tape belongs on the shopping list.
+ */
+export const usesTape = (spec: HouseSpec): boolean => spec.roof.type === 'gable' || spec.roof.type === 'hip';
+
+const name = (part: PartGeometry, t: Translate, locale: Locale): string =>
+  t('step.part', { label: translateName(locale, 'part', part.label.replace(/\s*\(.*\)$/, '')).toLowerCase(), id: part.id });
+
+/**
+ * The part a glue tab is stuck to, if it is in the house. Seen from outside, the left wall has
+ * the back of the house on its left and the right wall has the front on its left.
+ */
+const tabNeighbour = (placed: PlacedPart, edge: PartEdge, all: PlacedPart[]): PlacedPart | undefined => {
+  const find = (role: PartGeometry['role'], side?: WallSide) =>
+    all.find(other => other.part.role === role && (!side || other.side === side));
+  if (edge === 'bottom') return find('base');
+  if (edge === 'top') return find('roof', placed.side) ?? find('roof');
+  // An upper floor's left and right edges rest against the side walls.
+  if (placed.part.role === 'floor') return find('wall', edge);
+  const sideNeighbours: Partial<Record<WallSide, Record<'left' | 'right', WallSide>>> = {
+    left: { left: 'back', right: 'front' },
+    right: { left: 'front', right: 'back' },
+  };
+  const side = placed.side && sideNeighbours[placed.side]?.[edge];
+  return side ? find('wall', side) : undefined;
+};
+
+const EDGE_NAMES: Record<PartEdge, MessageKey> = {
+  bottom: 'step.edge.bottom',
+  top: 'step.edge.top',
+  left: 'step.edge.left',
+  right: 'step.edge.right',
+};
+
+const ACCESSORY_INSTRUCTIONS: Record<AccessoryKind, MessageKey> = {
+  chimney: 'step.accessory.chimney',
+  porch: 'step.accessory.porch',
+  balcony: 'step.accessory.balcony',
+};
+
+/**
+ * Counts the copies of each part among some placed parts, keeping their order.
+ */
+const countParts = (placed: PlacedPart[]): StepPart[] => {
+  const counts = new Map<string, StepPart>();
+  for (const { part } of placed) {
+    const entry = counts.get(part.id) ?? { id: part.id, label: part.label, count: 0 };
+    entry.count++;
+    counts.set(part.id, entry);
+  }
+  return [...counts.values()];
+};
+
+export interface AssemblyOptions {
+  /** Whether a grown-up may use a craft knife. Without one, windows are painted on instead of cut out. Defaults to true. */
+  allowCraftKnife?: boolean;
+  /** The language the steps are written in. Defaults to English. */
+  locale?: Locale;
+}
+
+/**
+ * The first step, which is the only one that changes with the tools allowed.
+ */
+const cuttingStep = (spec: HouseSpec, count: number, allowCraftKnife: boolean, t: Translate): Pick<StepDraft, 'title' | 'instruction' | 'notes'> => {
+  if (allowCraftKnife) {
+    return {
+      title: t('step.cut.title'),
+      instruction: t('step.cut.knife', { count }),
+      notes: [
+        { kind: 'safety', text: t(spec.sheetMaterial === 'foam-board' ? 'step.cut.knifeFoam' : 'step.cut.knifeSafety') },
+        { kind: 'tip', text: t('step.cut.knifeTip') },
+      ],
+    };
+  }
+  return {
+    title: t('step.cut.title'),
+    instruction: t('step.cut.scissors', { count }),
+    notes: [
+      { kind: 'safety', text: t(spec.sheetMaterial === 'foam-board' ? 'step.cut.scissorsFoam' : 'step.cut.scissorsSafety') },
+      { kind: 'tip', text: t('step.cut.scissorsTip') },
+    ],
+  };
+};
+
+interface StepDraft extends Omit<AssemblyStep, 'parts' | 'joins' | 'newPartKeys'> {
+  /** The parts that go on in this step. */
+  placed: PlacedPart[];
+  /** The parts used, when they are not the ones that go on (cutting and folding). */
+  parts?: StepPart[];
+  extraJoins?: string[];
+}
+
+/**
+ * Works out the build steps for a house.
+ * @param spec The house model.
+ * @param materials The cutting list rows; without part geometry the parts are worked out from the spec.
+ * @param options Whether a craft knife may be used, and the language to write in.
+ * @returns The steps in build order.
+ */
+export const buildAssemblySteps = (spec: HouseSpec, materials: Material[] | null, { allowCraftKnife = true, locale = 'en' }: AssemblyOptions = {}): AssemblyStep[] => {
+  const t = translator(locale);
+  const { parts: placed } = assembleHouse(spec, materials);
+  const advice = GLUE_ADVICE[spec.sheetMaterial] ?? GLUE_ADVICE.cardboard;
+  const byRole = (role: PartGeometry['role']) => placed.filter(item => item.part.role === role);
+  const wall = (side: WallSide) => placed.filter(item => item.part.role === 'wall' && item.side === side);
+  const hold: StepNote = { kind: 'drying', text: t('step.hold', { seconds: advice.holdSeconds }) };
+
+  const drafts: StepDraft[] = [
+    {
+      ...cuttingStep(spec, placed.length, allowCraftKnife, t),
+      placed: [],
+      parts: countParts(placed),
+    },
+    {
+      title: t('step.fold.title'),
+      instruction: t('step.fold.instruction'),
+      notes: [{ kind: 'tip', text: t('step.fold.tip') }],
+      placed: [],
+      parts: countParts(placed.filter(item => item.part.glueTabs.length > 0)),
+    },
+    {
+      title: t('step.front.title'),
+      instruction: t('step.front.instruction', { glue: t(advice.glue) }),
+      notes: [hold, ...(advice.safety ? [{ kind: 'safety' as const, text: t(advice.safety) }] : [])],
+      placed: [...byRole('base'), ...wall('front')],
+    },
+    {
+      title: t('step.sides.title'),
+      instruction: t('step.sides.instruction'),
+      notes: [hold, { kind: 'tip', text: t('step.sides.tip') }],
+      placed: [...wall('left'), ...wall('right')],
+    },
+    ...(byRole('floor').length > 0 ? [{
+      title: t(byRole('floor').length > 1 ? 'step.floors.title' : 'step.floor.title'),
+      instruction: t(byRole('floor').length > 1 ? 'step.floors.instruction' : 'step.floor.instruction'),
+      notes: [{ kind: 'tip' as const, text: t('step.floor.tip') }],
+      placed: byRole('floor'),
+    }] : []),
+    {
+      title: t('step.back.title'),
+      instruction: t('step.back.instruction'),
+      notes: [{ kind: 'drying', text: t('step.back.drying', { minutes: advice.dryMinutes }) }],
+      placed: wall('back'),
+    },
+  ];
+
+  const roof = byRole('roof');
+  const slopingTops = spec.roof.type === 'gable' || spec.roof.type === 'shed'
+    ? [t('step.roof.slopingTops')]
+    : [];
+  if (spec.roof.type === 'hip') {
+    const isEnd = (item: PlacedPart) => item.part.outline?.length === 3;
+    drafts.push(
+      {
+        title: t('step.hip.long.title'),
+        instruction: t('step.hip.long.instruction'),
+        notes: [hold],
+        placed: roof.filter(item => !isEnd(item)),
+      },
+      {
+        title: t('step.hip.ends.title'),
+        instruction: t('step.hip.ends.instruction'),
+        notes: [{ kind: 'drying', text: t('step.roof.drying', { minutes: advice.dryMinutes }) }],
+        placed: roof.filter(isEnd),
+        extraJoins: [t('step.hip.tape')],
+      }
+    );
+  } else {
+    drafts.push({
+      title: t('step.roof.title'),
+      instruction: t(spec.roof.type === 'gable' ? 'step.roof.gable' : spec.roof.type === 'shed' ? 'step.roof.shed' : 'step.roof.flat'),
+      notes: [{ kind: 'drying', text: t('step.roof.drying', { minutes: advice.dryMinutes }) }],
+      placed: roof,
+      extraJoins: [...slopingTops, ...(usesTape(spec) ? [t('step.roof.tape')] : [])],
+    });
+  }
+
+  for (const accessory of spec.accessories ?? []) {
+    const pieces = byRole('accessory').filter(item => item.part.accessory === accessory.kind && item.part.wall === accessory.wall);
+    if (pieces.length === 0) continue;
+    drafts.push({
+      title: t('step.accessory.title', { accessory: t(`accessory.${accessory.kind}.the`), wall: t(`wall.${accessory.wall}`) }),
+      instruction: t(ACCESSORY_INSTRUCTIONS[accessory.kind], { height: t((spec.storeys ?? 1) > 1 ? 'step.balcony.upper' : 'step.balcony.low') }),
+      notes: [hold],
+      placed: pieces,
+      extraJoins: [t('step.accessory.join', { accessory: t(`accessory.${accessory.kind}.the`), wall: t(`wall.${accessory.wall}`) })],
+    });
+  }
+
+  if (spec.features.length > 0) {
+    drafts.push({
+      title: t('step.features.title'),
+      instruction: t('step.features.instruction', { features: spec.features.map(feature => feature.name.toLowerCase()).join(', ') }),
+      notes: [{ kind: 'tip', text: t('step.features.tip') }],
+      placed: [],
+    });
+  }
+
+  // Each tab is glued in the step where the later of its two parts goes on.
+  const stepOf = new Map<string, number>();
+  drafts.forEach((draft, index) => draft.placed.forEach(item => stepOf.set(item.key, index)));
+  const joins: string[][] = drafts.map(() => []);
+  for (const item of placed) {
+    for (const edge of item.part.glueTabs) {
+      const neighbour = tabNeighbour(item, edge, placed);
+      if (!neighbour || !stepOf.has(item.key) || !stepOf.has(neighbour.key)) continue;
+      const step = Math.max(stepOf.get(item.key)!, stepOf.get(neighbour.key)!);
+      joins[step].push(t('step.join', { edge: t(EDGE_NAMES[edge]), part: name(item.part, t, locale), other: name(neighbour.part, t, locale) }));
+    }
+  }
+
+  return drafts.map(({ placed: stepPlaced, parts, extraJoins = [], ...draft }, index) => ({
+    ...draft,
+    parts: parts ?? countParts(stepPlaced),
+    joins: [...new Set(joins[index]), ...extraJoins],
+    newPartKeys: stepPlaced.map(item => item.key),
+  }));
+};
+
+/**
+ * Everything a step says, as one piece of text for reading aloud.
+ * @param step The step.
+ * @param number Its number, starting at 1.
+ * @param total How many steps there are.
+ * @param locale The language the step is written in.
+ */
+export const describeStep = (step: AssemblyStep, number: number, total: number, locale: Locale = 'en'): string => {
+  const t = translator(locale);
+  return [
+    t('step.describe', { number, total, title: step.title }),
+    step.instruction,
+    ...step.joins,
+    ...step.notes.map(note => (note.kind === 'safety' ? t('step.careful', { text: note.text }) : note.text)),
+  ].join(' ');
+};
+
+// --- START: Step diagrams ---
+
+type Vec = [number, number];
+
+export interface DiagramShape {
+  points: Vec[];
+  /** True for the parts that go on in this step. */
+  isNew: boolean;
+  /** True for the outline of a door or window, drawn on top of its part. */
+  isOpening: boolean;
+}
+
+/**
+ * A small drawing of the house as it stands after a step, seen from above the front-right
+ * corner. Coordinates are in millimetres with the origin at the top-left and y pointing down.
+ */
+export interface StepDiagram {
+  widthMm: number;
+  heightMm: number;
+  /** In drawing order, furthest first. */
+  shapes: DiagramShape[];
+}
+
+/**
+ * How a diagram shape is drawn: the new parts in yellow, the parts already on in pale blue and
+ * the doors and windows left white.
+ * @param shape The shape.
+ * @returns Its fill and outline colours and outline width in millimetres.
+ */
+export const diagramShapeStyle = (shape: DiagramShape): { fill: string; stroke: string; widthMm: number } => ({
+  fill: shape.isOpening ? '#ffffff' : shape.isNew ? '#fde047' : '#e0f2fe',
+  stroke: shape.isNew ? '#0c4a6e' : '#94a3b8',
+  widthMm: shape.isNew ? 1.5 : 1,
+});
+
+const project = ({ x, y, z }: { x: number; y: number; z: number }): Vec => [(x - z) / Math.SQRT2, -(2 * y - x - z) / Math.sqrt(6)];
+
+// Larger is closer to the viewer.
+const nearness = ({ x, y, z }: { x: number; y: number; z: number }): number => x + y + z;
+
+/**
+ * Draws the house as it stands after a step, with that step's new parts highlighted.
+ * @param assembly The placed parts of the house.
+ * @param steps Every step, to know which parts are already on.
+ * @param index The step to draw.
+ * @returns The diagram, or null before any part has gone on.
+ */
+export const buildStepDiagram = (assembly: HouseAssembly, steps: AssemblyStep[], index: number): StepDiagram | null => {
+  const built = new Set(steps.slice(0, index).flatMap(step => step.newPartKeys));
+  const added = new Set(steps[index]?.newPartKeys ?? []);
+  const visible = assembly.parts.filter(item => built.has(item.key) || added.has(item.key));
+  if (visible.length === 0) return null;
+
+  const faces = visible.map(item => {
+    const face = (points: Vec[]) => points.map(([x, y]) => toHousePoint(item, { x, y, z: item.part.thicknessMm }));
+    const outline = face((item.part.outline ?? rectangleOutline(item.part)).map((point): Vec => [point.xMm, point.yMm]));
+    const openings = item.part.cutouts.map(cutout => face(cutoutPath(cutout).points));
+    const center = outline.reduce((sum, point) => sum + nearness(point), 0) / outline.length;
+    return { outline, openings, center, isNew: added.has(item.key) };
+  }).sort((a, b) => a.center - b.center);
+
+  const shapes: DiagramShape[] = faces.flatMap(face => [
+    { points: face.outline.map(project), isNew: face.isNew, isOpening: false },
+    ...face.openings.map(points => ({ points: points.map(project), isNew: face.isNew, isOpening: true })),
+  ]);
+
+  const all = shapes.flatMap(shape => shape.points);
+  const minX = Math.min(...all.map(([x]) => x));
+  const minY = Math.min(...all.map(([, y]) => y));
+  return {
+    widthMm: Math.max(...all.map(([x]) => x)) - minX,
+    heightMm: Math.max(...all.map(([, y]) => y)) - minY,
+    shapes: shapes.map(shape => ({ ...shape, points: shape.points.map(([x, y]): Vec => [x - minX, y - minY]) })),
+  };
+};
+
+// --- END: Step diagrams ---
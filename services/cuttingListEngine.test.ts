@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { HouseSpec, RoofType } from '../types';
+import { buildCuttingList, computeMaterials, SHEET_MATERIAL_NAMES, SHEET_THICKNESS_MM } from './cuttingListEngine';
+
+const house = (roofType: RoofType = 'gable', changes: Partial<HouseSpec> = {}): HouseSpec => ({
+  footprint: { widthMm: 160, depthMm: 120 },
+  wallHeightMm: 100,
+  sheetMaterial: 'cardboard',
+  roof: { type: roofType, pitchDeg: roofType === 'flat' ? 0 : 30, overhangMm: 10, material: 'card shingles' },
+  openings: [
+    { kind: 'door', wall: 'front', shape: 'arch', offsetMm: 65, bottomMm: 0, widthMm: 30, heightMm: 55 },
+    { kind: 'window', wall: 'left', shape: 'rectangle', offsetMm: 45, bottomMm: 45, widthMm: 30, heightMm: 30 },
+  ],
+  colors: {
+    walls: { name: 'white', hex: '#ffffff' },
+    roof: { name: 'red', hex: '#ff0000' },
+    trim: { name: 'white', hex: '#ffffff' },
+    door: { name: 'red', hex: '#ff0000' },
+  },
+  features: [],
+  ...changes,
+});
+
+const labels = (spec: HouseSpec): string[] => computeMaterials(spec).map(material => material.part!.label);
+
+describe('computeMaterials', () => {
+  it('gives every part a unique id and its sheet thickness', () => {
+    const materials = computeMaterials(house());
+    const ids = materials.map(material => material.part!.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const material of materials) {
+      expect(material.name).toBe(SHEET_MATERIAL_NAMES.cardboard);
+      expect(material.part!.thicknessMm).toBe(SHEET_THICKNESS_MM.cardboard);
+      expect(material.quantity).toBeGreaterThan(0);
+    }
+  });
+
+  it('sizes the base, front wall and side walls from the footprint', () => {
+    const spec = house('flat');
+    const parts = computeMaterials(spec).map(material => material.part!);
+    const byLabel = (label: string) => parts.find(part => part.label === label)!;
+    const thickness = SHEET_THICKNESS_MM.cardboard;
+
+    expect(byLabel('Base')).toMatchObject({ widthMm: 160, heightMm: 120 });
+    expect(byLabel('Front wall')).toMatchObject({ widthMm: 160, heightMm: 100 });
+    // The side walls fit between the front and back walls.
+    expect(byLabel('Left wall').widthMm).toBeCloseTo(120 - 2 * thickness);
+  });
+
+  it('cuts the doors and windows out of the walls they are on', () => {
+    const parts = computeMaterials(house()).map(material => material.part!);
+    expect(parts.find(part => part.label === 'Front wall')!.cutouts).toHaveLength(1);
+    expect(parts.find(part => part.wall === 'left')!.cutouts).toHaveLength(1);
+    expect(parts.find(part => part.wall === 'right')!.cutouts).toHaveLength(0);
+  });
+
+  it('makes the parts each roof shape needs', () => {
+    expect(labels(house('gable'))).toContain('Left wall (gable end)');
+    expect(labels(house('hip'))).toEqual(expect.arrayContaining(['Roof panel (long side)', 'Roof panel (end)']));
+    expect(labels(house('flat'))).toContain('Roof');
+    // A shed roof slopes down from a taller back wall.
+    const shed = computeMaterials(house('shed')).map(material => material.part!);
+    const front = shed.find(part => part.label === 'Front wall')!;
+    const back = shed.find(part => part.label === 'Back wall')!;
+    expect(back.heightMm).toBeGreaterThan(front.heightMm);
+  });
+
+  it('adds an upper floor for every storey above the first', () => {
+    const materials = computeMaterials(house('flat', { storeys: 3, wallHeightMm: 240 }));
+    expect(materials.find(material => material.part!.label === 'Upper floor')?.quantity).toBe(2);
+  });
+
+  it('gives the same list for the same house', () => {
+    expect(computeMaterials(house())).toEqual(computeMaterials(house()));
+  });
+});
+
+describe('buildCuttingList', () => {
+  it('keeps the name and description it is given', () => {
+    const list = buildCuttingList(house(), { houseName: 'Sunny Cottage', description: 'A small house.' });
+    expect(list).toMatchObject({ houseName: 'Sunny Cottage', description: 'A small house.' });
+    expect(list.materials).toEqual(computeMaterials(house()));
+  });
+});
@@ -0,0 +1,378 @@
+import type { Accessory, AccessoryKind, CuttingList, HouseSpec, Material, Opening, PartCutout, PartEdge, PartGeometry, PartRole, Point2D, SheetMaterial, WallSide } from '../types';
+
+/**
+ * Thickness of each sheet material, in millimetres.
+ */
+export const SHEET_THICKNESS_MM: Record<SheetMaterial, number> = {
+  'cardboard': 3,
+  'foam-board': 5,
+};
+
+export const SHEET_MATERIAL_NAMES: Record<SheetMaterial, string> = {
+  'cardboard': 'Cardboard',
+  'foam-board': 'Foam board',
+};
+
+// Keep cut-outs at least this far from the edges of a part so the walls don't snap.
+const EDGE_MARGIN_MM = 5;
+
+const round = (mm: number): number => Math.round(mm);
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+interface PartDraft {
+  label: string;
+  role: PartRole;
+  wall?: WallSide;
+  accessory?: AccessoryKind;
+  quantity: number;
+  widthMm: number;
+  heightMm: number;
+  outline?: Point2D[];
+  cutouts?: PartCutout[];
+  glueTabs?: PartEdge[];
+}
+
+/**
+ * Converts the openings on one wall into cut-outs on the matching part, clamping them so they
+ * always fit inside the part (the model is sometimes a little generous with sizes).
+ * @param openings Every opening of the house.
+ * @param wall The wall the part belongs to.
+ * @param partWidthMm Width of the part.
+ * @param maxHeightMm Highest point a cut-out may reach (the eaves).
+ * @param shiftMm How much shorter the part is on its left edge than the full wall.
+ * @returns The cut-outs for this part.
+ */
+const cutoutsForWall = (
+  openings: Opening[],
+  wall: WallSide,
+  partWidthMm: number,
+  maxHeightMm: number,
+  shiftMm: number
+): PartCutout[] =>
+  openings
+    .filter(opening => opening.wall === wall)
+    .map(opening => {
+      const widthMm = Math.min(opening.widthMm, partWidthMm - 2 * EDGE_MARGIN_MM);
+      const isDoor = opening.kind === 'door';
+      const minY = isDoor ? 0 : EDGE_MARGIN_MM;
+      const heightMm = Math.min(opening.heightMm, maxHeightMm - minY - EDGE_MARGIN_MM);
+      const xMm = Math.min(Math.max(opening.offsetMm - shiftMm, EDGE_MARGIN_MM), partWidthMm - EDGE_MARGIN_MM - widthMm);
+      const yMm = isDoor ? 0 : Math.min(Math.max(opening.bottomMm, minY), maxHeightMm - EDGE_MARGIN_MM - heightMm);
+      return { kind: opening.kind, shape: opening.shape, xMm: round(xMm), yMm: round(yMm), widthMm: round(widthMm), heightMm: round(heightMm) };
+    })
+    .filter(cutout => cutout.widthMm > 0 && cutout.heightMm > 0);
+
+// --- START: Accessories ---
+
+/**
+ * Where an accessory goes on its wall and how big it is. Lengths along the wall are measured
+ * from its left end seen from outside, like the openings.
+ */
+export interface AccessoryLayout {
+  /** The middle of the accessory along the wall. */
+  centerMm: number;
+  /** How wide it is along the wall. */
+  widthMm: number;
+  /** How far it sticks out from the wall. */
+  depthMm: number;
+  /** How high its floor is above the ground: 0 for a chimney or a porch. */
+  bottomMm: number;
+  /** The height of the chimney, the porch posts or the balcony railings. */
+  heightMm: number;
+}
+
+/**
+ * How tall one floor of the house is.
+ * @param spec The house model.
+ * @returns The height of one storey, in millimetres.
+ */
+export const storeyHeightMm = (spec: HouseSpec): number => spec.wallHeightMm / Math.max(1, spec.storeys ?? 1);
+
+/**
+ * How high the highest point of the roof is above the ground, for a chimney to rise past it.
+ */
+const roofTopMm = (spec: HouseSpec, thicknessMm: number): number => {
+  const pitch = toRadians(spec.roof.pitchDeg);
+  const { widthMm, depthMm } = spec.footprint;
+  switch (spec.roof.type) {
+    case 'gable': return spec.wallHeightMm + ((depthMm - 2 * thicknessMm) / 2) * Math.tan(pitch);
+    case 'shed': return spec.wallHeightMm + depthMm * Math.tan(pitch);
+    case 'hip': return spec.wallHeightMm + (Math.min(widthMm, depthMm) / 2) * Math.tan(pitch);
+    case 'flat':
+    default: return spec.wallHeightMm + thicknessMm;
+  }
+};
+
+/**
+ * Sizes an accessory to the house and finds its place on the wall: a chimney near the right-hand
+ * end, a porch over the first door (or in the middle), and a balcony in the middle at the upper
+ * floor, or a little over halfway up a one-storey house.
+ * @param spec The house model.
+ * @param accessory The accessory.
+ * @param thicknessMm The thickness of the sheet.
+ * @returns Where it goes and how big it is.
+ */
+export const layoutAccessory = (spec: HouseSpec, accessory: Accessory, thicknessMm: number): AccessoryLayout => {
+  const wallLength = accessory.wall === 'front' || accessory.wall === 'back' ? spec.footprint.widthMm : spec.footprint.depthMm;
+  const shortSide = Math.min(spec.footprint.widthMm, spec.footprint.depthMm);
+  const within = (center: number, width: number) => clamp(center, width / 2, wallLength - width / 2);
+
+  switch (accessory.kind) {
+    case 'chimney': {
+      const size = clamp(round(shortSide * 0.15), 15, 40);
+      return { centerMm: within(wallLength * 0.8, size), widthMm: size, depthMm: size, bottomMm: 0, heightMm: roofTopMm(spec, thicknessMm) + size };
+    }
+    case 'porch': {
+      const door = spec.openings.find(opening => opening.wall === accessory.wall && opening.kind === 'door');
+      const width = clamp(door ? door.widthMm + 30 : wallLength * 0.4, 30, wallLength);
+      return {
+        centerMm: within(door ? door.offsetMm + door.widthMm / 2 : wallLength / 2, width),
+        widthMm: width,
+        depthMm: clamp(round(shortSide * 0.3), 25, 70),
+        bottomMm: 0,
+        heightMm: clamp(door ? door.heightMm + 10 : spec.wallHeightMm * 0.6, 20, storeyHeightMm(spec)),
+      };
+    }
+    case 'balcony':
+    default: {
+      const width = clamp(round(wallLength * 0.5), 40, wallLength - 2 * thicknessMm);
+      return {
+        centerMm: wallLength / 2,
+        widthMm: width,
+        depthMm: clamp(round(shortSide * 0.2), 20, 50),
+        bottomMm: (spec.storeys ?? 1) > 1 ? storeyHeightMm(spec) : round(spec.wallHeightMm * 0.55),
+        heightMm: clamp(round(spec.wallHeightMm * 0.12), 12, 25),
+      };
+    }
+  }
+};
+
+// The narrow strips a porch roof stands on.
+const POST_WIDTH_MM = 8;
+
+/**
+ * The pieces of one accessory, always in the same order so houseAssembly.ts can tell them apart:
+ * a chimney's front then its two sides; a porch's floor, roof and two posts; a balcony's floor,
+ * front railing and two side railings.
+ */
+const accessoryParts = (spec: HouseSpec, accessory: Accessory, thicknessMm: number): PartDraft[] => {
+  const { widthMm, depthMm, heightMm } = layoutAccessory(spec, accessory, thicknessMm);
+  const piece = (label: string, quantity: number, width: number, height: number): PartDraft => ({
+    label: `${label} (${accessory.wall} wall)`, role: 'accessory', wall: accessory.wall, accessory: accessory.kind, quantity, widthMm: width, heightMm: height,
+  });
+  switch (accessory.kind) {
+    case 'chimney':
+      // The front covers the ends of the sides, so they are one sheet thickness narrower.
+      return [piece('Chimney front', 1, widthMm, heightMm), piece('Chimney side', 2, depthMm - thicknessMm, heightMm)];
+    case 'porch':
+      return [
+        piece('Porch floor', 1, widthMm, depthMm),
+        piece('Porch roof', 1, widthMm, depthMm),
+        piece('Porch post', 2, POST_WIDTH_MM, heightMm),
+      ];
+    case 'balcony':
+    default:
+      return [
+        piece('Balcony floor', 1, widthMm, depthMm),
+        piece('Balcony front rail', 1, widthMm, heightMm),
+        piece('Balcony side rail', 2, depthMm - thicknessMm, heightMm),
+      ];
+  }
+};
+
+// --- END: Accessories ---
+
+/**
+ * Works out every flat piece needed for the walls, the base, the upper floors, the roof and the
+ * accessories, before numbering. Walls stand on the base; the front and back walls run the full width and the side walls fit
+ * between them, so the side walls are two sheet thicknesses shorter than the footprint depth.
+ */
+const draftParts = (spec: HouseSpec, thicknessMm: number): PartDraft[] => {
+  const { widthMm: width, depthMm: depth } = spec.footprint;
+  const { wallHeightMm: height, openings, roof } = spec;
+  const pitch = toRadians(roof.type === 'flat' ? 0 : roof.pitchDeg);
+  const overhang = Math.max(0, roof.overhangMm);
+  const sideWidth = depth - 2 * thicknessMm;
+
+  const parts: PartDraft[] = [{ label: 'Base', role: 'base', quantity: 1, widthMm: width, heightMm: depth }];
+
+  // Front and back walls. A shed roof slopes from a tall back wall down to the front wall.
+  // Both carry the roof, so they get a glue tab along the top as well as the bottom.
+  const shedRise = roof.type === 'shed' ? depth * Math.tan(pitch) : 0;
+  parts.push({
+    label: 'Front wall', role: 'wall', wall: 'front', quantity: 1, widthMm: width, heightMm: height,
+    cutouts: cutoutsForWall(openings, 'front', width, height, 0), glueTabs: ['bottom', 'top'],
+  });
+  parts.push({
+    label: 'Back wall', role: 'wall', wall: 'back', quantity: 1, widthMm: width, heightMm: height + shedRise,
+    cutouts: cutoutsForWall(openings, 'back', width, height, 0), glueTabs: ['bottom', 'top'],
+  });
+
+  // Side walls. Seen from outside, the left wall has the back of the house on its left.
+  // They fit between the front and back walls and are glued to them with tabs on both sides.
+  const sideWall = (wall: 'left' | 'right'): PartDraft => {
+    const base: PartDraft = {
+      label: wall === 'left' ? 'Left wall' : 'Right wall',
+      role: 'wall',
+      wall,
+      quantity: 1,
+      widthMm: sideWidth,
+      heightMm: height,
+      cutouts: cutoutsForWall(openings, wall, sideWidth, height, thicknessMm),
+      glueTabs: ['bottom', 'left', 'right'],
+    };
+    if (roof.type === 'gable') {
+      const rise = (sideWidth / 2) * Math.tan(pitch);
+      return {
+        ...base,
+        label: `${base.label} (gable end)`,
+        heightMm: height + rise,
+        outline: [
+          { xMm: 0, yMm: 0 },
+          { xMm: sideWidth, yMm: 0 },
+          { xMm: sideWidth, yMm: height },
+          { xMm: sideWidth / 2, yMm: height + rise },
+          { xMm: 0, yMm: height },
+        ],
+      };
+    }
+    if (roof.type === 'shed') {
+      const rise = sideWidth * Math.tan(pitch);
+      const highOnLeft = wall === 'left';
+      return {
+        ...base,
+        heightMm: height + rise,
+        outline: [
+          { xMm: 0, yMm: 0 },
+          { xMm: sideWidth, yMm: 0 },
+          { xMm: sideWidth, yMm: highOnLeft ? height : height + rise },
+          { xMm: 0, yMm: highOnLeft ? height + rise : height },
+        ],
+      };
+    }
+    return base;
+  };
+  parts.push(sideWall('left'), sideWall('right'));
+
+  // Upper floors rest inside the walls, glued to the side walls.
+  const storeys = spec.storeys ?? 1;
+  if (storeys > 1) {
+    parts.push({
+      label: 'Upper floor', role: 'floor', quantity: storeys - 1,
+      widthMm: width - 2 * thicknessMm, heightMm: sideWidth, glueTabs: ['left', 'right'],
+    });
+  }
+
+  // Roof panels.
+  switch (roof.type) {
+    case 'gable': {
+      const slope = (depth / 2 + overhang) / Math.cos(pitch);
+      parts.push({ label: 'Roof panel', role: 'roof', quantity: 2, widthMm: width + 2 * overhang, heightMm: slope });
+      break;
+    }
+    case 'shed': {
+      const slope = (depth + 2 * overhang) / Math.cos(pitch);
+      parts.push({ label: 'Roof panel', role: 'roof', quantity: 1, widthMm: width + 2 * overhang, heightMm: slope });
+      break;
+    }
+    case 'hip': {
+      const long = Math.max(width, depth);
+      const short = Math.min(width, depth);
+      const slope = (short / 2 + overhang) / Math.cos(pitch);
+      const bottom = long + 2 * overhang;
+      const ridge = long - short;
+      const inset = (bottom - ridge) / 2;
+      parts.push({
+        label: 'Roof panel (long side)',
+        role: 'roof',
+        quantity: 2,
+        widthMm: bottom,
+        heightMm: slope,
+        outline: [
+          { xMm: 0, yMm: 0 },
+          { xMm: bottom, yMm: 0 },
+          { xMm: bottom - inset, yMm: slope },
+          { xMm: inset, yMm: slope },
+        ],
+      });
+      const end = short + 2 * overhang;
+      parts.push({
+        label: 'Roof panel (end)',
+        role: 'roof',
+        quantity: 2,
+        widthMm: end,
+        heightMm: slope,
+        outline: [
+          { xMm: 0, yMm: 0 },
+          { xMm: end, yMm: 0 },
+          { xMm: end / 2, yMm: slope },
+        ],
+      });
+      break;
+    }
+    case 'flat':
+    default:
+      parts.push({ label: 'Roof', role: 'roof', quantity: 1, widthMm: width + 2 * overhang, heightMm: depth + 2 * overhang });
+  }
+
+  for (const accessory of spec.accessories ?? []) {
+    parts.push(...accessoryParts(spec, accessory, thicknessMm));
+  }
+
+  return parts;
+};
+
+/**
+ * Computes the exact, numbered list of parts needed to build the house described by the spec.
+ * This is pure geometry, so the same spec always produces the same list.
+ * @param spec The house model.
+ * @returns One material row per distinct part, with structured dimensions in millimetres.
+ */
+export const computeMaterials = (spec: HouseSpec): Material[] => {
+  const sheet: SheetMaterial = spec.sheetMaterial in SHEET_THICKNESS_MM ? spec.sheetMaterial : 'cardboard';
+  const thicknessMm = SHEET_THICKNESS_MM[sheet];
+  const name = SHEET_MATERIAL_NAMES[sheet];
+
+  return draftParts(spec, thicknessMm).map((draft, index): Material => {
+    const part: PartGeometry = {
+      id: `P${index + 1}`,
+      label: draft.label,
+      role: draft.role,
+      widthMm: round(draft.widthMm),
+      heightMm: round(draft.heightMm),
+      thicknessMm,
+      cutouts: draft.cutouts ?? [],
+      glueTabs: draft.glueTabs ?? [],
+    };
+    if (draft.wall) {
+      part.wall = draft.wall;
+    }
+    if (draft.accessory) {
+      part.accessory = draft.accessory;
+    }
+    if (draft.outline) {
+      part.outline = draft.outline.map(point => ({ xMm: round(point.xMm), yMm: round(point.yMm) }));
+    }
+    return {
+      name,
+      quantity: draft.quantity,
+      dimensions: `${part.widthMm} x ${part.heightMm} x ${thicknessMm} mm`,
+      part,
+    };
+  });
+};
+
+/**
+ * Assembles the full cutting list from the computed parts and the model-generated name.
+ * @param spec The house model.
+ * @param naming The house name and one-line description.
+ * @returns The cutting list shown to the user.
+ */
+export const buildCuttingList = (spec: HouseSpec, naming: { houseName: string; description: string }): CuttingList => ({
+  houseName: naming.houseName,
+  description: naming.description,
+  materials: computeMaterials(spec),
+});
@@ -0,0 +1,246 @@
+import type { ChatMessage, CuttingList, DesignResult, EditOperation, HouseSpec, ImageView, Strictness } from '../types';
+import { VIEWS } from '../constants';
+import type { CallOptions, ChatReply } from './designProvider';
+import { designErrorFromKind, MalformedResponseError, NetworkError, parseRetryAfter, type DesignError, type DesignErrorKind } from './designErrors';
+import type { GenerationEvent, GenerationOptions } from './designService';
+
+/**
+ * Browser side of the proxy server in server/index.ts. The server runs the same steps as
+ * designService.ts with the real provider and key, and streams each step back as one JSON
+ * object per line, so the page still fills in progressively.
+ */
+
+/**
+ * One line of a streamed design response: a generation event, or the end of the stream.
+ */
+export type DesignStreamMessage =
+  | GenerationEvent
+  | { type: 'done' }
+  | { type: 'error'; message: string; status?: number; kind?: DesignErrorKind; retryAfterSeconds?: number };
+
+export type AssetRequest = (
+  | { asset: 'view'; houseSpec: HouseSpec; view: string }
+  | { asset: 'sketch'; houseSpec: HouseSpec }
+  | { asset: 'cuttingList'; houseSpec: HouseSpec; strictness?: Strictness }
+) & CallOptions;
+
+const API_BASE = '/api/design';
+
+/**
+ * Rebuilds the error the server ran into. The server says what kind it was; a failure without a
+ * kind (e.g. from a proxy in between) is classified by its HTTP status.
+ */
+const toError = (message: string, status?: number, kind?: unknown, retryAfterMs?: number): DesignError => {
+  if (!kind && status === 429) kind = 'rateLimit';
+  if (!kind && status !== undefined && (status === 408 || status >= 500)) kind = 'network';
+  return designErrorFromKind(kind, message, { status, retryAfterMs });
+};
+
+const readError = async (response: Response): Promise<DesignError> => {
+  let message = `The design server answered with status ${response.status}.`;
+  let kind: unknown;
+  try {
+    const body = await response.json();
+    if (typeof body?.error === 'string') message = body.error;
+    kind = body?.kind;
+  } catch {
+    // Not JSON (e.g. a proxy error page); keep the generic message.
+  }
+  return toError(message, response.status, kind, parseRetryAfter(response.headers.get('Retry-After')));
+};
+
+const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // fetch only rejects when no answer came back at all.
+    throw new NetworkError('Could not reach the design server.', { cause: error });
+  }
+  if (!response.ok) {
+    throw await readError(response);
+  }
+  return response;
+};
+
+/**
+ * @param line One line of a streamed design response.
+ * @returns The event it carries.
+ */
+const parseStreamLine = (line: string): DesignStreamMessage => {
+  try {
+    return JSON.parse(line) as DesignStreamMessage;
+  } catch (error) {
+    throw new MalformedResponseError('The design server sent a line that could not be read.', { cause: error });
+  }
+};
+
+/**
+ * Reads a streamed design response, forwarding every event and rebuilding the final result
+ * from them, the same way designService assembles it locally.
+ */
+const readDesignStream = async (response: Response, { onEvent }: GenerationOptions): Promise<DesignResult> => {
+  if (!response.body) {
+    throw new NetworkError('The design server sent an empty answer.');
+  }
+
+  const result: DesignResult = { imageViews: null, sketchUrl: null, cuttingList: null, detailedDescription: null, houseSpec: null };
+  const views: ImageView[] = [];
+
+  const handle = (message: DesignStreamMessage): boolean => {
+    switch (message.type) {
+      case 'error':
+        throw toError(
+          message.message,
+          message.status,
+          message.kind,
+          message.retryAfterSeconds !== undefined ? message.retryAfterSeconds * 1000 : undefined
+        );
+      case 'done':
+        return true;
+      case 'description':
+        result.detailedDescription = message.detailedDescription;
+        break;
+      case 'spec':
+        result.houseSpec = message.houseSpec;
+        break;
+      case 'view':
+        if (message.view) views.push(message.view);
+        break;
+      case 'sketch':
+        result.sketchUrl = message.sketchUrl;
+        break;
+      case 'cuttingList':
+        result.cuttingList = message.cuttingList;
+        break;
+    }
+    onEvent?.(message);
+    return false;
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+  while (!finished) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim() && handle(parseStreamLine(line))) {
+        finished = true;
+      }
+    }
+    if (done) break;
+  }
+
+  if (!finished) {
+    throw new NetworkError('The connection to the design server was cut off.');
+  }
+
+  views.sort((a, b) => VIEWS.indexOf(a.label) - VIEWS.indexOf(b.label));
+  result.imageViews = views.length > 0 ? views : null;
+  return result;
+};
+
+/**
+ * Asks the server to design a new house.
+ * @param prompt The user's idea.
+ * @param options Progress callback, cancellation, the builder's limits, the picture, whether to skip cached answers, the language to write in, and how careful the content checks are.
+ * @returns Every asset of the design.
+ */
+export const requestHouseDesign = async (prompt: string, options: GenerationOptions = {}): Promise<DesignResult> =>
+  readDesignStream(
+    await post(
+      '',
+      { prompt, constraints: options.constraints, sourceImage: options.sourceImage, fresh: options.fresh, locale: options.locale, strictness: options.strictness },
+      options.signal
+    ),
+    options
+  );
+
+/**
+ * Asks the server to apply the user's edits to a design.
+ * @param houseSpec The current house model.
+ * @param detailedDescription The current description.
+ * @param edits The changes the user made, in order.
+ * @param options Progress callback, cancellation, the builder's limits, whether to skip cached answers, the language to write in, and how careful the content checks are.
+ * @returns Every asset of the edited design.
+ */
+export const requestHouseEdit = async (
+  houseSpec: HouseSpec,
+  detailedDescription: string,
+  edits: EditOperation[],
+  options: GenerationOptions = {}
+): Promise<DesignResult> =>
+  readDesignStream(
+    await post(
+      '/edit',
+      { houseSpec, detailedDescription, edits, constraints: options.constraints, fresh: options.fresh, locale: options.locale, strictness: options.strictness },
+      options.signal
+    ),
+    options
+  );
+
+/**
+ * Asks the server for the design assistant's answer to the latest chat message.
+ * @param houseSpec The current house model.
+ * @param detailedDescription The current description.
+ * @param messages The chat so far, ending with the user's message.
+ * @param options Cancellation, the builder's limits, whether to skip cached answers, the language to answer in, and how careful the content checks are.
+ * @returns The assistant's answer.
+ */
+export const requestChatReply = async (
+  houseSpec: HouseSpec,
+  detailedDescription: string,
+  messages: ChatMessage[],
+  { signal, constraints, fresh, locale, strictness }: Pick<GenerationOptions, 'signal' | 'constraints' | 'fresh' | 'locale' | 'strictness'> = {}
+): Promise<ChatReply> => {
+  const response = await post('/chat', { houseSpec, detailedDescription, messages, constraints, fresh, locale, strictness }, signal);
+  const body = await response.json();
+  return body.value;
+};
+
+const requestAsset = async <T>(request: AssetRequest): Promise<T> => {
+  const response = await post('/asset', request);
+  const body = await response.json();
+  return body.value;
+};
+
+/**
+ * Asks the server to draw one view on its own, e.g. to retry it.
+ * @param houseSpec The house model.
+ * @param view One of the VIEWS labels.
+ * @param options Whether to skip cached answers.
+ * @returns The view, or null if nothing was produced.
+ */
+export const requestView = (houseSpec: HouseSpec, view: string, { fresh }: CallOptions = {}): Promise<ImageView | null> =>
+  requestAsset({ asset: 'view', houseSpec, view, fresh });
+
+/**
+ * Asks the server to draw the assembly sketch on its own.
+ * @param houseSpec The house model.
+ * @param options Whether to skip cached answers.
+ * @returns The sketch as a data URL, or null if nothing was produced.
+ */
+export const requestSketch = (houseSpec: HouseSpec, { fresh }: CallOptions = {}): Promise<string | null> =>
+  requestAsset({ asset: 'sketch', houseSpec, fresh });
+
+/**
+ * Asks the server to rebuild the cutting list and name the house again.
+ * @param houseSpec The house model.
+ * @param options Whether to skip cached answers, the language to name the house in, and how careful the content checks are.
+ * @returns The cutting list.
+ */
+export const requestCuttingList = (
+  houseSpec: HouseSpec,
+  { fresh, locale, strictness }: Pick<GenerationOptions, 'fresh' | 'locale' | 'strictness'> = {}
+): Promise<CuttingList> =>
+  requestAsset({ asset: 'cuttingList', houseSpec, fresh, locale, strictness });
@@ -0,0 +1,237 @@
+import type { AgeBand, CuttingList, DesignConstraints, HouseSpec, RoofType, SheetMaterial, SizePreset, ToolLevel } from '../types';
+import { array, number, object, oneOf, optional, refine, string, type Schema } from './schema';
+import { SHEET_MATERIAL_NAMES } from './cuttingListEngine';
+import { assembleHouse } from './houseAssembly';
+import { formatPrice } from './materialsCatalog';
+import { loadSetting, saveSetting } from './settingsStore';
+import type { ShoppingList } from './shoppingList';
+import { formatLength, formatRange, type UnitSystem } from './units';
+import { translateName, translator, type Locale } from './i18n';
+
+/**
+ * The builder's limits: how big the house may be, what it may cost, what it is cut from, which
+ * tools are allowed and how fiddly it may be for the child building it. They are written into
+ * the prompts, and every design is checked against them so one that breaks them can be flagged
+ * or made again.
+ */
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+export interface SizeLimits {
+  label: string;
+  widthMm: Range;
+  depthMm: Range;
+  wallHeightMm: Range;
+  /** From the ground to the top of the roof. Omitted when only the walls are limited. */
+  maxTotalHeightMm?: number;
+}
+
+export const SIZE_PRESETS: Record<SizePreset, SizeLimits> = {
+  palm: { label: 'Fits in your hand', widthMm: { min: 60, max: 120 }, depthMm: { min: 60, max: 120 }, wallHeightMm: { min: 40, max: 90 }, maxTotalHeightMm: 150 },
+  tabletop: { label: 'Tabletop', widthMm: { min: 100, max: 300 }, depthMm: { min: 100, max: 300 }, wallHeightMm: { min: 60, max: 200 } },
+  shelf: { label: 'Fits on a shelf', widthMm: { min: 100, max: 300 }, depthMm: { min: 80, max: 200 }, wallHeightMm: { min: 60, max: 150 }, maxTotalHeightMm: 250 },
+  // A 1:12 dollhouse: a storey of 2.4 to 3.6 metres is 200 to 300 millimetres.
+  dollhouse: { label: '1:12 dollhouse', widthMm: { min: 300, max: 500 }, depthMm: { min: 250, max: 500 }, wallHeightMm: { min: 200, max: 300 } },
+};
+
+export const TOOL_LABELS: Record<ToolLevel, string> = {
+  'scissors': 'Scissors only',
+  'craft-knife': "Craft knife, with a grown-up's help",
+};
+
+export interface AgeLimits {
+  label: string;
+  /** The most doors and windows, counted together. */
+  maxOpenings: number;
+  /** The smallest a door or window may be in either direction, for small hands. */
+  minOpeningMm: number;
+  roofTypes: RoofType[];
+}
+
+export const AGE_BANDS: Record<AgeBand, AgeLimits> = {
+  // A hip roof is four angled panels meeting at a point, too fiddly for the youngest builders.
+  '4-6': { label: '4 to 6', maxOpenings: 3, minOpeningMm: 25, roofTypes: ['gable', 'shed', 'flat'] },
+  '7-9': { label: '7 to 9', maxOpenings: 6, minOpeningMm: 20, roofTypes: ['gable', 'hip', 'shed', 'flat'] },
+  '10-12': { label: '10 to 12', maxOpenings: 10, minOpeningMm: 15, roofTypes: ['gable', 'hip', 'shed', 'flat'] },
+  '13+': { label: '13 and up', maxOpenings: 20, minOpeningMm: 10, roofTypes: ['gable', 'hip', 'shed', 'flat'] },
+};
+
+export const DEFAULT_CONSTRAINTS: DesignConstraints = {
+  size: 'tabletop',
+  sheetMaterials: ['cardboard', 'foam-board'],
+  tools: 'craft-knife',
+  ageBand: '7-9',
+};
+
+export const constraintsSchema: Schema<DesignConstraints> = refine(
+  object<DesignConstraints>({
+    size: oneOf(['palm', 'tabletop', 'shelf', 'dollhouse'] as const),
+    budget: optional(object({
+      amount: number({ min: 0, max: 100_000 }),
+      currency: string({ pattern: /^[A-Z]{3}$/ }),
+    })),
+    sheetMaterials: array(oneOf(['cardboard', 'foam-board'] as const), { minItems: 1, maxItems: 2 }),
+    tools: oneOf(['scissors', 'craft-knife'] as const),
+    ageBand: oneOf(['4-6', '7-9', '10-12', '13+'] as const),
+  }),
+  (constraints, path) =>
+    constraints.tools === 'scissors' && !constraints.sheetMaterials.includes('cardboard')
+      ? [`${path || 'constraints'}: foam board can't be cut with scissors, so scissors only needs cardboard`]
+      : []
+);
+
+const rangeText = ({ min, max }: Range, units: UnitSystem = 'metric', locale: Locale = 'en'): string => formatRange(min, max, units, locale);
+
+const orList = (items: string[], or = 'or'): string =>
+  items.length > 1 ? `${items.slice(0, -1).join(', ')} ${or} ${items[items.length - 1]}` : items.join('');
+
+const sheetName = (material: SheetMaterial, locale: Locale = 'en'): string =>
+  translateName(locale, 'material', SHEET_MATERIAL_NAMES[material]).toLowerCase();
+
+const sheetNames = (materials: SheetMaterial[], locale: Locale = 'en'): string =>
+  orList(materials.map(material => sheetName(material, locale)), translator(locale)('rules.or'));
+
+/**
+ * The sheet materials a design may use: the ones to hand that the allowed tools can cut.
+ * @param constraints The builder's limits.
+ * @returns The usable sheet materials, in the builder's order.
+ */
+export const usableSheets = (constraints: DesignConstraints): SheetMaterial[] =>
+  constraints.sheetMaterials.filter(material => constraints.tools !== 'scissors' || material !== 'foam-board');
+
+/**
+ * Writes the limits as rules for a prompt.
+ * @param constraints The builder's limits.
+ * @returns One rule per line.
+ */
+export const describeConstraints = (constraints: DesignConstraints): string => {
+  const size = SIZE_PRESETS[constraints.size];
+  const age = AGE_BANDS[constraints.ageBand];
+  const lines = [
+    `- Size (${size.label.toLowerCase()}): footprint ${rangeText(size.widthMm)} wide and ${rangeText(size.depthMm)} deep, walls ${rangeText(size.wallHeightMm)} tall` +
+      (size.maxTotalHeightMm ? `, and no more than ${size.maxTotalHeightMm} mm from the ground to the top of the roof.` : '.'),
+    `- Material: cut everything from ${sheetNames(usableSheets(constraints))}.`,
+    constraints.tools === 'scissors'
+      ? '- Tools: scissors only. Doors must reach the bottom of their wall; there are no windows cut out of the middle of a wall, so paint windows on as decorative features instead.'
+      : "- Tools: a craft knife, used with a grown-up's help, so windows can be cut out.",
+    `- Builder: a child aged ${age.label}. At most ${age.maxOpenings} doors and windows in all, none smaller than ${age.minOpeningMm} mm across, and a ${orList(age.roofTypes)} roof.`,
+  ];
+  if (constraints.budget) {
+    lines.push(`- Budget: the materials must cost no more than ${formatPrice(constraints.budget.amount, constraints.budget.currency)}, so keep the house small and simple.`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Checks a house model against the limits.
+ * @param spec The house model.
+ * @param constraints The builder's limits.
+ * @param units The units the messages give sizes in. Prompts are always in millimetres.
+ * @param locale The language of the messages. Prompts are always in English.
+ * @returns One message per broken rule; empty if the house keeps to them.
+ */
+export const checkSpecConstraints = (spec: HouseSpec, constraints: DesignConstraints, units: UnitSystem = 'metric', locale: Locale = 'en'): string[] => {
+  const t = translator(locale);
+  const size = SIZE_PRESETS[constraints.size];
+  const age = AGE_BANDS[constraints.ageBand];
+  const problems: string[] = [];
+  const sizeName = t(`size.${constraints.size}`);
+  const ageName = t(`age.${constraints.ageBand}`);
+
+  const checkRange = (value: number, range: Range, message: 'rules.wide' | 'rules.deep' | 'rules.tall') => {
+    if (value < range.min || value > range.max) {
+      problems.push(t(message, { value: formatLength(value, units), size: sizeName, range: rangeText(range, units, locale) }));
+    }
+  };
+  checkRange(spec.footprint.widthMm, size.widthMm, 'rules.wide');
+  checkRange(spec.footprint.depthMm, size.depthMm, 'rules.deep');
+  checkRange(spec.wallHeightMm, size.wallHeightMm, 'rules.tall');
+  if (size.maxTotalHeightMm) {
+    const totalHeight = assembleHouse(spec, null).size.y;
+    if (totalHeight > size.maxTotalHeightMm) {
+      problems.push(t('rules.totalHeight', { value: formatLength(totalHeight, units), size: sizeName, max: formatLength(size.maxTotalHeightMm, units) }));
+    }
+  }
+
+  if (!constraints.sheetMaterials.includes(spec.sheetMaterial)) {
+    problems.push(t('rules.material', { material: sheetName(spec.sheetMaterial, locale), materials: sheetNames(constraints.sheetMaterials, locale) }));
+  }
+  if (constraints.tools === 'scissors') {
+    if (spec.sheetMaterial === 'foam-board') {
+      problems.push(t('rules.foamScissors'));
+    }
+    const windows = spec.openings.filter(opening => opening.kind === 'window');
+    if (windows.length > 0) {
+      problems.push(windows.length === 1 ? t('rules.window') : t('rules.windows', { count: windows.length }));
+    }
+  }
+
+  if (spec.openings.length > age.maxOpenings) {
+    problems.push(t('rules.openings', { count: spec.openings.length, age: ageName, max: age.maxOpenings }));
+  }
+  const tiny = spec.openings.filter(opening => Math.min(opening.widthMm, opening.heightMm) < age.minOpeningMm);
+  if (tiny.length > 0) {
+    const min = formatLength(age.minOpeningMm, units);
+    problems.push(tiny.length === 1 ? t('rules.tiny', { min, age: ageName }) : t('rules.tinyMany', { count: tiny.length, min, age: ageName }));
+  }
+  if (!age.roofTypes.includes(spec.roof.type)) {
+    problems.push(t('rules.roof', {
+      roof: t(`roof.${spec.roof.type}`),
+      age: ageName,
+      roofs: orList(age.roofTypes.map(roof => t(`roof.${roof}`)), t('rules.or')),
+    }));
+  }
+  return problems;
+};
+
+/**
+ * Checks a whole design against the limits: the house model, and what its materials cost.
+ * @param spec The house model.
+ * @param cuttingList The cutting list, or null if there isn't one yet.
+ * @param constraints The builder's limits.
+ * @param shopping What the cutting list costs to buy, or null if it can't be priced.
+ * @param units The units the messages give sizes in.
+ * @param locale The language of the messages.
+ * @returns One message per broken rule; empty if the design keeps to them.
+ */
+export const checkDesignConstraints = (
+  spec: HouseSpec,
+  cuttingList: CuttingList | null,
+  constraints: DesignConstraints,
+  shopping: ShoppingList | null,
+  units: UnitSystem = 'metric',
+  locale: Locale = 'en'
+): string[] => {
+  const t = translator(locale);
+  const problems = checkSpecConstraints(spec, constraints, units, locale);
+  const { budget } = constraints;
+  if (budget && cuttingList && shopping) {
+    if (shopping.currency !== budget.currency) {
+      problems.push(t('rules.currency', { budget: budget.currency, prices: shopping.currency }));
+    } else if (shopping.total > budget.amount) {
+      problems.push(t('rules.overBudget', { total: formatPrice(shopping.total, shopping.currency), budget: formatPrice(budget.amount, budget.currency) }));
+    }
+  }
+  return problems;
+};
+
+const CONSTRAINTS_KEY = 'designConstraints';
+
+/**
+ * Loads the limits set last time, or the defaults.
+ * @returns The builder's limits.
+ */
+export const loadConstraints = async (): Promise<DesignConstraints> => {
+  try {
+    const saved = await loadSetting<DesignConstraints>(CONSTRAINTS_KEY);
+    if (saved && constraintsSchema.validate(saved).length === 0) return saved;
+  } catch (e) {
+    console.warn('Could not load the building rules', e);
+  }
+  return DEFAULT_CONSTRAINTS;
+};
+
+export const saveConstraints = (constraints: DesignConstraints): Promise<void> => saveSetting(CONSTRAINTS_KEY, constraints);
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import type { EditOperation, HouseSpec } from '../types';
+import { applyEdit, applyEdits, checkEdits, findDroppedEdits, MAX_STOREYS, STYLE_THEMES } from './designEdits';
+
+const HOUSE: HouseSpec = {
+  footprint: { widthMm: 160, depthMm: 120 },
+  wallHeightMm: 100,
+  sheetMaterial: 'cardboard',
+  roof: { type: 'gable', pitchDeg: 30, overhangMm: 10, material: 'card shingles' },
+  openings: [
+    { kind: 'door', wall: 'front', shape: 'arch', offsetMm: 65, bottomMm: 0, widthMm: 30, heightMm: 55 },
+    { kind: 'window', wall: 'left', shape: 'rectangle', offsetMm: 45, bottomMm: 45, widthMm: 30, heightMm: 30 },
+  ],
+  colors: {
+    walls: { name: 'white', hex: '#ffffff' },
+    roof: { name: 'red', hex: '#ff0000' },
+    trim: { name: 'white', hex: '#ffffff' },
+    door: { name: 'red', hex: '#ff0000' },
+  },
+  features: [],
+};
+
+const WINDOW = { kind: 'window', wall: 'back', shape: 'round', offsetMm: 60, bottomMm: 40, widthMm: 25, heightMm: 25 } as const;
+const CHIMNEY = { kind: 'chimney', wall: 'left' } as const;
+
+describe('applyEdit', () => {
+  it('adds, moves and removes openings', () => {
+    const added = applyEdit(HOUSE, { type: 'addOpening', opening: WINDOW });
+    expect(added.openings).toHaveLength(3);
+    expect(added.openings[2]).toEqual(WINDOW);
+
+    const moved = applyEdit(HOUSE, { type: 'moveOpening', index: 0, wall: 'back', offsetMm: 20, bottomMm: 30 });
+    // A door always stands on the ground.
+    expect(moved.openings[0]).toMatchObject({ wall: 'back', offsetMm: 20, bottomMm: 0 });
+
+    const removed = applyEdit(HOUSE, { type: 'removeOpening', index: 0 });
+    expect(removed.openings).toEqual([HOUSE.openings[1]]);
+  });
+
+  it('leaves the house it is given untouched', () => {
+    const before = structuredClone(HOUSE);
+    applyEdit(HOUSE, { type: 'addOpening', opening: WINDOW });
+    applyEdit(HOUSE, { type: 'color', role: 'walls', color: { name: 'blue', hex: '#0000ff' } });
+    expect(HOUSE).toEqual(before);
+  });
+
+  it('flattens the pitch of a flat roof', () => {
+    expect(applyEdit(HOUSE, { type: 'roofShape', roofType: 'flat', pitchDeg: 30 }).roof).toMatchObject({ type: 'flat', pitchDeg: 0 });
+    expect(applyEdit(HOUSE, { type: 'roofShape', roofType: 'hip', pitchDeg: 25 }).roof).toMatchObject({ type: 'hip', pitchDeg: 25 });
+  });
+
+  it('makes a new storey as tall as the ones already there', () => {
+    const two = applyEdit(HOUSE, { type: 'addStorey' });
+    expect(two).toMatchObject({ storeys: 2, wallHeightMm: 200 });
+    expect(applyEdit(two, { type: 'addStorey' })).toMatchObject({ storeys: 3, wallHeightMm: 300 });
+  });
+
+  it('keeps openings at the same share of their wall when resizing', () => {
+    const resized = applyEdit(HOUSE, { type: 'resize', widthMm: 320, depthMm: 60 });
+    expect(resized.footprint).toEqual({ widthMm: 320, depthMm: 60 });
+    expect(resized.openings.map(opening => opening.offsetMm)).toEqual([130, 23]);
+  });
+
+  it('adds an accessory only once and drops the list when the last one goes', () => {
+    const once = applyEdit(HOUSE, { type: 'addAccessory', accessory: CHIMNEY });
+    expect(applyEdit(once, { type: 'addAccessory', accessory: CHIMNEY }).accessories).toEqual([CHIMNEY]);
+    expect(applyEdit(once, { type: 'removeAccessory', accessory: CHIMNEY }).accessories).toBeUndefined();
+  });
+
+  it('takes the colours and roof material of a theme', () => {
+    const themed = applyEdit(HOUSE, { type: 'theme', theme: 'candy' });
+    expect(themed.theme).toBe('candy');
+    expect(themed.colors).toEqual(STYLE_THEMES.candy.colors);
+    expect(themed.roof.material).toBe(STYLE_THEMES.candy.roofMaterial);
+  });
+
+  it('leaves free-text requests to the model', () => {
+    expect(applyEdit(HOUSE, { type: 'request', text: 'add a tiny cat' })).toBe(HOUSE);
+  });
+});
+
+describe('applyEdits', () => {
+  it('applies each change to the house the one before it left', () => {
+    const edits: EditOperation[] = [
+      { type: 'addOpening', opening: WINDOW },
+      { type: 'removeOpening', index: 0 },
+      { type: 'moveOpening', index: 1, wall: 'front', offsetMm: 10, bottomMm: 50 },
+    ];
+    const edited = applyEdits(HOUSE, edits);
+    expect(edited.openings).toEqual([HOUSE.openings[1], { ...WINDOW, wall: 'front', offsetMm: 10, bottomMm: 50 }]);
+  });
+});
+
+describe('checkEdits', () => {
+  it('accepts changes that fit the house', () => {
+    expect(checkEdits(HOUSE, [{ type: 'addOpening', opening: WINDOW }, { type: 'addStorey' }])).toEqual([]);
+  });
+
+  it('reports an opening that is not there', () => {
+    const problems = checkEdits(HOUSE, [{ type: 'removeOpening', index: 0 }, { type: 'moveOpening', index: 1, wall: 'front', offsetMm: 10, bottomMm: 0 }]);
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toContain('2');
+  });
+
+  it('stops at the highest number of storeys', () => {
+    const edits: EditOperation[] = Array.from({ length: MAX_STOREYS }, () => ({ type: 'addStorey' }));
+    expect(checkEdits({ ...HOUSE, wallHeightMm: 60 }, edits)).toHaveLength(1);
+  });
+
+  it('reports a second chimney and an accessory that is not there', () => {
+    const withChimney = applyEdit(HOUSE, { type: 'addAccessory', accessory: CHIMNEY });
+    expect(checkEdits(withChimney, [{ type: 'addAccessory', accessory: { kind: 'chimney', wall: 'right' } }])).toHaveLength(1);
+    expect(checkEdits(HOUSE, [{ type: 'removeAccessory', accessory: { kind: 'porch', wall: 'front' } }])).toHaveLength(1);
+  });
+
+  it('reports a house that would be too tall or too big to build', () => {
+    expect(checkEdits(HOUSE, [{ type: 'addStorey' }, { type: 'addStorey' }, { type: 'addStorey' }])).not.toEqual([]);
+    expect(checkEdits(HOUSE, [{ type: 'resize', widthMm: 600, depthMm: 120 }])).toHaveLength(1);
+    expect(checkEdits(HOUSE, [{ type: 'scale', percent: 20 }])).toHaveLength(1);
+  });
+
+  it('writes the messages in the language asked for', () => {
+    const [english] = checkEdits(HOUSE, [{ type: 'resize', widthMm: 600, depthMm: 120 }]);
+    const [spanish] = checkEdits(HOUSE, [{ type: 'resize', widthMm: 600, depthMm: 120 }], 'metric', 'es');
+    expect(spanish).not.toBe(english);
+  });
+});
+
+describe('findDroppedEdits', () => {
+  const edits: EditOperation[] = [
+    { type: 'addOpening', opening: WINDOW },
+    { type: 'roofShape', roofType: 'hip', pitchDeg: 25 },
+    { type: 'color', role: 'walls', color: { name: 'blue', hex: '#0000ff' } },
+  ];
+
+  it('finds nothing when the model kept every change', () => {
+    const revised = { ...applyEdits(HOUSE, edits), features: [{ name: 'Cat', description: 'A tiny cat.' }] };
+    expect(findDroppedEdits(HOUSE, edits, revised)).toEqual([]);
+  });
+
+  it('names each change the model undid', () => {
+    const edited = applyEdits(HOUSE, edits);
+    const revised = { ...edited, openings: HOUSE.openings, roof: HOUSE.roof };
+    expect(findDroppedEdits(HOUSE, edits, revised)).toHaveLength(2);
+  });
+
+  it('lets a later change to the same thing win', () => {
+    const twice: EditOperation[] = [
+      { type: 'color', role: 'walls', color: { name: 'blue', hex: '#0000ff' } },
+      { type: 'color', role: 'walls', color: { name: 'green', hex: '#00ff00' } },
+    ];
+    expect(findDroppedEdits(HOUSE, twice, applyEdits(HOUSE, twice))).toEqual([]);
+  });
+
+  it('ignores free-text requests', () => {
+    expect(findDroppedEdits(HOUSE, [{ type: 'request', text: 'add a tiny cat' }], HOUSE)).toEqual([]);
+  });
+});
@@ -0,0 +1,410 @@
+import type { Accessory, AccessoryKind, EditOperation, HouseSpec, NamedColor, Opening, StyleTheme, WallSide } from '../types';
+import { houseSpecSchema } from './designSchemas';
+import { scaleHouseSpec } from './houseSpec';
+import { formatLength, formatSize, type UnitSystem } from './units';
+import { translate, translateName, translator, type Locale } from './i18n';
+
+/**
+ * Exact changes to a house: each edit operation is applied to the house model here, before the
+ * model is asked for anything, so a moved window or an extra floor lands exactly where it was
+ * put. Only free-text requests are left for the model to interpret.
+ */
+
+export interface ThemeInfo {
+  colors: HouseSpec['colors'];
+  roofMaterial: string;
+}
+
+export const STYLE_THEMES: Record<StyleTheme, ThemeInfo> = {
+  classic: {
+    colors: {
+      walls: { name: 'vanilla cream', hex: '#fef3c7' },
+      roof: { name: 'brick red', hex: '#b91c1c' },
+      trim: { name: 'cloud white', hex: '#ffffff' },
+      door: { name: 'navy blue', hex: '#1e3a8a' },
+    },
+    roofMaterial: 'red clay tiles',
+  },
+  cottage: {
+    colors: {
+      walls: { name: 'buttermilk yellow', hex: '#fde68a' },
+      roof: { name: 'straw brown', hex: '#a16207' },
+      trim: { name: 'sage green', hex: '#86efac' },
+      door: { name: 'forest green', hex: '#166534' },
+    },
+    roofMaterial: 'straw thatch',
+  },
+  modern: {
+    colors: {
+      walls: { name: 'cloud white', hex: '#f8fafc' },
+      roof: { name: 'charcoal', hex: '#334155' },
+      trim: { name: 'slate grey', hex: '#64748b' },
+      door: { name: 'sunshine yellow', hex: '#facc15' },
+    },
+    roofMaterial: 'smooth grey panels',
+  },
+  castle: {
+    colors: {
+      walls: { name: 'stone grey', hex: '#a8a29e' },
+      roof: { name: 'royal blue', hex: '#1d4ed8' },
+      trim: { name: 'dark stone', hex: '#57534e' },
+      door: { name: 'oak brown', hex: '#92400e' },
+    },
+    roofMaterial: 'blue slate tiles',
+  },
+  candy: {
+    colors: {
+      walls: { name: 'bubblegum pink', hex: '#f9a8d4' },
+      roof: { name: 'chocolate brown', hex: '#7c2d12' },
+      trim: { name: 'vanilla icing', hex: '#fef9c3' },
+      door: { name: 'mint green', hex: '#6ee7b7' },
+    },
+    roofMaterial: 'chocolate bar tiles',
+  },
+  spooky: {
+    colors: {
+      walls: { name: 'midnight purple', hex: '#4c1d95' },
+      roof: { name: 'pitch black', hex: '#111827' },
+      trim: { name: 'pumpkin orange', hex: '#f97316' },
+      door: { name: 'ghost white', hex: '#f1f5f9' },
+    },
+    roofMaterial: 'crooked black shingles',
+  },
+};
+
+export const ACCESSORY_KINDS: AccessoryKind[] = ['chimney', 'porch', 'balcony'];
+
+/** The colours offered as swatches, each with a name a child would use. */
+export const COLOR_SWATCHES: NamedColor[] = [
+  { name: 'strawberry red', hex: '#e11d48' },
+  { name: 'pumpkin orange', hex: '#f97316' },
+  { name: 'sunshine yellow', hex: '#facc15' },
+  { name: 'lime green', hex: '#84cc16' },
+  { name: 'mint green', hex: '#6ee7b7' },
+  { name: 'forest green', hex: '#166534' },
+  { name: 'sky blue', hex: '#7dd3fc' },
+  { name: 'ocean blue', hex: '#1d4ed8' },
+  { name: 'grape purple', hex: '#7c3aed' },
+  { name: 'bubblegum pink', hex: '#f9a8d4' },
+  { name: 'chocolate brown', hex: '#7c2d12' },
+  { name: 'sandy beige', hex: '#e7d3a7' },
+  { name: 'cloud white', hex: '#f8fafc' },
+  { name: 'stone grey', hex: '#a8a29e' },
+  { name: 'charcoal', hex: '#334155' },
+  { name: 'pitch black', hex: '#111827' },
+];
+
+export const COLOR_ROLES: Array<keyof HouseSpec['colors']> = ['walls', 'roof', 'trim', 'door'];
+
+/** The most floors a card house can have and still stand up. */
+export const MAX_STOREYS = 3;
+
+/**
+ * The length of one wall, seen from outside.
+ * @param spec The house model.
+ * @param wall The wall.
+ * @returns Its length in millimetres.
+ */
+export const wallLengthMm = (spec: HouseSpec, wall: WallSide): number =>
+  wall === 'front' || wall === 'back' ? spec.footprint.widthMm : spec.footprint.depthMm;
+
+const sameAccessory = (a: Accessory, b: Accessory): boolean => a.kind === b.kind && a.wall === b.wall;
+
+/**
+ * Names an opening the way the edit form lists it, e.g. "the arched door on the front wall".
+ * @param opening The door or window.
+ * @param locale The language to name it in.
+ * @returns Its name, starting with "the".
+ */
+export const describeOpeningPlace = (opening: Opening, locale: Locale = 'en'): string =>
+  translate(locale, 'opening.place', {
+    opening: translate(locale, `opening.${opening.kind}.${opening.shape}.the`),
+    wall: translate(locale, `wall.${opening.wall}`),
+  });
+
+// --- START: Applying edits ---
+
+/**
+ * Applies one change to a house model. Changes that don't fit the house (a door that isn't
+ * there any more) leave it as it was; checkEdits reports them.
+ * @param spec The house model.
+ * @param edit The change.
+ * @returns The changed house model. The original is left untouched.
+ */
+export const applyEdit = (spec: HouseSpec, edit: EditOperation): HouseSpec => {
+  switch (edit.type) {
+    case 'addOpening':
+      return { ...spec, openings: [...spec.openings, { ...edit.opening }] };
+    case 'removeOpening':
+      return { ...spec, openings: spec.openings.filter((_, index) => index !== edit.index) };
+    case 'moveOpening':
+      return {
+        ...spec,
+        openings: spec.openings.map((opening, index) =>
+          index === edit.index ? { ...opening, wall: edit.wall, offsetMm: edit.offsetMm, bottomMm: opening.kind === 'door' ? 0 : edit.bottomMm } : opening
+        ),
+      };
+    case 'roofShape':
+      return { ...spec, roof: { ...spec.roof, type: edit.roofType, pitchDeg: edit.roofType === 'flat' ? 0 : edit.pitchDeg } };
+    case 'addStorey': {
+      // Every floor is as tall as the ones already there.
+      const storeys = spec.storeys ?? 1;
+      return { ...spec, storeys: storeys + 1, wallHeightMm: Math.round((spec.wallHeightMm * (storeys + 1)) / storeys) };
+    }
+    case 'resize': {
+      // Doors and windows keep their place along their wall, as a share of its length.
+      const resized: HouseSpec = { ...spec, footprint: { widthMm: edit.widthMm, depthMm: edit.depthMm } };
+      return {
+        ...resized,
+        openings: spec.openings.map(opening => ({
+          ...opening,
+          offsetMm: Math.round((opening.offsetMm * wallLengthMm(resized, opening.wall)) / wallLengthMm(spec, opening.wall)),
+        })),
+      };
+    }
+    case 'scale':
+      return scaleHouseSpec(spec, edit.percent / 100);
+    case 'addAccessory':
+      return spec.accessories?.some(accessory => sameAccessory(accessory, edit.accessory))
+        ? spec
+        : { ...spec, accessories: [...(spec.accessories ?? []), { ...edit.accessory }] };
+    case 'removeAccessory': {
+      const accessories = (spec.accessories ?? []).filter(accessory => !sameAccessory(accessory, edit.accessory));
+      return { ...spec, accessories: accessories.length > 0 ? accessories : undefined };
+    }
+    case 'theme': {
+      const theme = STYLE_THEMES[edit.theme];
+      return { ...spec, theme: edit.theme, colors: { ...theme.colors }, roof: { ...spec.roof, material: theme.roofMaterial } };
+    }
+    case 'color':
+      return { ...spec, colors: { ...spec.colors, [edit.role]: { ...edit.color } } };
+    case 'roofMaterial':
+      return { ...spec, roof: { ...spec.roof, material: edit.material } };
+    case 'request':
+    default:
+      return spec;
+  }
+};
+
+/**
+ * Applies changes to a house model one after the other, so each sees the house as the ones
+ * before it left it.
+ * @param spec The house model.
+ * @param edits The changes, in order.
+ * @returns The changed house model.
+ */
+export const applyEdits = (spec: HouseSpec, edits: EditOperation[]): HouseSpec => edits.reduce(applyEdit, spec);
+
+/**
+ * Checks that each change fits the house it is made to, and that the changed house can still
+ * be built.
+ * @param spec The house model before the changes.
+ * @param edits The changes, in order.
+ * @param units The units the messages give sizes in.
+ * @param locale The language of the messages. Prompts are always in English.
+ * @returns One message per problem; empty if every change can be made.
+ */
+export const checkEdits = (spec: HouseSpec, edits: EditOperation[], units: UnitSystem = 'metric', locale: Locale = 'en'): string[] => {
+  const problems: string[] = [];
+  let current = spec;
+  for (const edit of edits) {
+    switch (edit.type) {
+      case 'removeOpening':
+      case 'moveOpening':
+        if (!current.openings[edit.index]) {
+          problems.push(translate(locale, edit.type === 'removeOpening' ? 'problem.noOpeningToRemove' : 'problem.noOpeningToMove', { number: edit.index + 1 }));
+        }
+        break;
+      case 'addStorey':
+        if ((current.storeys ?? 1) >= MAX_STOREYS) problems.push(translate(locale, 'problem.maxStoreys', { max: MAX_STOREYS }));
+        break;
+      case 'addAccessory': {
+        const { kind, wall } = edit.accessory;
+        if (current.accessories?.some(accessory => sameAccessory(accessory, edit.accessory))) {
+          problems.push(translate(locale, 'problem.accessoryThere', { accessory: translate(locale, `accessory.${kind}.a`), wall: translate(locale, `wall.${wall}`) }));
+        } else if (kind === 'chimney' && current.accessories?.some(accessory => accessory.kind === 'chimney')) {
+          problems.push(translate(locale, 'problem.oneChimney'));
+        }
+        break;
+      }
+      case 'removeAccessory': {
+        const { kind, wall } = edit.accessory;
+        if (!current.accessories?.some(accessory => sameAccessory(accessory, edit.accessory))) {
+          problems.push(translate(locale, 'problem.noAccessory', {
+            accessory: translate(locale, `accessory.${kind}.a`),
+            name: translate(locale, `accessory.${kind}.name`),
+            wall: translate(locale, `wall.${wall}`),
+          }));
+        }
+        break;
+      }
+      default:
+        break;
+    }
+    current = applyEdit(current, edit);
+  }
+
+  const { widthMm, depthMm } = current.footprint;
+  if (current.wallHeightMm > 300) {
+    problems.push(translate(locale, 'problem.tooTall', { height: formatLength(current.wallHeightMm, units), max: formatLength(300, units) }));
+  } else if (Math.max(widthMm, depthMm) > 500 || Math.min(widthMm, depthMm) < 50) {
+    problems.push(translate(locale, 'problem.size', { size: formatSize([widthMm, depthMm], units), min: formatLength(50, units), max: formatLength(500, units) }));
+  } else if (problems.length === 0) {
+    problems.push(...houseSpecSchema.validate(current, 'the changed house'));
+  }
+  return problems;
+};
+
+const sameOpening = (a: Opening, b: Opening): boolean =>
+  a.kind === b.kind && a.wall === b.wall && a.shape === b.shape
+  && a.offsetMm === b.offsetMm && a.bottomMm === b.bottomMm && a.widthMm === b.widthMm && a.heightMm === b.heightMm;
+
+const countOpenings = (spec: HouseSpec, opening: Opening): number => spec.openings.filter(other => sameOpening(other, opening)).length;
+
+const hasAccessory = (spec: HouseSpec, accessory: Accessory): boolean => !!spec.accessories?.some(other => sameAccessory(other, accessory));
+
+/**
+ * Whether a house model that came back still shows one exact change. What the change touched is
+ * compared with the house after all the changes, so a later change to the same thing wins.
+ */
+const isEditKept = (edit: EditOperation, before: HouseSpec, edited: HouseSpec, revised: HouseSpec): boolean => {
+  switch (edit.type) {
+    case 'addOpening':
+    case 'moveOpening': {
+      const placed = edit.type === 'addOpening' ? edit.opening : applyEdit(before, edit).openings[edit.index];
+      return !placed || countOpenings(revised, placed) >= countOpenings(edited, placed);
+    }
+    case 'removeOpening': {
+      const removed = before.openings[edit.index];
+      return !removed || countOpenings(revised, removed) <= countOpenings(edited, removed);
+    }
+    case 'roofShape':
+      return revised.roof.type === edited.roof.type && revised.roof.pitchDeg === edited.roof.pitchDeg;
+    case 'addStorey':
+      return (revised.storeys ?? 1) === (edited.storeys ?? 1);
+    case 'resize':
+      return revised.footprint.widthMm === edited.footprint.widthMm && revised.footprint.depthMm === edited.footprint.depthMm;
+    case 'scale':
+      return revised.footprint.widthMm === edited.footprint.widthMm
+        && revised.footprint.depthMm === edited.footprint.depthMm
+        && revised.wallHeightMm === edited.wallHeightMm;
+    case 'addAccessory':
+      return !hasAccessory(edited, edit.accessory) || hasAccessory(revised, edit.accessory);
+    case 'removeAccessory':
+      return hasAccessory(edited, edit.accessory) || !hasAccessory(revised, edit.accessory);
+    case 'theme':
+      return revised.theme === edited.theme;
+    case 'color':
+      return revised.colors[edit.role].hex === edited.colors[edit.role].hex;
+    case 'roofMaterial':
+      return revised.roof.material === edited.roof.material;
+    case 'request':
+    default:
+      return true;
+  }
+};
+
+/**
+ * Finds the exact changes that a house model handed back by the model no longer shows. The model
+ * is given the house with the exact changes already made, to carry out the free-text requests on
+ * top, and must not undo them on the way.
+ * @param spec The house model before the changes.
+ * @param edits The changes, in order.
+ * @param revised The house model that came back.
+ * @returns A description of each exact change that was dropped or altered, in English; empty if
+ *   every one was kept.
+ */
+export const findDroppedEdits = (spec: HouseSpec, edits: EditOperation[], revised: HouseSpec): string[] => {
+  const edited = applyEdits(spec, edits);
+  const dropped: string[] = [];
+  let current = spec;
+  for (const edit of edits) {
+    if (!isEditKept(edit, current, edited, revised)) dropped.push(describeEdit(edit, current));
+    current = applyEdit(current, edit);
+  }
+  return dropped;
+};
+
+/**
+ * The request the building-rule warnings send to remake a design to the rules. It is recorded as
+ * an edit, so it shows on the timeline like any other change.
+ */
+export const FIT_TO_RULES_REQUEST = 'make it keep to the building rules';
+
+// --- END: Applying edits ---
+
+// --- START: Describing edits ---
+
+/**
+ * Describes one change in a few words, e.g. "add a round window to the left wall".
+ * @param edit The change.
+ * @param spec The house as it was just before the change, to name the door or window it is
+ *   made to. Without it, openings are only counted.
+ * @param units The units to give sizes in. Prompts are always in millimetres.
+ * @param locale The language to describe it in. Prompts are always in English.
+ * @returns The description, without a full stop.
+ */
+export const describeEdit = (edit: EditOperation, spec?: HouseSpec, units: UnitSystem = 'metric', locale: Locale = 'en'): string => {
+  const t = translator(locale);
+  const openingName = (index: number) => {
+    const opening = spec?.openings[index];
+    return opening ? describeOpeningPlace(opening, locale) : t('change.openingNumber', { number: index + 1 });
+  };
+  switch (edit.type) {
+    case 'addOpening': {
+      const { opening } = edit;
+      return t(opening.kind === 'window' ? 'change.addWindow' : 'change.addOpening', {
+        opening: t(`opening.${opening.kind}.${opening.shape}.a`),
+        size: formatSize([opening.widthMm, opening.heightMm], units),
+        wall: t(`wall.${opening.wall}`),
+        offset: formatLength(opening.offsetMm, units),
+        bottom: formatLength(opening.bottomMm, units),
+      });
+    }
+    case 'removeOpening':
+      return t('change.removeOpening', { opening: openingName(edit.index) });
+    case 'moveOpening':
+      return t('change.moveOpening', { opening: openingName(edit.index), wall: t(`wall.${edit.wall}`), offset: formatLength(edit.offsetMm, units) });
+    case 'roofShape':
+      return edit.roofType === 'flat' ? t('change.flatRoof') : t('change.roofShape', { roof: t(`roof.${edit.roofType}`), pitch: edit.pitchDeg });
+    case 'addStorey':
+      return t('change.addStorey');
+    case 'resize':
+      return t('change.resize', { size: formatSize([edit.widthMm, edit.depthMm], units) });
+    case 'scale':
+      return t('change.scale', { percent: edit.percent });
+    case 'addAccessory':
+      return t('change.addAccessory', { accessory: t(`accessory.${edit.accessory.kind}.a`), wall: t(`wall.${edit.accessory.wall}`) });
+    case 'removeAccessory':
+      return t('change.removeAccessory', { accessory: t(`accessory.${edit.accessory.kind}.the`), wall: t(`wall.${edit.accessory.wall}`) });
+    case 'theme':
+      return t('change.theme', { theme: t(`theme.${edit.theme}.a`) });
+    case 'color':
+      return t('change.color', { role: t(`colorRole.${edit.role}.the`), color: translateName(locale, 'color', edit.color.name) });
+    case 'roofMaterial':
+      return t('change.roofMaterial', { material: edit.material });
+    case 'request':
+      return edit.text;
+    default:
+      return t('change.other');
+  }
+};
+
+/**
+ * Describes a list of changes, each against the house as the ones before it left it.
+ * @param edits The changes, in order.
+ * @param spec The house before the changes, if known.
+ * @param units The units to give sizes in.
+ * @param locale The language to describe them in.
+ * @returns One description per change.
+ */
+export const describeEdits = (edits: EditOperation[], spec?: HouseSpec, units: UnitSystem = 'metric', locale: Locale = 'en'): string[] => {
+  let current = spec;
+  return edits.map(edit => {
+    const description = describeEdit(edit, current, units, locale);
+    current = current && applyEdit(current, edit);
+    return description;
+  });
+};
+
+// --- END: Describing edits ---
@@ -0,0 +1,202 @@
+import { ApiError } from '@google/genai';
+
+/**
+ * Everything that can go wrong while designing a house, sorted by what the user (or the retry
+ * logic) can do about it. Errors from the SDK, the proxy server and the network are all turned
+ * into one of these by toDesignError, so nothing has to search error messages for keywords.
+ */
+
+export type DesignErrorKind =
+  | 'rateLimit'
+  | 'quotaExhausted'
+  | 'safetyBlocked'
+  | 'invalidKey'
+  | 'network'
+  | 'malformedResponse'
+  | 'dailyLimit'
+  | 'partialResult'
+  | 'unknown';
+
+export interface DesignErrorDetails {
+  /** The HTTP status the error came with, if any. */
+  status?: number;
+  /** How long the service asked us to wait before trying again. */
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+/**
+ * The base of every design error. Errors that fit no other kind are of this class itself.
+ */
+export class DesignError extends Error {
+  readonly kind: DesignErrorKind = 'unknown';
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, { status, retryAfterMs, cause }: DesignErrorDetails = {}) {
+    super(message, { cause });
+    this.name = new.target.name;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Too many requests in a short time; waiting a little fixes it. */
+export class RateLimitError extends DesignError {
+  readonly kind = 'rateLimit';
+}
+
+/** The daily (or billing) allowance is used up; only waiting much longer fixes it. */
+export class QuotaExhaustedError extends DesignError {
+  readonly kind = 'quotaExhausted';
+}
+
+/** The safety filter refused the idea or the picture. */
+export class SafetyBlockedError extends DesignError {
+  readonly kind = 'safetyBlocked';
+}
+
+/** The API key is missing, wrong or not allowed to use the model. */
+export class InvalidKeyError extends DesignError {
+  readonly kind = 'invalidKey';
+}
+
+/** The service couldn't be reached or had a temporary failure (a 5xx). */
+export class NetworkError extends DesignError {
+  readonly kind = 'network';
+}
+
+/** The model answered, but not with something we could use. */
+export class MalformedResponseError extends DesignError {
+  readonly kind = 'malformedResponse';
+}
+
+/** A grown-up's daily limit on new designs and edits is used up; only tomorrow fixes it. */
+export class DailyLimitError extends DesignError {
+  readonly kind = 'dailyLimit';
+}
+
+/** The design finished, but some of its assets are missing and can be redone on their own. */
+export class PartialResultError extends DesignError {
+  readonly kind = 'partialResult';
+
+  constructor(message: string, readonly failedAssets: string[], details: DesignErrorDetails = {}) {
+    super(message, details);
+  }
+}
+
+const ERROR_CLASSES: Record<Exclude<DesignErrorKind, 'partialResult'>, typeof DesignError> = {
+  rateLimit: RateLimitError,
+  quotaExhausted: QuotaExhaustedError,
+  safetyBlocked: SafetyBlockedError,
+  invalidKey: InvalidKeyError,
+  network: NetworkError,
+  malformedResponse: MalformedResponseError,
+  dailyLimit: DailyLimitError,
+  unknown: DesignError,
+};
+
+const isDesignErrorKind = (value: unknown): value is DesignErrorKind =>
+  typeof value === 'string' && (value === 'partialResult' || value in ERROR_CLASSES);
+
+/**
+ * Rebuilds an error that was sent as plain data, e.g. by the proxy server.
+ * @param kind The kind the sender classified it as; anything unrecognised becomes 'unknown'.
+ * @param message The message.
+ * @param details Status and wait time.
+ * @returns The error.
+ */
+export const designErrorFromKind = (kind: unknown, message: string, details: DesignErrorDetails = {}): DesignError => {
+  if (!isDesignErrorKind(kind)) return new DesignError(message, details);
+  if (kind === 'partialResult') return new PartialResultError(message, [], details);
+  return new ERROR_CLASSES[kind](message, details);
+};
+
+/**
+ * Reads a Retry-After header, which is either a number of seconds or a date.
+ * @param value The header value.
+ * @param now The current time.
+ * @returns The wait in milliseconds, or undefined if there was no usable value.
+ */
+export const parseRetryAfter = (value: string | null | undefined, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * The parts of a Google API error body we look at. The SDK puts the whole body, as JSON, in the
+ * ApiError message.
+ */
+interface GoogleErrorBody {
+  error?: {
+    message?: string;
+    status?: string;
+    details?: Array<{
+      '@type'?: string;
+      reason?: string;
+      retryDelay?: string;
+      violations?: Array<{ quotaId?: string }>;
+    }>;
+  };
+}
+
+const parseGoogleErrorBody = (message: string): GoogleErrorBody => {
+  try {
+    const body = JSON.parse(message.slice(message.indexOf('{')));
+    return body && typeof body === 'object' ? body : {};
+  } catch {
+    return {};
+  }
+};
+
+// Transient statuses worth retrying: timeouts and server-side failures.
+const TRANSIENT_STATUSES = [408, 500, 502, 503, 504];
+
+// Node's codes for connections that failed before any HTTP status was received.
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+const fromApiError = (error: ApiError): DesignError => {
+  const body = parseGoogleErrorBody(error.message).error;
+  const message = body?.message ?? error.message;
+  const details = body?.details ?? [];
+  const status = error.status;
+  const retryDelay = details.find(detail => detail.retryDelay)?.retryDelay;
+  const retryAfterMs = retryDelay ? parseFloat(retryDelay) * 1000 : undefined;
+  const options: DesignErrorDetails = { status, retryAfterMs, cause: error };
+
+  if (status === 429) {
+    // A 429 is either a short burst limit or a used-up daily allowance; the quota ids tell them apart.
+    const quotaIds = details.flatMap(detail => detail.violations ?? []).map(violation => violation.quotaId ?? '');
+    const isDaily = quotaIds.some(id => /PerDay/i.test(id));
+    return isDaily ? new QuotaExhaustedError(message, options) : new RateLimitError(message, options);
+  }
+  if (status === 401 || status === 403 || details.some(detail => detail.reason === 'API_KEY_INVALID')) {
+    return new InvalidKeyError(message, options);
+  }
+  if (TRANSIENT_STATUSES.includes(status)) {
+    return new NetworkError(message, options);
+  }
+  return new DesignError(message, options);
+};
+
+/**
+ * Sorts any error into the design error hierarchy. Check for cancellations with isAbortError
+ * first; they aren't errors the user needs to hear about.
+ * @param error Anything thrown while designing.
+ * @returns The classified error.
+ */
+export const toDesignError = (error: unknown): DesignError => {
+  if (error instanceof DesignError) return error;
+  if (error instanceof ApiError) return fromApiError(error);
+  if (error instanceof Error) {
+    const { code, cause } = error as Error & { code?: unknown; cause?: { code?: unknown } };
+    if (NETWORK_ERROR_CODES.includes(String(code)) || NETWORK_ERROR_CODES.includes(String(cause?.code))) {
+      return new NetworkError(error.message, { cause: error });
+    }
+    return new DesignError(error.message, { cause: error });
+  }
+  return new DesignError('Something went wrong.', { cause: error });
+};
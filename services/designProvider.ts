@@ -0,0 +1,175 @@
+import type { ChatMessage, ChatProposal, DesignConstraints, EditOperation, HouseSpec, SourceImage, Strictness } from '../types';
+import type { Locale } from './i18n';
+import { createGeminiProvider } from './geminiService';
+import { createMockProvider } from './mockProvider';
+
+/**
+ * Raw image bytes returned by a provider, before they are turned into a data URL.
+ */
+export interface GeneratedImage {
+  mimeType: string;
+  base64: string;
+}
+
+/**
+ * The outcome of an edit: the revised house model plus a matching, rewritten description.
+ */
+export interface SpecRevision {
+  houseSpec: HouseSpec;
+  detailedDescription: string;
+}
+
+/**
+ * The model-generated part of the cutting list. The parts themselves are computed locally.
+ */
+export interface HouseNaming {
+  houseName: string;
+  description: string;
+}
+
+/**
+ * The design assistant's answer to one chat message.
+ */
+export interface ChatReply {
+  reply: string;
+  /** Changes it suggests; left out while it is still asking questions or just chatting. */
+  proposal?: ChatProposal;
+}
+
+/**
+ * Whether a piece of text is right for children, as the classifier sees it.
+ */
+export interface ModerationResult {
+  /** 'allow': fine as it is. 'rewrite': fine once softened. 'block': not for children at all. */
+  verdict: 'allow' | 'rewrite' | 'block';
+  /** Why, in a few words, for the logs. */
+  reason: string;
+  /** For 'rewrite': the whole text, with only the unsuitable parts made friendly. */
+  rewrite?: string;
+}
+
+/**
+ * Per-call settings a provider may honour.
+ */
+export interface CallOptions {
+  /** Ask the model again instead of reusing a cached answer to the same request. */
+  fresh?: boolean;
+  /** The language of the words people read (names, descriptions, replies). Defaults to English. */
+  locale?: Locale;
+}
+
+/**
+ * A backend capable of producing every asset of a house design.
+ * The orchestration (batching, assembling the final result) lives in designService.ts,
+ * so a provider only needs to know how to make each individual asset.
+ */
+export interface DesignProvider {
+  readonly name: ProviderName;
+  /**
+   * Expands a child's idea into a detailed, consistent architectural description that keeps to the builder's limits.
+   * Given a drawing or photo, the description follows the picture, and the idea (which may then be empty) adds to it.
+   */
+  generateDescription(prompt: string, constraints: DesignConstraints, sourceImage: SourceImage | null, options?: CallOptions): Promise<string>;
+  /** Extracts the structured house model from a detailed description, keeping to the builder's limits. */
+  generateHouseSpec(detailedDescription: string, constraints: DesignConstraints, options?: CallOptions): Promise<HouseSpec | null>;
+  /**
+   * Applies the edits to the house model (the exact ones with applyEdits, the free-text requests as best it can), keeping
+   * to the builder's limits, and rewrites the description to match. The exact edits must come back as applyEdits made
+   * them; designService checks this with findDroppedEdits.
+   */
+  reviseHouseSpec(
+    houseSpec: HouseSpec,
+    detailedDescription: string,
+    edits: EditOperation[],
+    constraints: DesignConstraints,
+    options?: CallOptions
+  ): Promise<SpecRevision | null>;
+  /**
+   * Answers the latest message of a chat about the house as the design assistant: it asks questions, answers them,
+   * and suggests changes (which must fit the house) for the user to agree to. It never changes the house itself.
+   * @param messages The chat so far, taking turns and ending with the user's message.
+   */
+  chatAboutDesign(
+    houseSpec: HouseSpec,
+    detailedDescription: string,
+    messages: ChatMessage[],
+    constraints: DesignConstraints,
+    options?: CallOptions
+  ): Promise<ChatReply>;
+  /** Renders one of the camera angles listed in VIEWS. Resolves to null if nothing was produced. */
+  generateViewImage(houseSpec: HouseSpec, view: string, options?: CallOptions): Promise<GeneratedImage | null>;
+  /** Renders the blueprint-style assembly sketch. Resolves to null if nothing was produced. */
+  generateSketch(houseSpec: HouseSpec, options?: CallOptions): Promise<GeneratedImage | null>;
+  /** Comes up with a fun name and a one-sentence description for the house. */
+  generateHouseName(houseSpec: HouseSpec, options?: CallOptions): Promise<HouseNaming | null>;
+  /**
+   * Decides whether a child's words, or words written for them, are right for children, and
+   * softens borderline ones. The text may be in any language; a softened one stays in it.
+   */
+  classifyText(text: string, strictness: Strictness, options?: CallOptions): Promise<ModerationResult>;
+}
+
+export type ProviderName = 'gemini' | 'mock';
+
+const PROVIDER_NAMES: ProviderName[] = ['gemini', 'mock'];
+
+const isProviderName = (value: unknown): value is ProviderName =>
+  typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
+
+/**
+ * Works out which provider to use. In order of precedence:
+ * a `?provider=` query parameter (handy for demos), the DESIGN_PROVIDER setting,
+ * then Gemini if an API key is configured and the offline mock otherwise.
+ * @returns The name of the provider to use.
+ */
+export const resolveProviderName = (): ProviderName => {
+  if (typeof window !== 'undefined') {
+    const fromQuery = new URLSearchParams(window.location.search).get('provider');
+    if (isProviderName(fromQuery)) return fromQuery;
+  }
+
+  const configured = process.env.DESIGN_PROVIDER?.toLowerCase();
+  if (isProviderName(configured)) return configured;
+
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+/**
+ * Where the design steps run. In the browser everything goes through the proxy server, so the
+ * Gemini key never reaches the page; only the mock, which needs no key, runs in the page itself.
+ * On the server (or in scripts) the steps always run locally with the configured provider.
+ */
+export type DesignBackend = 'local' | 'server';
+
+/**
+ * Works out where the design steps run, honouring the same `?provider=` and DESIGN_PROVIDER
+ * settings as resolveProviderName.
+ * @returns 'server' in the browser unless the mock was asked for, otherwise 'local'.
+ */
+export const resolveDesignBackend = (): DesignBackend => {
+  if (typeof window === 'undefined') return 'local';
+  const requested = new URLSearchParams(window.location.search).get('provider') ?? process.env.DESIGN_PROVIDER;
+  return requested?.toLowerCase() === 'mock' ? 'local' : 'server';
+};
+
+let activeProvider: DesignProvider | null = null;
+
+/**
+ * Returns the provider selected by the current configuration, creating it on first use.
+ * @returns The active design provider.
+ */
+export const getDesignProvider = (): DesignProvider => {
+  if (!activeProvider) {
+    const name = resolveProviderName();
+    activeProvider = name === 'gemini' ? createGeminiProvider(process.env.API_KEY) : createMockProvider();
+  }
+  return activeProvider;
+};
+
+/**
+ * Replaces the active provider, e.g. to force the mock backend in automated tests.
+ * @param provider The provider to use from now on, or null to re-read the configuration.
+ */
+export const setDesignProvider = (provider: DesignProvider | null): void => {
+  activeProvider = provider;
+};
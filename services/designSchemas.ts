@@ -0,0 +1,209 @@
+import type { Accessory, ChatMessage, ChatProposal, DecorativeFeature, EditOperation, HouseSpec, Material, NamedColor, Opening, PartGeometry, SourceImage } from '../types';
+import type { ChatReply, HouseNaming, ModerationResult, SpecRevision } from './designProvider';
+import { Type } from '@google/genai';
+import { array, number, object, oneOf, optional, refine, string, type Schema } from './schema';
+import { MAX_SOURCE_IMAGE_URL_LENGTH, SOURCE_IMAGE_URL_PATTERN } from './sourceImage';
+
+/**
+ * The shape of every structured answer the model gives, and of the data derived from them.
+ * The ranges are deliberately wider than what the prompts ask for: they catch nonsense
+ * (negative sizes, empty names, missing walls), not merely unusual houses.
+ */
+
+const colorSchema: Schema<NamedColor> = object({
+  name: string({ description: "A kid-friendly color name (e.g., 'strawberry red').", maxLength: 60 }),
+  hex: string({ description: "The color as a hex code, e.g. '#e11d48'.", pattern: /^#([0-9a-f]{3}|[0-9a-f]{6})$/i }),
+});
+
+const wallSchema = oneOf(['front', 'back', 'left', 'right'] as const);
+
+const openingSchema: Schema<Opening> = object({
+  kind: oneOf(['door', 'window'] as const),
+  wall: wallSchema,
+  shape: oneOf(['rectangle', 'arch', 'round'] as const),
+  offsetMm: number({ description: 'Distance from the left edge of the wall to the opening.', min: 0, max: 500 }),
+  bottomMm: number({ description: 'Distance from the ground to the bottom of the opening.', min: 0, max: 300 }),
+  widthMm: number({ min: 1, max: 500 }),
+  heightMm: number({ min: 1, max: 300 }),
+});
+
+const accessorySchema: Schema<Accessory> = object({
+  kind: oneOf(['chimney', 'porch', 'balcony'] as const),
+  wall: wallSchema,
+});
+
+const themeSchema = oneOf(['classic', 'cottage', 'modern', 'castle', 'candy', 'spooky'] as const);
+
+const wholeNumber = (schema: Schema<number>): Schema<number> =>
+  refine(schema, (value, path) => (Number.isInteger(value) ? [] : [`${path} must be a whole number, not ${value}`]));
+
+const featureSchema: Schema<DecorativeFeature> = object({
+  name: string({ maxLength: 80 }),
+  description: string({ maxLength: 300 }),
+});
+
+export const houseSpecSchema: Schema<HouseSpec> = refine(
+  object<HouseSpec>({
+    footprint: object(
+      {
+        widthMm: number({ description: 'Width of the front wall, in millimetres.', min: 50, max: 500 }),
+        depthMm: number({ description: 'Depth of the side walls, in millimetres.', min: 50, max: 500 }),
+      },
+      'The size of the base of the house, in millimetres.'
+    ),
+    wallHeightMm: number({ description: 'Height of the walls up to the eaves, in millimetres.', min: 30, max: 300 }),
+    sheetMaterial: oneOf(['cardboard', 'foam-board'] as const, 'The sheet material the walls, base and roof are cut from.'),
+    roof: object({
+      type: oneOf(['gable', 'hip', 'shed', 'flat'] as const),
+      pitchDeg: number({ description: 'Roof slope in degrees. Use 0 for a flat roof.', min: 0, max: 75 }),
+      overhangMm: number({ description: 'How far the roof sticks out past the walls, in millimetres.', min: 0, max: 60 }),
+      material: string({ description: 'What the roof is made of or looks like.', maxLength: 120 }),
+    }),
+    openings: array(openingSchema, {
+      description: 'Every door and window. Positions are measured from the bottom-left corner of the wall, seen from outside.',
+      maxItems: 20,
+    }),
+    colors: object({
+      walls: colorSchema,
+      roof: colorSchema,
+      trim: colorSchema,
+      door: colorSchema,
+    }),
+    features: array(featureSchema, {
+      description: 'Decorative details such as flower boxes, chimneys or shutters.',
+      maxItems: 10,
+    }),
+    storeys: optional(wholeNumber(number({ description: 'How many floors the walls are split into. Omit for one.', min: 1, max: 3 }))),
+    accessories: optional(array(accessorySchema, {
+      description: 'Chimneys, porches and balconies built onto the outside of a wall.',
+      maxItems: 6,
+    })),
+    theme: optional(themeSchema),
+  }),
+  (spec, path) => {
+    const prefix = path ? `${path}.` : '';
+    return spec.openings.flatMap((opening, index) => {
+      // The cutting list trims openings that are a little too big, but one that starts past the
+      // end of its wall or above the eaves is on the wrong wall or in the wrong units.
+      const wallLength = opening.wall === 'front' || opening.wall === 'back' ? spec.footprint.widthMm : spec.footprint.depthMm;
+      const issues: string[] = [];
+      if (opening.offsetMm >= wallLength) issues.push(`${prefix}openings[${index}].offsetMm must be less than the ${opening.wall} wall's length of ${wallLength}`);
+      if (opening.bottomMm >= spec.wallHeightMm) issues.push(`${prefix}openings[${index}].bottomMm must be less than the wall height of ${spec.wallHeightMm}`);
+      return issues;
+    });
+  }
+);
+
+export const specRevisionSchema: Schema<SpecRevision> = object({
+  houseSpec: houseSpecSchema,
+  detailedDescription: string({
+    description: 'The full, updated architectural description of the house, matching the revised model.',
+  }),
+});
+
+export const houseNamingSchema: Schema<HouseNaming> = object({
+  houseName: string({ description: 'A fun and creative name for the miniature house.', maxLength: 80 }),
+  description: string({ description: 'A short, one-sentence description of the house design.', maxLength: 300 }),
+});
+
+export const moderationResultSchema: Schema<ModerationResult> = object({
+  verdict: oneOf(['allow', 'rewrite', 'block'] as const),
+  reason: string({ description: 'Why, in a few English words.', minLength: 0, maxLength: 300 }),
+  rewrite: optional(string({ description: "Only for 'rewrite': the whole text, with only the unsuitable parts made friendly." })),
+});
+
+// The geometry is computed locally by cuttingListEngine.ts, so it is carried along unchecked.
+const partGeometrySchema: Schema<PartGeometry> = {
+  validate: () => [],
+  toResponseSchema: () => ({}),
+};
+
+export const materialSchema: Schema<Material> = object({
+  name: string({ maxLength: 120 }),
+  quantity: wholeNumber(number({ min: 1, max: 100 })),
+  dimensions: string({ maxLength: 120 }),
+  part: optional(partGeometrySchema),
+});
+
+const colorRoleSchema = oneOf(['walls', 'roof', 'trim', 'door'] as const);
+
+const EDIT_OPERATION_SCHEMAS: { [K in EditOperation['type']]: Schema<Extract<EditOperation, { type: K }>> } = {
+  addOpening: object({ type: oneOf(['addOpening'] as const), opening: openingSchema }),
+  removeOpening: object({ type: oneOf(['removeOpening'] as const), index: wholeNumber(number({ min: 0, max: 19 })) }),
+  moveOpening: object({
+    type: oneOf(['moveOpening'] as const),
+    index: wholeNumber(number({ min: 0, max: 19 })),
+    wall: wallSchema,
+    offsetMm: number({ min: 0, max: 500 }),
+    bottomMm: number({ min: 0, max: 300 }),
+  }),
+  roofShape: object({
+    type: oneOf(['roofShape'] as const),
+    roofType: oneOf(['gable', 'hip', 'shed', 'flat'] as const),
+    pitchDeg: number({ min: 0, max: 75 }),
+  }),
+  addStorey: object({ type: oneOf(['addStorey'] as const) }),
+  resize: object({ type: oneOf(['resize'] as const), widthMm: number({ min: 50, max: 500 }), depthMm: number({ min: 50, max: 500 }) }),
+  scale: object({ type: oneOf(['scale'] as const), percent: number({ min: 10, max: 500 }) }),
+  addAccessory: object({ type: oneOf(['addAccessory'] as const), accessory: accessorySchema }),
+  removeAccessory: object({ type: oneOf(['removeAccessory'] as const), accessory: accessorySchema }),
+  theme: object({ type: oneOf(['theme'] as const), theme: themeSchema }),
+  color: object({ type: oneOf(['color'] as const), role: colorRoleSchema, color: colorSchema }),
+  roofMaterial: object({ type: oneOf(['roofMaterial'] as const), material: string({ maxLength: 120 }) }),
+  request: object({ type: oneOf(['request'] as const), text: string({ maxLength: 500 }) }),
+};
+
+// Edits come from the edit form and from the design assistant. Gemini's response schemas have no
+// "one of these shapes", so the model is shown every field any change uses and told to fill in
+// only the ones its type needs; the validator then checks the shape for that type.
+export const editOperationSchema: Schema<EditOperation> = {
+  validate(value, path = '') {
+    const type = value && typeof value === 'object' ? (value as { type?: unknown }).type : undefined;
+    if (typeof type !== 'string' || !(type in EDIT_OPERATION_SCHEMAS)) {
+      return [`${path ? `${path}.type` : 'type'} must be one of ${Object.keys(EDIT_OPERATION_SCHEMAS).join(', ')}`];
+    }
+    return EDIT_OPERATION_SCHEMAS[type as EditOperation['type']].validate(value, path);
+  },
+  toResponseSchema: () => ({
+    type: Type.OBJECT,
+    description: 'One change to the house. Set type, and only the other fields that type uses.',
+    properties: {
+      ...Object.assign({}, ...Object.values(EDIT_OPERATION_SCHEMAS).map(schema => schema.toResponseSchema().properties)),
+      type: oneOf(Object.keys(EDIT_OPERATION_SCHEMAS) as EditOperation['type'][]).toResponseSchema(),
+    },
+    required: ['type'],
+  }),
+};
+
+export const editsSchema: Schema<EditOperation[]> = array(editOperationSchema, { minItems: 1, maxItems: 30 });
+
+// A picture the user started from: a base64 JPEG, PNG or WebP, small enough to send.
+export const sourceImageSchema: Schema<SourceImage> = object({
+  kind: oneOf(['drawing', 'photo'] as const),
+  url: string({ maxLength: MAX_SOURCE_IMAGE_URL_LENGTH, pattern: SOURCE_IMAGE_URL_PATTERN }),
+});
+
+const chatProposalSchema: Schema<ChatProposal> = object({
+  summary: string({ description: 'The changes in a few friendly words a child understands.', maxLength: 300 }),
+  edits: editsSchema,
+});
+
+export const chatReplySchema: Schema<ChatReply> = object({
+  reply: string({ description: 'What to say to the child: an answer, a question, or the suggested changes in words.', maxLength: 1000 }),
+  proposal: optional(chatProposalSchema),
+});
+
+const chatMessageSchema: Schema<ChatMessage> = object({
+  role: oneOf(['user', 'assistant'] as const),
+  text: string({ maxLength: 1000 }),
+  proposal: optional(chatProposalSchema),
+});
+
+// A chat sent to the server; it must start with the user and take turns.
+export const chatMessagesSchema: Schema<ChatMessage[]> = refine(
+  array(chatMessageSchema, { minItems: 1, maxItems: 60 }),
+  (messages, path) =>
+    messages.some((message, index) => message.role !== (index % 2 === 0 ? 'user' : 'assistant')) || messages[messages.length - 1].role !== 'user'
+      ? [`${path || 'messages'} must take turns, starting and ending with the user`]
+      : []
+);
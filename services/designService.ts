@@ -0,0 +1,495 @@
+import type { ChatMessage, CuttingList, DesignConstraints, DesignResult, EditOperation, HouseSpec, ImageView, SourceImage, Strictness } from '../types';
+import { VIEWS } from '../constants';
+import { getDesignProvider, resolveDesignBackend, type CallOptions, type ChatReply, type GeneratedImage, type HouseNaming, type ModerationResult } from './designProvider';
+import { requestChatReply, requestCuttingList, requestHouseDesign, requestHouseEdit, requestSketch, requestView } from './designApiClient';
+import { buildCuttingList, computeMaterials } from './cuttingListEngine';
+import { scaleHouseSpec } from './houseSpec';
+import { DesignError, MalformedResponseError, SafetyBlockedError } from './designErrors';
+import { checkEdits, findDroppedEdits } from './designEdits';
+import { chatMessagesSchema, materialSchema } from './designSchemas';
+import { DEFAULT_CONSTRAINTS } from './designConstraints';
+import { DEFAULT_STRICTNESS, rewriteText, screenText } from './moderation';
+
+/**
+ * Something that became ready while a design is being generated. Assets that failed are
+ * reported with a null value so the UI can offer a retry straight away.
+ */
+export type GenerationEvent =
+  | { type: 'moderated'; text: string }
+  | { type: 'description'; detailedDescription: string }
+  | { type: 'spec'; houseSpec: HouseSpec }
+  | { type: 'view'; label: string; view: ImageView | null }
+  | { type: 'sketch'; sketchUrl: string | null }
+  | { type: 'cuttingList'; cuttingList: CuttingList | null };
+
+export interface GenerationOptions extends CallOptions {
+  /** Called as soon as each step or asset is ready, before the whole design is done. */
+  onEvent?: (event: GenerationEvent) => void;
+  /** Cancels the generation. Calls already sent to the provider finish, but their results are dropped. */
+  signal?: AbortSignal;
+  /** The builder's limits the design must keep to. Defaults to DEFAULT_CONSTRAINTS. */
+  constraints?: DesignConstraints;
+  /** A drawing or photo to design a new house from. Edits ignore it. */
+  sourceImage?: SourceImage;
+  /** How careful the content checks are. Defaults to DEFAULT_STRICTNESS. */
+  strictness?: Strictness;
+}
+
+/**
+ * Every asset a generation produces, used as progress keys: one per view, then the sketch and
+ * the cutting list.
+ */
+export const GENERATED_ASSETS: string[] = [...VIEWS, 'sketch', 'cuttingList'];
+
+const abortError = (): DOMException => new DOMException('The generation was cancelled.', 'AbortError');
+
+/**
+ * @param error Anything thrown by a generation.
+ * @returns True if the generation stopped because it was cancelled.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw abortError();
+};
+
+/**
+ * Rejects as soon as the signal is aborted, without waiting for the wrapped promise to settle.
+ */
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      error => { signal.removeEventListener('abort', onAbort); reject(error); }
+    );
+  });
+};
+
+/**
+ * Runs an array of promise-returning functions in batches to avoid rate limiting.
+ * @param promiseFactories An array of functions that each return a Promise.
+ * @param batchSize The number of promises to run concurrently in each batch.
+ * @param signal Stops the next batch from starting once aborted.
+ * @returns An array of results from all promises.
+ */
+async function runPromisesInBatches<T>(
+  promiseFactories: Array<() => Promise<T>>,
+  batchSize: number,
+  signal?: AbortSignal
+): Promise<T[]> {
+  let results: T[] = [];
+  for (let i = 0; i < promiseFactories.length; i += batchSize) {
+    throwIfAborted(signal);
+    const batchFactories = promiseFactories.slice(i, i + batchSize);
+    const batchPromises = batchFactories.map(factory => factory());
+    const batchResults = await Promise.all(batchPromises);
+    results = results.concat(batchResults);
+  }
+  return results;
+}
+
+/**
+ * Makes sure some text is right for children before it is used: a child's words before they go
+ * into a prompt, or the model's words before they are shown. The word list blocks or softens the
+ * obvious cases, then the provider's classifier looks at the result, and anything it softens is
+ * checked against the word list again. If the classifier fails, the word list alone decides, so
+ * a flaky classifier never stops a design.
+ * @param text The text to check.
+ * @param what What the text is, for messages, e.g. "idea".
+ * @param strictness How careful to be.
+ * @param options Cancellation, whether to skip cached answers, and the language.
+ * @returns The text to use, softened if it needed to be.
+ * @throws SafetyBlockedError if the text can't be used at all.
+ */
+const moderate = async (
+  text: string,
+  what: string,
+  strictness: Strictness,
+  { signal, fresh, locale }: Pick<GenerationOptions, 'signal' | 'fresh' | 'locale'>
+): Promise<string> => {
+  if (!text.trim()) return text;
+  const blocked = (reason: string) => new SafetyBlockedError(`The ${what} isn't right for children (${reason}).`);
+
+  const screened = screenText(text, strictness);
+  if (screened.verdict === 'block') throw blocked(screened.terms.join(', '));
+  let safe = screened.verdict === 'rewrite' ? rewriteText(text, strictness) : text;
+
+  let result: ModerationResult | null = null;
+  try {
+    result = await abortable(getDesignProvider().classifyText(safe, strictness, { fresh, locale }), signal);
+  } catch (error) {
+    // The safety filter refusing even to look at the text is as good as a block.
+    if (isAbortError(error) || error instanceof SafetyBlockedError) throw error;
+    console.warn(`Checking the ${what} failed, so only the word list was used`, error);
+  }
+  if (result?.verdict === 'block') throw blocked(result.reason);
+  if (result?.verdict === 'rewrite' && result.rewrite?.trim()) {
+    const rescreened = screenText(result.rewrite, strictness);
+    if (rescreened.verdict === 'block') throw blocked(rescreened.terms.join(', '));
+    safe = rescreened.verdict === 'rewrite' ? rewriteText(result.rewrite, strictness) : result.rewrite.trim();
+  }
+  return safe;
+};
+
+/**
+ * Checks the free text in some edits (wishes and roof materials), softening it where needed.
+ * @returns The edits to make, and the texts that were softened.
+ */
+const moderateEdits = async (
+  edits: EditOperation[],
+  strictness: Strictness,
+  options: Pick<GenerationOptions, 'signal' | 'fresh' | 'locale'>
+): Promise<{ edits: EditOperation[]; softened: string[] }> => {
+  const softened: string[] = [];
+  const check = async (text: string) => {
+    const safe = await moderate(text, 'change', strictness, options);
+    if (safe !== text) softened.push(safe);
+    return safe;
+  };
+  const checked: EditOperation[] = [];
+  for (const edit of edits) {
+    if (edit.type === 'request') checked.push({ ...edit, text: await check(edit.text) });
+    else if (edit.type === 'roofMaterial') checked.push({ ...edit, material: await check(edit.material) });
+    else checked.push(edit);
+  }
+  return { edits: checked, softened };
+};
+
+/**
+ * Checks the words the model wrote into a house model, which are shown with it: its features and
+ * its roof material. Words the house it was revised from already had were checked then.
+ * @param houseSpec The house model from the provider.
+ * @param previous The house it was revised from, or null for a new one.
+ * @returns The house model, with its words softened where needed.
+ * @throws SafetyBlockedError if a word can't be used at all.
+ */
+const moderateSpec = async (
+  houseSpec: HouseSpec,
+  previous: HouseSpec | null,
+  strictness: Strictness,
+  options: Pick<GenerationOptions, 'signal' | 'fresh' | 'locale'>
+): Promise<HouseSpec> => {
+  const isNew = (feature: HouseSpec['features'][number]) =>
+    !previous?.features.some(old => old.name === feature.name && old.description === feature.description);
+  const features = await Promise.all(houseSpec.features.map(async feature => (isNew(feature)
+    ? {
+      ...feature,
+      name: await moderate(feature.name, 'feature', strictness, options),
+      description: await moderate(feature.description, 'feature', strictness, options),
+    }
+    : feature)));
+  const { material } = houseSpec.roof;
+  const roof = material === previous?.roof.material ? houseSpec.roof : { ...houseSpec.roof, material: await moderate(material, 'roof', strictness, options) };
+  return { ...houseSpec, features, roof };
+};
+
+const FALLBACK_NAMING: HouseNaming = {
+  houseName: 'My Mini House',
+  description: 'A one-of-a-kind miniature house, ready to build.',
+};
+
+const toDataUrl = (image: GeneratedImage): string => `data:${image.mimeType};base64,${image.base64}`;
+
+/**
+ * Generates a single picture of the house from one angle.
+ * @param houseSpec The house model.
+ * @param view One of the VIEWS labels.
+ * @param options Cancellation and whether to skip cached answers.
+ * @returns The view, or null if the provider didn't return an image.
+ */
+export async function generateView(
+  houseSpec: HouseSpec,
+  view: string,
+  { signal, ...options }: Pick<GenerationOptions, 'signal' | 'fresh' | 'locale'> = {}
+): Promise<ImageView | null> {
+  if (resolveDesignBackend() === 'server') return requestView(houseSpec, view, options);
+  const image = await abortable(getDesignProvider().generateViewImage(houseSpec, view, options), signal);
+  return image ? { label: view, url: toDataUrl(image) } : null;
+}
+
+/**
+ * Generates the assembly sketch.
+ * @param houseSpec The house model.
+ * @param options Cancellation and whether to skip cached answers.
+ * @returns The sketch as a data URL, or null if the provider didn't return an image.
+ */
+export async function generateSketch(
+  houseSpec: HouseSpec,
+  { signal, ...options }: Pick<GenerationOptions, 'signal' | 'fresh' | 'locale'> = {}
+): Promise<string | null> {
+  if (resolveDesignBackend() === 'server') return requestSketch(houseSpec, options);
+  const image = await abortable(getDesignProvider().generateSketch(houseSpec, options), signal);
+  return image ? toDataUrl(image) : null;
+}
+
+/**
+ * Builds the cutting list. The parts are computed locally from the model; only the name and
+ * tagline come from the provider, so a failed name, or one that isn't right for children,
+ * falls back to a friendly default.
+ * Rows that don't make sense (no name, a quantity of zero...) are left out rather than shown,
+ * and every such gap is listed in `problems` so the list is clearly marked as incomplete.
+ * @param houseSpec The house model.
+ * @param options Cancellation, whether to skip cached answers, the language to name the house in, and how careful the content checks are.
+ * @returns The cutting list.
+ */
+export async function generateCuttingList(
+  houseSpec: HouseSpec,
+  options: Pick<GenerationOptions, 'signal' | 'fresh' | 'locale' | 'strictness'> = {}
+): Promise<CuttingList> {
+  if (resolveDesignBackend() === 'server') return requestCuttingList(houseSpec, options);
+
+  const { signal, fresh, locale, strictness = DEFAULT_STRICTNESS } = options;
+  const problems: string[] = [];
+  let naming: HouseNaming | null = null;
+  try {
+    const named = await abortable(getDesignProvider().generateHouseName(houseSpec, { fresh, locale }), signal);
+    naming = named && {
+      houseName: await moderate(named.houseName, 'name', strictness, options),
+      description: await moderate(named.description, 'description', strictness, options),
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Naming the house failed', error);
+  }
+  if (!naming) problems.push("We couldn't think of a name for this house, so it got a placeholder one.");
+
+  const cuttingList = buildCuttingList(houseSpec, naming ?? FALLBACK_NAMING);
+  const materials = cuttingList.materials.filter((material, index) => {
+    const issues = materialSchema.validate(material, `materials[${index}]`);
+    if (issues.length > 0) {
+      console.warn('Dropping an invalid cutting list row', issues);
+      problems.push(`"${material.name || `Row ${index + 1}`}" couldn't be measured, so it was left out.`);
+    }
+    return issues.length === 0;
+  });
+  return problems.length > 0 ? { ...cuttingList, materials, problems } : cuttingList;
+}
+
+/**
+ * Lists the assets a design is missing, e.g. because they failed while it was being made.
+ * @param result The design.
+ * @returns The missing GENERATED_ASSETS keys.
+ */
+export const findMissingAssets = (result: DesignResult): string[] =>
+  GENERATED_ASSETS.filter(asset => {
+    if (asset === 'sketch') return !result.sketchUrl;
+    if (asset === 'cuttingList') return !result.cuttingList;
+    return !result.imageViews?.some(view => view.label === asset);
+  });
+
+/**
+ * Puts a regenerated view into a design's list of views, replacing the old one if there was one.
+ * @param imageViews The current views.
+ * @param view The new view.
+ * @returns The views, in VIEWS order.
+ */
+export const replaceView = (imageViews: ImageView[] | null, view: ImageView): ImageView[] =>
+  [...(imageViews ?? []).filter(existing => existing.label !== view.label), view]
+    .sort((a, b) => VIEWS.indexOf(a.label) - VIEWS.indexOf(b.label));
+
+/**
+ * Makes a whole design bigger or smaller, e.g. by 1.5 for 150%. The house model is scaled and
+ * every part worked out again, without asking the provider: the house looks the same, so the
+ * name, the pictures and the sketch still fit it.
+ * @param result The design, which must have a house model.
+ * @param factor How much to multiply every length by.
+ * @returns The scaled design.
+ */
+export const scaleDesign = (result: DesignResult, factor: number): DesignResult => {
+  if (!result.houseSpec) return result;
+  const houseSpec = scaleHouseSpec(result.houseSpec, factor);
+  const list = result.cuttingList;
+  return {
+    ...result,
+    houseSpec,
+    // Rows without geometry, from lists made before parts were computed, can't be scaled and are kept as they are.
+    cuttingList: list && { ...list, materials: [...computeMaterials(houseSpec), ...list.materials.filter(material => !material.part)] },
+  };
+};
+
+
+async function generateAssetsFromSpec(
+  houseSpec: HouseSpec,
+  detailedDescription: string,
+  { onEvent, signal, fresh, locale, strictness }: GenerationOptions
+): Promise<DesignResult> {
+  // One failed picture shouldn't throw away the others; it can be retried on its own later.
+  const failures: unknown[] = [];
+  const settle = <T>(label: string, promise: Promise<T | null>, report: (value: T | null) => void): Promise<T | null> =>
+    abortable(promise, signal)
+      .catch(error => {
+        if (isAbortError(error)) throw error;
+        console.error(`Generating the ${label} failed`, error);
+        failures.push(error);
+        return null;
+      })
+      .then(value => {
+        report(value);
+        return value;
+      });
+
+  // Create an array of "factories" (functions that return a promise).
+  // This prevents all API calls from firing at once when the array is created.
+  const imagePromiseFactories: Array<() => Promise<ImageView | string | null>> = [
+    ...VIEWS.map(view => () =>
+      settle(view, generateView(houseSpec, view, { fresh }), image => onEvent?.({ type: 'view', label: view, view: image }))
+    ),
+    () => settle('sketch', generateSketch(houseSpec, { fresh }), sketchUrl => onEvent?.({ type: 'sketch', sketchUrl })),
+  ];
+
+  const cuttingListPromise = settle('cutting list', generateCuttingList(houseSpec, { signal, fresh, locale, strictness }), cuttingList =>
+    onEvent?.({ type: 'cuttingList', cuttingList })
+  );
+
+  // Run image generation in batches to avoid hitting API rate limits.
+  // Batch size of 3 is a safe number for most free-tier plans.
+  const imageBatchPromise = runPromisesInBatches(imagePromiseFactories, 3, signal);
+
+  const [allImageResults, cuttingList] = await Promise.all([
+    imageBatchPromise,
+    cuttingListPromise
+  ]);
+
+  const imageViews = allImageResults.slice(0, VIEWS.length).filter((view): view is ImageView => !!view);
+  const sketchUrl = allImageResults[VIEWS.length] as string | null;
+
+  if (imageViews.length === 0 && !sketchUrl) {
+    // Every picture failed, which points at a real problem (quota, key) rather than a one-off.
+    throw failures[0] ?? new MalformedResponseError("Could not draw any pictures of the house.");
+  }
+
+  return {
+    imageViews: imageViews.length > 0 ? imageViews : null,
+    sketchUrl,
+    cuttingList,
+    detailedDescription,
+    houseSpec
+  };
+}
+
+
+/**
+ * Designs a new house from the user's idea, or from their drawing or photo.
+ * @param prompt The user's idea. May be empty when options.sourceImage is given.
+ * @param options Progress callback, cancellation, the builder's limits, the picture, whether to skip cached answers, the language to write in, and how careful the content checks are.
+ * @returns Every asset of the design.
+ */
+export async function generateHouseDesign(prompt: string, options: GenerationOptions = {}): Promise<DesignResult> {
+  // In the browser the server runs these same steps, so the API key stays there.
+  if (resolveDesignBackend() === 'server') return requestHouseDesign(prompt, options);
+
+  const provider = getDesignProvider();
+  const { onEvent, signal, fresh, locale, constraints = DEFAULT_CONSTRAINTS, sourceImage = null, strictness = DEFAULT_STRICTNESS } = options;
+
+  // Step 0: Check the idea before it goes into any prompt, softening it if it needs to be.
+  const idea = await moderate(prompt, 'idea', strictness, options);
+  if (idea !== prompt) onEvent?.({ type: 'moderated', text: idea });
+
+  // Step 1: Generate a detailed, consistent description from the user's prompt and picture.
+  const generated = await abortable(provider.generateDescription(idea, constraints, sourceImage, { fresh, locale }), signal);
+
+  if (!generated) {
+    throw new MalformedResponseError("Could not generate a detailed description for the house.");
+  }
+  // A picture, or the model itself, can still bring in something that isn't for children.
+  const detailedDescription = await moderate(generated, 'description', strictness, options);
+  onEvent?.({ type: 'description', detailedDescription });
+
+  // Step 2: Turn the description into the structured model that acts as the single source of truth.
+  const plan = await abortable(provider.generateHouseSpec(detailedDescription, constraints, { fresh, locale }), signal);
+
+  if (!plan) {
+    throw new MalformedResponseError("Could not work out the exact plan for the house.");
+  }
+  const houseSpec = await moderateSpec(plan, null, strictness, options);
+  onEvent?.({ type: 'spec', houseSpec });
+
+  // Step 3: Generate assets from the model.
+  return generateAssetsFromSpec(houseSpec, detailedDescription, options);
+}
+
+/**
+ * Applies the user's edits to an existing design and redraws it.
+ * @param houseSpec The current house model.
+ * @param detailedDescription The current description.
+ * @param edits The changes the user made, in order.
+ * @param options Progress callback, cancellation, the builder's limits, whether to skip cached answers, the language to write in, and how careful the content checks are.
+ * @returns Every asset of the edited design.
+ */
+export async function editHouseDesign(
+  houseSpec: HouseSpec,
+  detailedDescription: string,
+  edits: EditOperation[],
+  options: GenerationOptions = {}
+): Promise<DesignResult> {
+  if (resolveDesignBackend() === 'server') return requestHouseEdit(houseSpec, detailedDescription, edits, options);
+
+  const { onEvent, signal, fresh, locale, constraints = DEFAULT_CONSTRAINTS, strictness = DEFAULT_STRICTNESS } = options;
+
+  // The edit form only offers changes that fit, but a saved or sent edit may no longer.
+  const problems = checkEdits(houseSpec, edits);
+  if (problems.length > 0) {
+    throw new DesignError(`These changes can't be made to the house: ${problems.join(' ')}`);
+  }
+
+  // Step 0: Check the wishes written in words, like a new idea.
+  const checked = await moderateEdits(edits, strictness, options);
+  checked.softened.forEach(text => onEvent?.({ type: 'moderated', text }));
+
+  // Step 1: Apply the edits to the model, which also rewrites the description to match.
+  const revision = await abortable(getDesignProvider().reviseHouseSpec(houseSpec, detailedDescription, checked.edits, constraints, { fresh, locale }), signal);
+
+  if (!revision?.houseSpec || !revision.detailedDescription) {
+    throw new MalformedResponseError("Could not generate an updated description for the house.");
+  }
+  // The exact changes were made before the model was asked, and the plan that comes back must still show them.
+  const dropped = findDroppedEdits(houseSpec, checked.edits, revision.houseSpec);
+  if (dropped.length > 0) {
+    throw new MalformedResponseError(`The updated plan lost some of the changes: ${dropped.join('; ')}.`);
+  }
+  const revisedDescription = await moderate(revision.detailedDescription, 'description', strictness, options);
+  const revisedSpec = await moderateSpec(revision.houseSpec, houseSpec, strictness, options);
+  onEvent?.({ type: 'description', detailedDescription: revisedDescription });
+  onEvent?.({ type: 'spec', houseSpec: revisedSpec });
+
+  // Step 2: Generate assets from the revised model.
+  return generateAssetsFromSpec(revisedSpec, revisedDescription, options);
+}
+
+/**
+ * Asks the design assistant for its answer to the latest chat message. The design itself doesn't
+ * change: a suggestion is only made, with editHouseDesign, once the user agrees to it.
+ * @param houseSpec The current house model.
+ * @param detailedDescription The current description.
+ * @param messages The chat so far, taking turns and ending with the user's message.
+ * @param options Cancellation, the builder's limits, whether to skip cached answers, the language to answer in, and how careful the content checks are.
+ * @returns The assistant's answer, with any changes it suggests.
+ */
+export async function chatAboutDesign(
+  houseSpec: HouseSpec,
+  detailedDescription: string,
+  messages: ChatMessage[],
+  options: Pick<GenerationOptions, 'signal' | 'constraints' | 'fresh' | 'locale' | 'strictness'> = {}
+): Promise<ChatReply> {
+  if (resolveDesignBackend() === 'server') return requestChatReply(houseSpec, detailedDescription, messages, options);
+
+  const { signal, fresh, locale, constraints = DEFAULT_CONSTRAINTS, strictness = DEFAULT_STRICTNESS } = options;
+  // The server checks the chat it is sent; a chat made here is checked the same way.
+  const issues = chatMessagesSchema.validate(messages, 'messages');
+  if (issues.length > 0) {
+    throw new DesignError(`The chat can't be answered: ${issues.slice(0, 5).join('; ')}.`);
+  }
+  // Earlier messages were checked when they were sent, so only the latest one is.
+  const latest = messages[messages.length - 1];
+  const asked = [...messages.slice(0, -1), { ...latest, text: await moderate(latest.text, 'message', strictness, options) }];
+  const answer = await abortable(getDesignProvider().chatAboutDesign(houseSpec, detailedDescription, asked, constraints, { fresh, locale }), signal);
+
+  const reply = await moderate(answer.reply, 'answer', strictness, options);
+  if (!answer.proposal) return { reply };
+  return { reply, proposal: { ...answer.proposal, summary: await moderate(answer.proposal.summary, 'answer', strictness, options) } };
+}
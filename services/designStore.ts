@@ -0,0 +1,101 @@
+import type { DesignResult, SavedDesign } from '../types';
+import { openIndexedDb } from './indexedDb';
+
+const DESIGNS_STORE = 'designs';
+
+const designs = openIndexedDb('mini-house-dream-builder', 1, db => {
+  if (!db.objectStoreNames.contains(DESIGNS_STORE)) {
+    const store = db.createObjectStore(DESIGNS_STORE, { keyPath: 'id' });
+    store.createIndex('updatedAt', 'updatedAt');
+  }
+}).store(DESIGNS_STORE);
+
+const withStore = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  designs.run(mode, action);
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Lists every saved design, most recently changed first.
+ * @returns The saved designs.
+ */
+export const listDesigns = async (): Promise<SavedDesign[]> => {
+  const designs = await withStore<SavedDesign[]>('readonly', store => store.getAll());
+  return designs.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Loads a single design.
+ * @param id The id of the design.
+ * @returns The design, or null if it no longer exists.
+ */
+export const getDesign = async (id: string): Promise<SavedDesign | null> =>
+  (await withStore<SavedDesign | undefined>('readonly', store => store.get(id))) ?? null;
+
+/**
+ * Stores a newly generated design in the gallery.
+ * @param prompt The idea the design was generated from.
+ * @param design The generated assets, and optionally their version history and the picture they were generated from.
+ * @returns The saved design, including its new id.
+ */
+export const createDesign = async (prompt: string, design: DesignResult & Pick<SavedDesign, 'history' | 'sourceImage'>): Promise<SavedDesign> => {
+  const now = Date.now();
+  const saved: SavedDesign = {
+    ...design,
+    id: createId(),
+    name: design.cuttingList?.houseName || prompt.slice(0, 60) || 'My Mini House',
+    prompt,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await withStore('readwrite', store => store.put(saved));
+  return saved;
+};
+
+/**
+ * Replaces the assets of an existing design, e.g. after an edit.
+ * @param id The id of the design.
+ * @param changes The fields to overwrite.
+ * @returns The updated design, or null if it no longer exists.
+ */
+export const updateDesign = async (id: string, changes: Partial<Omit<SavedDesign, 'id' | 'createdAt'>>): Promise<SavedDesign | null> => {
+  const existing = await getDesign(id);
+  if (!existing) return null;
+  const updated: SavedDesign = { ...existing, ...changes, id, updatedAt: Date.now() };
+  await withStore('readwrite', store => store.put(updated));
+  return updated;
+};
+
+/**
+ * Gives a design a new name.
+ * @param id The id of the design.
+ * @param name The new name.
+ * @returns The renamed design, or null if it no longer exists.
+ */
+export const renameDesign = (id: string, name: string): Promise<SavedDesign | null> =>
+  updateDesign(id, { name: name.trim() || 'My Mini House' });
+
+/**
+ * Makes an independent copy of a design.
+ * @param id The id of the design to copy.
+ * @returns The copy, or null if the original no longer exists.
+ */
+export const duplicateDesign = async (id: string): Promise<SavedDesign | null> => {
+  const existing = await getDesign(id);
+  if (!existing) return null;
+  const now = Date.now();
+  const copy: SavedDesign = { ...existing, id: createId(), name: `${existing.name} (copy)`, createdAt: now, updatedAt: now };
+  await withStore('readwrite', store => store.put(copy));
+  return copy;
+};
+
+/**
+ * Removes a design from the gallery.
+ * @param id The id of the design.
+ */
+export const deleteDesign = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,25 @@
+/**
+ * Saves a file to the user's device by clicking a temporary download link.
+ * @param data The file contents.
+ * @param mimeType The MIME type of the file.
+ * @param filename The suggested file name.
+ */
+export const downloadFile = (data: BlobPart, mimeType: string, filename: string): void => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the data.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Turns a house name into a safe file name, e.g. "The Sky Blue Cottage!" -> "the-sky-blue-cottage".
+ * @param name The human-readable name.
+ * @returns A lower-case, dash-separated file name without extension.
+ */
+export const toFileName = (name: string): string =>
+  name.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'mini-house';
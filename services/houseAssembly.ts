@@ -0,0 +1,252 @@
+import type { Accessory, HouseSpec, Material, PartGeometry, WallSide } from '../types';
+import { computeMaterials, layoutAccessory, storeyHeightMm } from './cuttingListEngine';
+
+/**
+ * Where every flat part of the cutting list goes in the finished house, so the 3D preview is
+ * built from exactly the pieces that get cut. World axes are in millimetres: x runs from the
+ * left to the right of the house seen from the front, y is up and z points out of the front
+ * wall. The base sits just below y = 0 and the walls stand on it.
+ */
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * One physical piece placed in the house. The part is drawn in its own plane (x right, y up, with
+ * its thickness along +z, which is the outside face) and then turned about x, then y, by the given
+ * angles in radians and moved so its bottom-left corner is at `position`.
+ */
+export interface PlacedPart {
+  key: string;
+  part: PartGeometry;
+  position: Vector3;
+  rotation: { x: number; y: number };
+  /** The side of the house the part faces. Not set for the base or a flat roof. */
+  side?: WallSide;
+  /** Which way the part moves, as a unit vector, when the house is pulled apart. */
+  explodeDirection: Vector3;
+}
+
+export interface HouseAssembly {
+  parts: PlacedPart[];
+  /** The size of the assembled house, from the ground to the top of the roof, for framing the camera. */
+  size: Vector3;
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// Turning a part about y by these angles makes its outside face look out of each wall.
+const WALL_YAW: Record<WallSide, number> = {
+  front: 0,
+  back: Math.PI,
+  left: -Math.PI / 2,
+  right: Math.PI / 2,
+};
+
+const turnAboutY = ({ x, y, z }: Vector3, angle: number): Vector3 => ({
+  x: x * Math.cos(angle) + z * Math.sin(angle),
+  y,
+  z: -x * Math.sin(angle) + z * Math.cos(angle),
+});
+
+const normalize = ({ x, y, z }: Vector3): Vector3 => {
+  const length = Math.hypot(x, y, z) || 1;
+  return { x: x / length, y: y / length, z: z / length };
+};
+
+/**
+ * Moves a point from a part's own plane to where it ends up in the house.
+ * @param placed The placed part.
+ * @param point A point on the part, in its own coordinates (z across the thickness).
+ * @returns The point in house coordinates.
+ */
+export const toHousePoint = (placed: PlacedPart, point: Vector3): Vector3 => {
+  const { x: pitch } = placed.rotation;
+  const tilted = { x: point.x, y: point.y * Math.cos(pitch) - point.z * Math.sin(pitch), z: point.y * Math.sin(pitch) + point.z * Math.cos(pitch) };
+  const turned = turnAboutY(tilted, placed.rotation.y);
+  return { x: turned.x + placed.position.x, y: turned.y + placed.position.y, z: turned.z + placed.position.z };
+};
+
+/**
+ * Places a wall with its outside face flush with the edge of the footprint. Front and back run
+ * the full width; the side walls fit between them, as in the cutting list.
+ */
+const placeWall = (part: PartGeometry, wall: WallSide, spec: HouseSpec): Omit<PlacedPart, 'key'> => {
+  const halfWidth = spec.footprint.widthMm / 2;
+  const halfDepth = spec.footprint.depthMm / 2;
+  const t = part.thicknessMm;
+  const positions: Record<WallSide, Vector3> = {
+    front: { x: -halfWidth, y: 0, z: halfDepth - t },
+    back: { x: halfWidth, y: 0, z: -halfDepth + t },
+    left: { x: -halfWidth + t, y: 0, z: -halfDepth + t },
+    right: { x: halfWidth - t, y: 0, z: halfDepth - t },
+  };
+  return {
+    part,
+    position: positions[wall],
+    rotation: { x: 0, y: WALL_YAW[wall] },
+    side: wall,
+    explodeDirection: turnAboutY({ x: 0, y: 0, z: 1 }, WALL_YAW[wall]),
+  };
+};
+
+/**
+ * Places a sloping roof panel over one side of the house. The panel's bottom edge hangs over the
+ * wall by the overhang and it rises towards the middle at the roof pitch.
+ * @param reachMm Distance from the middle of the house to the outside of the wall below.
+ */
+const placeSlope = (part: PartGeometry, side: WallSide, reachMm: number, spec: HouseSpec): Omit<PlacedPart, 'key'> => {
+  const pitch = toRadians(spec.roof.pitchDeg);
+  const overhang = Math.max(0, spec.roof.overhangMm);
+  const yaw = WALL_YAW[side];
+  const facingFront: Vector3 = {
+    x: -part.widthMm / 2,
+    y: spec.wallHeightMm - overhang * Math.tan(pitch),
+    z: reachMm + overhang,
+  };
+  return {
+    part,
+    position: turnAboutY(facingFront, yaw),
+    rotation: { x: pitch - Math.PI / 2, y: yaw },
+    side,
+    explodeDirection: normalize(turnAboutY({ x: 0, y: Math.cos(pitch), z: Math.sin(pitch) }, yaw)),
+  };
+};
+
+/**
+ * Places a part that lies flat: the base below the walls, or a flat roof on top of them.
+ */
+const placeFlat = (part: PartGeometry, y: number, up: boolean): Omit<PlacedPart, 'key'> => ({
+  part,
+  position: { x: -part.widthMm / 2, y, z: part.heightMm / 2 },
+  rotation: { x: -Math.PI / 2, y: 0 },
+  explodeDirection: { x: 0, y: up ? 1 : -1, z: 0 },
+});
+
+/**
+ * Works out where the pieces of one accessory go, in the order the cutting list gives them.
+ * They are first laid out as if on the front wall, with x running along the wall from its left
+ * end seen from outside and z pointing out of it, then turned to face out of their own wall.
+ * @param pieces The accessory's parts, one entry per copy.
+ */
+const placeAccessory = (pieces: PartGeometry[], accessory: Accessory, spec: HouseSpec): Array<Omit<PlacedPart, 'key'>> => {
+  if (pieces.length === 0) return [];
+  const t = pieces[0].thicknessMm;
+  const { centerMm, widthMm, depthMm, bottomMm } = layoutAccessory(spec, accessory, t);
+  const isSide = accessory.wall === 'left' || accessory.wall === 'right';
+  const reach = (isSide ? spec.footprint.widthMm : spec.footprint.depthMm) / 2;
+  const left = centerMm - widthMm / 2 - (isSide ? spec.footprint.depthMm : spec.footprint.widthMm) / 2;
+  const right = left + widthMm;
+  const front = reach + depthMm;
+  const yaw = WALL_YAW[accessory.wall];
+
+  // Upright pieces facing out of the wall, or out of the sides of the accessory; flat ones lie with their top face up.
+  const facingOut = (x: number, y: number): Omit<PlacedPart, 'key' | 'part'> => ({ position: { x, y, z: front - t }, rotation: { x: 0, y: 0 }, explodeDirection: { x: 0, y: 0, z: 1 } });
+  const facingRight = (x: number, y: number): Omit<PlacedPart, 'key' | 'part'> => ({ position: { x: x - t, y, z: front - t }, rotation: { x: 0, y: Math.PI / 2 }, explodeDirection: { x: 1, y: 0, z: 0 } });
+  const facingLeft = (x: number, y: number): Omit<PlacedPart, 'key' | 'part'> => ({ position: { x: x + t, y, z: reach }, rotation: { x: 0, y: -Math.PI / 2 }, explodeDirection: { x: -1, y: 0, z: 0 } });
+  const lyingFlat = (y: number): Omit<PlacedPart, 'key' | 'part'> => ({ position: { x: left, y, z: front }, rotation: { x: -Math.PI / 2, y: 0 }, explodeDirection: { x: 0, y: y > 0 ? 1 : -1, z: 0 } });
+
+  const porchHeight = accessory.kind === 'porch' ? pieces[2]?.heightMm ?? 0 : 0;
+  const places: Record<Accessory['kind'], Array<Omit<PlacedPart, 'key' | 'part'>>> = {
+    chimney: [facingOut(left, 0), facingRight(right, 0), facingLeft(left, 0)],
+    porch: [lyingFlat(-t), lyingFlat(porchHeight), facingOut(left, 0), facingOut(right - (pieces[2]?.widthMm ?? 0), 0)],
+    balcony: [lyingFlat(bottomMm), facingOut(left, bottomMm + t), facingRight(right, bottomMm + t), facingLeft(left, bottomMm + t)],
+  };
+
+  return pieces.slice(0, places[accessory.kind].length).map((part, index) => {
+    const place = places[accessory.kind][index];
+    return {
+      part,
+      position: turnAboutY(place.position, yaw),
+      rotation: { x: place.rotation.x, y: place.rotation.y + yaw },
+      side: accessory.wall,
+      explodeDirection: turnAboutY(place.explodeDirection, yaw),
+    };
+  });
+};
+
+/**
+ * Works out where each copy of each roof part goes.
+ * @param roofParts Every roof part, one entry per copy, in cutting list order.
+ */
+const placeRoof = (roofParts: PartGeometry[], spec: HouseSpec): Array<Omit<PlacedPart, 'key'>> => {
+  const halfWidth = spec.footprint.widthMm / 2;
+  const halfDepth = spec.footprint.depthMm / 2;
+
+  switch (spec.roof.type) {
+    case 'gable': {
+      const sides: WallSide[] = ['front', 'back'];
+      return roofParts.slice(0, 2).map((part, index) => placeSlope(part, sides[index], halfDepth, spec));
+    }
+    case 'shed':
+      // The roof slopes down from the tall back wall to the front.
+      return roofParts.slice(0, 1).map(part => placeSlope(part, 'front', halfDepth, spec));
+    case 'hip': {
+      // The long panels are trapezoids and the end panels triangles.
+      const widthIsLong = spec.footprint.widthMm >= spec.footprint.depthMm;
+      const longSides: WallSide[] = widthIsLong ? ['front', 'back'] : ['left', 'right'];
+      const endSides: WallSide[] = widthIsLong ? ['left', 'right'] : ['front', 'back'];
+      const reach = (side: WallSide) => (side === 'front' || side === 'back' ? halfDepth : halfWidth);
+      const isEnd = (part: PartGeometry) => part.outline?.length === 3;
+      const place = (parts: PartGeometry[], sides: WallSide[]) =>
+        parts.slice(0, 2).map((part, index) => placeSlope(part, sides[index], reach(sides[index]), spec));
+      return [...place(roofParts.filter(part => !isEnd(part)), longSides), ...place(roofParts.filter(isEnd), endSides)];
+    }
+    case 'flat':
+    default:
+      return roofParts.slice(0, 1).map(part => placeFlat(part, spec.wallHeightMm, true));
+  }
+};
+
+/**
+ * Places every piece of the cutting list in the finished house.
+ * @param spec The house model.
+ * @param materials The cutting list rows. When none of them carry part geometry (lists saved
+ * before parts were computed), the parts are worked out from the spec instead.
+ * @returns The placed pieces, one per copy, and the size of the house.
+ */
+export const assembleHouse = (spec: HouseSpec, materials: Material[] | null): HouseAssembly => {
+  const rows = materials?.some(material => material.part) ? materials : computeMaterials(spec);
+  const copies = rows.flatMap(material => (material.part ? Array.from({ length: material.quantity }, () => material.part!) : []));
+
+  const placed: Array<Omit<PlacedPart, 'key'>> = [];
+  for (const part of copies) {
+    if (part.role === 'base') placed.push(placeFlat(part, -part.thicknessMm, false));
+    if (part.role === 'wall' && part.wall) placed.push(placeWall(part, part.wall, spec));
+  }
+  // Each upper floor rests at the height of the storeys below it.
+  copies.filter(part => part.role === 'floor').forEach((part, index) => placed.push(placeFlat(part, (index + 1) * storeyHeightMm(spec), true)));
+  placed.push(...placeRoof(copies.filter(part => part.role === 'roof'), spec));
+  for (const accessory of spec.accessories ?? []) {
+    const pieces = copies.filter(part => part.role === 'accessory' && part.accessory === accessory.kind && part.wall === accessory.wall);
+    placed.push(...placeAccessory(pieces, accessory, spec));
+  }
+
+  const copyCounts = new Map<string, number>();
+  const parts = placed.map(item => {
+    const copy = (copyCounts.get(item.part.id) ?? 0) + 1;
+    copyCounts.set(item.part.id, copy);
+    return { ...item, key: `${item.part.id}-${copy}` };
+  });
+
+  // Gable ends and a shed's back wall reach the top of the roof; a hip roof rises above every wall,
+  // and a chimney above the roof. Accessories stick out past the roof on their side.
+  const { widthMm, depthMm } = spec.footprint;
+  const hipRise = spec.roof.type === 'hip' ? (Math.min(widthMm, depthMm) / 2) * Math.tan(toRadians(spec.roof.pitchDeg)) : 0;
+  const overhang = Math.max(0, spec.roof.overhangMm);
+  const reachOut = (sides: WallSide[]) => Math.max(overhang, ...(spec.accessories ?? [])
+    .filter(accessory => sides.includes(accessory.wall))
+    .map(accessory => layoutAccessory(spec, accessory, copies[0]?.thicknessMm ?? 0).depthMm));
+  const upright = copies.filter(part => part.role === 'wall' || (part.role === 'accessory' && part.accessory === 'chimney'));
+  return {
+    parts,
+    size: {
+      x: widthMm + 2 * reachOut(['left', 'right']),
+      y: Math.max(spec.wallHeightMm + hipRise, ...upright.map(part => part.heightMm)),
+      z: depthMm + 2 * reachOut(['front', 'back']),
+    },
+  };
+};
@@ -0,0 +1,81 @@
+import type { AccessoryKind, HouseSpec, Opening, WallSide } from '../types';
+
+const WALL_SIDES: WallSide[] = ['front', 'back', 'left', 'right'];
+
+const ACCESSORY_DESCRIPTIONS: Record<AccessoryKind, (wall: WallSide) => string> = {
+  chimney: wall => `A square chimney stack stands against the outside of the ${wall} wall, rising above the roof.`,
+  porch: wall => `A small porch with a flat roof on two posts covers the door of the ${wall} wall.`,
+  balcony: wall => `A balcony with railings sticks out from halfway up the ${wall} wall.`,
+};
+
+const toCm = (mm: number): string => `${Math.round(mm) / 10} cm`;
+
+const describeOpening = (opening: Opening): string => {
+  const shape = opening.shape === 'rectangle' ? 'rectangular' : opening.shape === 'arch' ? 'arched' : 'round';
+  return `${shape === 'arched' ? 'an' : 'a'} ${shape} ${opening.kind} ${toCm(opening.widthMm)} wide and ${toCm(opening.heightMm)} tall, ` +
+    `${toCm(opening.offsetMm)} from the left edge and ${toCm(opening.bottomMm)} above the ground`;
+};
+
+/**
+ * Turns the structured house model into precise prose that every image and text prompt shares,
+ * so the renders, the sketch and the materials all describe the exact same house.
+ * @param spec The house model.
+ * @returns A plain-text specification of the house.
+ */
+export const describeHouseSpec = (spec: HouseSpec): string => {
+  const { footprint, roof, colors } = spec;
+  const lines: string[] = [
+    `Footprint: ${toCm(footprint.widthMm)} wide by ${toCm(footprint.depthMm)} deep, walls ${toCm(spec.wallHeightMm)} tall` +
+      ((spec.storeys ?? 1) > 1 ? `, split into ${spec.storeys} floors.` : '.'),
+    roof.type === 'flat'
+      ? `Roof: flat, made of ${roof.material}, overhanging the walls by ${toCm(roof.overhangMm)}.`
+      : `Roof: ${roof.type} roof pitched at ${roof.pitchDeg} degrees, made of ${roof.material}, overhanging the walls by ${toCm(roof.overhangMm)}.`,
+    `Colors: ${colors.walls.name} (${colors.walls.hex}) walls, ${colors.roof.name} (${colors.roof.hex}) roof, ` +
+      `${colors.trim.name} (${colors.trim.hex}) trim and a ${colors.door.name} (${colors.door.hex}) door.`,
+  ];
+
+  for (const wall of WALL_SIDES) {
+    const openings = spec.openings.filter(opening => opening.wall === wall);
+    lines.push(openings.length > 0
+      ? `The ${wall} wall has ${openings.map(describeOpening).join('; ')}.`
+      : `The ${wall} wall has no openings.`);
+  }
+
+  for (const accessory of spec.accessories ?? []) {
+    lines.push(ACCESSORY_DESCRIPTIONS[accessory.kind](accessory.wall));
+  }
+  if (spec.theme) {
+    lines.push(`Style: a ${spec.theme} house.`);
+  }
+
+  if (spec.features.length > 0) {
+    lines.push(`Decorative features: ${spec.features.map(feature => `${feature.name} (${feature.description})`).join('; ')}.`);
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Makes the whole house bigger or smaller, e.g. by 1.5 for 150%. Every length grows by the
+ * same amount, so it looks the same; the roof pitch and the sheet it is cut from don't change.
+ * @param spec The house model.
+ * @param factor How much to multiply every length by.
+ * @returns The scaled house model, rounded to whole millimetres. It may be too big or too small
+ *   to build, so check it with houseSpecSchema.
+ */
+export const scaleHouseSpec = (spec: HouseSpec, factor: number): HouseSpec => {
+  const scale = (mm: number) => Math.round(mm * factor);
+  return {
+    ...spec,
+    footprint: { widthMm: scale(spec.footprint.widthMm), depthMm: scale(spec.footprint.depthMm) },
+    wallHeightMm: scale(spec.wallHeightMm),
+    roof: { ...spec.roof, overhangMm: scale(spec.roof.overhangMm) },
+    openings: spec.openings.map(opening => ({
+      ...opening,
+      offsetMm: scale(opening.offsetMm),
+      bottomMm: scale(opening.bottomMm),
+      widthMm: Math.max(1, scale(opening.widthMm)),
+      heightMm: Math.max(1, scale(opening.heightMm)),
+    })),
+  };
+};
@@ -0,0 +1,103 @@
+import { loadSetting, saveSetting } from './settingsStore';
+import { en, type MessageKey } from './locales/en';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+
+/**
+ * The languages the app speaks. Every message a child reads comes from the catalogs in
+ * services/locales, looked up by key, with `{name}` placeholders filled in. The house model
+ * itself never changes language: wall sides, roof types and the like stay the same English words
+ * in every language, and only their names are translated when they are shown.
+ */
+
+export type { MessageKey };
+
+export type Locale = 'en' | 'es' | 'fr';
+
+export interface LocaleInfo {
+  /** The language's own name, for the picker. */
+  label: string;
+  /** The language's name in English, for prompts. */
+  englishName: string;
+  /** The language speech is listened for and spoken in. */
+  speechLang: string;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { label: 'English', englishName: 'English', speechLang: 'en-US' },
+  es: { label: 'Español', englishName: 'Spanish', speechLang: 'es-ES' },
+  fr: { label: 'Français', englishName: 'French', speechLang: 'fr-FR' },
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es, fr };
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Looks up a message in one language.
+ */
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+/**
+ * Looks up a message and fills in its placeholders.
+ * @param locale The language.
+ * @param key The message.
+ * @param params The values of its `{name}` placeholders. Placeholders without a value are left as they are.
+ * @returns The message.
+ */
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string =>
+  CATALOGS[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+
+/**
+ * @param locale The language.
+ * @returns A function that looks up messages in that language.
+ */
+export const translator = (locale: Locale): Translate => (key, params) => translate(locale, key, params);
+
+/**
+ * Translates a name that is also data, such as a swatch colour or a view label. Names without
+ * a translation (a colour the model made up) are shown as they are.
+ * @param locale The language.
+ * @param group What kind of name it is.
+ * @param name The name, as it is stored.
+ * @returns The name in that language.
+ */
+export const translateName = (locale: Locale, group: 'color' | 'asset' | 'part' | 'partNote' | 'material' | 'paper' | 'unit' | 'catalog', name: string): string => {
+  const key = `${group}.${name}`;
+  return key in CATALOGS[locale] ? CATALOGS[locale][key as MessageKey] : name;
+};
+
+/**
+ * Translates a cutting list part's label, such as "Left wall (gable end)" or "Porch post (front
+ * wall)". The part's name and the note in brackets are translated separately.
+ * @param locale The language.
+ * @param label The label, as the cutting list stores it.
+ * @returns The label in that language.
+ */
+export const translatePartLabel = (locale: Locale, label: string): string => {
+  const [, name, note] = /^(.*?)(?: \((.+)\))?$/.exec(label) ?? [label, label];
+  const translated = translateName(locale, 'part', name);
+  return note ? `${translated} (${translateName(locale, 'partNote', note)})` : translated;
+};
+
+const LOCALE_KEY = 'locale';
+
+/**
+ * Loads the language chosen last time. Without a choice, the browser's language is used if the
+ * app speaks it.
+ * @returns The language to show the app in.
+ */
+export const loadLocale = async (): Promise<Locale> => {
+  try {
+    const saved = await loadSetting<Locale>(LOCALE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch (e) {
+    console.warn('Could not load the language', e);
+  }
+  const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2).toLowerCase() : '';
+  return isLocale(browser) ? browser : 'en';
+};
+
+export const saveLocale = (locale: Locale): Promise<void> => saveSetting(LOCALE_KEY, locale);
@@ -0,0 +1,80 @@
+/**
+ * Small promise helpers around IndexedDB, shared by everything the app keeps in the browser.
+ */
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ * @param request The request to wait for.
+ * @returns The result of the request.
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export interface ObjectStoreAccess {
+  /**
+   * Runs one request against the object store in its own transaction.
+   * @param mode 'readonly' or 'readwrite'.
+   * @param action Makes the request.
+   * @returns The result, once the transaction has been committed.
+   */
+  run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T>;
+}
+
+export interface DatabaseAccess {
+  /**
+   * @param storeName One of the object stores created by the database's upgrade.
+   * @returns Access to that object store.
+   */
+  store(storeName: string): ObjectStoreAccess;
+}
+
+/**
+ * Gives access to a database. It is opened (and on first use, created by `upgrade`) lazily,
+ * and the connection is shared by all of its object stores.
+ * @param dbName The name of the database.
+ * @param version The schema version; bump it together with `upgrade`.
+ * @param upgrade Creates the object stores and indexes.
+ * @returns Access to the database.
+ */
+export const openIndexedDb = (dbName: string, version: number, upgrade: (db: IDBDatabase) => void): DatabaseAccess => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('Saving is not supported in this browser.'));
+          return;
+        }
+        const request = indexedDB.open(dbName, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed, e.g. in a private window.
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  return {
+    store: storeName => ({
+      async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db = await openDatabase();
+        const transaction = db.transaction(storeName, mode);
+        const completed = new Promise<void>((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+          transaction.onabort = () => reject(transaction.error);
+        });
+        // Only report success once the write has actually been committed. Both are awaited
+        // together, so a transaction that fails with its request isn't left unhandled.
+        const [result] = await Promise.all([requestToPromise(action(transaction.objectStore(storeName))), completed]);
+        return result;
+      },
+    }),
+  };
+};
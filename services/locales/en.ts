@@ -0,0 +1,722 @@
+/**
+ * The English messages. This catalog is the reference: every other language must have each of
+ * its messages, with the same `{placeholders}`.
+ */
+export const en = {
+  // --- App ---
+  'app.promptHeading': 'What does your dream mini house look like?',
+  'app.promptHint': 'Describe it below! For example, "a cozy mushroom cottage with a round door" or "a futuristic space station house". Or show us your drawing, or a photo of a real house.',
+  'app.empty': 'Your amazing designs will appear here!',
+  'app.tabs': 'Model, render, sketch, build steps and saved house views',
+  'app.tab.model': '3D Model',
+  'app.tab.render': 'Dream Render',
+  'app.tab.sketch': 'Assembly Sketch',
+  'app.tab.build': 'How to Build',
+  'app.tab.gallery': 'My Houses',
+  'app.chat': 'Chat',
+  'app.chatLabel': 'Chat about the design',
+  'app.edit': 'Edit Design',
+  'app.compare': 'Compare',
+
+  // --- Header ---
+  'header.units': 'Measure in',
+  'header.language': 'Language',
+  'units.metric': 'Millimetres',
+  'units.imperial': 'Inches',
+  'units.range': '{min} to {max} {unit}',
+
+  // --- Idea box ---
+  'prompt.placeholder': 'a fairy cottage made of candy...',
+  'prompt.placeholderWithPicture': "Tell us more about your picture (you don't have to)...",
+  'prompt.listening': 'Listening...',
+  'prompt.label': 'Describe your dream mini house',
+  'prompt.startRecording': 'Start voice recording',
+  'prompt.stopRecording': 'Stop voice recording',
+  'prompt.undo': 'Undo the last change',
+  'prompt.redo': 'Redo the change',
+  'prompt.createLabel': 'Create house design',
+  'prompt.create': 'Create!',
+  'prompt.building': 'Building...',
+  'prompt.orPicture': 'Or start from a picture:',
+  'prompt.upload': 'Upload a picture',
+  'prompt.takePhoto': 'Take a photo',
+  'prompt.pictureIs': 'The picture is',
+  'prompt.readingPicture': 'Getting your picture ready...',
+  'prompt.pictureAlt': '{kind} to design from',
+  'prompt.removePicture': 'Remove picture',
+  'prompt.pictureFailed': "That picture couldn't be opened.",
+  'prompt.freshIdeas': "Surprise me with new ideas, even for an idea I've tried before",
+  'sourceImage.drawing.label': 'My drawing',
+  'sourceImage.drawing.description': 'A picture you drew of your dream house.',
+  'sourceImage.photo.label': 'A real house',
+  'sourceImage.photo.description': 'A photo of a house you want a mini copy of.',
+
+  // --- Progress ---
+  'progress.planning': 'Dreaming up the plan...',
+  'progress.count': '{finished} of {total} done',
+  'progress.stop': 'Stop',
+  'progress.label': 'Design progress',
+  'progress.done': ': done',
+  'progress.failed': ': failed, you can retry it afterwards',
+  'progress.pending': ': in progress',
+  'narration.title': 'Reading aloud',
+  'narration.voice': 'Voice',
+  'narration.defaultVoice': 'The usual voice',
+  'narration.speed': 'Speed',
+  'narration.rate.slow': 'Slow',
+  'narration.rate.normal': 'Normal',
+  'narration.rate.fast': 'Fast',
+  'narration.announce': 'Read out progress and problems',
+  'narration.try': 'Try it',
+  'narration.sample': 'Hi! I can read your house to you.',
+  'narration.read': 'Read it to me',
+  'narration.stop': 'Stop reading',
+  'narration.keys': 'Up and down arrows skip between rows. Escape stops.',
+  'narration.part': '{id}, {label}: {quantity} of {material}, {size}, {thickness} thick.',
+  'narration.partCutout': 'It has a cut-out for a door or window.',
+  'narration.partCutouts': 'It has {count} cut-outs for doors and windows.',
+  'narration.material': '{name}: {quantity}, {size}.',
+  'narration.by': 'by',
+  'asset.Front view': 'Front view',
+  'asset.Back view': 'Back view',
+  'asset.Left side view': 'Left side view',
+  'asset.Right side view': 'Right side view',
+  'asset.Top-down view': 'Top-down view',
+  'asset.sketch': 'Assembly sketch',
+  'asset.cuttingList': 'Cutting list',
+
+  // --- Grown-ups and safety ---
+  'parental.title': 'For grown-ups',
+  'parental.setPinIntro': 'Choose a PIN, so only grown-ups can change these settings.',
+  'parental.pin': 'PIN (4 to 8 digits)',
+  'parental.confirmPin': 'The same PIN again',
+  'parental.setPin': 'Save PIN',
+  'parental.pinInvalid': 'The PIN must be 4 to 8 digits.',
+  'parental.pinMismatch': "The two PINs aren't the same.",
+  'parental.enterPin': 'Enter the PIN',
+  'parental.unlock': 'Unlock',
+  'parental.wrongPin': "That PIN isn't right. {left} tries left.",
+  'parental.lockedOut': 'Too many wrong tries. Wait a minute, then try again.',
+  'parental.strictness': 'Content checks',
+  'parental.strictness.relaxed': 'Relaxed',
+  'parental.strictness.relaxed.help': 'Spooky and play-fighting ideas are fine. Anything else unsuitable is softened or stopped.',
+  'parental.strictness.standard': 'Standard',
+  'parental.strictness.standard.help': 'Scary ideas are softened into friendly ones, like a skull into a pumpkin.',
+  'parental.strictness.strict': 'Strict',
+  'parental.strictness.strict.help': 'For young children: swords and cannons are softened too, and weapons are stopped.',
+  'parental.dailyLimit': 'Limit new designs and edits to',
+  'parental.dailyLimitLabel': 'Designs a day',
+  'parental.perDay': 'a day',
+  'parental.usedToday': 'Made today: {count}',
+  'parental.allowSharing': 'Allow sharing designs',
+  'parental.allowCraftKnife': 'Allow craft-knife steps',
+  'parental.craftKnifeHelp': 'When off, houses are designed for scissors and windows are painted on.',
+  'parental.changePin': 'Change PIN',
+  'parental.lock': 'Lock',
+  'parental.forgotPin': "Forgot the PIN? Clearing this site's data in the browser removes it, but also every saved house.",
+  'moderation.softened': 'We made your idea a little friendlier: "{text}"',
+  'share.button': 'Share my house',
+
+  // --- Renders ---
+  'display.loading': 'Dreaming up the render...',
+  'display.title': 'Your Dream Render!',
+  'display.madeFrom': 'Made from: {kind}',
+  'display.sourceAlt': '{kind}, which the house was made from',
+  'display.viewAlt': 'Generated miniature house design - {view}',
+  'display.viewMissing': "The {view} didn't come out this time.",
+  'display.tryAgain': 'Try this view again',
+  'display.redo': 'Redo this view',
+  'display.views': 'Image view controls',
+  'display.show': 'View {view}',
+  'display.drawingLabel': '{view}, still drawing',
+  'display.failedLabel': '{view} failed',
+  'display.failedRetryLabel': '{view} failed, select to retry',
+  'display.thumbnail': 'Thumbnail of {view}',
+  'display.drawing': 'Drawing...',
+  'display.failed': 'Failed',
+  'display.failedRetry': 'Failed, retry',
+
+  // --- Cutting list ---
+  'list.loading': 'Calculating the materials...',
+  'list.missing': "The cutting list didn't come out this time.",
+  'list.tryAgain': 'Try the cutting list again',
+  'list.redo': 'Redo the cutting list',
+  'list.incomplete': "This list isn't quite complete:",
+  'list.redoHint': 'Redoing the cutting list usually fills in the gaps.',
+  'list.tabs': 'Materials, cut layout and shopping list',
+  'list.tab.materials': 'Materials',
+  'list.tab.layout': 'Cut Layout',
+  'list.tab.shopping': 'Shopping',
+  'list.caption': 'Materials and cutting list for {name}',
+  'list.part': 'Part',
+  'list.material': 'Material',
+  'list.quantity': 'Quantity',
+  'list.size': 'Size',
+  'list.thick': '{thickness} thick',
+  'list.cutout.door': 'door cut-out {size}',
+  'list.cutout.window': 'window cut-out {size}',
+
+  // --- Cut layout ---
+  'layout.sheet': 'Sheet size',
+  'layout.kerf': 'Cut width (mm)',
+  'layout.kerfAbout': 'About {length}.',
+  'layout.grain': 'Grain direction',
+  'layout.grain.any': 'Any (rotate freely)',
+  'layout.grain.vertical': 'Along the sheet height',
+  'layout.grain.horizontal': 'Across the sheet width',
+  'layout.sheetNeeded': 'You need 1 sheet · about {waste}% left over as scraps',
+  'layout.sheetsNeeded': 'You need {count} sheets · about {waste}% left over as scraps',
+  'layout.tooBig': 'Too big for this sheet: {parts}. Try a larger sheet size.',
+  'layout.sheetPieces': 'Sheet {number}: {parts}',
+  'layout.sheetNumber': 'Sheet {number}',
+  'paper.A4': 'A4',
+  'paper.A3': 'A3',
+  'paper.US Letter': 'US Letter',
+  'paper.Large foam board': 'Large foam board',
+
+  // --- Build steps ---
+  'step.glue': 'white craft glue',
+  'step.glueGun': 'A low-temperature glue gun is faster on foam board, but only with a grown-up, and never the hot kind: it melts the foam.',
+  'step.part': 'the {label} ({id})',
+  'step.edge.bottom': 'bottom',
+  'step.edge.top': 'top',
+  'step.edge.left': 'left-hand',
+  'step.edge.right': 'right-hand',
+  'step.join': 'Glue the {edge} tab of {part} to {other}.',
+  'step.cut.title': 'Cut out the parts',
+  'step.cut.knife': "Cut out all {count} pieces along the solid black lines of the templates, including the doors and windows. Write each part's number on the inside so you can find it later.",
+  'step.cut.knifeFoam': 'Foam board needs a sharp craft knife: this part is a job for a grown-up, on a cutting mat.',
+  'step.cut.knifeSafety': 'Ask a grown-up to cut the doors and windows with a craft knife on a cutting mat. Safety scissors are fine for the outside edges.',
+  'step.cut.knifeTip': 'Cut the doors and windows while the piece is still flat: it is much harder once the walls are standing.',
+  'step.cut.scissors': "Cut out all {count} pieces along the outside black lines of the templates with safety scissors. Cut doors in from the bottom edge of their wall, but leave the windows in: draw or paint them on instead. Write each part's number on the inside so you can find it later.",
+  'step.cut.scissorsFoam': "Scissors can't cut foam board. Ask a grown-up to cut these parts for you, or make the house from cardboard instead.",
+  'step.cut.scissorsSafety': 'Keep the scissors closed when you pass them to someone, and cut away from your fingers.',
+  'step.cut.scissorsTip': 'Paint the windows on while the piece is still flat: it is much easier than once the walls are standing.',
+  'step.hold': 'Hold each joint still for {seconds} seconds while the glue grabs.',
+  'step.fold.title': 'Fold the glue tabs',
+  'step.fold.instruction': 'Lay a ruler along each dashed blue line and run a blunt pencil or an empty pen along it, then fold the tab inwards.',
+  'step.fold.tip': 'A scored line folds neatly; a crease without scoring can tear the surface.',
+  'step.front.title': 'Stand the front wall on the base',
+  'step.front.instruction': 'Stand the front wall along the front edge of the base. Put a thin line of {glue} on each tab before you press it in place.',
+  'step.sides.title': 'Add the side walls',
+  'step.sides.instruction': 'Glue the left and right walls onto the base, tucking their front edges in behind the front wall.',
+  'step.sides.tip': 'Check that the walls stand straight by looking at them from above.',
+  'step.floor.title': 'Put in the upper floor',
+  'step.floors.title': 'Put in the upper floors',
+  'step.floor.instruction': 'Slide the upper floor in from the back and glue it level between the side walls, halfway up the walls.',
+  'step.floors.instruction': 'Slide each upper floor in from the back and glue it level between the side walls, spacing them evenly up the walls.',
+  'step.floor.tip': 'Mark the height on both side walls first, so the floor sits level.',
+  'step.back.title': 'Close the box with the back wall',
+  'step.back.instruction': 'Glue the back wall onto the base so it holds the side walls in place from behind.',
+  'step.back.drying': 'Let the walls dry for {minutes} minutes before you put the roof on.',
+  'step.hip.long.title': 'Put on the long roof panels',
+  'step.hip.long.instruction': 'Glue the two long roof panels onto the top tabs of the walls, leaning them together so they meet along the ridge.',
+  'step.hip.ends.title': 'Close the roof with the end panels',
+  'step.hip.ends.instruction': 'Glue the two triangle panels onto the ends, between the long panels.',
+  'step.hip.tape': 'Tape along the four sloping seams where the roof panels meet, so no gaps show.',
+  'step.roof.title': 'Put on the roof',
+  'step.roof.gable': 'Glue the two roof panels onto the top tabs of the front and back walls, leaning them together so they meet along the ridge.',
+  'step.roof.shed': 'Glue the roof panel onto the top tabs, sloping down from the tall back wall to the front.',
+  'step.roof.flat': 'Glue the roof flat onto the top tabs of the walls, with the same overhang all the way round.',
+  'step.roof.slopingTops': 'Put a thin line of glue along the sloping top edges of the side walls too, so the roof rests on them.',
+  'step.roof.tape': 'Tape along the ridge where the two roof panels meet.',
+  'step.roof.drying': 'Let the roof dry for {minutes} minutes before you turn the house over.',
+  'step.accessory.title': 'Build {accessory} on the {wall} wall',
+  'step.accessory.chimney': 'Glue the two chimney sides to the back of the chimney front to make a box with no back, then stand it against the wall with its open side to the house.',
+  'step.accessory.porch': 'Lay the porch floor against the wall, glue a post upright at each outer corner, then glue the porch roof on top of the posts.',
+  'step.accessory.balcony': 'Glue the three rails on top of the balcony floor, with the long one at the front, then glue the floor flat against the wall, {height}.',
+  'step.balcony.upper': 'level with the upper floor',
+  'step.balcony.low': 'a little over halfway up',
+  'step.accessory.join': 'Glue {accessory} to the outside of the {wall} wall.',
+  'step.features.title': 'Add the finishing touches',
+  'step.features.instruction': 'Decorate your house: {features}.',
+  'step.features.tip': "Paint or colour the house before adding small details, so you don't knock them off.",
+  'step.describe': 'Step {number} of {total}: {title}.',
+  'step.careful': 'Be careful: {text}',
+
+  // --- Build guide ---
+  'guide.title': 'How to Build It',
+  'guide.steps': 'Build steps',
+  'guide.stepButton': 'Step {number}: {title}',
+  'guide.step': 'Step {number} of {total}: {title}',
+  'guide.diagram': 'Drawing of the house after this step: {title}. The new parts are yellow.',
+  'guide.parts': 'Parts you need:',
+  'guide.note.safety': 'Safety',
+  'guide.note.drying': 'Drying',
+  'guide.note.tip': 'Tip',
+  'guide.previous': 'Previous',
+  'guide.next': 'Next',
+  'guide.readAloud': 'Read aloud',
+
+  // --- Printable templates ---
+  'template.download': 'Download printable cutting templates',
+  'template.printable': 'Printable templates',
+  'template.pdf': 'Download PDF',
+  'template.svg': 'Download SVG',
+  'template.finishedSize': 'Finished size: {size} base, walls {height} tall, {roof} roof.',
+  'template.actualSize': 'Print at 100% / "Actual size". Do not "fit to page".',
+  'template.checkSquare': 'Check: this square must measure exactly {length} on each side.',
+  'template.legend.cutKnife': 'Cut along solid black lines (ask an adult to help with a craft knife).',
+  'template.legend.cutScissors': 'Cut along the outside black lines with safety scissors. Paint the windows on instead of cutting them out.',
+  'template.legend.score': 'Score and fold along dashed blue lines. Tabs marked "glue" fold inward.',
+  'template.legend.guide': 'Grey dotted lines and crosses are only for lining up pages. Do not cut them.',
+  'template.partsIndex': 'Parts in this pack:',
+  'template.glue': 'glue',
+  'template.partSize': '{size} {material}',
+  'template.partSizeCopy': '{size} {material} - copy {copy} of {quantity}',
+  'template.overlap': 'lay over tile {tile} up to here',
+  'template.partCopy': '{part} (copy {copy})',
+  'template.tile': '{part} - tile {tile} of {last}',
+  'template.stepParts': 'Parts: {parts}',
+  'template.note.safety': 'SAFETY: {text}',
+  'template.note.drying': 'Drying: {text}',
+  'template.note.tip': 'Tip: {text}',
+  'template.page.parts': 'Parts',
+  'template.page.steps': 'How to build',
+  'template.page.cover': 'Cover',
+  'template.header': '{name} - {title} - page {page} of {pages}',
+  'template.svgHeader': '{name} - cutting templates at 1:1 scale (units: mm)',
+
+  // --- Versions ---
+  'version.original': 'Original design',
+  'version.edited': 'Edited design',
+  'version.number': 'Version {number}',
+  'version.label': 'Version {number}: {summary}',
+  'diff.material': 'material {before} → {after}',
+  'diff.size': 'size {before} → {after}',
+  'diff.quantity': 'quantity {before} → {after}',
+  'diff.door': '{count} door',
+  'diff.doors': '{count} doors',
+  'diff.window': '{count} window',
+  'diff.windows': '{count} windows',
+  'diff.moved': 'doors or windows moved',
+  'compare.title': 'Compare Versions',
+  'compare.done': 'Done',
+  'compare.before': 'This one...',
+  'compare.after': '...or this one?',
+  'compare.keep': 'Keep version {number}',
+  'compare.confirmKeep': 'Keep {version} and throw away version {discard}?',
+  'compare.same': 'Pick two different versions to see what changed.',
+  'compare.sideBySide': 'Side by side',
+  'compare.picture': '{view} of version {number}',
+  'compare.noPicture': 'No picture of this side',
+  'compare.description': 'What the description says',
+  'compare.green': 'Green',
+  'compare.greenWords': 'words are new in version {number};',
+  'compare.red': 'red',
+  'compare.redWords': 'words were only in version {number}.',
+  'compare.whatToCut': 'What to cut',
+  'compare.caption': 'Cutting list changes from version {before} to version {after}',
+  'compare.whatChanged': 'What changed',
+  'compare.pieces': 'Pieces',
+  'compare.status.same': 'No change',
+  'compare.status.added': 'New part',
+  'compare.status.removed': 'Gone',
+  'compare.status.changed': 'Changed',
+  'timeline.title': "My House's Story",
+  'timeline.help': 'Pick any version to go back to it. Editing an older version starts a new branch.',
+  'timeline.branches': 'Other ideas tried from this house',
+  'timeline.chat': 'Agreed in a chat',
+  'timeline.inChat': 'agreed in a chat',
+  'timeline.showing': 'showing now',
+
+  // --- Building rules ---
+  'rules.title': 'Building rules',
+  'rules.heading': 'Building rules:',
+  'rules.size': 'Size',
+  'rules.sizeHelp': '{width} wide, walls {height} tall.',
+  'rules.sizeHelpRoof': '{width} wide, walls {height} tall, {max} at most with the roof.',
+  'rules.who': 'Who is building?',
+  'rules.ages': 'Ages {age}',
+  'rules.agesSummary': 'ages {age}',
+  'rules.materials': 'Materials I have',
+  'rules.tools': 'Tools',
+  'rules.knifeOff': 'A grown-up has turned the craft knife off.',
+  'rules.scissorsHelp': "Scissors can't cut foam board or windows, so windows get painted on.",
+  'rules.spendAtMost': 'Spend at most',
+  'rules.budget': 'Budget for materials',
+  'rules.upTo': 'up to {price}',
+  'rules.noBudget': 'no budget',
+  'rules.switchCurrency': 'Switch to {currency}, like the prices',
+  'rules.or': 'or',
+  'rules.broken': 'This design breaks your building rules:',
+  'rules.fix': 'Make it keep to the rules',
+  'rules.wide': 'The house is {value} wide, but the "{size}" size is {range} wide.',
+  'rules.deep': 'The house is {value} deep, but the "{size}" size is {range} deep.',
+  'rules.tall': 'The house is {value} tall at the walls, but the "{size}" size is {range} tall at the walls.',
+  'rules.totalHeight': 'The house is {value} tall with its roof, but the "{size}" size is at most {max}.',
+  'rules.material': "The house is cut from {material}, which isn't to hand; use {materials}.",
+  'rules.foamScissors': 'Foam board needs a craft knife, but only scissors are allowed.',
+  'rules.window': 'The window needs a craft knife to cut out, but only scissors are allowed; paint windows on instead.',
+  'rules.windows': 'The {count} windows need a craft knife to cut out, but only scissors are allowed; paint windows on instead.',
+  'rules.openings': 'The house has {count} doors and windows, but a builder aged {age} should have at most {max}.',
+  'rules.tiny': 'One door or window is smaller than {min} across, too fiddly for a builder aged {age}.',
+  'rules.tinyMany': '{count} doors and windows are smaller than {min} across, too fiddly for a builder aged {age}.',
+  'rules.roof': 'A {roof} roof is too fiddly for a builder aged {age}; use a {roofs} roof.',
+  'rules.currency': "The budget is in {budget} but the prices are in {prices}, so it can't be checked.",
+  'rules.overBudget': 'The materials cost {total}, more than the budget of {budget}.',
+  'size.palm': 'Fits in your hand',
+  'size.tabletop': 'Tabletop',
+  'size.shelf': 'Fits on a shelf',
+  'size.dollhouse': '1:12 dollhouse',
+  'age.4-6': '4 to 6',
+  'age.7-9': '7 to 9',
+  'age.10-12': '10 to 12',
+  'age.13+': '13 and up',
+  'tools.scissors': 'Scissors only',
+  'tools.craft-knife': "Craft knife, with a grown-up's help",
+  'tools.scissors.short': 'Scissors only',
+  'tools.craft-knife.short': 'Craft knife',
+
+  // --- Shopping list ---
+  'shop.loading': 'Looking up prices...',
+  'shop.caption': 'What to buy for {name}',
+  'shop.item': 'Item',
+  'shop.need': 'Need',
+  'shop.have': 'I have',
+  'shop.buy': 'Buy',
+  'shop.cost': 'Cost',
+  'shop.total': 'Total',
+  'shop.haveLabel': 'How many {units} of {item} you already have',
+  'shop.nothing': 'Nothing',
+  'shop.pack': '{count} pack',
+  'shop.packs': '{count} packs',
+  'shop.perPack': '{count} per pack',
+  'shop.finishEditing': 'Finish editing the prices to see the total.',
+  'shop.unmatched': 'Not priced, so not in the total:',
+  'shop.downloads': 'Download the shopping list',
+  'shop.csv': 'Download CSV',
+  'shop.paper': 'Checklist paper',
+  'shop.checklist': 'Download checklist',
+  'shop.editPrices': 'Edit prices',
+  'shop.doneEditing': 'Done editing prices',
+  'shop.notCatalog': "That file isn't a materials catalog: {issues}.",
+  'shop.notJson': "That file couldn't be read as JSON.",
+  'shop.currency': 'Currency',
+  'shop.currencyHelp': 'Three letters, e.g. USD, EUR or GBP.',
+  'shop.catalog': 'Materials catalog',
+  'shop.packSize': 'Pack size',
+  'shop.unit': 'Unit',
+  'shop.packPrice': 'Pack price',
+  'shop.nameOf': 'Name of {item}',
+  'shop.packSizeOf': 'Pack size of {item}',
+  'shop.unitOf': 'Unit of {item}',
+  'shop.packPriceOf': 'Pack price of {item}',
+  'shop.reset': 'Reset to usual prices',
+  'shop.export': 'Export catalog',
+  'shop.import': 'Import catalog',
+  'shop.onSheets': '{parts} on {sheets}',
+  'shop.forJoints': 'for every joint',
+  'shop.forRoof': 'for the roof seams',
+  'shop.forItems': 'for {items}',
+  'shop.noSheets': "{name} sheets: the catalog doesn't sell any.",
+  'shop.tooBig': 'Too big for any {name} sheet in the catalog: {parts}.',
+  'shop.csv.needed': 'Needed',
+  'shop.csv.have': 'Already have',
+  'shop.csv.toBuy': 'To buy',
+  'shop.csv.packs': 'Packs',
+  'shop.csv.packPrice': 'Pack price ({currency})',
+  'shop.csv.cost': 'Cost ({currency})',
+  'shop.csv.for': 'For',
+  'shop.pdf.title': 'Shopping list: {name}',
+  'shop.pdf.haveAll': 'You already have everything you need!',
+  'shop.pdf.packsOf': '{packs} of {item} ({size} each)',
+  'shop.pdf.need': 'Need {amount} {reason}',
+  'shop.pdf.needHave': 'Need {amount} {reason}, you have {owned} already',
+  'shop.pdf.total': 'Total: {amount}',
+  'unit.part': 'part',
+  'unit.parts': 'parts',
+  'unit.sheet': 'sheet',
+  'unit.sheets': 'sheets',
+  'unit.bottle': 'bottle',
+  'unit.bottles': 'bottles',
+  'unit.roll': 'roll',
+  'unit.rolls': 'rolls',
+  'unit.stick': 'stick',
+  'unit.sticks': 'sticks',
+  'catalog.Craft card, A4': 'Craft card, A4',
+  'catalog.Craft card, A3': 'Craft card, A3',
+  'catalog.Foam board, A3': 'Foam board, A3',
+  'catalog.Foam board, 20 x 30 in': 'Foam board, 20 x 30 in',
+  'catalog.White craft glue, 120 ml': 'White craft glue, 120 ml',
+  'catalog.Masking tape': 'Masking tape',
+  'catalog.Craft sticks': 'Craft sticks',
+
+  // --- Saved houses, resizing and the sketch ---
+  'gallery.heading': 'My Saved Houses',
+  'gallery.loadFailed': "We couldn't open your saved designs in this browser.",
+  'gallery.empty': 'Every house you create is saved here automatically.',
+  'gallery.openNamed': 'Open {name}',
+  'gallery.newName': 'New name',
+  'gallery.save': 'Save',
+  'gallery.created': 'Created {date}',
+  'gallery.changed': 'changed {date}',
+  'gallery.open': 'Open',
+  'gallery.rename': 'Rename',
+  'gallery.duplicate': 'Duplicate',
+  'gallery.delete': 'Delete',
+  'gallery.confirmDelete': "Delete \"{name}\"? This can't be undone.",
+  'scale.label': 'Resize the whole house',
+  'scale.resize': 'Resize',
+  'scale.now': 'Now {size} with walls {height} tall.',
+  'scale.would': 'It would be {size} with walls {height} tall.',
+  'scale.tooBig': 'At {percent}% the house would be too big to build from card.',
+  'scale.tooSmall': 'At {percent}% the house would be too small to build from card.',
+  'sketch.drafting': 'Drafting the blueprints...',
+  'sketch.failed': "The sketch didn't come out this time.",
+  'sketch.retry': 'Try the sketch again',
+  'sketch.alt': 'Generated assembly sketch with measurements',
+  'sketch.redo': 'Redo the sketch',
+
+  // --- 3D model ---
+  'model.planning': 'Working out the plan...',
+  'model.heading': 'Your 3D House Model!',
+  'model.help': 'Drag to spin, scroll or pinch to zoom, and right-drag or use the arrow keys to slide it around.',
+  'model.builtFrom': "Built from the {count} pieces you'll cut: {size} with a {roof} roof.",
+  'model.pullApart': 'Pull apart',
+  'model.resetView': 'Reset view',
+  'model.noWebGl': "This browser can't show 3D models. Try the Dream Render or the Assembly Sketch instead!",
+  'spinner.working': 'Working our magic...',
+
+  // --- Errors ---
+  'error.rateLimit.title': 'Whoa, so many ideas at once!',
+  'error.rateLimit.message': 'The Dream Builder needs a tiny breather before it can draw again.',
+  'error.rateLimit.action': 'Try again',
+  'error.quotaExhausted.title': 'The Dream Builder is out of creative energy',
+  'error.quotaExhausted.message': "It has made so many houses today that it needs to rest. Come back later, or visit the houses you've already made!",
+  'error.quotaExhausted.action': 'See my houses',
+  'error.safetyBlocked.title': "Let's try a different idea",
+  'error.safetyBlocked.message': "Your idea is super creative, but the Dream Builder couldn't draw it. Could you describe your house in a different way?",
+  'error.safetyBlocked.action': 'Change my idea',
+  'error.invalidKey.title': "The Dream Builder isn't plugged in",
+  'error.invalidKey.message': 'Please ask a grown-up to check the API key on the design server.',
+  'error.invalidKey.action': 'OK',
+  'error.network.title': 'We lost the connection',
+  'error.network.message': "The Dream Builder couldn't be reached. Check that you're online, then try again.",
+  'error.network.action': 'Try again',
+  'error.malformedResponse.title': 'The blueprint came out smudged',
+  'error.malformedResponse.message': 'The Dream Builder got a bit muddled. Asking again usually fixes it.',
+  'error.malformedResponse.action': 'Try again',
+  'error.dailyLimit.title': "That's all the houses for today",
+  'error.dailyLimit.message': "You've made lots of designs today! Come back tomorrow for more, or visit the houses you've already made.",
+  'error.dailyLimit.action': 'See my houses',
+  'error.dailyLimit.reached': 'The limit of {limit} designs a day has been reached.',
+  'error.partialResult.title': 'Almost there!',
+  'error.partialResult.message': "Most of your house is ready, but a few parts didn't come out.",
+  'error.partialResult.action': 'Redo the missing parts',
+  'error.partialResult.missing': '{count} parts of the design could not be made.',
+  'error.partialResult.missingOne': '1 part of the design could not be made.',
+  'error.unknown.title': 'Oops!',
+  'error.unknown.message': 'The blueprint machine had a little hiccup. Please try again.',
+  'error.unknown.action': 'Try again',
+  'error.missing': 'Missing {missing} of {total}: {assets}.',
+  'error.wait': '{action} in {seconds}s',
+  'error.close': 'Close',
+
+  // --- Edit form ---
+  'edit.title': 'Edit Your Design',
+  'edit.style': 'Style',
+  'edit.colours': 'Colours',
+  'edit.colourOf': '{role} colour',
+  'edit.roof': 'Roof',
+  'edit.roofShape': 'Roof shape',
+  'edit.steepness': 'Steepness: {pitch} degrees',
+  'edit.madeOf': 'Made of',
+  'edit.useIt': 'Use it',
+  'edit.openings': 'Doors and windows',
+  'edit.noOpenings': 'There are no doors or windows yet.',
+  'edit.move': 'Move',
+  'edit.remove': 'Remove',
+  'edit.wall': 'Wall',
+  'edit.fromLeft': 'From the left',
+  'edit.upFromGround': 'Up from the ground',
+  'edit.moveHere': 'Move it here',
+  'edit.addA': 'Add a',
+  'edit.window': 'Window',
+  'edit.door': 'Door',
+  'edit.shape': 'Shape',
+  'edit.onWall': 'On the wall',
+  'edit.width': 'Width',
+  'edit.height': 'Height',
+  'edit.depth': 'Depth',
+  'edit.addIt': 'Add it',
+  'edit.size': 'Size and floors',
+  'edit.resize': 'Resize the base',
+  'edit.oneFloor': 'One floor, each {height} tall.',
+  'edit.floors': '{count} floors, each {height} tall.',
+  'edit.addFloor': 'Add a floor',
+  'edit.extras': 'Extras',
+  'edit.accessoryWall': 'Wall for the {name}',
+  'edit.wallOption': '{label} wall',
+  'edit.takeAway': 'Take it away',
+  'edit.anythingElse': 'Anything else?',
+  'edit.requestPlaceholder': 'add a secret trap door!',
+  'edit.changes': 'Your changes',
+  'edit.undo': 'undo',
+  'edit.undoLabel': 'Undo change {number}',
+  'edit.problems': "These changes won't work yet:",
+  'edit.cancel': 'Cancel',
+  'edit.updating': 'Updating...',
+  'edit.update': 'Update Design',
+
+  // --- Chat ---
+  'chat.title': 'Talk About Your House',
+  'chat.close': 'Close',
+  'chat.greeting': 'Hi! I can help you change your house. Tell me what you would like, like "make the door rounder" or "what if it had a slide?"',
+  'chat.previous': 'The chat that made this version',
+  'chat.label': 'Chat with the design helper',
+  'chat.youSaid': 'You said: ',
+  'chat.helperSaid': 'Helper said: ',
+  'chat.thinking': 'Thinking...',
+  'chat.building': 'Building...',
+  'chat.build': 'Yes, build it!',
+  'chat.orChange': 'Or tell me what to change.',
+  'chat.message': 'Your message',
+  'chat.placeholder': 'What would you like to change?',
+  'chat.listening': 'Listening... press the microphone when you are done',
+  'chat.startListening': 'Talk instead of typing',
+  'chat.stopListening': 'Stop listening',
+  'chat.send': 'Send',
+
+  // --- Parts of the house ---
+  'wall.front': 'front',
+  'wall.back': 'back',
+  'wall.left': 'left',
+  'wall.right': 'right',
+  'wall.front.label': 'Front',
+  'wall.back.label': 'Back',
+  'wall.left.label': 'Left',
+  'wall.right.label': 'Right',
+  'shape.rectangle': 'Rectangle',
+  'shape.arch': 'Arched',
+  'shape.round': 'Round',
+  'roof.gable': 'gable',
+  'roof.hip': 'hip',
+  'roof.shed': 'shed',
+  'roof.flat': 'flat',
+  'opening.door.rectangle.a': 'a rectangular door',
+  'opening.door.rectangle.the': 'the rectangular door',
+  'opening.door.arch.a': 'an arched door',
+  'opening.door.arch.the': 'the arched door',
+  'opening.door.round.a': 'a round door',
+  'opening.door.round.the': 'the round door',
+  'opening.window.rectangle.a': 'a rectangular window',
+  'opening.window.rectangle.the': 'the rectangular window',
+  'opening.window.arch.a': 'an arched window',
+  'opening.window.arch.the': 'the arched window',
+  'opening.window.round.a': 'a round window',
+  'opening.window.round.the': 'the round window',
+  'opening.place': '{opening} on the {wall} wall',
+  'accessory.chimney.label': 'Chimney',
+  'accessory.chimney.description': 'A chimney stack up the outside of the wall, taller than the roof.',
+  'accessory.chimney.name': 'chimney',
+  'accessory.chimney.a': 'a chimney',
+  'accessory.chimney.the': 'the chimney',
+  'accessory.porch.label': 'Porch',
+  'accessory.porch.description': 'A little roof on two posts over the door.',
+  'accessory.porch.name': 'porch',
+  'accessory.porch.a': 'a porch',
+  'accessory.porch.the': 'the porch',
+  'accessory.balcony.label': 'Balcony',
+  'accessory.balcony.description': 'A balcony with railings, halfway up the wall.',
+  'accessory.balcony.name': 'balcony',
+  'accessory.balcony.a': 'a balcony',
+  'accessory.balcony.the': 'the balcony',
+  'theme.classic.label': 'Classic',
+  'theme.classic.description': 'A traditional family house with a tiled roof.',
+  'theme.classic.a': 'a classic house',
+  'theme.cottage.label': 'Cottage',
+  'theme.cottage.description': 'A cosy country cottage with a thatched roof.',
+  'theme.cottage.a': 'a cottage house',
+  'theme.modern.label': 'Modern',
+  'theme.modern.description': 'Clean white walls, dark panels and one bright door.',
+  'theme.modern.a': 'a modern house',
+  'theme.castle.label': 'Castle',
+  'theme.castle.description': 'Stone walls and a royal blue slate roof.',
+  'theme.castle.a': 'a castle house',
+  'theme.candy.label': 'Candy',
+  'theme.candy.description': 'A gingerbread treat with a chocolate roof.',
+  'theme.candy.a': 'a candy house',
+  'theme.spooky.label': 'Spooky',
+  'theme.spooky.description': 'A haunted house for Halloween.',
+  'theme.spooky.a': 'a spooky house',
+  'colorRole.walls': 'Walls',
+  'colorRole.walls.the': 'the walls',
+  'colorRole.roof': 'Roof',
+  'colorRole.roof.the': 'the roof',
+  'colorRole.trim': 'Trim',
+  'colorRole.trim.the': 'the trim',
+  'colorRole.door': 'Door',
+  'colorRole.door.the': 'the door',
+  'color.strawberry red': 'strawberry red',
+  'color.pumpkin orange': 'pumpkin orange',
+  'color.sunshine yellow': 'sunshine yellow',
+  'color.lime green': 'lime green',
+  'color.mint green': 'mint green',
+  'color.forest green': 'forest green',
+  'color.sky blue': 'sky blue',
+  'color.ocean blue': 'ocean blue',
+  'color.grape purple': 'grape purple',
+  'color.bubblegum pink': 'bubblegum pink',
+  'color.chocolate brown': 'chocolate brown',
+  'color.sandy beige': 'sandy beige',
+  'color.cloud white': 'cloud white',
+  'color.stone grey': 'stone grey',
+  'color.charcoal': 'charcoal',
+  'color.pitch black': 'pitch black',
+
+  // --- Parts and materials ---
+  'part.Base': 'Base',
+  'part.Front wall': 'Front wall',
+  'part.Back wall': 'Back wall',
+  'part.Left wall': 'Left wall',
+  'part.Right wall': 'Right wall',
+  'part.Upper floor': 'Upper floor',
+  'part.Roof panel': 'Roof panel',
+  'part.Roof': 'Roof',
+  'part.Chimney front': 'Chimney front',
+  'part.Chimney side': 'Chimney side',
+  'part.Porch floor': 'Porch floor',
+  'part.Porch roof': 'Porch roof',
+  'part.Porch post': 'Porch post',
+  'part.Balcony floor': 'Balcony floor',
+  'part.Balcony front rail': 'Balcony front rail',
+  'part.Balcony side rail': 'Balcony side rail',
+  'partNote.gable end': 'gable end',
+  'partNote.long side': 'long side',
+  'partNote.end': 'end',
+  'partNote.front wall': 'front wall',
+  'partNote.back wall': 'back wall',
+  'partNote.left wall': 'left wall',
+  'partNote.right wall': 'right wall',
+  'material.Cardboard': 'Cardboard',
+  'material.Foam board': 'Foam board',
+
+  // --- Describing and checking changes ---
+  'change.addOpening': 'add {opening} {size} to the {wall} wall, {offset} from its left edge',
+  'change.addWindow': 'add {opening} {size} to the {wall} wall, {offset} from its left edge and {bottom} up',
+  'change.removeOpening': 'take away {opening}',
+  'change.openingNumber': 'door or window {number}',
+  'change.moveOpening': 'move {opening} to the {wall} wall, {offset} from its left edge',
+  'change.flatRoof': 'give it a flat roof',
+  'change.roofShape': 'give it a {roof} roof pitched at {pitch} degrees',
+  'change.addStorey': 'add another floor',
+  'change.resize': 'make the base {size}',
+  'change.scale': 'resize the whole house to {percent}%',
+  'change.addAccessory': 'add {accessory} on the {wall} wall',
+  'change.removeAccessory': 'take away {accessory} on the {wall} wall',
+  'change.theme': 'make it {theme}',
+  'change.color': 'paint {role} {color}',
+  'change.roofMaterial': 'make the roof look like {material}',
+  'change.other': 'change the house',
+  'problem.noOpeningToRemove': 'There is no door or window number {number} to take away.',
+  'problem.noOpeningToMove': 'There is no door or window number {number} to move.',
+  'problem.maxStoreys': 'The house already has {max} floors, the most a card house can hold up.',
+  'problem.accessoryThere': 'There is already {accessory} on the {wall} wall.',
+  'problem.oneChimney': 'The house already has a chimney.',
+  'problem.noAccessory': 'There is no {name} on the {wall} wall to take away.',
+  'problem.tooTall': 'The walls would be {height} tall, more than {max}: too tall for card to stand up.',
+  'problem.size': 'The house would be {size}; it must be between {min} and {max} each way.',
+};
+
+export type MessageKey = keyof typeof en;
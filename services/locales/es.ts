@@ -0,0 +1,721 @@
+import type { MessageKey } from './en';
+
+/**
+ * The Spanish messages.
+ */
+export const es: Record<MessageKey, string> = {
+  // --- App ---
+  'app.promptHeading': '¿Cómo es la mini casa de tus sueños?',
+  'app.promptHint': '¡Descríbela aquí abajo! Por ejemplo, "una casita seta acogedora con una puerta redonda" o "una casa estación espacial del futuro". O enséñanos tu dibujo, o una foto de una casa de verdad.',
+  'app.empty': '¡Aquí aparecerán tus increíbles diseños!',
+  'app.tabs': 'Vistas del modelo, el render, el boceto, los pasos de montaje y las casas guardadas',
+  'app.tab.model': 'Modelo 3D',
+  'app.tab.render': 'Render de ensueño',
+  'app.tab.sketch': 'Boceto de montaje',
+  'app.tab.build': 'Cómo construirla',
+  'app.tab.gallery': 'Mis casas',
+  'app.chat': 'Charlar',
+  'app.chatLabel': 'Charlar sobre el diseño',
+  'app.edit': 'Editar diseño',
+  'app.compare': 'Comparar',
+
+  // --- Header ---
+  'header.units': 'Medir en',
+  'header.language': 'Idioma',
+  'units.metric': 'Milímetros',
+  'units.imperial': 'Pulgadas',
+  'units.range': '{min} a {max} {unit}',
+
+  // --- Idea box ---
+  'prompt.placeholder': 'una casita de hadas hecha de caramelo...',
+  'prompt.placeholderWithPicture': 'Cuéntanos más sobre tu dibujo (si quieres)...',
+  'prompt.listening': 'Escuchando...',
+  'prompt.label': 'Describe la mini casa de tus sueños',
+  'prompt.startRecording': 'Empezar a grabar la voz',
+  'prompt.stopRecording': 'Dejar de grabar la voz',
+  'prompt.undo': 'Deshacer el último cambio',
+  'prompt.redo': 'Rehacer el cambio',
+  'prompt.createLabel': 'Crear el diseño de la casa',
+  'prompt.create': '¡Crear!',
+  'prompt.building': 'Construyendo...',
+  'prompt.orPicture': 'O empieza con una imagen:',
+  'prompt.upload': 'Subir una imagen',
+  'prompt.takePhoto': 'Hacer una foto',
+  'prompt.pictureIs': 'La imagen es',
+  'prompt.readingPicture': 'Preparando tu imagen...',
+  'prompt.pictureAlt': '{kind} para diseñar',
+  'prompt.removePicture': 'Quitar la imagen',
+  'prompt.pictureFailed': 'No se ha podido abrir esa imagen.',
+  'prompt.freshIdeas': 'Sorpréndeme con ideas nuevas, aunque ya haya probado esta idea',
+  'sourceImage.drawing.label': 'Mi dibujo',
+  'sourceImage.drawing.description': 'Un dibujo que hiciste de la casa de tus sueños.',
+  'sourceImage.photo.label': 'Una casa de verdad',
+  'sourceImage.photo.description': 'Una foto de una casa de la que quieres una copia en miniatura.',
+
+  // --- Progress ---
+  'progress.planning': 'Soñando el plano...',
+  'progress.count': '{finished} de {total} listos',
+  'progress.stop': 'Parar',
+  'progress.label': 'Progreso del diseño',
+  'progress.done': ': listo',
+  'progress.failed': ': ha fallado, puedes volver a intentarlo después',
+  'progress.pending': ': en marcha',
+  'narration.title': 'Lectura en voz alta',
+  'narration.voice': 'Voz',
+  'narration.defaultVoice': 'La voz de siempre',
+  'narration.speed': 'Velocidad',
+  'narration.rate.slow': 'Lenta',
+  'narration.rate.normal': 'Normal',
+  'narration.rate.fast': 'Rápida',
+  'narration.announce': 'Leer en voz alta el progreso y los problemas',
+  'narration.try': 'Probar',
+  'narration.sample': '¡Hola! Puedo leerte tu casa.',
+  'narration.read': 'Léemelo',
+  'narration.stop': 'Dejar de leer',
+  'narration.keys': 'Las flechas arriba y abajo saltan entre filas. Escape para de leer.',
+  'narration.part': '{id}, {label}: {quantity} de {material}, {size}, de {thickness} de grosor.',
+  'narration.partCutout': 'Tiene un hueco para una puerta o ventana.',
+  'narration.partCutouts': 'Tiene {count} huecos para puertas y ventanas.',
+  'narration.material': '{name}: {quantity}, {size}.',
+  'narration.by': 'por',
+  'asset.Front view': 'Vista frontal',
+  'asset.Back view': 'Vista trasera',
+  'asset.Left side view': 'Vista lateral izquierda',
+  'asset.Right side view': 'Vista lateral derecha',
+  'asset.Top-down view': 'Vista desde arriba',
+  'asset.sketch': 'Boceto de montaje',
+  'asset.cuttingList': 'Lista de cortes',
+
+  // --- Grown-ups and safety ---
+  'parental.title': 'Para adultos',
+  'parental.setPinIntro': 'Elige un PIN para que solo los adultos puedan cambiar estos ajustes.',
+  'parental.pin': 'PIN (de 4 a 8 cifras)',
+  'parental.confirmPin': 'El mismo PIN otra vez',
+  'parental.setPin': 'Guardar PIN',
+  'parental.pinInvalid': 'El PIN debe tener de 4 a 8 cifras.',
+  'parental.pinMismatch': 'Los dos PIN no son iguales.',
+  'parental.enterPin': 'Escribe el PIN',
+  'parental.unlock': 'Desbloquear',
+  'parental.wrongPin': 'Ese PIN no es correcto. Quedan {left} intentos.',
+  'parental.lockedOut': 'Demasiados intentos fallidos. Espera un minuto y vuelve a probar.',
+  'parental.strictness': 'Control del contenido',
+  'parental.strictness.relaxed': 'Flexible',
+  'parental.strictness.relaxed.help': 'Las ideas de miedo y de juegos de lucha están bien. Lo demás que no sea adecuado se suaviza o se detiene.',
+  'parental.strictness.standard': 'Normal',
+  'parental.strictness.standard.help': 'Las ideas que dan miedo se cambian por otras amables, como una calavera por una calabaza.',
+  'parental.strictness.strict': 'Estricto',
+  'parental.strictness.strict.help': 'Para niños pequeños: también se suavizan las espadas y los cañones, y se detienen las armas.',
+  'parental.dailyLimit': 'Limitar los diseños y cambios nuevos a',
+  'parental.dailyLimitLabel': 'Diseños al día',
+  'parental.perDay': 'al día',
+  'parental.usedToday': 'Hechos hoy: {count}',
+  'parental.allowSharing': 'Permitir compartir diseños',
+  'parental.allowCraftKnife': 'Permitir pasos con cúter',
+  'parental.craftKnifeHelp': 'Si está desactivado, las casas se diseñan para tijeras y las ventanas se pintan.',
+  'parental.changePin': 'Cambiar el PIN',
+  'parental.lock': 'Bloquear',
+  'parental.forgotPin': '¿Has olvidado el PIN? Al borrar los datos de este sitio en el navegador se quita, pero también todas las casas guardadas.',
+  'moderation.softened': 'Hemos hecho tu idea un poco más amable: "{text}"',
+  'share.button': 'Compartir mi casa',
+
+  // --- Renders ---
+  'display.loading': 'Soñando el render...',
+  'display.title': '¡Tu render de ensueño!',
+  'display.madeFrom': 'Hecha a partir de: {kind}',
+  'display.sourceAlt': '{kind}, a partir de la que se hizo la casa',
+  'display.viewAlt': 'Diseño generado de la casa en miniatura - {view}',
+  'display.viewMissing': 'La {view} no ha salido esta vez.',
+  'display.tryAgain': 'Volver a intentar esta vista',
+  'display.redo': 'Rehacer esta vista',
+  'display.views': 'Controles de las vistas',
+  'display.show': 'Ver {view}',
+  'display.drawingLabel': '{view}, dibujándose todavía',
+  'display.failedLabel': '{view} ha fallado',
+  'display.failedRetryLabel': '{view} ha fallado, elígela para volver a intentarlo',
+  'display.thumbnail': 'Miniatura de {view}',
+  'display.drawing': 'Dibujando...',
+  'display.failed': 'Ha fallado',
+  'display.failedRetry': 'Ha fallado, reintentar',
+
+  // --- Cutting list ---
+  'list.loading': 'Calculando los materiales...',
+  'list.missing': 'Esta vez la lista de cortes no ha salido.',
+  'list.tryAgain': 'Volver a intentar la lista de cortes',
+  'list.redo': 'Rehacer la lista de cortes',
+  'list.incomplete': 'A esta lista le falta algo:',
+  'list.redoHint': 'Rehacer la lista de cortes suele completar lo que falta.',
+  'list.tabs': 'Materiales, plan de corte y lista de la compra',
+  'list.tab.materials': 'Materiales',
+  'list.tab.layout': 'Plan de corte',
+  'list.tab.shopping': 'Compra',
+  'list.caption': 'Materiales y lista de cortes de {name}',
+  'list.part': 'Pieza',
+  'list.material': 'Material',
+  'list.quantity': 'Cantidad',
+  'list.size': 'Tamaño',
+  'list.thick': '{thickness} de grosor',
+  'list.cutout.door': 'hueco de puerta {size}',
+  'list.cutout.window': 'hueco de ventana {size}',
+
+  // --- Cut layout ---
+  'layout.sheet': 'Tamaño de la hoja',
+  'layout.kerf': 'Ancho del corte (mm)',
+  'layout.kerfAbout': 'Unos {length}.',
+  'layout.grain': 'Dirección de la veta',
+  'layout.grain.any': 'Cualquiera (se puede girar)',
+  'layout.grain.vertical': 'A lo alto de la hoja',
+  'layout.grain.horizontal': 'A lo ancho de la hoja',
+  'layout.sheetNeeded': 'Necesitas 1 hoja · sobra más o menos un {waste}% como recortes',
+  'layout.sheetsNeeded': 'Necesitas {count} hojas · sobra más o menos un {waste}% como recortes',
+  'layout.tooBig': 'Demasiado grande para esta hoja: {parts}. Prueba una hoja más grande.',
+  'layout.sheetPieces': 'Hoja {number}: {parts}',
+  'layout.sheetNumber': 'Hoja {number}',
+  'paper.A4': 'A4',
+  'paper.A3': 'A3',
+  'paper.US Letter': 'Carta (EE. UU.)',
+  'paper.Large foam board': 'Cartón pluma grande',
+
+  // --- Build steps ---
+  'step.glue': 'cola blanca',
+  'step.glueGun': 'Una pistola de cola de baja temperatura va más rápido con el cartón pluma, pero solo con un adulto, y nunca la caliente: derrite la espuma.',
+  'step.part': 'la pieza {id} ({label})',
+  'step.edge.bottom': 'inferior',
+  'step.edge.top': 'superior',
+  'step.edge.left': 'izquierda',
+  'step.edge.right': 'derecha',
+  'step.join': 'Pega la pestaña {edge} de {part} a {other}.',
+  'step.cut.title': 'Recorta las piezas',
+  'step.cut.knife': 'Recorta las {count} piezas por las líneas negras continuas de las plantillas, también las puertas y ventanas. Escribe el número de cada pieza por dentro para encontrarla luego.',
+  'step.cut.knifeFoam': 'El cartón pluma necesita un cúter afilado: esta parte la hace un adulto, sobre una base de corte.',
+  'step.cut.knifeSafety': 'Pide a un adulto que corte las puertas y ventanas con un cúter sobre una base de corte. Para los bordes de fuera valen unas tijeras de punta redonda.',
+  'step.cut.knifeTip': 'Corta las puertas y ventanas mientras la pieza está plana: cuesta mucho más cuando las paredes ya están de pie.',
+  'step.cut.scissors': 'Recorta las {count} piezas por las líneas negras de fuera de las plantillas con tijeras de punta redonda. Corta las puertas desde el borde de abajo de su pared, pero deja las ventanas: dibújalas o píntalas. Escribe el número de cada pieza por dentro para encontrarla luego.',
+  'step.cut.scissorsFoam': 'Las tijeras no cortan el cartón pluma. Pide a un adulto que corte estas piezas, o haz la casa de cartón.',
+  'step.cut.scissorsSafety': 'Pasa las tijeras cerradas y corta siempre lejos de tus dedos.',
+  'step.cut.scissorsTip': 'Pinta las ventanas mientras la pieza está plana: es mucho más fácil que con las paredes de pie.',
+  'step.hold': 'Sujeta cada unión sin moverla {seconds} segundos mientras la cola agarra.',
+  'step.fold.title': 'Dobla las pestañas',
+  'step.fold.instruction': 'Pon una regla sobre cada línea azul discontinua y pasa por ella un lápiz sin punta o un boli gastado; luego dobla la pestaña hacia dentro.',
+  'step.fold.tip': 'Una línea marcada se dobla limpia; un doblez sin marcar puede rasgar la superficie.',
+  'step.front.title': 'Pon de pie la pared delantera sobre la base',
+  'step.front.instruction': 'Pon la pared delantera de pie a lo largo del borde delantero de la base. Echa una línea fina de {glue} en cada pestaña antes de apretarla en su sitio.',
+  'step.sides.title': 'Añade las paredes de los lados',
+  'step.sides.instruction': 'Pega las paredes izquierda y derecha sobre la base, metiendo sus bordes delanteros detrás de la pared delantera.',
+  'step.sides.tip': 'Mira las paredes desde arriba para comprobar que están rectas.',
+  'step.floor.title': 'Pon el piso de arriba',
+  'step.floors.title': 'Pon los pisos de arriba',
+  'step.floor.instruction': 'Mete el piso de arriba por detrás y pégalo recto entre las paredes de los lados, a media altura.',
+  'step.floors.instruction': 'Mete cada piso de arriba por detrás y pégalo recto entre las paredes de los lados, repartidos por igual a lo alto.',
+  'step.floor.tip': 'Marca primero la altura en las dos paredes de los lados, para que el piso quede recto.',
+  'step.back.title': 'Cierra la caja con la pared trasera',
+  'step.back.instruction': 'Pega la pared trasera sobre la base para que sujete por detrás las paredes de los lados.',
+  'step.back.drying': 'Deja secar las paredes {minutes} minutos antes de poner el tejado.',
+  'step.hip.long.title': 'Pon los paneles largos del tejado',
+  'step.hip.long.instruction': 'Pega los dos paneles largos del tejado en las pestañas de arriba de las paredes, inclinándolos para que se junten en la cumbrera.',
+  'step.hip.ends.title': 'Cierra el tejado con los paneles de los extremos',
+  'step.hip.ends.instruction': 'Pega los dos paneles triangulares en los extremos, entre los paneles largos.',
+  'step.hip.tape': 'Pon cinta a lo largo de las cuatro juntas inclinadas donde se unen los paneles del tejado, para que no se vean huecos.',
+  'step.roof.title': 'Pon el tejado',
+  'step.roof.gable': 'Pega los dos paneles del tejado en las pestañas de arriba de las paredes delantera y trasera, inclinándolos para que se junten en la cumbrera.',
+  'step.roof.shed': 'Pega el panel del tejado en las pestañas de arriba, inclinado desde la pared trasera alta hacia delante.',
+  'step.roof.flat': 'Pega el tejado plano en las pestañas de arriba de las paredes, sobresaliendo lo mismo por todos lados.',
+  'step.roof.slopingTops': 'Echa también una línea fina de cola en los bordes inclinados de arriba de las paredes de los lados, para que el tejado se apoye en ellos.',
+  'step.roof.tape': 'Pon cinta a lo largo de la cumbrera, donde se juntan los dos paneles del tejado.',
+  'step.roof.drying': 'Deja secar el tejado {minutes} minutos antes de dar la vuelta a la casa.',
+  'step.accessory.title': 'Construye {accessory} en la pared {wall}',
+  'step.accessory.chimney': 'Pega los dos lados de la chimenea detrás del frente para hacer una caja sin fondo, y ponla de pie contra la pared con el lado abierto hacia la casa.',
+  'step.accessory.porch': 'Pon el suelo del porche contra la pared, pega un poste de pie en cada esquina de fuera y luego pega el tejado del porche encima de los postes.',
+  'step.accessory.balcony': 'Pega las tres barandillas encima del suelo del balcón, con la larga delante, y luego pega el suelo plano contra la pared, {height}.',
+  'step.balcony.upper': 'a la altura del piso de arriba',
+  'step.balcony.low': 'un poco por encima de la mitad',
+  'step.accessory.join': 'Pega {accessory} por fuera de la pared {wall}.',
+  'step.features.title': 'Añade los últimos detalles',
+  'step.features.instruction': 'Decora tu casa: {features}.',
+  'step.features.tip': 'Pinta o colorea la casa antes de poner los detalles pequeños, para no tirarlos.',
+  'step.describe': 'Paso {number} de {total}: {title}.',
+  'step.careful': 'Ten cuidado: {text}',
+
+  // --- Build guide ---
+  'guide.title': 'Cómo construirla',
+  'guide.steps': 'Pasos',
+  'guide.stepButton': 'Paso {number}: {title}',
+  'guide.step': 'Paso {number} de {total}: {title}',
+  'guide.diagram': 'Dibujo de la casa después de este paso: {title}. Las piezas nuevas están en amarillo.',
+  'guide.parts': 'Piezas que necesitas:',
+  'guide.note.safety': 'Seguridad',
+  'guide.note.drying': 'Secado',
+  'guide.note.tip': 'Consejo',
+  'guide.previous': 'Anterior',
+  'guide.next': 'Siguiente',
+  'guide.readAloud': 'Leer en voz alta',
+
+  // --- Printable templates ---
+  'template.download': 'Descargar plantillas de corte para imprimir',
+  'template.printable': 'Plantillas para imprimir',
+  'template.pdf': 'Descargar PDF',
+  'template.svg': 'Descargar SVG',
+  'template.finishedSize': 'Tamaño final: base de {size}, paredes de {height} de alto, tejado {roof}.',
+  'template.actualSize': 'Imprime al 100 % / "Tamaño real". No uses "Ajustar a la página".',
+  'template.checkSquare': 'Comprueba: este cuadrado debe medir exactamente {length} de lado.',
+  'template.legend.cutKnife': 'Corta por las líneas negras continuas (pide ayuda a un adulto con el cúter).',
+  'template.legend.cutScissors': 'Corta por las líneas negras de fuera con tijeras de punta redonda. Pinta las ventanas en lugar de recortarlas.',
+  'template.legend.score': 'Marca y dobla por las líneas azules discontinuas. Las pestañas que dicen "cola" se doblan hacia dentro.',
+  'template.legend.guide': 'Las líneas de puntos grises y las cruces solo sirven para alinear las páginas. No las cortes.',
+  'template.partsIndex': 'Piezas de este paquete:',
+  'template.glue': 'cola',
+  'template.partSize': '{size} de {material}',
+  'template.partSizeCopy': '{size} de {material} - copia {copy} de {quantity}',
+  'template.overlap': 'pon encima de la hoja {tile} hasta aquí',
+  'template.partCopy': '{part} (copia {copy})',
+  'template.tile': '{part} - hoja {tile} de {last}',
+  'template.stepParts': 'Piezas: {parts}',
+  'template.note.safety': 'SEGURIDAD: {text}',
+  'template.note.drying': 'Secado: {text}',
+  'template.note.tip': 'Consejo: {text}',
+  'template.page.parts': 'Piezas',
+  'template.page.steps': 'Cómo construirla',
+  'template.page.cover': 'Portada',
+  'template.header': '{name} - {title} - página {page} de {pages}',
+  'template.svgHeader': '{name} - plantillas de corte a escala 1:1 (unidades: mm)',
+
+  // --- Versions ---
+  'version.original': 'Casa original',
+  'version.edited': 'Casa cambiada',
+  'version.number': 'Versión {number}',
+  'version.label': 'Versión {number}: {summary}',
+  'diff.material': 'material {before} → {after}',
+  'diff.size': 'tamaño {before} → {after}',
+  'diff.quantity': 'cantidad {before} → {after}',
+  'diff.door': '{count} puerta',
+  'diff.doors': '{count} puertas',
+  'diff.window': '{count} ventana',
+  'diff.windows': '{count} ventanas',
+  'diff.moved': 'puertas o ventanas movidas',
+  'compare.title': 'Comparar versiones',
+  'compare.done': 'Listo',
+  'compare.before': 'Esta...',
+  'compare.after': '...¿o esta?',
+  'compare.keep': 'Quedarme con la versión {number}',
+  'compare.confirmKeep': '¿Quedarte con «{version}» y tirar la versión {discard}?',
+  'compare.same': 'Elige dos versiones distintas para ver qué cambió.',
+  'compare.sideBySide': 'Una al lado de la otra',
+  'compare.picture': '{view} de la versión {number}',
+  'compare.noPicture': 'No hay dibujo de este lado',
+  'compare.description': 'Lo que dice la descripción',
+  'compare.green': 'Verde:',
+  'compare.greenWords': 'palabras nuevas en la versión {number};',
+  'compare.red': 'rojo:',
+  'compare.redWords': 'palabras que solo estaban en la versión {number}.',
+  'compare.whatToCut': 'Qué recortar',
+  'compare.caption': 'Cambios en la lista de corte de la versión {before} a la versión {after}',
+  'compare.whatChanged': 'Qué cambió',
+  'compare.pieces': 'Piezas',
+  'compare.status.same': 'Sin cambios',
+  'compare.status.added': 'Pieza nueva',
+  'compare.status.removed': 'Ya no está',
+  'compare.status.changed': 'Cambiada',
+  'timeline.title': 'La historia de mi casa',
+  'timeline.help': 'Elige una versión para volver a ella. Si cambias una versión antigua, empieza una rama nueva.',
+  'timeline.branches': 'Otras ideas probadas a partir de esta casa',
+  'timeline.chat': 'Acordada en un chat',
+  'timeline.inChat': 'acordada en un chat',
+  'timeline.showing': 'la que ves ahora',
+
+  // --- Building rules ---
+  'rules.title': 'Reglas de construcción',
+  'rules.heading': 'Reglas de construcción:',
+  'rules.size': 'Tamaño',
+  'rules.sizeHelp': '{width} de ancho, paredes de {height} de alto.',
+  'rules.sizeHelpRoof': '{width} de ancho, paredes de {height} de alto, {max} como mucho con el tejado.',
+  'rules.who': '¿Quién construye?',
+  'rules.ages': '{age}',
+  'rules.agesSummary': '{age}',
+  'rules.materials': 'Materiales que tengo',
+  'rules.tools': 'Herramientas',
+  'rules.knifeOff': 'Un adulto ha desactivado el cúter.',
+  'rules.scissorsHelp': 'Las tijeras no cortan cartón pluma ni ventanas, así que las ventanas se pintan.',
+  'rules.spendAtMost': 'Gastar como mucho',
+  'rules.budget': 'Presupuesto para materiales',
+  'rules.upTo': 'hasta {price}',
+  'rules.noBudget': 'sin presupuesto',
+  'rules.switchCurrency': 'Cambiar a {currency}, como los precios',
+  'rules.or': 'o',
+  'rules.broken': 'Este diseño no cumple tus reglas de construcción:',
+  'rules.fix': 'Hacer que cumpla las reglas',
+  'rules.wide': 'La casa mide {value} de ancho, pero el tamaño «{size}» es de {range} de ancho.',
+  'rules.deep': 'La casa mide {value} de fondo, pero el tamaño «{size}» es de {range} de fondo.',
+  'rules.tall': 'Las paredes de la casa miden {value} de alto, pero el tamaño «{size}» es de {range} de alto en las paredes.',
+  'rules.totalHeight': 'La casa mide {value} de alto con el tejado, pero el tamaño «{size}» es de {max} como mucho.',
+  'rules.material': 'La casa es de {material}, que no tienes; usa {materials}.',
+  'rules.foamScissors': 'El cartón pluma necesita un cúter, pero solo se permiten tijeras.',
+  'rules.window': 'La ventana necesita un cúter para recortarla, pero solo se permiten tijeras; pinta las ventanas.',
+  'rules.windows': 'Las {count} ventanas necesitan un cúter para recortarlas, pero solo se permiten tijeras; pinta las ventanas.',
+  'rules.openings': 'La casa tiene {count} puertas y ventanas, pero para un niño de {age} lo máximo son {max}.',
+  'rules.tiny': 'Una puerta o ventana mide menos de {min}, demasiado difícil para un niño de {age}.',
+  'rules.tinyMany': '{count} puertas y ventanas miden menos de {min}, demasiado difícil para un niño de {age}.',
+  'rules.roof': 'Un tejado {roof} es demasiado difícil para un niño de {age}; usa un tejado {roofs}.',
+  'rules.currency': 'El presupuesto está en {budget} pero los precios están en {prices}, así que no se puede comprobar.',
+  'rules.overBudget': 'Los materiales cuestan {total}, más que el presupuesto de {budget}.',
+  'size.palm': 'Cabe en la mano',
+  'size.tabletop': 'Para la mesa',
+  'size.shelf': 'Cabe en una estantería',
+  'size.dollhouse': 'Casa de muñecas 1:12',
+  'age.4-6': '4 a 6 años',
+  'age.7-9': '7 a 9 años',
+  'age.10-12': '10 a 12 años',
+  'age.13+': '13 años o más',
+  'tools.scissors': 'Solo tijeras',
+  'tools.craft-knife': 'Cúter, con ayuda de un adulto',
+  'tools.scissors.short': 'Solo tijeras',
+  'tools.craft-knife.short': 'Cúter',
+
+  // --- Shopping list ---
+  'shop.loading': 'Buscando precios...',
+  'shop.caption': 'Qué comprar para {name}',
+  'shop.item': 'Artículo',
+  'shop.need': 'Necesitas',
+  'shop.have': 'Tengo',
+  'shop.buy': 'Comprar',
+  'shop.cost': 'Coste',
+  'shop.total': 'Total',
+  'shop.haveLabel': 'Cuántos {units} de {item} tienes ya',
+  'shop.nothing': 'Nada',
+  'shop.pack': '{count} paquete',
+  'shop.packs': '{count} paquetes',
+  'shop.perPack': '{count} por paquete',
+  'shop.finishEditing': 'Termina de cambiar los precios para ver el total.',
+  'shop.unmatched': 'Sin precio, así que no están en el total:',
+  'shop.downloads': 'Descargar la lista de la compra',
+  'shop.csv': 'Descargar CSV',
+  'shop.paper': 'Papel de la lista',
+  'shop.checklist': 'Descargar lista para marcar',
+  'shop.editPrices': 'Cambiar precios',
+  'shop.doneEditing': 'Terminar de cambiar precios',
+  'shop.notCatalog': 'Ese archivo no es un catálogo de materiales: {issues}.',
+  'shop.notJson': 'Ese archivo no se ha podido leer como JSON.',
+  'shop.currency': 'Moneda',
+  'shop.currencyHelp': 'Tres letras, p. ej. USD, EUR o GBP.',
+  'shop.catalog': 'Catálogo de materiales',
+  'shop.packSize': 'Tamaño del paquete',
+  'shop.unit': 'Unidad',
+  'shop.packPrice': 'Precio del paquete',
+  'shop.nameOf': 'Nombre de {item}',
+  'shop.packSizeOf': 'Tamaño del paquete de {item}',
+  'shop.unitOf': 'Unidad de {item}',
+  'shop.packPriceOf': 'Precio del paquete de {item}',
+  'shop.reset': 'Volver a los precios de siempre',
+  'shop.export': 'Exportar catálogo',
+  'shop.import': 'Importar catálogo',
+  'shop.onSheets': '{parts} en {sheets}',
+  'shop.forJoints': 'para todas las uniones',
+  'shop.forRoof': 'para las juntas del tejado',
+  'shop.forItems': 'para {items}',
+  'shop.noSheets': '{name} en hojas: el catálogo no vende.',
+  'shop.tooBig': 'Demasiado grande para cualquier hoja de {name} del catálogo: {parts}.',
+  'shop.csv.needed': 'Necesarios',
+  'shop.csv.have': 'Ya tienes',
+  'shop.csv.toBuy': 'Por comprar',
+  'shop.csv.packs': 'Paquetes',
+  'shop.csv.packPrice': 'Precio del paquete ({currency})',
+  'shop.csv.cost': 'Coste ({currency})',
+  'shop.csv.for': 'Para',
+  'shop.pdf.title': 'Lista de la compra: {name}',
+  'shop.pdf.haveAll': '¡Ya tienes todo lo que necesitas!',
+  'shop.pdf.packsOf': '{packs} de {item} ({size} cada uno)',
+  'shop.pdf.need': 'Necesitas {amount} {reason}',
+  'shop.pdf.needHave': 'Necesitas {amount} {reason}, ya tienes {owned}',
+  'shop.pdf.total': 'Total: {amount}',
+  'unit.part': 'pieza',
+  'unit.parts': 'piezas',
+  'unit.sheet': 'hoja',
+  'unit.sheets': 'hojas',
+  'unit.bottle': 'bote',
+  'unit.bottles': 'botes',
+  'unit.roll': 'rollo',
+  'unit.rolls': 'rollos',
+  'unit.stick': 'palito',
+  'unit.sticks': 'palitos',
+  'catalog.Craft card, A4': 'Cartulina, A4',
+  'catalog.Craft card, A3': 'Cartulina, A3',
+  'catalog.Foam board, A3': 'Cartón pluma, A3',
+  'catalog.Foam board, 20 x 30 in': 'Cartón pluma, 20 x 30 in',
+  'catalog.White craft glue, 120 ml': 'Cola blanca, 120 ml',
+  'catalog.Masking tape': 'Cinta de carrocero',
+  'catalog.Craft sticks': 'Palitos de manualidades',
+
+  // --- Saved houses, resizing and the sketch ---
+  'gallery.heading': 'Mis casas guardadas',
+  'gallery.loadFailed': 'No hemos podido abrir tus diseños guardados en este navegador.',
+  'gallery.empty': 'Cada casa que creas se guarda aquí automáticamente.',
+  'gallery.openNamed': 'Abrir {name}',
+  'gallery.newName': 'Nombre nuevo',
+  'gallery.save': 'Guardar',
+  'gallery.created': 'Creada el {date}',
+  'gallery.changed': 'cambiada el {date}',
+  'gallery.open': 'Abrir',
+  'gallery.rename': 'Renombrar',
+  'gallery.duplicate': 'Duplicar',
+  'gallery.delete': 'Borrar',
+  'gallery.confirmDelete': '¿Borrar «{name}»? No se puede deshacer.',
+  'scale.label': 'Cambiar el tamaño de toda la casa',
+  'scale.resize': 'Cambiar tamaño',
+  'scale.now': 'Ahora mide {size}, con paredes de {height} de alto.',
+  'scale.would': 'Mediría {size}, con paredes de {height} de alto.',
+  'scale.tooBig': 'Al {percent} % la casa sería demasiado grande para hacerla de cartón.',
+  'scale.tooSmall': 'Al {percent} % la casa sería demasiado pequeña para hacerla de cartón.',
+  'sketch.drafting': 'Dibujando los planos...',
+  'sketch.failed': 'Esta vez el boceto no ha salido.',
+  'sketch.retry': 'Intentar el boceto otra vez',
+  'sketch.alt': 'Boceto de montaje generado, con medidas',
+  'sketch.redo': 'Rehacer el boceto',
+
+  // --- 3D model ---
+  'model.planning': 'Preparando el plano...',
+  'model.heading': '¡Tu casa en 3D!',
+  'model.help': 'Arrastra para girarla, usa la rueda o pellizca para acercarla, y arrastra con el botón derecho o usa las flechas para moverla.',
+  'model.builtFrom': 'Hecha con las {count} piezas que vas a recortar: {size}, con un tejado {roof}.',
+  'model.pullApart': 'Separar',
+  'model.resetView': 'Volver a la vista inicial',
+  'model.noWebGl': 'Este navegador no puede mostrar modelos 3D. ¡Prueba el Render de ensueño o el Boceto de montaje!',
+  'spinner.working': 'Haciendo magia...',
+
+  // --- Errors ---
+  'error.rateLimit.title': '¡Vaya, cuántas ideas a la vez!',
+  'error.rateLimit.message': 'El Constructor de Sueños necesita un pequeño descanso antes de volver a dibujar.',
+  'error.rateLimit.action': 'Volver a intentarlo',
+  'error.quotaExhausted.title': 'El Constructor de Sueños se ha quedado sin energía creativa',
+  'error.quotaExhausted.message': 'Hoy ha hecho tantas casas que necesita descansar. Vuelve más tarde, ¡o visita las casas que ya has hecho!',
+  'error.quotaExhausted.action': 'Ver mis casas',
+  'error.safetyBlocked.title': 'Probemos con otra idea',
+  'error.safetyBlocked.message': 'Tu idea es supercreativa, pero el Constructor de Sueños no ha podido dibujarla. ¿Puedes describir tu casa de otra manera?',
+  'error.safetyBlocked.action': 'Cambiar mi idea',
+  'error.invalidKey.title': 'El Constructor de Sueños no está enchufado',
+  'error.invalidKey.message': 'Pide a una persona adulta que revise la clave de la API en el servidor de diseño.',
+  'error.invalidKey.action': 'Vale',
+  'error.network.title': 'Se ha perdido la conexión',
+  'error.network.message': 'No se ha podido llegar al Constructor de Sueños. Comprueba que tienes internet y vuelve a intentarlo.',
+  'error.network.action': 'Volver a intentarlo',
+  'error.malformedResponse.title': 'El plano ha salido borroso',
+  'error.malformedResponse.message': 'El Constructor de Sueños se ha liado un poco. Normalmente se arregla al pedirlo otra vez.',
+  'error.malformedResponse.action': 'Volver a intentarlo',
+  'error.dailyLimit.title': 'Ya no hay más casas por hoy',
+  'error.dailyLimit.message': '¡Hoy has hecho muchos diseños! Vuelve mañana para hacer más, o visita las casas que ya has hecho.',
+  'error.dailyLimit.action': 'Ver mis casas',
+  'error.dailyLimit.reached': 'Se ha llegado al límite de {limit} diseños al día.',
+  'error.partialResult.title': '¡Ya casi está!',
+  'error.partialResult.message': 'Casi toda tu casa está lista, pero algunas partes no han salido.',
+  'error.partialResult.action': 'Rehacer las partes que faltan',
+  'error.partialResult.missing': 'No se han podido hacer {count} partes del diseño.',
+  'error.partialResult.missingOne': 'No se ha podido hacer 1 parte del diseño.',
+  'error.unknown.title': '¡Ups!',
+  'error.unknown.message': 'La máquina de planos ha tenido un pequeño hipo. Vuelve a intentarlo.',
+  'error.unknown.action': 'Volver a intentarlo',
+  'error.missing': 'Faltan {missing} de {total}: {assets}.',
+  'error.wait': '{action} en {seconds} s',
+  'error.close': 'Cerrar',
+
+  // --- Edit form ---
+  'edit.title': 'Edita tu diseño',
+  'edit.style': 'Estilo',
+  'edit.colours': 'Colores',
+  'edit.colourOf': 'Color de {role}',
+  'edit.roof': 'Tejado',
+  'edit.roofShape': 'Forma del tejado',
+  'edit.steepness': 'Inclinación: {pitch} grados',
+  'edit.madeOf': 'Hecho de',
+  'edit.useIt': 'Usarlo',
+  'edit.openings': 'Puertas y ventanas',
+  'edit.noOpenings': 'Todavía no hay puertas ni ventanas.',
+  'edit.move': 'Mover',
+  'edit.remove': 'Quitar',
+  'edit.wall': 'Pared',
+  'edit.fromLeft': 'Desde la izquierda',
+  'edit.upFromGround': 'Altura desde el suelo',
+  'edit.moveHere': 'Moverla aquí',
+  'edit.addA': 'Añadir una',
+  'edit.window': 'Ventana',
+  'edit.door': 'Puerta',
+  'edit.shape': 'Forma',
+  'edit.onWall': 'En la pared',
+  'edit.width': 'Ancho',
+  'edit.height': 'Alto',
+  'edit.depth': 'Fondo',
+  'edit.addIt': 'Añadirlo',
+  'edit.size': 'Tamaño y plantas',
+  'edit.resize': 'Cambiar el tamaño de la base',
+  'edit.oneFloor': 'Una planta de {height} de alto.',
+  'edit.floors': '{count} plantas, cada una de {height} de alto.',
+  'edit.addFloor': 'Añadir una planta',
+  'edit.extras': 'Extras',
+  'edit.accessoryWall': 'Pared para {name}',
+  'edit.wallOption': 'Pared {wall}',
+  'edit.takeAway': 'Quitarlo',
+  'edit.anythingElse': '¿Algo más?',
+  'edit.requestPlaceholder': '¡añade una trampilla secreta!',
+  'edit.changes': 'Tus cambios',
+  'edit.undo': 'deshacer',
+  'edit.undoLabel': 'Deshacer el cambio {number}',
+  'edit.problems': 'Estos cambios todavía no funcionan:',
+  'edit.cancel': 'Cancelar',
+  'edit.updating': 'Actualizando...',
+  'edit.update': 'Actualizar diseño',
+
+  // --- Chat ---
+  'chat.title': 'Habla sobre tu casa',
+  'chat.close': 'Cerrar',
+  'chat.greeting': '¡Hola! Puedo ayudarte a cambiar tu casa. Dime qué te gustaría, como "haz la puerta más redonda" o "¿y si tuviera un tobogán?"',
+  'chat.previous': 'La charla que creó esta versión',
+  'chat.label': 'Charla con el ayudante de diseño',
+  'chat.youSaid': 'Has dicho: ',
+  'chat.helperSaid': 'El ayudante ha dicho: ',
+  'chat.thinking': 'Pensando...',
+  'chat.building': 'Construyendo...',
+  'chat.build': '¡Sí, constrúyelo!',
+  'chat.orChange': 'O dime qué cambiar.',
+  'chat.message': 'Tu mensaje',
+  'chat.placeholder': '¿Qué te gustaría cambiar?',
+  'chat.listening': 'Escuchando... pulsa el micrófono cuando termines',
+  'chat.startListening': 'Hablar en lugar de escribir',
+  'chat.stopListening': 'Dejar de escuchar',
+  'chat.send': 'Enviar',
+
+  // --- Parts of the house ---
+  'wall.front': 'delantera',
+  'wall.back': 'trasera',
+  'wall.left': 'izquierda',
+  'wall.right': 'derecha',
+  'wall.front.label': 'Delantera',
+  'wall.back.label': 'Trasera',
+  'wall.left.label': 'Izquierda',
+  'wall.right.label': 'Derecha',
+  'shape.rectangle': 'Rectangular',
+  'shape.arch': 'Arqueada',
+  'shape.round': 'Redonda',
+  'roof.gable': 'a dos aguas',
+  'roof.hip': 'a cuatro aguas',
+  'roof.shed': 'a un agua',
+  'roof.flat': 'plano',
+  'opening.door.rectangle.a': 'una puerta rectangular',
+  'opening.door.rectangle.the': 'la puerta rectangular',
+  'opening.door.arch.a': 'una puerta arqueada',
+  'opening.door.arch.the': 'la puerta arqueada',
+  'opening.door.round.a': 'una puerta redonda',
+  'opening.door.round.the': 'la puerta redonda',
+  'opening.window.rectangle.a': 'una ventana rectangular',
+  'opening.window.rectangle.the': 'la ventana rectangular',
+  'opening.window.arch.a': 'una ventana arqueada',
+  'opening.window.arch.the': 'la ventana arqueada',
+  'opening.window.round.a': 'una ventana redonda',
+  'opening.window.round.the': 'la ventana redonda',
+  'opening.place': '{opening} de la pared {wall}',
+  'accessory.chimney.label': 'Chimenea',
+  'accessory.chimney.description': 'Una chimenea que sube por fuera de la pared, más alta que el tejado.',
+  'accessory.chimney.name': 'chimenea',
+  'accessory.chimney.a': 'una chimenea',
+  'accessory.chimney.the': 'la chimenea',
+  'accessory.porch.label': 'Porche',
+  'accessory.porch.description': 'Un tejadito sobre dos postes encima de la puerta.',
+  'accessory.porch.name': 'porche',
+  'accessory.porch.a': 'un porche',
+  'accessory.porch.the': 'el porche',
+  'accessory.balcony.label': 'Balcón',
+  'accessory.balcony.description': 'Un balcón con barandilla, a media altura de la pared.',
+  'accessory.balcony.name': 'balcón',
+  'accessory.balcony.a': 'un balcón',
+  'accessory.balcony.the': 'el balcón',
+  'theme.classic.label': 'Clásica',
+  'theme.classic.description': 'Una casa familiar de siempre con tejado de tejas.',
+  'theme.classic.a': 'una casa clásica',
+  'theme.cottage.label': 'De campo',
+  'theme.cottage.description': 'Una casita de campo acogedora con tejado de paja.',
+  'theme.cottage.a': 'una casita de campo',
+  'theme.modern.label': 'Moderna',
+  'theme.modern.description': 'Paredes blancas y lisas, paneles oscuros y una puerta de color vivo.',
+  'theme.modern.a': 'una casa moderna',
+  'theme.castle.label': 'Castillo',
+  'theme.castle.description': 'Muros de piedra y un tejado de pizarra azul real.',
+  'theme.castle.a': 'una casa castillo',
+  'theme.candy.label': 'Golosina',
+  'theme.candy.description': 'Una casita de jengibre con tejado de chocolate.',
+  'theme.candy.a': 'una casa de golosinas',
+  'theme.spooky.label': 'Embrujada',
+  'theme.spooky.description': 'Una casa encantada para Halloween.',
+  'theme.spooky.a': 'una casa embrujada',
+  'colorRole.walls': 'Paredes',
+  'colorRole.walls.the': 'las paredes',
+  'colorRole.roof': 'Tejado',
+  'colorRole.roof.the': 'el tejado',
+  'colorRole.trim': 'Bordes',
+  'colorRole.trim.the': 'los bordes',
+  'colorRole.door': 'Puerta',
+  'colorRole.door.the': 'la puerta',
+  'color.strawberry red': 'rojo fresa',
+  'color.pumpkin orange': 'naranja calabaza',
+  'color.sunshine yellow': 'amarillo sol',
+  'color.lime green': 'verde lima',
+  'color.mint green': 'verde menta',
+  'color.forest green': 'verde bosque',
+  'color.sky blue': 'azul cielo',
+  'color.ocean blue': 'azul océano',
+  'color.grape purple': 'morado uva',
+  'color.bubblegum pink': 'rosa chicle',
+  'color.chocolate brown': 'marrón chocolate',
+  'color.sandy beige': 'beige arena',
+  'color.cloud white': 'blanco nube',
+  'color.stone grey': 'gris piedra',
+  'color.charcoal': 'gris carbón',
+  'color.pitch black': 'negro azabache',
+
+  // --- Parts and materials ---
+  'part.Base': 'Base',
+  'part.Front wall': 'Pared delantera',
+  'part.Back wall': 'Pared trasera',
+  'part.Left wall': 'Pared izquierda',
+  'part.Right wall': 'Pared derecha',
+  'part.Upper floor': 'Piso de arriba',
+  'part.Roof panel': 'Panel del tejado',
+  'part.Roof': 'Tejado',
+  'part.Chimney front': 'Frente de la chimenea',
+  'part.Chimney side': 'Lado de la chimenea',
+  'part.Porch floor': 'Suelo del porche',
+  'part.Porch roof': 'Tejado del porche',
+  'part.Porch post': 'Poste del porche',
+  'part.Balcony floor': 'Suelo del balcón',
+  'part.Balcony front rail': 'Barandilla delantera del balcón',
+  'part.Balcony side rail': 'Barandilla lateral del balcón',
+  'partNote.gable end': 'hastial',
+  'partNote.long side': 'lado largo',
+  'partNote.end': 'extremo',
+  'partNote.front wall': 'pared delantera',
+  'partNote.back wall': 'pared trasera',
+  'partNote.left wall': 'pared izquierda',
+  'partNote.right wall': 'pared derecha',
+  'material.Cardboard': 'Cartón',
+  'material.Foam board': 'Cartón pluma',
+
+  // --- Describing and checking changes ---
+  'change.addOpening': 'añadir {opening} de {size} en la pared {wall}, a {offset} de su borde izquierdo',
+  'change.addWindow': 'añadir {opening} de {size} en la pared {wall}, a {offset} de su borde izquierdo y a {bottom} del suelo',
+  'change.removeOpening': 'quitar {opening}',
+  'change.openingNumber': 'la puerta o ventana {number}',
+  'change.moveOpening': 'mover {opening} a la pared {wall}, a {offset} de su borde izquierdo',
+  'change.flatRoof': 'ponerle un tejado plano',
+  'change.roofShape': 'ponerle un tejado {roof} con una inclinación de {pitch} grados',
+  'change.addStorey': 'añadir otra planta',
+  'change.resize': 'hacer la base de {size}',
+  'change.scale': 'cambiar el tamaño de toda la casa al {percent} %',
+  'change.addAccessory': 'añadir {accessory} en la pared {wall}',
+  'change.removeAccessory': 'quitar {accessory} de la pared {wall}',
+  'change.theme': 'convertirla en {theme}',
+  'change.color': 'pintar {role} de {color}',
+  'change.roofMaterial': 'hacer que el tejado parezca de {material}',
+  'change.other': 'cambiar la casa',
+  'problem.noOpeningToRemove': 'No hay ninguna puerta o ventana número {number} que quitar.',
+  'problem.noOpeningToMove': 'No hay ninguna puerta o ventana número {number} que mover.',
+  'problem.maxStoreys': 'La casa ya tiene {max} plantas, lo máximo que aguanta una casa de cartón.',
+  'problem.accessoryThere': 'Ya hay {accessory} en la pared {wall}.',
+  'problem.oneChimney': 'La casa ya tiene una chimenea.',
+  'problem.noAccessory': 'No hay {accessory} en la pared {wall} que quitar.',
+  'problem.tooTall': 'Las paredes medirían {height} de alto, más de {max}: demasiado altas para que el cartón se sostenga.',
+  'problem.size': 'La casa mediría {size}; tiene que medir entre {min} y {max} por cada lado.',
+};
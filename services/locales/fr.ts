@@ -0,0 +1,721 @@
+import type { MessageKey } from './en';
+
+/**
+ * The French messages.
+ */
+export const fr: Record<MessageKey, string> = {
+  // --- App ---
+  'app.promptHeading': 'À quoi ressemble la mini maison de tes rêves ?',
+  'app.promptHint': 'Décris-la ci-dessous ! Par exemple, « une petite maison champignon douillette avec une porte ronde » ou « une maison station spatiale du futur ». Ou montre-nous ton dessin, ou la photo d\'une vraie maison.',
+  'app.empty': 'Tes super créations apparaîtront ici !',
+  'app.tabs': 'Vues du modèle, du rendu, du croquis, des étapes de montage et des maisons enregistrées',
+  'app.tab.model': 'Modèle 3D',
+  'app.tab.render': 'Rendu de rêve',
+  'app.tab.sketch': 'Croquis de montage',
+  'app.tab.build': 'Comment la construire',
+  'app.tab.gallery': 'Mes maisons',
+  'app.chat': 'Discuter',
+  'app.chatLabel': 'Discuter du modèle',
+  'app.edit': 'Modifier le modèle',
+  'app.compare': 'Comparer',
+
+  // --- Header ---
+  'header.units': 'Mesurer en',
+  'header.language': 'Langue',
+  'units.metric': 'Millimètres',
+  'units.imperial': 'Pouces',
+  'units.range': '{min} à {max} {unit}',
+
+  // --- Idea box ---
+  'prompt.placeholder': 'une maison de fée en bonbons...',
+  'prompt.placeholderWithPicture': 'Dis-nous-en plus sur ton image (si tu veux)...',
+  'prompt.listening': 'J\'écoute...',
+  'prompt.label': 'Décris la mini maison de tes rêves',
+  'prompt.startRecording': 'Commencer l\'enregistrement de la voix',
+  'prompt.stopRecording': 'Arrêter l\'enregistrement de la voix',
+  'prompt.undo': 'Annuler la dernière modification',
+  'prompt.redo': 'Rétablir la modification',
+  'prompt.createLabel': 'Créer le modèle de la maison',
+  'prompt.create': 'Créer !',
+  'prompt.building': 'Construction...',
+  'prompt.orPicture': 'Ou commence avec une image :',
+  'prompt.upload': 'Envoyer une image',
+  'prompt.takePhoto': 'Prendre une photo',
+  'prompt.pictureIs': 'L\'image est',
+  'prompt.readingPicture': 'Préparation de ton image...',
+  'prompt.pictureAlt': '{kind} à partir de laquelle créer la maison',
+  'prompt.removePicture': 'Retirer l\'image',
+  'prompt.pictureFailed': 'Impossible d\'ouvrir cette image.',
+  'prompt.freshIdeas': 'Surprends-moi avec de nouvelles idées, même pour une idée déjà essayée',
+  'sourceImage.drawing.label': 'Mon dessin',
+  'sourceImage.drawing.description': 'Un dessin que tu as fait de la maison de tes rêves.',
+  'sourceImage.photo.label': 'Une vraie maison',
+  'sourceImage.photo.description': 'La photo d\'une maison dont tu veux une copie miniature.',
+
+  // --- Progress ---
+  'progress.planning': 'On imagine le plan...',
+  'progress.count': '{finished} sur {total} terminés',
+  'progress.stop': 'Arrêter',
+  'progress.label': 'Avancement du modèle',
+  'progress.done': ' : terminé',
+  'progress.failed': ' : raté, tu pourras le refaire ensuite',
+  'progress.pending': ' : en cours',
+  'narration.title': 'Lecture à voix haute',
+  'narration.voice': 'Voix',
+  'narration.defaultVoice': 'La voix habituelle',
+  'narration.speed': 'Vitesse',
+  'narration.rate.slow': 'Lente',
+  'narration.rate.normal': 'Normale',
+  'narration.rate.fast': 'Rapide',
+  'narration.announce': "Lire à voix haute l'avancement et les problèmes",
+  'narration.try': 'Essayer',
+  'narration.sample': 'Bonjour ! Je peux te lire ta maison.',
+  'narration.read': 'Lis-le-moi',
+  'narration.stop': 'Arrêter la lecture',
+  'narration.keys': "Les flèches haut et bas passent d'une ligne à l'autre. Échap arrête la lecture.",
+  'narration.part': "{id}, {label} : {quantity} en {material}, {size}, {thickness} d'épaisseur.",
+  'narration.partCutout': 'Elle a une découpe pour une porte ou une fenêtre.',
+  'narration.partCutouts': 'Elle a {count} découpes pour des portes et des fenêtres.',
+  'narration.material': '{name} : {quantity}, {size}.',
+  'narration.by': 'sur',
+  'asset.Front view': 'Vue de face',
+  'asset.Back view': 'Vue de derrière',
+  'asset.Left side view': 'Vue du côté gauche',
+  'asset.Right side view': 'Vue du côté droit',
+  'asset.Top-down view': 'Vue de dessus',
+  'asset.sketch': 'Croquis de montage',
+  'asset.cuttingList': 'Liste de découpe',
+
+  // --- Grown-ups and safety ---
+  'parental.title': 'Pour les adultes',
+  'parental.setPinIntro': 'Choisis un code pour que seuls les adultes puissent changer ces réglages.',
+  'parental.pin': 'Code (4 à 8 chiffres)',
+  'parental.confirmPin': 'Le même code encore une fois',
+  'parental.setPin': 'Enregistrer le code',
+  'parental.pinInvalid': 'Le code doit avoir de 4 à 8 chiffres.',
+  'parental.pinMismatch': 'Les deux codes ne sont pas les mêmes.',
+  'parental.enterPin': 'Saisis le code',
+  'parental.unlock': 'Déverrouiller',
+  'parental.wrongPin': 'Ce code n\'est pas le bon. Encore {left} essais.',
+  'parental.lockedOut': 'Trop d\'essais ratés. Attends une minute, puis réessaie.',
+  'parental.strictness': 'Contrôle du contenu',
+  'parental.strictness.relaxed': 'Souple',
+  'parental.strictness.relaxed.help': 'Les idées qui font un peu peur et les jeux de combat sont acceptés. Le reste qui ne convient pas est adouci ou arrêté.',
+  'parental.strictness.standard': 'Normal',
+  'parental.strictness.standard.help': 'Les idées qui font peur sont changées en idées gentilles, comme un crâne en citrouille.',
+  'parental.strictness.strict': 'Strict',
+  'parental.strictness.strict.help': 'Pour les jeunes enfants : les épées et les canons sont aussi adoucis, et les armes sont arrêtées.',
+  'parental.dailyLimit': 'Limiter les nouveaux dessins et changements à',
+  'parental.dailyLimitLabel': 'Dessins par jour',
+  'parental.perDay': 'par jour',
+  'parental.usedToday': 'Faits aujourd\'hui : {count}',
+  'parental.allowSharing': 'Autoriser le partage des dessins',
+  'parental.allowCraftKnife': 'Autoriser les étapes au cutter',
+  'parental.craftKnifeHelp': 'Sinon, les maisons sont conçues pour les ciseaux et les fenêtres sont peintes.',
+  'parental.changePin': 'Changer le code',
+  'parental.lock': 'Verrouiller',
+  'parental.forgotPin': 'Code oublié ? Effacer les données de ce site dans le navigateur le supprime, mais aussi toutes les maisons enregistrées.',
+  'moderation.softened': 'Nous avons rendu ton idée un peu plus gentille : « {text} »',
+  'share.button': 'Partager ma maison',
+
+  // --- Renders ---
+  'display.loading': 'On imagine le rendu...',
+  'display.title': 'Ton rendu de rêve !',
+  'display.madeFrom': 'Créée à partir de : {kind}',
+  'display.sourceAlt': '{kind}, à partir de laquelle la maison a été créée',
+  'display.viewAlt': 'Modèle de maison miniature généré - {view}',
+  'display.viewMissing': 'La {view} n\'a pas marché cette fois.',
+  'display.tryAgain': 'Réessayer cette vue',
+  'display.redo': 'Refaire cette vue',
+  'display.views': 'Choix des vues',
+  'display.show': 'Voir {view}',
+  'display.drawingLabel': '{view}, en cours de dessin',
+  'display.failedLabel': '{view} ratée',
+  'display.failedRetryLabel': '{view} ratée, choisis-la pour réessayer',
+  'display.thumbnail': 'Miniature de {view}',
+  'display.drawing': 'Dessin...',
+  'display.failed': 'Raté',
+  'display.failedRetry': 'Raté, réessayer',
+
+  // --- Cutting list ---
+  'list.loading': 'Calcul des matériaux...',
+  'list.missing': "La liste de découpe n'est pas sortie cette fois.",
+  'list.tryAgain': 'Réessayer la liste de découpe',
+  'list.redo': 'Refaire la liste de découpe',
+  'list.incomplete': 'Il manque quelque chose à cette liste :',
+  'list.redoHint': 'Refaire la liste de découpe comble souvent les manques.',
+  'list.tabs': 'Matériaux, plan de découpe et liste de courses',
+  'list.tab.materials': 'Matériaux',
+  'list.tab.layout': 'Plan de découpe',
+  'list.tab.shopping': 'Courses',
+  'list.caption': 'Matériaux et liste de découpe pour {name}',
+  'list.part': 'Pièce',
+  'list.material': 'Matériau',
+  'list.quantity': 'Quantité',
+  'list.size': 'Taille',
+  'list.thick': "{thickness} d'épaisseur",
+  'list.cutout.door': 'découpe de porte {size}',
+  'list.cutout.window': 'découpe de fenêtre {size}',
+
+  // --- Cut layout ---
+  'layout.sheet': 'Taille de la feuille',
+  'layout.kerf': 'Largeur de coupe (mm)',
+  'layout.kerfAbout': 'Environ {length}.',
+  'layout.grain': 'Sens des fibres',
+  'layout.grain.any': 'Peu importe (on peut tourner)',
+  'layout.grain.vertical': 'Dans la hauteur de la feuille',
+  'layout.grain.horizontal': 'Dans la largeur de la feuille',
+  'layout.sheetNeeded': 'Il te faut 1 feuille · il reste environ {waste} % en chutes',
+  'layout.sheetsNeeded': 'Il te faut {count} feuilles · il reste environ {waste} % en chutes',
+  'layout.tooBig': 'Trop grand pour cette feuille : {parts}. Essaie une feuille plus grande.',
+  'layout.sheetPieces': 'Feuille {number} : {parts}',
+  'layout.sheetNumber': 'Feuille {number}',
+  'paper.A4': 'A4',
+  'paper.A3': 'A3',
+  'paper.US Letter': 'Lettre US',
+  'paper.Large foam board': 'Grand carton mousse',
+
+  // --- Build steps ---
+  'step.glue': 'colle blanche',
+  'step.glueGun': 'Un pistolet à colle basse température va plus vite sur le carton mousse, mais seulement avec un adulte, et jamais le modèle chaud : il fait fondre la mousse.',
+  'step.part': 'la pièce {id} ({label})',
+  'step.edge.bottom': 'du bas',
+  'step.edge.top': 'du haut',
+  'step.edge.left': 'de gauche',
+  'step.edge.right': 'de droite',
+  'step.join': 'Colle la languette {edge} de {part} sur {other}.',
+  'step.cut.title': 'Découpe les pièces',
+  'step.cut.knife': "Découpe les {count} pièces le long des traits noirs continus des gabarits, portes et fenêtres comprises. Écris le numéro de chaque pièce à l'intérieur pour la retrouver plus tard.",
+  'step.cut.knifeFoam': "Le carton mousse demande un cutter bien aiguisé : c'est le travail d'un adulte, sur un tapis de découpe.",
+  'step.cut.knifeSafety': 'Demande à un adulte de découper les portes et fenêtres au cutter sur un tapis de découpe. Des ciseaux à bouts ronds suffisent pour les bords extérieurs.',
+  'step.cut.knifeTip': "Découpe les portes et fenêtres tant que la pièce est à plat : c'est bien plus dur une fois les murs debout.",
+  'step.cut.scissors': "Découpe les {count} pièces le long des traits noirs extérieurs des gabarits avec des ciseaux à bouts ronds. Découpe les portes depuis le bas de leur mur, mais laisse les fenêtres : dessine-les ou peins-les à la place. Écris le numéro de chaque pièce à l'intérieur pour la retrouver plus tard.",
+  'step.cut.scissorsFoam': 'Les ciseaux ne coupent pas le carton mousse. Demande à un adulte de découper ces pièces, ou fais la maison en carton.',
+  'step.cut.scissorsSafety': 'Passe les ciseaux fermés et coupe toujours loin de tes doigts.',
+  'step.cut.scissorsTip': "Peins les fenêtres tant que la pièce est à plat : c'est bien plus facile qu'une fois les murs debout.",
+  'step.hold': 'Tiens chaque collage immobile {seconds} secondes, le temps que la colle prenne.',
+  'step.fold.title': 'Plie les languettes',
+  'step.fold.instruction': "Pose une règle le long de chaque pointillé bleu et repasse dessus avec un crayon émoussé ou un stylo vide, puis plie la languette vers l'intérieur.",
+  'step.fold.tip': 'Un pli marqué se plie net ; sans le marquer, la surface peut se déchirer.',
+  'step.front.title': 'Pose le mur avant debout sur le socle',
+  'step.front.instruction': 'Pose le mur avant debout le long du bord avant du socle. Mets un mince filet de {glue} sur chaque languette avant de la presser en place.',
+  'step.sides.title': 'Ajoute les murs des côtés',
+  'step.sides.instruction': 'Colle les murs gauche et droit sur le socle, en glissant leurs bords avant derrière le mur avant.',
+  'step.sides.tip': "Regarde les murs d'en haut pour vérifier qu'ils sont bien droits.",
+  'step.floor.title': "Installe l'étage",
+  'step.floors.title': 'Installe les étages',
+  'step.floor.instruction': "Glisse l'étage par l'arrière et colle-le bien à plat entre les murs des côtés, à mi-hauteur.",
+  'step.floors.instruction': "Glisse chaque étage par l'arrière et colle-le bien à plat entre les murs des côtés, en les espaçant régulièrement.",
+  'step.floor.tip': "Marque d'abord la hauteur sur les deux murs des côtés, pour que l'étage soit bien à plat.",
+  'step.back.title': 'Ferme la boîte avec le mur arrière',
+  'step.back.instruction': "Colle le mur arrière sur le socle pour qu'il tienne les murs des côtés par derrière.",
+  'step.back.drying': 'Laisse sécher les murs {minutes} minutes avant de poser le toit.',
+  'step.hip.long.title': 'Pose les grands pans du toit',
+  'step.hip.long.instruction': "Colle les deux grands pans du toit sur les languettes du haut des murs, en les inclinant pour qu'ils se rejoignent au faîte.",
+  'step.hip.ends.title': 'Ferme le toit avec les pans des bouts',
+  'step.hip.ends.instruction': 'Colle les deux pans en triangle aux bouts, entre les grands pans.',
+  'step.hip.tape': 'Mets du ruban adhésif le long des quatre joints en pente où les pans du toit se rejoignent, pour cacher les fentes.',
+  'step.roof.title': 'Pose le toit',
+  'step.roof.gable': "Colle les deux pans du toit sur les languettes du haut des murs avant et arrière, en les inclinant pour qu'ils se rejoignent au faîte.",
+  'step.roof.shed': "Colle le pan du toit sur les languettes du haut, en pente du grand mur arrière vers l'avant.",
+  'step.roof.flat': 'Colle le toit à plat sur les languettes du haut des murs, en le faisant dépasser autant tout autour.',
+  'step.roof.slopingTops': 'Mets aussi un mince filet de colle sur les bords supérieurs en pente des murs des côtés, pour que le toit repose dessus.',
+  'step.roof.tape': 'Mets du ruban adhésif le long du faîte, là où les deux pans du toit se rejoignent.',
+  'step.roof.drying': 'Laisse sécher le toit {minutes} minutes avant de retourner la maison.',
+  'step.accessory.title': 'Construis {accessory} sur le mur {wall}',
+  'step.accessory.chimney': 'Colle les deux côtés de la cheminée derrière le devant pour faire une boîte sans fond, puis pose-la debout contre le mur, le côté ouvert vers la maison.',
+  'step.accessory.porch': 'Pose le plancher du porche contre le mur, colle un poteau debout à chaque coin extérieur, puis colle le toit du porche sur les poteaux.',
+  'step.accessory.balcony': 'Colle les trois garde-corps sur le plancher du balcon, le long devant, puis colle le plancher à plat contre le mur, {height}.',
+  'step.balcony.upper': "au niveau de l'étage",
+  'step.balcony.low': 'un peu au-dessus de la mi-hauteur',
+  'step.accessory.join': "Colle {accessory} à l'extérieur du mur {wall}.",
+  'step.features.title': 'Ajoute les finitions',
+  'step.features.instruction': 'Décore ta maison : {features}.',
+  'step.features.tip': "Peins ou colorie la maison avant d'ajouter les petits détails, pour ne pas les faire tomber.",
+  'step.describe': 'Étape {number} sur {total} : {title}.',
+  'step.careful': 'Attention : {text}',
+
+  // --- Build guide ---
+  'guide.title': 'Comment la construire',
+  'guide.steps': 'Étapes',
+  'guide.stepButton': 'Étape {number} : {title}',
+  'guide.step': 'Étape {number} sur {total} : {title}',
+  'guide.diagram': 'Dessin de la maison après cette étape : {title}. Les nouvelles pièces sont en jaune.',
+  'guide.parts': 'Pièces dont tu as besoin :',
+  'guide.note.safety': 'Sécurité',
+  'guide.note.drying': 'Séchage',
+  'guide.note.tip': 'Astuce',
+  'guide.previous': 'Précédent',
+  'guide.next': 'Suivant',
+  'guide.readAloud': 'Lire à voix haute',
+
+  // --- Printable templates ---
+  'template.download': 'Télécharger les gabarits de découpe à imprimer',
+  'template.printable': 'Gabarits à imprimer',
+  'template.pdf': 'Télécharger le PDF',
+  'template.svg': 'Télécharger le SVG',
+  'template.finishedSize': 'Taille finale : socle de {size}, murs de {height} de haut, toit {roof}.',
+  'template.actualSize': 'Imprime à 100 % / « Taille réelle ». Pas de « Ajuster à la page ».',
+  'template.checkSquare': 'Vérifie : ce carré doit mesurer exactement {length} de côté.',
+  'template.legend.cutKnife': "Découpe le long des traits noirs continus (demande l'aide d'un adulte pour le cutter).",
+  'template.legend.cutScissors': 'Découpe le long des traits noirs extérieurs avec des ciseaux à bouts ronds. Peins les fenêtres au lieu de les découper.',
+  'template.legend.score': "Marque et plie le long des pointillés bleus. Les languettes marquées « colle » se plient vers l'intérieur.",
+  'template.legend.guide': 'Les pointillés gris et les croix servent seulement à aligner les pages. Ne les découpe pas.',
+  'template.partsIndex': 'Pièces de ce paquet :',
+  'template.glue': 'colle',
+  'template.partSize': '{size} en {material}',
+  'template.partSizeCopy': '{size} en {material} - exemplaire {copy} sur {quantity}',
+  'template.overlap': "pose sur la feuille {tile} jusqu'ici",
+  'template.partCopy': '{part} (exemplaire {copy})',
+  'template.tile': '{part} - feuille {tile} sur {last}',
+  'template.stepParts': 'Pièces : {parts}',
+  'template.note.safety': 'SÉCURITÉ : {text}',
+  'template.note.drying': 'Séchage : {text}',
+  'template.note.tip': 'Astuce : {text}',
+  'template.page.parts': 'Pièces',
+  'template.page.steps': 'Comment la construire',
+  'template.page.cover': 'Couverture',
+  'template.header': '{name} - {title} - page {page} sur {pages}',
+  'template.svgHeader': "{name} - gabarits de découpe à l'échelle 1:1 (unités : mm)",
+
+  // --- Versions ---
+  'version.original': "Maison d'origine",
+  'version.edited': 'Maison modifiée',
+  'version.number': 'Version {number}',
+  'version.label': 'Version {number} : {summary}',
+  'diff.material': 'matériau {before} → {after}',
+  'diff.size': 'taille {before} → {after}',
+  'diff.quantity': 'quantité {before} → {after}',
+  'diff.door': '{count} porte',
+  'diff.doors': '{count} portes',
+  'diff.window': '{count} fenêtre',
+  'diff.windows': '{count} fenêtres',
+  'diff.moved': 'portes ou fenêtres déplacées',
+  'compare.title': 'Comparer les versions',
+  'compare.done': 'Terminé',
+  'compare.before': 'Celle-ci...',
+  'compare.after': '...ou celle-là ?',
+  'compare.keep': 'Garder la version {number}',
+  'compare.confirmKeep': 'Garder « {version} » et jeter la version {discard} ?',
+  'compare.same': 'Choisis deux versions différentes pour voir ce qui a changé.',
+  'compare.sideBySide': 'Côte à côte',
+  'compare.picture': '{view} de la version {number}',
+  'compare.noPicture': "Pas d'image de ce côté",
+  'compare.description': 'Ce que dit la description',
+  'compare.green': 'Vert :',
+  'compare.greenWords': 'mots nouveaux dans la version {number} ;',
+  'compare.red': 'rouge :',
+  'compare.redWords': "mots qui n'étaient que dans la version {number}.",
+  'compare.whatToCut': 'Quoi découper',
+  'compare.caption': 'Changements de la liste de découpe de la version {before} à la version {after}',
+  'compare.whatChanged': 'Ce qui a changé',
+  'compare.pieces': 'Pièces',
+  'compare.status.same': 'Pas de changement',
+  'compare.status.added': 'Nouvelle pièce',
+  'compare.status.removed': 'Disparue',
+  'compare.status.changed': 'Modifiée',
+  'timeline.title': "L'histoire de ma maison",
+  'timeline.help': 'Choisis une version pour y revenir. Modifier une ancienne version commence une nouvelle branche.',
+  'timeline.branches': 'Autres idées essayées à partir de cette maison',
+  'timeline.chat': 'Décidée dans une discussion',
+  'timeline.inChat': 'décidée dans une discussion',
+  'timeline.showing': 'affichée maintenant',
+
+  // --- Building rules ---
+  'rules.title': 'Règles de construction',
+  'rules.heading': 'Règles de construction :',
+  'rules.size': 'Taille',
+  'rules.sizeHelp': '{width} de large, murs de {height} de haut.',
+  'rules.sizeHelpRoof': '{width} de large, murs de {height} de haut, {max} au plus avec le toit.',
+  'rules.who': 'Qui construit ?',
+  'rules.ages': '{age}',
+  'rules.agesSummary': '{age}',
+  'rules.materials': "Matériel que j'ai",
+  'rules.tools': 'Outils',
+  'rules.knifeOff': 'Un adulte a désactivé le cutter.',
+  'rules.scissorsHelp': 'Les ciseaux ne coupent ni le carton mousse ni les fenêtres, donc les fenêtres sont peintes.',
+  'rules.spendAtMost': 'Dépenser au plus',
+  'rules.budget': 'Budget pour le matériel',
+  'rules.upTo': "jusqu'à {price}",
+  'rules.noBudget': 'sans budget',
+  'rules.switchCurrency': 'Passer en {currency}, comme les prix',
+  'rules.or': 'ou',
+  'rules.broken': 'Cette maison ne respecte pas tes règles de construction :',
+  'rules.fix': 'La faire respecter les règles',
+  'rules.wide': 'La maison fait {value} de large, mais la taille « {size} » fait {range} de large.',
+  'rules.deep': 'La maison fait {value} de profondeur, mais la taille « {size} » fait {range} de profondeur.',
+  'rules.tall': 'Les murs de la maison font {value} de haut, mais la taille « {size} » fait {range} de haut aux murs.',
+  'rules.totalHeight': 'La maison fait {value} de haut avec son toit, mais la taille « {size} » fait {max} au plus.',
+  'rules.material': "La maison est en {material}, que tu n'as pas ; choisis plutôt : {materials}.",
+  'rules.foamScissors': 'Le carton mousse demande un cutter, mais seuls les ciseaux sont permis.',
+  'rules.window': 'La fenêtre demande un cutter pour être découpée, mais seuls les ciseaux sont permis ; peins les fenêtres à la place.',
+  'rules.windows': 'Les {count} fenêtres demandent un cutter pour être découpées, mais seuls les ciseaux sont permis ; peins les fenêtres à la place.',
+  'rules.openings': "La maison a {count} portes et fenêtres, mais pour un enfant de {age}, c'est {max} au plus.",
+  'rules.tiny': 'Une porte ou fenêtre fait moins de {min}, trop minutieux pour un enfant de {age}.',
+  'rules.tinyMany': '{count} portes et fenêtres font moins de {min}, trop minutieux pour un enfant de {age}.',
+  'rules.roof': 'Un toit {roof} est trop minutieux pour un enfant de {age} ; utilise un toit {roofs}.',
+  'rules.currency': 'Le budget est en {budget} mais les prix sont en {prices}, on ne peut donc pas le vérifier.',
+  'rules.overBudget': 'Le matériel coûte {total}, plus que le budget de {budget}.',
+  'size.palm': 'Tient dans la main',
+  'size.tabletop': 'Pour la table',
+  'size.shelf': 'Tient sur une étagère',
+  'size.dollhouse': 'Maison de poupée 1:12',
+  'age.4-6': '4 à 6 ans',
+  'age.7-9': '7 à 9 ans',
+  'age.10-12': '10 à 12 ans',
+  'age.13+': '13 ans et plus',
+  'tools.scissors': 'Ciseaux seulement',
+  'tools.craft-knife': "Cutter, avec l'aide d'un adulte",
+  'tools.scissors.short': 'Ciseaux seulement',
+  'tools.craft-knife.short': 'Cutter',
+
+  // --- Shopping list ---
+  'shop.loading': 'Recherche des prix...',
+  'shop.caption': 'Quoi acheter pour {name}',
+  'shop.item': 'Article',
+  'shop.need': 'Besoin',
+  'shop.have': "J'ai",
+  'shop.buy': 'Acheter',
+  'shop.cost': 'Prix',
+  'shop.total': 'Total',
+  'shop.haveLabel': 'Combien de {units} de {item} tu as déjà',
+  'shop.nothing': 'Rien',
+  'shop.pack': '{count} paquet',
+  'shop.packs': '{count} paquets',
+  'shop.perPack': '{count} par paquet',
+  'shop.finishEditing': 'Finis de modifier les prix pour voir le total.',
+  'shop.unmatched': 'Sans prix, donc pas dans le total :',
+  'shop.downloads': 'Télécharger la liste de courses',
+  'shop.csv': 'Télécharger le CSV',
+  'shop.paper': 'Papier de la liste',
+  'shop.checklist': 'Télécharger la liste à cocher',
+  'shop.editPrices': 'Modifier les prix',
+  'shop.doneEditing': 'Terminer la modification des prix',
+  'shop.notCatalog': "Ce fichier n'est pas un catalogue de matériaux : {issues}.",
+  'shop.notJson': "Ce fichier n'a pas pu être lu comme du JSON.",
+  'shop.currency': 'Devise',
+  'shop.currencyHelp': 'Trois lettres, par ex. USD, EUR ou GBP.',
+  'shop.catalog': 'Catalogue de matériaux',
+  'shop.packSize': 'Taille du paquet',
+  'shop.unit': 'Unité',
+  'shop.packPrice': 'Prix du paquet',
+  'shop.nameOf': 'Nom de {item}',
+  'shop.packSizeOf': 'Taille du paquet de {item}',
+  'shop.unitOf': 'Unité de {item}',
+  'shop.packPriceOf': 'Prix du paquet de {item}',
+  'shop.reset': 'Revenir aux prix habituels',
+  'shop.export': 'Exporter le catalogue',
+  'shop.import': 'Importer un catalogue',
+  'shop.onSheets': '{parts} sur {sheets}',
+  'shop.forJoints': 'pour tous les assemblages',
+  'shop.forRoof': 'pour les joints du toit',
+  'shop.forItems': 'pour {items}',
+  'shop.noSheets': "{name} en feuilles : le catalogue n'en vend pas.",
+  'shop.tooBig': 'Trop grand pour toutes les feuilles de {name} du catalogue : {parts}.',
+  'shop.csv.needed': 'Nécessaires',
+  'shop.csv.have': 'Déjà là',
+  'shop.csv.toBuy': 'À acheter',
+  'shop.csv.packs': 'Paquets',
+  'shop.csv.packPrice': 'Prix du paquet ({currency})',
+  'shop.csv.cost': 'Prix ({currency})',
+  'shop.csv.for': 'Pour',
+  'shop.pdf.title': 'Liste de courses : {name}',
+  'shop.pdf.haveAll': "Tu as déjà tout ce qu'il te faut !",
+  'shop.pdf.packsOf': '{packs} de {item} ({size} chacun)',
+  'shop.pdf.need': 'Il faut {amount} {reason}',
+  'shop.pdf.needHave': 'Il faut {amount} {reason}, tu en as déjà {owned}',
+  'shop.pdf.total': 'Total : {amount}',
+  'unit.part': 'pièce',
+  'unit.parts': 'pièces',
+  'unit.sheet': 'feuille',
+  'unit.sheets': 'feuilles',
+  'unit.bottle': 'flacon',
+  'unit.bottles': 'flacons',
+  'unit.roll': 'rouleau',
+  'unit.rolls': 'rouleaux',
+  'unit.stick': 'bâtonnet',
+  'unit.sticks': 'bâtonnets',
+  'catalog.Craft card, A4': 'Papier cartonné, A4',
+  'catalog.Craft card, A3': 'Papier cartonné, A3',
+  'catalog.Foam board, A3': 'Carton mousse, A3',
+  'catalog.Foam board, 20 x 30 in': 'Carton mousse, 20 x 30 in',
+  'catalog.White craft glue, 120 ml': 'Colle blanche, 120 ml',
+  'catalog.Masking tape': 'Ruban de masquage',
+  'catalog.Craft sticks': 'Bâtonnets de bricolage',
+
+  // --- Saved houses, resizing and the sketch ---
+  'gallery.heading': 'Mes maisons enregistrées',
+  'gallery.loadFailed': "Nous n'avons pas pu ouvrir tes créations enregistrées dans ce navigateur.",
+  'gallery.empty': 'Chaque maison que tu crées est enregistrée ici automatiquement.',
+  'gallery.openNamed': 'Ouvrir {name}',
+  'gallery.newName': 'Nouveau nom',
+  'gallery.save': 'Enregistrer',
+  'gallery.created': 'Créée le {date}',
+  'gallery.changed': 'modifiée le {date}',
+  'gallery.open': 'Ouvrir',
+  'gallery.rename': 'Renommer',
+  'gallery.duplicate': 'Dupliquer',
+  'gallery.delete': 'Supprimer',
+  'gallery.confirmDelete': 'Supprimer « {name} » ? Ce ne sera pas annulable.',
+  'scale.label': 'Redimensionner toute la maison',
+  'scale.resize': 'Redimensionner',
+  'scale.now': 'Maintenant {size}, avec des murs de {height} de haut.',
+  'scale.would': 'Elle ferait {size}, avec des murs de {height} de haut.',
+  'scale.tooBig': 'À {percent} % la maison serait trop grande pour être construite en carton.',
+  'scale.tooSmall': 'À {percent} % la maison serait trop petite pour être construite en carton.',
+  'sketch.drafting': 'Dessin des plans...',
+  'sketch.failed': "Le croquis n'est pas sorti cette fois.",
+  'sketch.retry': 'Réessayer le croquis',
+  'sketch.alt': 'Croquis de montage généré, avec les mesures',
+  'sketch.redo': 'Refaire le croquis',
+
+  // --- 3D model ---
+  'model.planning': 'Préparation du plan...',
+  'model.heading': 'Ta maison en 3D !',
+  'model.help': 'Fais glisser pour la tourner, utilise la molette ou pince pour zoomer, et fais glisser avec le bouton droit ou utilise les flèches pour la déplacer.',
+  'model.builtFrom': 'Faite des {count} pièces que tu vas découper : {size}, avec un toit {roof}.',
+  'model.pullApart': 'Écarter',
+  'model.resetView': 'Revenir à la vue de départ',
+  'model.noWebGl': 'Ce navigateur ne peut pas afficher de modèles 3D. Essaie plutôt le Rendu de rêve ou le Croquis de montage !',
+  'spinner.working': 'On fait de la magie...',
+
+  // --- Errors ---
+  'error.rateLimit.title': 'Waouh, tant d\'idées à la fois !',
+  'error.rateLimit.message': 'Le Constructeur de Rêves a besoin d\'une petite pause avant de dessiner à nouveau.',
+  'error.rateLimit.action': 'Réessayer',
+  'error.quotaExhausted.title': 'Le Constructeur de Rêves n\'a plus d\'énergie créative',
+  'error.quotaExhausted.message': 'Il a fait tellement de maisons aujourd\'hui qu\'il doit se reposer. Reviens plus tard, ou va voir les maisons que tu as déjà faites !',
+  'error.quotaExhausted.action': 'Voir mes maisons',
+  'error.safetyBlocked.title': 'Essayons une autre idée',
+  'error.safetyBlocked.message': 'Ton idée est super créative, mais le Constructeur de Rêves n\'a pas pu la dessiner. Peux-tu décrire ta maison autrement ?',
+  'error.safetyBlocked.action': 'Changer mon idée',
+  'error.invalidKey.title': 'Le Constructeur de Rêves n\'est pas branché',
+  'error.invalidKey.message': 'Demande à un adulte de vérifier la clé d\'API sur le serveur de conception.',
+  'error.invalidKey.action': 'D\'accord',
+  'error.network.title': 'La connexion a été perdue',
+  'error.network.message': 'Impossible de joindre le Constructeur de Rêves. Vérifie que tu es en ligne, puis réessaie.',
+  'error.network.action': 'Réessayer',
+  'error.malformedResponse.title': 'Le plan est tout barbouillé',
+  'error.malformedResponse.message': 'Le Constructeur de Rêves s\'est un peu embrouillé. Redemander suffit en général.',
+  'error.malformedResponse.action': 'Réessayer',
+  'error.dailyLimit.title': 'C\'est fini pour aujourd\'hui',
+  'error.dailyLimit.message': 'Tu as fait beaucoup de dessins aujourd\'hui ! Reviens demain pour en faire d\'autres, ou va voir les maisons que tu as déjà faites.',
+  'error.dailyLimit.action': 'Voir mes maisons',
+  'error.dailyLimit.reached': 'La limite de {limit} dessins par jour est atteinte.',
+  'error.partialResult.title': 'Presque fini !',
+  'error.partialResult.message': 'Ta maison est presque prête, mais quelques parties n\'ont pas marché.',
+  'error.partialResult.action': 'Refaire les parties manquantes',
+  'error.partialResult.missing': "{count} parties du dessin n'ont pas pu être faites.",
+  'error.partialResult.missingOne': "1 partie du dessin n'a pas pu être faite.",
+  'error.unknown.title': 'Oups !',
+  'error.unknown.message': 'La machine à plans a eu un petit hoquet. Réessaie, s\'il te plaît.',
+  'error.unknown.action': 'Réessayer',
+  'error.missing': 'Il manque {missing} sur {total} : {assets}.',
+  'error.wait': '{action} dans {seconds} s',
+  'error.close': 'Fermer',
+
+  // --- Edit form ---
+  'edit.title': 'Modifie ton modèle',
+  'edit.style': 'Style',
+  'edit.colours': 'Couleurs',
+  'edit.colourOf': 'Couleur : {role}',
+  'edit.roof': 'Toit',
+  'edit.roofShape': 'Forme du toit',
+  'edit.steepness': 'Pente : {pitch} degrés',
+  'edit.madeOf': 'En',
+  'edit.useIt': 'Utiliser',
+  'edit.openings': 'Portes et fenêtres',
+  'edit.noOpenings': 'Il n\'y a pas encore de portes ni de fenêtres.',
+  'edit.move': 'Déplacer',
+  'edit.remove': 'Enlever',
+  'edit.wall': 'Mur',
+  'edit.fromLeft': 'Depuis la gauche',
+  'edit.upFromGround': 'Hauteur depuis le sol',
+  'edit.moveHere': 'La mettre ici',
+  'edit.addA': 'Ajouter une',
+  'edit.window': 'Fenêtre',
+  'edit.door': 'Porte',
+  'edit.shape': 'Forme',
+  'edit.onWall': 'Sur le mur',
+  'edit.width': 'Largeur',
+  'edit.height': 'Hauteur',
+  'edit.depth': 'Profondeur',
+  'edit.addIt': 'Ajouter',
+  'edit.size': 'Taille et étages',
+  'edit.resize': 'Changer la taille de la base',
+  'edit.oneFloor': 'Un niveau de {height} de haut.',
+  'edit.floors': '{count} niveaux, chacun de {height} de haut.',
+  'edit.addFloor': 'Ajouter un étage',
+  'edit.extras': 'En plus',
+  'edit.accessoryWall': 'Mur pour {name}',
+  'edit.wallOption': 'Mur {wall}',
+  'edit.takeAway': 'L\'enlever',
+  'edit.anythingElse': 'Autre chose ?',
+  'edit.requestPlaceholder': 'ajoute une trappe secrète !',
+  'edit.changes': 'Tes modifications',
+  'edit.undo': 'annuler',
+  'edit.undoLabel': 'Annuler la modification {number}',
+  'edit.problems': 'Ces modifications ne marchent pas encore :',
+  'edit.cancel': 'Annuler',
+  'edit.updating': 'Mise à jour...',
+  'edit.update': 'Mettre à jour',
+
+  // --- Chat ---
+  'chat.title': 'Parle de ta maison',
+  'chat.close': 'Fermer',
+  'chat.greeting': 'Salut ! Je peux t\'aider à changer ta maison. Dis-moi ce que tu aimerais, comme « rends la porte plus ronde » ou « et si elle avait un toboggan ? »',
+  'chat.previous': 'La discussion qui a créé cette version',
+  'chat.label': 'Discussion avec l\'assistant de conception',
+  'chat.youSaid': 'Tu as dit : ',
+  'chat.helperSaid': 'L\'assistant a dit : ',
+  'chat.thinking': 'Je réfléchis...',
+  'chat.building': 'Construction...',
+  'chat.build': 'Oui, construis-le !',
+  'chat.orChange': 'Ou dis-moi quoi changer.',
+  'chat.message': 'Ton message',
+  'chat.placeholder': 'Qu\'est-ce que tu aimerais changer ?',
+  'chat.listening': 'J\'écoute... appuie sur le micro quand tu as fini',
+  'chat.startListening': 'Parler au lieu d\'écrire',
+  'chat.stopListening': 'Arrêter d\'écouter',
+  'chat.send': 'Envoyer',
+
+  // --- Parts of the house ---
+  'wall.front': 'de devant',
+  'wall.back': 'de derrière',
+  'wall.left': 'de gauche',
+  'wall.right': 'de droite',
+  'wall.front.label': 'Devant',
+  'wall.back.label': 'Derrière',
+  'wall.left.label': 'Gauche',
+  'wall.right.label': 'Droite',
+  'shape.rectangle': 'Rectangulaire',
+  'shape.arch': 'Cintrée',
+  'shape.round': 'Ronde',
+  'roof.gable': 'à deux pans',
+  'roof.hip': 'à quatre pans',
+  'roof.shed': 'en appentis',
+  'roof.flat': 'plat',
+  'opening.door.rectangle.a': 'une porte rectangulaire',
+  'opening.door.rectangle.the': 'la porte rectangulaire',
+  'opening.door.arch.a': 'une porte cintrée',
+  'opening.door.arch.the': 'la porte cintrée',
+  'opening.door.round.a': 'une porte ronde',
+  'opening.door.round.the': 'la porte ronde',
+  'opening.window.rectangle.a': 'une fenêtre rectangulaire',
+  'opening.window.rectangle.the': 'la fenêtre rectangulaire',
+  'opening.window.arch.a': 'une fenêtre cintrée',
+  'opening.window.arch.the': 'la fenêtre cintrée',
+  'opening.window.round.a': 'une fenêtre ronde',
+  'opening.window.round.the': 'la fenêtre ronde',
+  'opening.place': '{opening} du mur {wall}',
+  'accessory.chimney.label': 'Cheminée',
+  'accessory.chimney.description': 'Une cheminée qui monte le long du mur, plus haute que le toit.',
+  'accessory.chimney.name': 'cheminée',
+  'accessory.chimney.a': 'une cheminée',
+  'accessory.chimney.the': 'la cheminée',
+  'accessory.porch.label': 'Porche',
+  'accessory.porch.description': 'Un petit toit sur deux poteaux au-dessus de la porte.',
+  'accessory.porch.name': 'porche',
+  'accessory.porch.a': 'un porche',
+  'accessory.porch.the': 'le porche',
+  'accessory.balcony.label': 'Balcon',
+  'accessory.balcony.description': 'Un balcon avec une rambarde, à mi-hauteur du mur.',
+  'accessory.balcony.name': 'balcon',
+  'accessory.balcony.a': 'un balcon',
+  'accessory.balcony.the': 'le balcon',
+  'theme.classic.label': 'Classique',
+  'theme.classic.description': 'Une maison de famille traditionnelle avec un toit en tuiles.',
+  'theme.classic.a': 'une maison classique',
+  'theme.cottage.label': 'Chaumière',
+  'theme.cottage.description': 'Une chaumière douillette avec un toit de chaume.',
+  'theme.cottage.a': 'une chaumière',
+  'theme.modern.label': 'Moderne',
+  'theme.modern.description': 'Des murs blancs et lisses, des panneaux sombres et une porte vive.',
+  'theme.modern.a': 'une maison moderne',
+  'theme.castle.label': 'Château',
+  'theme.castle.description': 'Des murs de pierre et un toit d\'ardoise bleu roi.',
+  'theme.castle.a': 'une maison château',
+  'theme.candy.label': 'Bonbon',
+  'theme.candy.description': 'Une maison en pain d\'épice avec un toit en chocolat.',
+  'theme.candy.a': 'une maison en bonbons',
+  'theme.spooky.label': 'Hantée',
+  'theme.spooky.description': 'Une maison hantée pour Halloween.',
+  'theme.spooky.a': 'une maison hantée',
+  'colorRole.walls': 'Murs',
+  'colorRole.walls.the': 'les murs',
+  'colorRole.roof': 'Toit',
+  'colorRole.roof.the': 'le toit',
+  'colorRole.trim': 'Bordures',
+  'colorRole.trim.the': 'les bordures',
+  'colorRole.door': 'Porte',
+  'colorRole.door.the': 'la porte',
+  'color.strawberry red': 'rouge fraise',
+  'color.pumpkin orange': 'orange citrouille',
+  'color.sunshine yellow': 'jaune soleil',
+  'color.lime green': 'vert citron',
+  'color.mint green': 'vert menthe',
+  'color.forest green': 'vert forêt',
+  'color.sky blue': 'bleu ciel',
+  'color.ocean blue': 'bleu océan',
+  'color.grape purple': 'violet raisin',
+  'color.bubblegum pink': 'rose bonbon',
+  'color.chocolate brown': 'brun chocolat',
+  'color.sandy beige': 'beige sable',
+  'color.cloud white': 'blanc nuage',
+  'color.stone grey': 'gris pierre',
+  'color.charcoal': 'gris anthracite',
+  'color.pitch black': 'noir de jais',
+
+  // --- Parts and materials ---
+  'part.Base': 'Socle',
+  'part.Front wall': 'Mur avant',
+  'part.Back wall': 'Mur arrière',
+  'part.Left wall': 'Mur gauche',
+  'part.Right wall': 'Mur droit',
+  'part.Upper floor': 'Étage',
+  'part.Roof panel': 'Pan de toit',
+  'part.Roof': 'Toit',
+  'part.Chimney front': 'Devant de la cheminée',
+  'part.Chimney side': 'Côté de la cheminée',
+  'part.Porch floor': 'Plancher du porche',
+  'part.Porch roof': 'Toit du porche',
+  'part.Porch post': 'Poteau du porche',
+  'part.Balcony floor': 'Plancher du balcon',
+  'part.Balcony front rail': 'Garde-corps avant du balcon',
+  'part.Balcony side rail': 'Garde-corps latéral du balcon',
+  'partNote.gable end': 'pignon',
+  'partNote.long side': 'grand côté',
+  'partNote.end': 'bout',
+  'partNote.front wall': 'mur avant',
+  'partNote.back wall': 'mur arrière',
+  'partNote.left wall': 'mur gauche',
+  'partNote.right wall': 'mur droit',
+  'material.Cardboard': 'Carton',
+  'material.Foam board': 'Carton mousse',
+
+  // --- Describing and checking changes ---
+  'change.addOpening': 'ajouter {opening} de {size} sur le mur {wall}, à {offset} de son bord gauche',
+  'change.addWindow': 'ajouter {opening} de {size} sur le mur {wall}, à {offset} de son bord gauche et à {bottom} du sol',
+  'change.removeOpening': 'enlever {opening}',
+  'change.openingNumber': 'la porte ou fenêtre {number}',
+  'change.moveOpening': 'déplacer {opening} sur le mur {wall}, à {offset} de son bord gauche',
+  'change.flatRoof': 'lui donner un toit plat',
+  'change.roofShape': 'lui donner un toit {roof} incliné à {pitch} degrés',
+  'change.addStorey': 'ajouter un étage',
+  'change.resize': 'faire une base de {size}',
+  'change.scale': 'redimensionner toute la maison à {percent} %',
+  'change.addAccessory': 'ajouter {accessory} sur le mur {wall}',
+  'change.removeAccessory': 'enlever {accessory} du mur {wall}',
+  'change.theme': 'en faire {theme}',
+  'change.color': 'peindre {role} en {color}',
+  'change.roofMaterial': 'donner au toit un air de {material}',
+  'change.other': 'modifier la maison',
+  'problem.noOpeningToRemove': 'Il n\'y a pas de porte ou fenêtre numéro {number} à enlever.',
+  'problem.noOpeningToMove': 'Il n\'y a pas de porte ou fenêtre numéro {number} à déplacer.',
+  'problem.maxStoreys': 'La maison a déjà {max} niveaux, le maximum que peut porter une maison en carton.',
+  'problem.accessoryThere': 'Il y a déjà {accessory} sur le mur {wall}.',
+  'problem.oneChimney': 'La maison a déjà une cheminée.',
+  'problem.noAccessory': 'Il n\'y a pas de {name} sur le mur {wall} à enlever.',
+  'problem.tooTall': 'Les murs feraient {height} de haut, plus de {max} : trop hauts pour que le carton tienne debout.',
+  'problem.size': 'La maison ferait {size} ; elle doit faire entre {min} et {max} de chaque côté.',
+};
@@ -0,0 +1,121 @@
+import type { SheetMaterial } from '../types';
+import { array, number, object, oneOf, optional, string, type Schema } from './schema';
+import { loadSetting, saveSetting } from './settingsStore';
+
+/**
+ * What craft materials cost and how they are sold. The catalog ships with typical prices and can
+ * be edited in the app or replaced with a JSON file, so a family can match their own shop.
+ */
+
+/**
+ * - 'sheet': card or board the parts are cut from.
+ * - 'glue' and 'tape': what holds the house together.
+ * - 'other': anything else, matched to cutting list rows by keyword (e.g. craft sticks).
+ */
+export type CatalogCategory = 'sheet' | 'glue' | 'tape' | 'other';
+
+export interface CatalogItem {
+  id: string;
+  name: string;
+  category: CatalogCategory;
+  /** What a single unit is called, e.g. 'sheet' or 'stick'. */
+  unit: string;
+  /** How many units come in one pack. */
+  packSize: number;
+  /** Price of one pack, in the catalog's currency. */
+  price: number;
+  /** For sheets: what the sheet is made of and its size. */
+  sheetMaterial?: SheetMaterial;
+  widthMm?: number;
+  heightMm?: number;
+  /** For 'other' items: words that identify the cutting list rows bought as this item. */
+  keywords?: string[];
+}
+
+export interface MaterialsCatalog {
+  /** An ISO 4217 currency code, e.g. 'USD'. */
+  currency: string;
+  items: CatalogItem[];
+}
+
+/** How many units of each catalog item are already at home, by item id. */
+export type Inventory = Record<string, number>;
+
+export const DEFAULT_CATALOG: MaterialsCatalog = {
+  currency: 'USD',
+  items: [
+    { id: 'card-a4', name: 'Craft card, A4', category: 'sheet', unit: 'sheet', packSize: 10, price: 4.99, sheetMaterial: 'cardboard', widthMm: 210, heightMm: 297 },
+    { id: 'card-a3', name: 'Craft card, A3', category: 'sheet', unit: 'sheet', packSize: 5, price: 5.99, sheetMaterial: 'cardboard', widthMm: 297, heightMm: 420 },
+    { id: 'foam-a3', name: 'Foam board, A3', category: 'sheet', unit: 'sheet', packSize: 1, price: 3.49, sheetMaterial: 'foam-board', widthMm: 297, heightMm: 420 },
+    { id: 'foam-20x30', name: 'Foam board, 20 x 30 in', category: 'sheet', unit: 'sheet', packSize: 1, price: 6.99, sheetMaterial: 'foam-board', widthMm: 508, heightMm: 762 },
+    { id: 'glue', name: 'White craft glue, 120 ml', category: 'glue', unit: 'bottle', packSize: 1, price: 2.99 },
+    { id: 'tape', name: 'Masking tape', category: 'tape', unit: 'roll', packSize: 1, price: 1.99 },
+    { id: 'craft-sticks', name: 'Craft sticks', category: 'other', unit: 'stick', packSize: 50, price: 3.49, keywords: ['craft stick', 'popsicle stick', 'lolly stick'] },
+  ],
+};
+
+const catalogItemSchema: Schema<CatalogItem> = object({
+  id: string({ maxLength: 60 }),
+  name: string({ maxLength: 120 }),
+  category: oneOf(['sheet', 'glue', 'tape', 'other'] as const),
+  unit: string({ maxLength: 30 }),
+  packSize: number({ min: 1, max: 10_000 }),
+  price: number({ min: 0, max: 100_000 }),
+  sheetMaterial: optional(oneOf(['cardboard', 'foam-board'] as const)),
+  widthMm: optional(number({ min: 10, max: 5000 })),
+  heightMm: optional(number({ min: 10, max: 5000 })),
+  keywords: optional(array(string({ maxLength: 60 }))),
+});
+
+export const catalogSchema: Schema<MaterialsCatalog> = object({
+  currency: string({ pattern: /^[A-Z]{3}$/ }),
+  items: array(catalogItemSchema, { minItems: 1, maxItems: 200 }),
+});
+
+const CATALOG_KEY = 'materialsCatalog';
+const INVENTORY_KEY = 'inventory';
+
+/**
+ * Loads the family's catalog, or the default one if they never changed it or it can't be read.
+ * @returns The catalog to price with.
+ */
+export const loadCatalog = async (): Promise<MaterialsCatalog> => {
+  try {
+    const saved = await loadSetting<MaterialsCatalog>(CATALOG_KEY);
+    if (saved && catalogSchema.validate(saved).length === 0) return saved;
+  } catch (e) {
+    console.warn('Could not load the materials catalog', e);
+  }
+  return DEFAULT_CATALOG;
+};
+
+export const saveCatalog = (catalog: MaterialsCatalog): Promise<void> => saveSetting(CATALOG_KEY, catalog);
+
+/**
+ * Loads what is already at home. Nothing, if it was never saved or can't be read.
+ * @returns The inventory.
+ */
+export const loadInventory = async (): Promise<Inventory> => {
+  try {
+    return (await loadSetting<Inventory>(INVENTORY_KEY)) ?? {};
+  } catch (e) {
+    console.warn('Could not load the inventory', e);
+    return {};
+  }
+};
+
+export const saveInventory = (inventory: Inventory): Promise<void> => saveSetting(INVENTORY_KEY, inventory);
+
+/**
+ * Formats an amount of money in the catalog's currency.
+ * @param amount The amount.
+ * @param currency The ISO 4217 currency code.
+ * @returns E.g. "$12.50".
+ */
+export const formatPrice = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
@@ -0,0 +1,295 @@
+import type { ChatMessage, DesignConstraints, EditOperation, HouseSpec, NamedColor, RoofType, StyleTheme, WallSide } from '../types';
+import type { ChatReply, DesignProvider, GeneratedImage } from './designProvider';
+import { AGE_BANDS, SIZE_PRESETS, usableSheets } from './designConstraints';
+import { ACCESSORY_KINDS, applyEdits, checkEdits, COLOR_SWATCHES, describeEdits, FIT_TO_RULES_REQUEST, MAX_STOREYS, STYLE_THEMES } from './designEdits';
+import { rewriteText, screenText } from './moderation';
+
+// --- START: Canned content ---
+
+interface Palette {
+  name: string;
+  wall: string;
+  roof: string;
+  roofName: string;
+  trim: string;
+}
+
+const PALETTES: Palette[] = [
+  { name: 'sunny yellow', wall: '#facc15', roof: '#b91c1c', roofName: 'cherry red', trim: '#ffffff' },
+  { name: 'mint green', wall: '#6ee7b7', roof: '#0f766e', roofName: 'pine green', trim: '#fef3c7' },
+  { name: 'sky blue', wall: '#7dd3fc', roof: '#1e3a8a', roofName: 'navy blue', trim: '#f8fafc' },
+  { name: 'bubblegum pink', wall: '#f9a8d4', roof: '#7c3aed', roofName: 'grape purple', trim: '#fdf4ff' },
+];
+
+const ROOFS: Array<{ phrase: string; type: RoofType; pitchDeg: number; material: string }> = [
+  { phrase: 'a pointy gable roof', type: 'gable', pitchDeg: 40, material: 'red cardboard shingles' },
+  { phrase: 'a rounded hip roof', type: 'hip', pitchDeg: 30, material: 'painted foam board' },
+  { phrase: 'a flat roof garden', type: 'flat', pitchDeg: 0, material: 'green felt grass' },
+  { phrase: 'a sloping shed roof', type: 'shed', pitchDeg: 15, material: 'craft-stick planks' },
+];
+
+/**
+ * A small, stable string hash (FNV-1a) so the same prompt always produces the same mock design.
+ * @param text The text to hash.
+ * @returns An unsigned 32-bit hash.
+ */
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Reuses the palette a mock description already mentions, so every asset of one design agrees.
+ * @param text A prompt or a description produced by this provider.
+ * @returns The matching palette, or one chosen from the hash of the text.
+ */
+const pickPalette = (text: string): Palette =>
+  PALETTES.find(palette => text.includes(palette.name)) ?? PALETTES[hashString(text) % PALETTES.length];
+
+const pickRoof = (text: string) =>
+  ROOFS.find(roof => text.includes(roof.phrase)) ?? ROOFS[hashString(text) % ROOFS.length];
+
+const clamp = (value: number, { min, max }: { min: number; max: number }): number => Math.min(max, Math.max(min, value));
+
+/**
+ * Bends the canned house to the builder's limits, the way a real model is asked to: scaled to
+ * the size, cut from a usable sheet, with windows painted on when only scissors are allowed.
+ * @param spec The canned house.
+ * @param constraints The builder's limits.
+ * @returns The house, keeping to the limits as far as a canned design can.
+ */
+const fitToConstraints = (spec: HouseSpec, constraints: DesignConstraints): HouseSpec => {
+  const size = SIZE_PRESETS[constraints.size];
+  const age = AGE_BANDS[constraints.ageBand];
+  const widthMm = clamp(spec.footprint.widthMm, size.widthMm);
+  const scale = widthMm / spec.footprint.widthMm;
+  const sheets = usableSheets(constraints);
+  const isScissors = constraints.tools === 'scissors';
+  const hasWindows = spec.openings.some(opening => opening.kind === 'window');
+
+  return {
+    ...spec,
+    footprint: { widthMm, depthMm: Math.round(clamp(spec.footprint.depthMm * scale, size.depthMm)) },
+    wallHeightMm: Math.round(clamp(spec.wallHeightMm * scale, size.wallHeightMm)),
+    sheetMaterial: sheets.includes(spec.sheetMaterial) ? spec.sheetMaterial : sheets[0] ?? 'cardboard',
+    roof: age.roofTypes.includes(spec.roof.type) ? spec.roof : { ...spec.roof, type: 'gable', pitchDeg: 40 },
+    openings: spec.openings
+      .filter(opening => !isScissors || opening.kind === 'door')
+      .slice(0, age.maxOpenings)
+      .map(opening => ({
+        ...opening,
+        offsetMm: Math.round(opening.offsetMm * scale),
+        bottomMm: Math.round(opening.bottomMm * scale),
+        widthMm: Math.round(opening.widthMm * scale),
+        heightMm: Math.round(opening.heightMm * scale),
+      })),
+    features: isScissors && hasWindows
+      ? [...spec.features, { name: 'Painted windows', description: 'Windows drawn on with paint pens instead of cut out.' }]
+      : spec.features,
+  };
+};
+
+const toSvgImage = (svg: string): GeneratedImage => ({
+  mimeType: 'image/svg+xml',
+  base64: btoa(svg),
+});
+
+// --- END: Canned content ---
+
+// --- START: Canned chat ---
+
+const WALLS: WallSide[] = ['front', 'back', 'left', 'right'];
+
+const mentions = (text: string, word: string): boolean => new RegExp(`\\b${word}\\b`).test(text);
+
+// "red" is enough to mean "strawberry red"; the full name wins when both match.
+const findColor = (text: string): NamedColor | undefined =>
+  COLOR_SWATCHES.find(color => text.includes(color.name)) ??
+  COLOR_SWATCHES.find(color => mentions(text, color.name.split(' ').pop() ?? color.name));
+
+/**
+ * Works out the changes in a wish from a few keywords, the way the real assistant would from
+ * the whole sentence.
+ * @param text What the child asked for.
+ * @param spec The house.
+ * @returns The changes, or a question to ask first.
+ */
+const understandWish = (text: string, spec: HouseSpec): { edits: EditOperation[]; question?: string } => {
+  const wish = text.toLowerCase();
+  const edits: EditOperation[] = [];
+  // A theme sets every colour, so it goes first and a colour asked for alongside it wins.
+  const theme = (Object.keys(STYLE_THEMES) as StyleTheme[]).find(name => mentions(wish, name));
+  if (theme) edits.push({ type: 'theme', theme });
+  const color = findColor(wish);
+  if (color) {
+    const role = (['roof', 'door', 'trim'] as const).find(part => mentions(wish, part)) ?? 'walls';
+    edits.push({ type: 'color', role, color });
+  }
+  for (const kind of ACCESSORY_KINDS) {
+    if (!mentions(wish, kind)) continue;
+    const wall = WALLS.find(side => mentions(wish, side));
+    if (!wall) return { edits: [], question: `Which wall should the ${kind} go on: the front, the back, the left or the right?` };
+    edits.push({ type: 'addAccessory', accessory: { kind, wall } });
+  }
+  if (/\b(floor|storey|story|taller)\b/.test(wish) && (spec.storeys ?? 1) < MAX_STOREYS) edits.push({ type: 'addStorey' });
+  if (/\b(bigger|larger)\b/.test(wish)) edits.push({ type: 'scale', percent: 125 });
+  if (/\b(smaller|tinier)\b/.test(wish)) edits.push({ type: 'scale', percent: 80 });
+  return { edits: edits.length > 0 ? edits : [{ type: 'request', text: text.slice(0, 500) }] };
+};
+
+const answerChat = (spec: HouseSpec, messages: ChatMessage[]): ChatReply => {
+  const latest = messages[messages.length - 1].text.trim();
+  // An answer to a question carries on the wish that raised it.
+  const previous = messages[messages.length - 2];
+  const asked = !!previous && !previous.proposal && previous.text.endsWith('?');
+  const wish = asked ? `${messages[messages.length - 3].text.trim()} ${latest}` : latest;
+
+  const { edits, question } = understandWish(wish, spec);
+  if (question) return { reply: question };
+  const problems = checkEdits(spec, edits);
+  if (problems.length > 0) return { reply: `I can't do that to this house. ${problems.join(' ')} Try asking for something else.` };
+  const changes = describeEdits(edits, spec);
+  return {
+    reply: `Here's my idea: ${changes.join(', then ')}. Shall I build it?`,
+    proposal: { summary: changes.join(' and '), edits },
+  };
+};
+
+// --- END: Canned chat ---
+
+// --- START: Placeholder drawings ---
+
+const drawView = (view: string, spec: HouseSpec): string => {
+  const isTopDown = view.toLowerCase().includes('top');
+  const isSide = view.toLowerCase().includes('side');
+  const { colors } = spec;
+  const scale = 180 / Math.max(spec.footprint.widthMm, spec.footprint.depthMm, spec.wallHeightMm * 1.6);
+  const wallWidth = (isSide ? spec.footprint.depthMm : spec.footprint.widthMm) * scale;
+  const wallHeight = spec.wallHeightMm * scale;
+  const x = (256 - wallWidth) / 2;
+  const base = 215;
+  const eaves = base - wallHeight;
+  const ridge = spec.roof.type === 'flat' ? eaves - 8 : eaves - Math.min(80, wallWidth / 2 * Math.tan(spec.roof.pitchDeg * Math.PI / 180));
+
+  const body = isTopDown
+    ? `<rect x="${(256 - spec.footprint.widthMm * scale) / 2}" y="${(256 - spec.footprint.depthMm * scale) / 2}" width="${spec.footprint.widthMm * scale}" height="${spec.footprint.depthMm * scale}" fill="${colors.roof.hex}" stroke="#1f2937" stroke-width="3"/>`
+    : `<rect x="${x}" y="${eaves}" width="${wallWidth}" height="${wallHeight}" fill="${colors.walls.hex}" stroke="#1f2937" stroke-width="3"/>
+       <polygon points="${x - 10},${eaves} 128,${ridge} ${x + wallWidth + 10},${eaves}" fill="${colors.roof.hex}" stroke="#1f2937" stroke-width="3"/>
+       ${spec.openings
+         .filter(opening => view.toLowerCase().startsWith(opening.wall))
+         .map(opening => `<rect x="${x + opening.offsetMm * scale}" y="${base - (opening.bottomMm + opening.heightMm) * scale}" width="${opening.widthMm * scale}" height="${opening.heightMm * scale}" fill="${opening.kind === 'door' ? colors.door.hex : colors.trim.hex}" stroke="#1f2937" stroke-width="2"/>`)
+         .join('')}`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256" viewBox="0 0 256 256">
+    <rect width="256" height="256" fill="#ffffff"/>
+    ${body}
+    <text x="128" y="240" font-family="sans-serif" font-size="14" text-anchor="middle" fill="#334155">${view} (offline preview)</text>
+  </svg>`;
+};
+
+const drawSketch = (spec: HouseSpec): string => `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256" viewBox="0 0 256 256">
+    <rect width="256" height="256" fill="#ffffff"/>
+    <g fill="none" stroke="#111827" stroke-width="2">
+      <rect x="48" y="110" width="160" height="100"/>
+      <polyline points="38,110 128,40 218,110"/>
+      <rect x="113" y="160" width="30" height="50"/>
+    </g>
+    <g font-family="monospace" font-size="11" fill="#111827" text-anchor="middle">
+      <text x="128" y="228">${spec.footprint.widthMm / 10} cm</text>
+      <text x="30" y="164" transform="rotate(-90 30 164)">${spec.wallHeightMm / 10} cm</text>
+      <text x="128" y="32">${spec.roof.type} roof, ${spec.roof.pitchDeg} deg</text>
+    </g>
+  </svg>`;
+
+// --- END: Placeholder drawings ---
+
+/**
+ * Creates a provider that never touches the network. Every answer is derived from a hash
+ * of its input, so repeated runs produce identical designs for dev, demos and tests.
+ * @returns A deterministic, offline design provider.
+ */
+export const createMockProvider = (): DesignProvider => ({
+  name: 'mock',
+
+  async generateDescription(prompt, constraints, sourceImage) {
+    // The mock can't look at a picture, but different pictures still give different houses.
+    const seed = sourceImage ? `${prompt}${sourceImage.url}` : prompt;
+    const palette = pickPalette(seed);
+    const roof = ROOFS[hashString(seed) % ROOFS.length];
+    const inspiration = [
+      sourceImage && (sourceImage.kind === 'drawing' ? 'your drawing' : 'your photo of a real house'),
+      prompt.trim() && `"${prompt.trim()}"`,
+    ].filter(Boolean).join(' and ');
+    return `A cheerful miniature house inspired by ${inspiration}. The walls are painted ${palette.name} with white trim around every edge. It has ${roof.phrase}, a single arched front door in the middle of the front wall, and one square window on each side wall. It is made to the "${SIZE_PRESETS[constraints.size].label}" size.`;
+  },
+
+  async generateHouseSpec(detailedDescription, constraints) {
+    const palette = pickPalette(detailedDescription);
+    const roof = pickRoof(detailedDescription);
+    return fitToConstraints({
+      footprint: { widthMm: 160, depthMm: 120 },
+      wallHeightMm: 100,
+      sheetMaterial: 'cardboard',
+      roof: { type: roof.type, pitchDeg: roof.pitchDeg, overhangMm: 10, material: roof.material },
+      openings: [
+        { kind: 'door', wall: 'front', shape: 'arch', offsetMm: 65, bottomMm: 0, widthMm: 30, heightMm: 55 },
+        { kind: 'window', wall: 'left', shape: 'rectangle', offsetMm: 45, bottomMm: 45, widthMm: 30, heightMm: 30 },
+        { kind: 'window', wall: 'right', shape: 'rectangle', offsetMm: 45, bottomMm: 45, widthMm: 30, heightMm: 30 },
+      ],
+      colors: {
+        walls: { name: palette.name, hex: palette.wall },
+        roof: { name: palette.roofName, hex: palette.roof },
+        trim: { name: 'white', hex: palette.trim },
+        door: { name: palette.roofName, hex: palette.roof },
+      },
+      features: [{ name: 'Window boxes', description: 'Tiny flower boxes under each side window.' }],
+    }, constraints);
+  },
+
+  async reviseHouseSpec(houseSpec, detailedDescription, edits, constraints) {
+    // Remaking the house to the rules is the one request the mock understands; it comes on its own.
+    const fitted = edits.some(edit => edit.type === 'request' && edit.text === FIT_TO_RULES_REQUEST) ? fitToConstraints(houseSpec, constraints) : houseSpec;
+    // Exact changes are kept even when they break the rules, as the real provider keeps them; the
+    // constraint warnings point out what to fix.
+    const revised = applyEdits(fitted, edits);
+    // Other free-text requests can't be understood, so each becomes a decorative feature as written.
+    const requests = edits.flatMap(edit => (edit.type === 'request' && edit.text !== FIT_TO_RULES_REQUEST ? [edit.text] : []));
+    const withRequests: HouseSpec = {
+      ...revised,
+      features: [...revised.features, ...requests.map(request => ({ name: request, description: request }))],
+    };
+    const changes = describeEdits(edits, houseSpec).map(change => `Changed: ${change}.`);
+    return { houseSpec: withRequests, detailedDescription: [detailedDescription, ...changes].join(' ') };
+  },
+
+  async chatAboutDesign(houseSpec, _detailedDescription, messages) {
+    return answerChat(houseSpec, messages);
+  },
+
+  async generateViewImage(houseSpec, view) {
+    return toSvgImage(drawView(view, houseSpec));
+  },
+
+  async generateSketch(houseSpec) {
+    return toSvgImage(drawSketch(houseSpec));
+  },
+
+  async generateHouseName(houseSpec) {
+    const name = houseSpec.colors.walls.name.replace(/\b\w/g, letter => letter.toUpperCase());
+    return {
+      houseName: `The ${name} Cottage`,
+      description: `A cozy ${houseSpec.colors.walls.name} cottage that is quick to build from cardboard.`,
+    };
+  },
+
+  // The mock only knows the word list, so it agrees with it.
+  async classifyText(text, strictness) {
+    const { verdict, terms } = screenText(text, strictness);
+    const reason = terms.length > 0 ? `mentions ${terms.join(', ')}` : 'nothing unsuitable';
+    return verdict === 'rewrite' ? { verdict, reason, rewrite: rewriteText(text, strictness) } : { verdict, reason };
+  },
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { rewriteText, screenText } from './moderation';
+
+describe('screenText', () => {
+  it('allows an ordinary idea', () => {
+    expect(screenText('a cosy cottage with a red door', 'strict')).toEqual({ verdict: 'allow', terms: [] });
+  });
+
+  it('blocks words that are never for children, however relaxed', () => {
+    expect(screenText('a house for drugs', 'relaxed')).toEqual({ verdict: 'block', terms: ['drugs'] });
+  });
+
+  it('treats a word more or less strictly by the setting', () => {
+    expect(screenText('a castle with a cannon', 'standard').verdict).toBe('allow');
+    expect(screenText('a castle with a cannon', 'strict').verdict).toBe('rewrite');
+    expect(screenText('a haunted graveyard', 'relaxed').verdict).toBe('allow');
+    expect(screenText('a haunted graveyard', 'standard').verdict).toBe('rewrite');
+    expect(screenText('a fort full of guns', 'strict').verdict).toBe('block');
+  });
+
+  it('lists only the words behind the worst verdict, as written', () => {
+    expect(screenText('Skulls and a nude statue', 'standard')).toEqual({ verdict: 'block', terms: ['nude'] });
+    expect(screenText('Skulls and Skeletons', 'standard')).toEqual({ verdict: 'rewrite', terms: ['Skulls', 'Skeletons'] });
+  });
+
+  it('matches whole words only', () => {
+    expect(screenText('a gravel path and a method for glue', 'strict').verdict).toBe('allow');
+  });
+});
+
+describe('rewriteText', () => {
+  it('swaps softened words for friendly ones, keeping plurals and capitals', () => {
+    expect(rewriteText('A castle with cannons', 'strict')).toBe('A castle with flower pots');
+    expect(rewriteText('Skulls on the gate', 'standard')).toBe('Pumpkins on the gate');
+  });
+
+  it('leaves words the setting allows', () => {
+    expect(rewriteText('A castle with cannons', 'standard')).toBe('A castle with cannons');
+  });
+
+  it('leaves words that block the text, so the block still happens', () => {
+    expect(rewriteText('a house for drugs', 'strict')).toBe('a house for drugs');
+    expect(rewriteText('a fort full of guns', 'strict')).toBe('a fort full of guns');
+  });
+});
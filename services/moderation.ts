@@ -0,0 +1,133 @@
+import type { Strictness } from '../types';
+import type { ModerationResult } from './designProvider';
+
+/**
+ * Keeps the words that go into the prompts, and the words that come back, right for children.
+ * A word list catches the obvious cases straight away and without a network; the provider's
+ * classifier (see designService.ts) then catches what a word list can't, such as ideas written
+ * in other languages or described without the listed words. The word list is English.
+ */
+
+export type ModerationVerdict = ModerationResult['verdict'];
+
+export const STRICTNESS_LEVELS: Strictness[] = ['relaxed', 'standard', 'strict'];
+
+export const DEFAULT_STRICTNESS: Strictness = 'standard';
+
+export const isStrictness = (value: unknown): value is Strictness =>
+  typeof value === 'string' && (STRICTNESS_LEVELS as string[]).includes(value);
+
+/**
+ * How unsuitable a listed word is. 'never': not for children at all. 'mature': violence, weapons
+ * and grown-up things. 'scary': things that frighten younger children. 'mild': play-fighting.
+ */
+type TermLevel = 'never' | 'mature' | 'scary' | 'mild';
+
+const VERDICTS: Record<Strictness, Record<TermLevel, ModerationVerdict>> = {
+  relaxed: { never: 'block', mature: 'rewrite', scary: 'allow', mild: 'allow' },
+  standard: { never: 'block', mature: 'rewrite', scary: 'rewrite', mild: 'allow' },
+  strict: { never: 'block', mature: 'block', scary: 'rewrite', mild: 'rewrite' },
+};
+
+// Words that are never rewritten have no friendly version. Ghosts, witches and haunted houses
+// are left alone: the spooky theme is made of them.
+const TERMS: Record<string, { level: TermLevel; friendly?: string }> = {
+  porn: { level: 'never' },
+  porno: { level: 'never' },
+  sex: { level: 'never' },
+  sexy: { level: 'never' },
+  nude: { level: 'never' },
+  naked: { level: 'never' },
+  rape: { level: 'never' },
+  suicide: { level: 'never' },
+  murder: { level: 'never' },
+  kill: { level: 'never' },
+  torture: { level: 'never' },
+  terrorist: { level: 'never' },
+  nazi: { level: 'never' },
+  swastika: { level: 'never' },
+  drug: { level: 'never' },
+  cocaine: { level: 'never' },
+  heroin: { level: 'never' },
+  meth: { level: 'never' },
+  blood: { level: 'mature', friendly: 'red paint' },
+  gun: { level: 'mature', friendly: 'water squirter' },
+  pistol: { level: 'mature', friendly: 'water squirter' },
+  rifle: { level: 'mature', friendly: 'water squirter' },
+  bomb: { level: 'mature', friendly: 'confetti popper' },
+  grenade: { level: 'mature', friendly: 'confetti popper' },
+  weapon: { level: 'mature', friendly: 'toy' },
+  corpse: { level: 'mature', friendly: 'scarecrow' },
+  beer: { level: 'mature', friendly: 'lemonade' },
+  wine: { level: 'mature', friendly: 'grape juice' },
+  vodka: { level: 'mature', friendly: 'lemonade' },
+  cigarette: { level: 'mature', friendly: 'candy stick' },
+  cigar: { level: 'mature', friendly: 'candy stick' },
+  skull: { level: 'scary', friendly: 'pumpkin' },
+  skeleton: { level: 'scary', friendly: 'scarecrow' },
+  zombie: { level: 'scary', friendly: 'friendly monster' },
+  demon: { level: 'scary', friendly: 'friendly monster' },
+  devil: { level: 'scary', friendly: 'friendly monster' },
+  vampire: { level: 'scary', friendly: 'bat' },
+  coffin: { level: 'scary', friendly: 'treasure chest' },
+  grave: { level: 'scary', friendly: 'flower bed' },
+  graveyard: { level: 'scary', friendly: 'pumpkin patch' },
+  cemetery: { level: 'scary', friendly: 'pumpkin patch' },
+  sword: { level: 'mild', friendly: 'flag' },
+  dagger: { level: 'mild', friendly: 'flag' },
+  spear: { level: 'mild', friendly: 'flagpole' },
+  axe: { level: 'mild', friendly: 'broom' },
+  cannon: { level: 'mild', friendly: 'flower pot' },
+};
+
+// Whole words only, so "gravel" and "method" are fine; plurals count as the word.
+const TERM_PATTERN = new RegExp(`\\b(${Object.keys(TERMS).join('|')})(e?s)?\\b`, 'gi');
+
+const pluralOf = (phrase: string): string => (/(s|x|ch|sh)$/.test(phrase) ? `${phrase}es` : `${phrase}s`);
+
+const WORST_FIRST: ModerationVerdict[] = ['block', 'rewrite', 'allow'];
+
+export interface ScreenResult {
+  /** What to do with the text: the worst verdict of the words found in it. */
+  verdict: ModerationVerdict;
+  /** The listed words found, as they are written in the text. */
+  terms: string[];
+}
+
+/**
+ * Looks for listed words in a text.
+ * @param text What a child typed, or what the model wrote.
+ * @param strictness How careful to be.
+ * @returns What to do with the text, and the words that decided it.
+ */
+export const screenText = (text: string, strictness: Strictness): ScreenResult => {
+  const found = [...text.matchAll(TERM_PATTERN)]
+    .map(match => ({ term: match[0], verdict: VERDICTS[strictness][TERMS[match[1].toLowerCase()].level] }))
+    .filter(item => item.verdict !== 'allow');
+  const verdict = WORST_FIRST.find(item => found.some(word => word.verdict === item)) ?? 'allow';
+  return { verdict, terms: found.filter(item => item.verdict === verdict).map(item => item.term) };
+};
+
+/**
+ * Swaps each listed word that should be softened for its friendly version, e.g. "a castle with
+ * cannons" for "a castle with flower pots" when strict.
+ * @param text The text.
+ * @param strictness How careful to be.
+ * @returns The text with the words swapped. Words that block the text are left as they are.
+ */
+export const rewriteText = (text: string, strictness: Strictness): string =>
+  text.replace(TERM_PATTERN, (word, base: string, plural: string | undefined) => {
+    const { level, friendly } = TERMS[base.toLowerCase()];
+    if (!friendly || VERDICTS[strictness][level] !== 'rewrite') return word;
+    const swapped = plural ? pluralOf(friendly) : friendly;
+    return /^[A-Z]/.test(word) ? swapped[0].toUpperCase() + swapped.slice(1) : swapped;
+  });
+
+/**
+ * What each strictness means, for the classifier's instructions.
+ */
+export const STRICTNESS_GUIDANCE: Record<Strictness, string> = {
+  relaxed: 'The child is older. Mild spooky things (skeletons, graveyards, monsters) and play-fighting things (swords, cannons, knights) are fine. Rewrite weapons that hurt people, blood and grown-up things; block anything sexual, hateful, cruel or about self-harm or drugs.',
+  standard: 'Play-fighting things (swords, cannons, knights) are fine. Rewrite anything scary (skulls, graveyards, zombies), weapons that hurt people, blood and grown-up things; block anything sexual, hateful, cruel or about self-harm or drugs.',
+  strict: 'The child is young. Rewrite anything scary and anything about fighting, even play-fighting (swords, cannons). Block weapons that hurt people, blood, grown-up things, and anything sexual, hateful, cruel or about self-harm or drugs.',
+};
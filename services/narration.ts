@@ -0,0 +1,118 @@
+import type { CuttingList, Material } from '../types';
+import { loadSetting, saveSetting } from './settingsStore';
+import { LOCALES, translateName, translatePartLabel, translator, type Locale } from './i18n';
+import { formatDimensions, formatLength, formatSize, type UnitSystem } from './units';
+import type { SpeechOptions } from './speech';
+
+/**
+ * Reading the app aloud, for children who don't read fluently yet: how it is read, and the words
+ * that are read for the parts of a design that are shown as tables rather than sentences.
+ */
+
+export type NarrationRate = 'slow' | 'normal' | 'fast';
+
+export const NARRATION_RATES: Record<NarrationRate, number> = {
+  slow: 0.75,
+  normal: 1,
+  fast: 1.25,
+};
+
+export interface NarrationSettings {
+  /** The voice picked for the app's language, or null for the browser's usual one. */
+  voiceURI: string | null;
+  rate: NarrationRate;
+  /** Whether progress and problems are read out as they happen. */
+  announce: boolean;
+}
+
+export const DEFAULT_NARRATION: NarrationSettings = { voiceURI: null, rate: 'normal', announce: false };
+
+const NARRATION_KEY = 'narration';
+
+const isNarrationSettings = (value: unknown): value is NarrationSettings => {
+  const settings = value as NarrationSettings | null;
+  return !!settings
+    && (settings.voiceURI === null || typeof settings.voiceURI === 'string')
+    && settings.rate in NARRATION_RATES
+    && typeof settings.announce === 'boolean';
+};
+
+export const loadNarrationSettings = async (): Promise<NarrationSettings> => {
+  try {
+    const saved = await loadSetting<NarrationSettings>(NARRATION_KEY);
+    if (isNarrationSettings(saved)) return saved;
+  } catch (e) {
+    console.warn('Could not load the reading settings', e);
+  }
+  return DEFAULT_NARRATION;
+};
+
+export const saveNarrationSettings = (settings: NarrationSettings): Promise<void> => saveSetting(NARRATION_KEY, settings);
+
+/**
+ * @param settings The family's reading settings.
+ * @param locale The app's language, which is read in the picked voice if it speaks it.
+ * @returns The options to read with.
+ */
+export const speechOptions = (settings: NarrationSettings, locale: Locale): SpeechOptions => ({
+  lang: LOCALES[locale].speechLang,
+  voiceURI: settings.voiceURI,
+  rate: NARRATION_RATES[settings.rate],
+});
+
+/**
+ * Joins short texts, such as a heading and a message, into sentences that are read with a pause
+ * between them.
+ * @param texts The texts.
+ * @returns One text to read.
+ */
+export const joinSentences = (...texts: string[]): string =>
+  texts.map(text => text.trim()).filter(Boolean).map(text => (/[.!?…:]$/.test(text) ? text : `${text}.`)).join(' ');
+
+// "120 x 80 mm" is read as "120 ex 80", so the x is read as a word.
+const spokenSize = (size: string, by: string): string => size.replace(/ x /g, ` ${by} `);
+
+/**
+ * Puts a row of the materials table into a sentence.
+ * @param material The row.
+ * @param units The units the table is shown in.
+ * @param locale The language to read in.
+ * @returns The sentence.
+ */
+export const describeMaterial = (material: Material, units: UnitSystem, locale: Locale): string => {
+  const t = translator(locale);
+  const by = t('narration.by');
+  const { part } = material;
+  if (!part) {
+    return t('narration.material', {
+      name: translateName(locale, 'material', material.name),
+      quantity: material.quantity,
+      size: spokenSize(formatDimensions(material.dimensions, units), by),
+    });
+  }
+  const sentence = t('narration.part', {
+    id: part.id,
+    label: translatePartLabel(locale, part.label),
+    quantity: material.quantity,
+    material: translateName(locale, 'material', material.name),
+    size: spokenSize(formatSize([part.widthMm, part.heightMm], units), by),
+    thickness: formatLength(part.thicknessMm, units),
+  });
+  if (part.cutouts.length === 0) return sentence;
+  const cutouts = part.cutouts.length === 1 ? t('narration.partCutout') : t('narration.partCutouts', { count: part.cutouts.length });
+  return `${sentence} ${cutouts}`;
+};
+
+/**
+ * Everything read for a cutting list, in order: the house's name, its description, then one
+ * sentence per row of the materials table.
+ * @param cuttingList The cutting list.
+ * @param units The units the table is shown in.
+ * @param locale The language to read in.
+ * @returns The texts to read.
+ */
+export const narrateCuttingList = (cuttingList: CuttingList, units: UnitSystem, locale: Locale): string[] => [
+  cuttingList.houseName,
+  cuttingList.description,
+  ...cuttingList.materials.map(material => describeMaterial(material, units, locale)),
+];
@@ -0,0 +1,158 @@
+import type { DesignConstraints, Strictness } from '../types';
+import { loadSetting, saveSetting } from './settingsStore';
+import { DEFAULT_STRICTNESS, isStrictness } from './moderation';
+
+/**
+ * The settings a grown-up chooses for the family, behind a PIN: how careful the content checks
+ * are, how many designs may be made a day, whether designs can be shared and whether a craft
+ * knife may be used. The PIN keeps children out of the panel, not out of the browser: it is
+ * stored hashed, but anyone who can clear the site's data can clear it too. The same goes for the
+ * daily limit, which only this browser counts.
+ */
+
+export interface ParentalSettings {
+  /** The PIN's hash, or null before a grown-up has set one. */
+  pinHash: string | null;
+  /** Wrong PINs typed in a row, so reloading the page doesn't give more tries. */
+  wrongTries: number;
+  /** When the panel listens for a PIN again after too many wrong ones, in milliseconds since 1970; 0 if it isn't locked. */
+  lockedUntil: number;
+  strictness: Strictness;
+  /** The most new designs and edits a day, or null for no limit. */
+  dailyLimit: number | null;
+  /** Whether designs can be shared with other apps, such as messages or email. */
+  allowSharing: boolean;
+  /** Whether designs and build steps may use a craft knife. Without one, everything is cut with scissors. */
+  allowCraftKnife: boolean;
+}
+
+export const DEFAULT_PARENTAL_SETTINGS: ParentalSettings = {
+  pinHash: null,
+  wrongTries: 0,
+  lockedUntil: 0,
+  strictness: DEFAULT_STRICTNESS,
+  dailyLimit: null,
+  allowSharing: false,
+  allowCraftKnife: true,
+};
+
+export const MAX_DAILY_LIMIT = 50;
+
+/** Four to eight digits, which a child can't guess by chance in the tries the panel allows. */
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+const PARENTAL_KEY = 'parental';
+const USAGE_KEY = 'usage';
+
+const isParentalSettings = (value: unknown): value is ParentalSettings => {
+  const settings = value as ParentalSettings | null;
+  return !!settings
+    && (settings.pinHash === null || typeof settings.pinHash === 'string')
+    && Number.isInteger(settings.wrongTries) && settings.wrongTries >= 0
+    && typeof settings.lockedUntil === 'number'
+    && isStrictness(settings.strictness)
+    && (settings.dailyLimit === null || (Number.isInteger(settings.dailyLimit) && settings.dailyLimit > 0))
+    && typeof settings.allowSharing === 'boolean'
+    && typeof settings.allowCraftKnife === 'boolean';
+};
+
+export const loadParentalSettings = async (): Promise<ParentalSettings> => {
+  try {
+    const saved = await loadSetting<ParentalSettings>(PARENTAL_KEY);
+    // Settings saved before the lockout was kept have no tries counted yet.
+    const withLockout = saved && { wrongTries: 0, lockedUntil: 0, ...saved };
+    if (isParentalSettings(withLockout)) return withLockout;
+  } catch (e) {
+    console.warn('Could not load the grown-up settings', e);
+  }
+  return DEFAULT_PARENTAL_SETTINGS;
+};
+
+export const saveParentalSettings = (settings: ParentalSettings): Promise<void> => saveSetting(PARENTAL_KEY, settings);
+
+/**
+ * @param pin The PIN, as typed.
+ * @returns The hash stored in place of the PIN.
+ */
+export const hashPin = async (pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`mini-house-pin:${pin}`));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * @param settings The grown-up settings.
+ * @param pin The PIN, as typed.
+ * @returns True if it is the PIN that was set.
+ */
+export const checkPin = async (settings: ParentalSettings, pin: string): Promise<boolean> =>
+  settings.pinHash !== null && (await hashPin(pin)) === settings.pinHash;
+
+/**
+ * How many designs were made on one day. A new day starts the count again.
+ */
+export interface DailyUsage {
+  /** The local date, e.g. '2024-05-31'. */
+  day: string;
+  count: number;
+}
+
+/**
+ * @param date The moment.
+ * @returns Its local date, e.g. '2024-05-31'.
+ */
+export const dayOf = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const isDailyUsage = (value: unknown): value is DailyUsage => {
+  const usage = value as DailyUsage | null;
+  return !!usage && typeof usage.day === 'string' && Number.isInteger(usage.count) && usage.count >= 0;
+};
+
+export const loadDailyUsage = async (): Promise<DailyUsage> => {
+  try {
+    const saved = await loadSetting<DailyUsage>(USAGE_KEY);
+    if (isDailyUsage(saved)) return saved;
+  } catch (e) {
+    console.warn('Could not load the number of designs made today', e);
+  }
+  return { day: dayOf(), count: 0 };
+};
+
+export const saveDailyUsage = (usage: DailyUsage): Promise<void> => saveSetting(USAGE_KEY, usage);
+
+/**
+ * @param usage The saved count.
+ * @param now The current time.
+ * @returns How many designs were made today.
+ */
+export const countToday = (usage: DailyUsage, now: Date = new Date()): number => (usage.day === dayOf(now) ? usage.count : 0);
+
+/**
+ * Counts one more design today.
+ * @param usage The saved count.
+ * @param now The current time.
+ * @returns The new count.
+ */
+export const addDesignToday = (usage: DailyUsage, now: Date = new Date()): DailyUsage => ({ day: dayOf(now), count: countToday(usage, now) + 1 });
+
+/**
+ * @param settings The grown-up settings.
+ * @param usage The saved count.
+ * @param now The current time.
+ * @returns True if no more designs may be made today.
+ */
+export const hasReachedDailyLimit = (settings: ParentalSettings, usage: DailyUsage, now: Date = new Date()): boolean =>
+  settings.dailyLimit !== null && countToday(usage, now) >= settings.dailyLimit;
+
+/**
+ * The building rules designs are actually made to: the family's, with the craft knife taken away
+ * when a grown-up has turned it off. Scissors can't cut foam board, so cardboard is then always to hand.
+ * @param constraints The building rules chosen in the panel.
+ * @param settings The grown-up settings.
+ * @returns The rules to design to.
+ */
+export const applyParentalLimits = (constraints: DesignConstraints, settings: ParentalSettings): DesignConstraints => {
+  if (settings.allowCraftKnife || constraints.tools === 'scissors') return constraints;
+  const sheetMaterials = constraints.sheetMaterials.includes('cardboard') ? constraints.sheetMaterials : ['cardboard' as const, ...constraints.sheetMaterials];
+  return { ...constraints, tools: 'scissors', sheetMaterials };
+};
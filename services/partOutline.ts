@@ -0,0 +1,53 @@
+import type { PartCutout, PartGeometry, Point2D } from '../types';
+
+/**
+ * The flat shapes of a part, shared by the printable templates, the 3D model and the build
+ * step diagrams. All coordinates are in millimetres from the bottom-left corner of the part, y up.
+ */
+
+const ARC_SEGMENTS = 16;
+const EPSILON = 0.01;
+
+type Vec = [number, number];
+
+/**
+ * @param part The part.
+ * @returns The outline of a part that has no outline of its own.
+ */
+export const rectangleOutline = (part: PartGeometry): Point2D[] => [
+  { xMm: 0, yMm: 0 },
+  { xMm: part.widthMm, yMm: 0 },
+  { xMm: part.widthMm, yMm: part.heightMm },
+  { xMm: 0, yMm: part.heightMm },
+];
+
+/**
+ * Traces the outline of a door or window cut-out, in part coordinates (y up).
+ * Doors that sit on the bottom edge are left open at the bottom, since that edge is not cut.
+ */
+export const cutoutPath = (cutout: PartCutout): { points: Vec[]; closed: boolean } => {
+  const { xMm: x, yMm: y, widthMm: w, heightMm: h } = cutout;
+  const opensAtBottom = cutout.kind === 'door' && y <= EPSILON;
+
+  if (cutout.shape === 'round' && !opensAtBottom) {
+    const points: Vec[] = [];
+    for (let i = 0; i < ARC_SEGMENTS * 2; i++) {
+      const angle = (i / (ARC_SEGMENTS * 2)) * Math.PI * 2;
+      points.push([x + w / 2 + (w / 2) * Math.cos(angle), y + h / 2 + (h / 2) * Math.sin(angle)]);
+    }
+    return { points, closed: true };
+  }
+
+  const top: Vec[] = [];
+  if (cutout.shape === 'rectangle') {
+    top.push([x, y + h], [x + w, y + h]);
+  } else {
+    // Arched (and round doors): straight sides with a half-ellipse on top.
+    const radius = Math.min(w / 2, h);
+    for (let i = 0; i <= ARC_SEGMENTS; i++) {
+      const angle = Math.PI - (i / ARC_SEGMENTS) * Math.PI;
+      top.push([x + w / 2 + (w / 2) * Math.cos(angle), y + h - radius + radius * Math.sin(angle)]);
+    }
+  }
+  return { points: [[x, y], ...top, [x + w, y]], closed: !opensAtBottom };
+};
@@ -0,0 +1,179 @@
+/**
+ * A deliberately tiny PDF writer: vector lines and Helvetica text are all the printable
+ * templates need, so there is no reason to ship a whole PDF library to the browser.
+ * Every coordinate is in millimetres measured from the top-left corner of the page.
+ */
+
+const PT_PER_MM = 72 / 25.4;
+
+export interface PdfLineStyle {
+  widthMm?: number;
+  /** Dash pattern in millimetres, e.g. [3, 2]. Omit for a solid line. */
+  dashMm?: number[];
+  /** Stroke color as a hex string, e.g. '#000000'. */
+  color?: string;
+}
+
+export type TextAnchor = 'start' | 'middle' | 'end';
+
+const num = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+const hexToRgb = (hex: string): string => {
+  const clean = hex.replace('#', '');
+  const value = parseInt(clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean, 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(channel => num(channel / 255)).join(' ');
+};
+
+/**
+ * Escapes a string for a PDF literal. Characters outside Latin-1 are replaced, because the
+ * standard Helvetica font is only available with a single-byte encoding.
+ */
+const escapeText = (text: string): string =>
+  Array.from(text).map(char => {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+    if (code < 32 || code > 255) return '?';
+    if (code > 126) return `\\${code.toString(8).padStart(3, '0')}`;
+    return char;
+  }).join('');
+
+// Rough average glyph width of Helvetica, as a fraction of the font size.
+const AVERAGE_GLYPH_WIDTH = 0.52;
+
+/**
+ * Estimates how wide a line of text will print, for laying text out before it is drawn.
+ */
+export const textWidthMm = (text: string, sizeMm: number): number => text.length * sizeMm * AVERAGE_GLYPH_WIDTH;
+
+export class PdfPage {
+  private readonly ops: string[] = [];
+
+  constructor(readonly widthMm: number, readonly heightMm: number) {}
+
+  private x(mm: number): string {
+    return num(mm * PT_PER_MM);
+  }
+
+  private y(mm: number): string {
+    return num((this.heightMm - mm) * PT_PER_MM);
+  }
+
+  private applyStyle(style: PdfLineStyle): void {
+    this.ops.push(`${num((style.widthMm ?? 0.3) * PT_PER_MM)} w`);
+    this.ops.push(`[${(style.dashMm ?? []).map(d => num(d * PT_PER_MM)).join(' ')}] 0 d`);
+    this.ops.push(`${hexToRgb(style.color ?? '#000000')} RG`);
+  }
+
+  /**
+   * Draws a straight-segment path through the given points.
+   */
+  polyline(points: Array<[number, number]>, closed: boolean, style: PdfLineStyle = {}): void {
+    if (points.length < 2) return;
+    this.applyStyle(style);
+    const [first, ...rest] = points;
+    this.ops.push(`${this.x(first[0])} ${this.y(first[1])} m`);
+    for (const [px, py] of rest) {
+      this.ops.push(`${this.x(px)} ${this.y(py)} l`);
+    }
+    this.ops.push(closed ? 's' : 'S');
+  }
+
+  /**
+   * Fills a closed shape with a solid color and outlines it.
+   */
+  polygon(points: Array<[number, number]>, fillColor: string, style: PdfLineStyle = {}): void {
+    if (points.length < 3) return;
+    this.applyStyle(style);
+    this.ops.push(`${hexToRgb(fillColor)} rg`);
+    const [first, ...rest] = points;
+    this.ops.push(`${this.x(first[0])} ${this.y(first[1])} m`);
+    for (const [px, py] of rest) {
+      this.ops.push(`${this.x(px)} ${this.y(py)} l`);
+    }
+    this.ops.push('b');
+  }
+
+  /**
+   * Fills a rectangle with a solid color.
+   */
+  fillRect(xMm: number, yMm: number, widthMm: number, heightMm: number, color: string): void {
+    this.ops.push(`${hexToRgb(color)} rg`);
+    this.ops.push(`${this.x(xMm)} ${this.y(yMm + heightMm)} ${num(widthMm * PT_PER_MM)} ${num(heightMm * PT_PER_MM)} re f`);
+  }
+
+  /**
+   * Writes a single line of text. `yMm` is the baseline.
+   */
+  text(text: string, xMm: number, yMm: number, sizeMm: number, anchor: TextAnchor = 'start', color = '#000000'): void {
+    const approxWidth = textWidthMm(text, sizeMm);
+    const startX = anchor === 'middle' ? xMm - approxWidth / 2 : anchor === 'end' ? xMm - approxWidth : xMm;
+    this.ops.push(`${hexToRgb(color)} rg`);
+    this.ops.push(`BT /F1 ${num(sizeMm * PT_PER_MM)} Tf ${this.x(startX)} ${this.y(yMm)} Td (${escapeText(text)}) Tj ET`);
+  }
+
+  /**
+   * Restricts everything drawn inside `draw` to the given rectangle.
+   */
+  clip(xMm: number, yMm: number, widthMm: number, heightMm: number, draw: () => void): void {
+    this.ops.push('q');
+    this.ops.push(`${this.x(xMm)} ${this.y(yMm + heightMm)} ${num(widthMm * PT_PER_MM)} ${num(heightMm * PT_PER_MM)} re W n`);
+    draw();
+    this.ops.push('Q');
+  }
+
+  get content(): string {
+    return this.ops.join('\n');
+  }
+}
+
+export class PdfDocument {
+  private readonly pages: PdfPage[] = [];
+
+  addPage(widthMm: number, heightMm: number): PdfPage {
+    const page = new PdfPage(widthMm, heightMm);
+    this.pages.push(page);
+    return page;
+  }
+
+  /**
+   * Serialises the document. Objects 1 and 2 are the catalog and page tree, 3 is the font,
+   * and each page then takes two objects: the page itself and its content stream.
+   * @returns The bytes of the PDF file.
+   */
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 4 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index];
+      const content = page.content;
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.widthMm * PT_PER_MM)} ${num(page.heightMm * PT_PER_MM)}] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Everything above is plain ASCII (text is escaped), so one char is one byte.
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i);
+    }
+    return bytes;
+  }
+}
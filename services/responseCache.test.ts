@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMemoryCacheStore, createResponseCache } from './responseCache';
+
+// Ten bytes once written as JSON, with the quotes.
+const answer = (letter: string): string => letter.repeat(8);
+
+/** A call that answers with the given value, counting how often it was made. */
+const answering = <T>(value: T) => vi.fn(async () => value);
+
+describe('createResponseCache', () => {
+  it('answers the same request from the cache the second time', async () => {
+    const cache = createResponseCache(createMemoryCacheStore(), { maxBytes: 1000 });
+    const call = answering('a house');
+    expect(await cache.run({ prompt: 'cottage' }, call)).toBe('a house');
+    expect(await cache.run({ prompt: 'cottage' }, call)).toBe('a house');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats requests with the same fields in another order as the same', async () => {
+    const cache = createResponseCache(createMemoryCacheStore(), { maxBytes: 1000 });
+    const call = answering('a house');
+    await cache.run({ model: 'm', prompt: 'cottage', config: { a: 1, b: 2 } }, call);
+    await cache.run({ config: { b: 2, a: 1 }, prompt: 'cottage', model: 'm' }, call);
+    expect(call).toHaveBeenCalledTimes(1);
+    await cache.run({ model: 'm', prompt: 'castle', config: { a: 1, b: 2 } }, call);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one call between identical requests still running', async () => {
+    const cache = createResponseCache(createMemoryCacheStore(), { maxBytes: 1000 });
+    let finish!: (value: string) => void;
+    const call = vi.fn(() => new Promise<string>(resolve => { finish = resolve; }));
+    const first = cache.run({ prompt: 'cottage' }, call);
+    const second = cache.run({ prompt: 'cottage' }, call);
+    await vi.waitFor(() => expect(call).toHaveBeenCalled());
+    finish('a house');
+    expect(await Promise.all([first, second])).toEqual(['a house', 'a house']);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('makes a fresh call even when an answer is cached or running, and keeps the new answer', async () => {
+    const cache = createResponseCache(createMemoryCacheStore(), { maxBytes: 1000 });
+    await cache.run({ prompt: 'cottage' }, answering('old'));
+    expect(await cache.run({ prompt: 'cottage' }, answering('new'), { fresh: true })).toBe('new');
+    expect(await cache.run({ prompt: 'cottage' }, answering('unused'))).toBe('new');
+  });
+
+  it('does not keep answers that are not worth keeping, or failures', async () => {
+    const cache = createResponseCache(createMemoryCacheStore(), { maxBytes: 1000 });
+    await cache.run({ prompt: 'cottage' }, answering(''), { cacheable: value => value !== '' });
+    expect(await cache.run({ prompt: 'cottage' }, answering('a house'))).toBe('a house');
+
+    await expect(cache.run({ prompt: 'castle' }, async () => { throw new Error('down'); })).rejects.toThrow('down');
+    expect(await cache.run({ prompt: 'castle' }, answering('a castle'))).toBe('a castle');
+  });
+
+  it('drops the least recently used answers once the cache is full', async () => {
+    let time = 0;
+    const store = createMemoryCacheStore();
+    const cache = createResponseCache(store, { maxBytes: 25 }, () => ++time);
+    await cache.run({ prompt: 'a' }, answering(answer('a')));
+    await cache.run({ prompt: 'b' }, answering(answer('b')));
+    // Reading A makes B the least recently used.
+    await cache.run({ prompt: 'a' }, answering('unused'));
+    await cache.run({ prompt: 'c' }, answering(answer('c')));
+
+    expect(await store.list()).toHaveLength(2);
+    const again = answering('made again');
+    expect(await cache.run({ prompt: 'a' }, again)).toBe(answer('a'));
+    expect(await cache.run({ prompt: 'c' }, again)).toBe(answer('c'));
+    expect(again).not.toHaveBeenCalled();
+    expect(await cache.run({ prompt: 'b' }, again)).toBe('made again');
+  });
+
+  it('does not keep an answer bigger than the whole cache', async () => {
+    const store = createMemoryCacheStore();
+    const cache = createResponseCache(store, { maxBytes: 5 });
+    await cache.run({ prompt: 'a' }, answering(answer('a')));
+    expect(await store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,277 @@
+import { openIndexedDb } from './indexedDb';
+
+/**
+ * A content-addressed cache for model calls. Asking for the same thing twice (the same prompt
+ * clicked again, or an edit that changes nothing) is answered from the cache instead of being
+ * billed again, and identical calls that are still running are shared rather than repeated.
+ *
+ * Entries are kept in IndexedDB in the browser and on disk on the server (see
+ * server/diskCacheStore.ts). The least recently used entries are dropped once the cache grows
+ * past its size limit.
+ */
+
+/**
+ * How much room a cached response takes up and when it was last used, for eviction.
+ */
+export interface CacheEntryInfo {
+  key: string;
+  sizeBytes: number;
+  lastUsedAt: number;
+}
+
+/**
+ * Somewhere to keep cached responses. Values are plain JSON.
+ */
+export interface CacheStore {
+  /** Reads a response and marks it as just used. Resolves to undefined if there is none. */
+  get(key: string): Promise<unknown | undefined>;
+  /** Stores a response, replacing any older one with the same key. */
+  set(entry: CacheEntryInfo, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Lists every stored response, without loading the responses themselves. */
+  list(): Promise<CacheEntryInfo[]>;
+}
+
+export interface CacheRunOptions<T> {
+  /** Skips the cache and any identical call in flight. The fresh answer still replaces the cached one. */
+  fresh?: boolean;
+  /** Decides whether an answer is worth keeping, e.g. not an empty one. Everything is kept by default. */
+  cacheable?: (value: T) => boolean;
+}
+
+export interface ResponseCache {
+  /**
+   * Answers a request from the cache, or makes the call and remembers its answer.
+   * @param request Everything that determines the answer: the kind of call, model, prompt and config.
+   * @param call Makes the call when there is no usable cached answer.
+   * @param options Force fresh, and which answers to keep.
+   * @returns The answer.
+   */
+  run<T>(request: object, call: () => Promise<T>, options?: CacheRunOptions<T>): Promise<T>;
+}
+
+export interface ResponseCacheOptions {
+  /** Once the stored responses add up to more than this, the least recently used are dropped. */
+  maxBytes: number;
+}
+
+// Part of every key, so changing what is stored never serves answers in an old shape.
+const CACHE_FORMAT = 1;
+
+/**
+ * Serialises a value to JSON with object keys in a fixed order, so equal requests always hash
+ * to the same key however they were built.
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const hashRequest = async (request: object): Promise<string> => {
+  const text = stableStringify({ format: CACHE_FORMAT, request });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Creates a cache on top of a store.
+ * @param store Where the responses are kept.
+ * @param options The size limit.
+ * @param now The clock, replaceable for testing.
+ * @returns The cache.
+ */
+export const createResponseCache = (
+  store: CacheStore,
+  { maxBytes }: ResponseCacheOptions,
+  now: () => number = Date.now
+): ResponseCache => {
+  const inFlight = new Map<string, Promise<unknown>>();
+  // Sizes and last use of every stored response, read from the store once and kept up to date.
+  let indexPromise: Promise<Map<string, CacheEntryInfo>> | null = null;
+
+  const loadIndex = (): Promise<Map<string, CacheEntryInfo>> => {
+    if (!indexPromise) {
+      indexPromise = store.list()
+        .catch((error): CacheEntryInfo[] => {
+          console.warn('Could not read the response cache', error);
+          return [];
+        })
+        .then(entries => new Map(entries.map(entry => [entry.key, entry] as const)));
+    }
+    return indexPromise;
+  };
+
+  const read = async (key: string): Promise<unknown | undefined> => {
+    try {
+      const value = await store.get(key);
+      if (value !== undefined) {
+        const index = await loadIndex();
+        const entry = index.get(key);
+        if (entry) entry.lastUsedAt = now();
+      }
+      return value;
+    } catch (error) {
+      console.warn('Could not read from the response cache', error);
+      return undefined;
+    }
+  };
+
+  const evict = async (index: Map<string, CacheEntryInfo>): Promise<void> => {
+    let total = 0;
+    for (const entry of index.values()) total += entry.sizeBytes;
+    const oldestFirst = [...index.values()].sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+    for (const entry of oldestFirst) {
+      if (total <= maxBytes) break;
+      index.delete(entry.key);
+      total -= entry.sizeBytes;
+      await store.delete(entry.key);
+    }
+  };
+
+  const write = async (key: string, value: unknown): Promise<void> => {
+    try {
+      const sizeBytes = new TextEncoder().encode(JSON.stringify(value)).length;
+      // Something bigger than the whole cache would only push everything else out and then go itself.
+      if (sizeBytes > maxBytes) return;
+      const entry: CacheEntryInfo = { key, sizeBytes, lastUsedAt: now() };
+      await store.set(entry, value);
+      const index = await loadIndex();
+      index.set(key, entry);
+      await evict(index);
+    } catch (error) {
+      // A full disk or a private window shouldn't fail the design; the answer just isn't kept.
+      console.warn('Could not write to the response cache', error);
+    }
+  };
+
+  return {
+    async run<T>(request: object, call: () => Promise<T>, { fresh = false, cacheable = () => true }: CacheRunOptions<T> = {}): Promise<T> {
+      const key = await hashRequest(request);
+      const pending = inFlight.get(key);
+      if (pending && !fresh) return pending as Promise<T>;
+
+      const promise = (async () => {
+        if (!fresh) {
+          const cached = await read(key);
+          if (cached !== undefined) return cached as T;
+        }
+        const value = await call();
+        if (cacheable(value)) await write(key, value);
+        return value;
+      })();
+
+      inFlight.set(key, promise);
+      const forget = () => {
+        if (inFlight.get(key) === promise) inFlight.delete(key);
+      };
+      promise.then(forget, forget);
+      return promise;
+    },
+  };
+};
+
+// --- START: Stores ---
+
+/**
+ * Keeps responses in memory only, for environments without IndexedDB or a disk.
+ * @returns The store.
+ */
+export const createMemoryCacheStore = (): CacheStore => {
+  const entries = new Map<string, { info: CacheEntryInfo; value: unknown }>();
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entry.info = { ...entry.info, lastUsedAt: Date.now() };
+      return entry.value;
+    },
+    async set(info, value) {
+      entries.set(info.key, { info, value });
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async list() {
+      return [...entries.values()].map(entry => entry.info);
+    },
+  };
+};
+
+const RESPONSES_STORE = 'responses';
+const USAGE_STORE = 'usage';
+
+/**
+ * Keeps responses in the browser's IndexedDB. Sizes and last use are kept in their own object
+ * store, so working out what to evict never has to load the pictures.
+ * @returns The store.
+ */
+export const createIndexedDbCacheStore = (): CacheStore => {
+  const db = openIndexedDb('mini-house-response-cache', 1, database => {
+    if (!database.objectStoreNames.contains(RESPONSES_STORE)) {
+      database.createObjectStore(RESPONSES_STORE, { keyPath: 'key' });
+    }
+    if (!database.objectStoreNames.contains(USAGE_STORE)) {
+      database.createObjectStore(USAGE_STORE, { keyPath: 'key' });
+    }
+  });
+  const responses = db.store(RESPONSES_STORE);
+  const usage = db.store(USAGE_STORE);
+
+  return {
+    async get(key) {
+      const record = await responses.run<{ key: string; value: unknown } | undefined>('readonly', store => store.get(key));
+      if (!record) return undefined;
+      const info = await usage.run<CacheEntryInfo | undefined>('readonly', store => store.get(key));
+      if (info) await usage.run('readwrite', store => store.put({ ...info, lastUsedAt: Date.now() }));
+      return record.value;
+    },
+    async set(info, value) {
+      await responses.run('readwrite', store => store.put({ key: info.key, value }));
+      await usage.run('readwrite', store => store.put(info));
+    },
+    async delete(key) {
+      await usage.run('readwrite', store => store.delete(key));
+      await responses.run('readwrite', store => store.delete(key));
+    },
+    list() {
+      return usage.run<CacheEntryInfo[]>('readonly', store => store.getAll());
+    },
+  };
+};
+
+// --- END: Stores ---
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+let activeCache: ResponseCache | null = null;
+
+/**
+ * Returns the cache used for model calls, creating it on first use: IndexedDB in the browser,
+ * memory elsewhere unless configureResponseCache chose a store.
+ * @returns The response cache.
+ */
+export const getResponseCache = (): ResponseCache => {
+  if (!activeCache) {
+    const store = typeof indexedDB !== 'undefined' ? createIndexedDbCacheStore() : createMemoryCacheStore();
+    activeCache = createResponseCache(store, { maxBytes: DEFAULT_MAX_BYTES });
+  }
+  return activeCache;
+};
+
+/**
+ * Chooses where model responses are cached, e.g. on disk on the server.
+ * @param store Where the responses are kept.
+ * @param options The size limit.
+ */
+export const configureResponseCache = (store: CacheStore, options: ResponseCacheOptions): void => {
+  activeCache = createResponseCache(store, options);
+};
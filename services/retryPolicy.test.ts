@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InvalidKeyError, NetworkError, RateLimitError, SafetyBlockedError } from './designErrors';
+import { callWithRetry, createCircuitBreaker, type RetryPolicy } from './retryPolicy';
+
+const POLICY: RetryPolicy = {
+  rateLimit: { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000 },
+  network: { maxAttempts: 2, baseDelayMs: 50, maxDelayMs: 500 },
+};
+
+/** A call that fails with each error in turn, then answers 'done'. */
+const failingWith = (...errors: Error[]) => {
+  const queue = [...errors];
+  return vi.fn(async () => {
+    const error = queue.shift();
+    if (error) throw error;
+    return 'done';
+  });
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('callWithRetry', () => {
+  it('retries a retryable failure until the call succeeds', async () => {
+    const call = failingWith(new RateLimitError('slow down'), new RateLimitError('slow down'));
+    const sleep = vi.fn(async () => {});
+    await expect(callWithRetry(call, { policy: POLICY, sleep })).resolves.toBe('done');
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off exponentially, within the longest wait', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const delays: number[] = [];
+    const call = failingWith(new RateLimitError('slow down'), new RateLimitError('slow down'));
+    await callWithRetry(call, { policy: POLICY, sleep: async ms => void delays.push(ms) });
+    expect(delays).toEqual([100, 200]);
+  });
+
+  it('waits at least as long as the service asked', async () => {
+    const delays: number[] = [];
+    const call = failingWith(new RateLimitError('slow down', { retryAfterMs: 800 }));
+    await callWithRetry(call, { policy: POLICY, sleep: async ms => void delays.push(ms) });
+    expect(delays).toEqual([800]);
+  });
+
+  it('gives up when the service asks for longer than the longest wait', async () => {
+    const call = failingWith(new RateLimitError('slow down', { retryAfterMs: 5000 }));
+    const sleep = vi.fn(async () => {});
+    await expect(callWithRetry(call, { policy: POLICY, sleep })).rejects.toBeInstanceOf(RateLimitError);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('stops after the last attempt and throws the last failure', async () => {
+    const call = failingWith(new NetworkError('down'), new NetworkError('still down'), new NetworkError('never seen'));
+    await expect(callWithRetry(call, { policy: POLICY, sleep: async () => {} })).rejects.toThrow('still down');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('never retries kinds without a rule', async () => {
+    const call = failingWith(new SafetyBlockedError('no'));
+    await expect(callWithRetry(call, { policy: POLICY, sleep: async () => {} })).rejects.toBeInstanceOf(SafetyBlockedError);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('turns other errors into design errors', async () => {
+    const call = failingWith(new Error('boom'));
+    await expect(callWithRetry(call, { policy: POLICY, sleep: async () => {} })).rejects.toMatchObject({ kind: 'unknown', message: 'boom' });
+  });
+});
+
+describe('createCircuitBreaker', () => {
+  const options = { failureThreshold: 2, cooldownMs: 1000, tripsOn: ['network' as const] };
+
+  it('opens after enough failures in a row, with the time left as the retry-after', () => {
+    let time = 0;
+    const breaker = createCircuitBreaker(options, () => time);
+    breaker.recordFailure(new NetworkError('down'));
+    expect(() => breaker.check()).not.toThrow();
+    breaker.recordFailure(new NetworkError('down'));
+
+    time = 200;
+    let thrown: unknown;
+    try {
+      breaker.check();
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(NetworkError);
+    expect(thrown).toMatchObject({ retryAfterMs: 1000 });
+  });
+
+  it('lets one trial call through after the cooldown, and closes when it succeeds', () => {
+    let time = 0;
+    const breaker = createCircuitBreaker(options, () => time);
+    breaker.recordFailure(new NetworkError('down'));
+    breaker.recordFailure(new NetworkError('down'));
+
+    time = 1000;
+    expect(() => breaker.check()).not.toThrow();
+    // Only one trial at a time.
+    expect(() => breaker.check()).toThrow(NetworkError);
+    breaker.recordSuccess();
+    expect(() => breaker.check()).not.toThrow();
+    expect(() => breaker.check()).not.toThrow();
+  });
+
+  it('opens again when the trial call fails', () => {
+    let time = 0;
+    const breaker = createCircuitBreaker(options, () => time);
+    breaker.recordFailure(new NetworkError('down'));
+    breaker.recordFailure(new NetworkError('down'));
+    time = 1000;
+    breaker.check();
+    breaker.recordFailure(new NetworkError('still down'));
+    expect(() => breaker.check()).toThrow('still down');
+  });
+
+  it('stays open for as long as the service asked, if that is longer', () => {
+    let time = 0;
+    const breaker = createCircuitBreaker(options, () => time);
+    breaker.recordFailure(new NetworkError('down'));
+    breaker.recordFailure(new NetworkError('down', { retryAfterMs: 5000 }));
+    time = 4000;
+    expect(() => breaker.check()).toThrow(NetworkError);
+    time = 5000;
+    expect(() => breaker.check()).not.toThrow();
+  });
+
+  it('is not opened by errors that are not the service failing', () => {
+    const breaker = createCircuitBreaker(options, () => 0);
+    for (let i = 0; i < 5; i++) breaker.recordFailure(new InvalidKeyError('bad key'));
+    expect(() => breaker.check()).not.toThrow();
+  });
+
+  it('stops callWithRetry from calling the service while open', async () => {
+    const breaker = createCircuitBreaker({ ...options, failureThreshold: 1 }, () => 0);
+    const call = failingWith(new NetworkError('down'));
+    await expect(callWithRetry(call, { policy: POLICY, breaker, sleep: async () => {} })).rejects.toBeInstanceOf(NetworkError);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
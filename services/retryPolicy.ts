@@ -0,0 +1,142 @@
+import { designErrorFromKind, toDesignError, type DesignError, type DesignErrorKind } from './designErrors';
+
+/**
+ * How model calls are retried. Each kind of error has its own rule, so a burst limit is waited
+ * out while a blocked idea or a wrong key fails straight away. A circuit breaker stops sending
+ * calls for a while once the service keeps failing, instead of making every asset wait out its
+ * own retries.
+ */
+
+export interface RetryRule {
+  /** Attempts in total, including the first. */
+  maxAttempts: number;
+  /** The wait before the first retry; it doubles for every retry after that. */
+  baseDelayMs: number;
+  /** The longest we are willing to wait. If the service asks for longer, we give up instead. */
+  maxDelayMs: number;
+}
+
+/**
+ * The retry rule for each kind of error. Kinds without a rule are never retried.
+ */
+export type RetryPolicy = Partial<Record<DesignErrorKind, RetryRule>>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  rateLimit: { maxAttempts: 4, baseDelayMs: 2000, maxDelayMs: 60_000 },
+  network: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10_000 },
+};
+
+export interface CircuitBreakerOptions {
+  /** Failures in a row that open the circuit. */
+  failureThreshold: number;
+  /** How long the circuit stays open before one trial call is let through. */
+  cooldownMs: number;
+  /** The kinds of error that count as the service failing. Others (e.g. a blocked idea) don't. */
+  tripsOn: DesignErrorKind[];
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+  tripsOn: ['rateLimit', 'quotaExhausted', 'network'],
+};
+
+export interface CircuitBreaker {
+  /** Throws, without calling the service, while the circuit is open. */
+  check(): void;
+  recordSuccess(): void;
+  recordFailure(error: DesignError): void;
+}
+
+/**
+ * Creates a circuit breaker. While open, calls fail with an error of the same kind as the one
+ * that opened it, carrying the time left as its retry-after.
+ * @param options When to open and for how long.
+ * @param now The clock, replaceable for testing.
+ * @returns The circuit breaker.
+ */
+export const createCircuitBreaker = (
+  { failureThreshold, cooldownMs, tripsOn }: CircuitBreakerOptions,
+  now: () => number = Date.now
+): CircuitBreaker => {
+  let failures = 0;
+  let openUntil = 0;
+  let lastError: DesignError | null = null;
+  let isTrialRunning = false;
+
+  return {
+    check() {
+      if (!lastError || failures < failureThreshold) return;
+      const remaining = openUntil - now();
+      if (remaining <= 0 && !isTrialRunning) {
+        // Half open: let one call find out whether the service is back.
+        isTrialRunning = true;
+        return;
+      }
+      throw designErrorFromKind(lastError.kind, lastError.message, {
+        status: lastError.status,
+        retryAfterMs: Math.max(remaining, 1000),
+        cause: lastError,
+      });
+    },
+    recordSuccess() {
+      failures = 0;
+      lastError = null;
+      isTrialRunning = false;
+    },
+    recordFailure(error) {
+      if (!tripsOn.includes(error.kind)) {
+        isTrialRunning = false;
+        return;
+      }
+      failures++;
+      lastError = error;
+      isTrialRunning = false;
+      if (failures >= failureThreshold) {
+        openUntil = now() + Math.max(cooldownMs, error.retryAfterMs ?? 0);
+      }
+    },
+  };
+};
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  breaker?: CircuitBreaker;
+  /** Waits between attempts, replaceable for testing. */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Makes a call, retrying it according to the policy. Backoff is exponential with jitter, and
+ * never shorter than the wait the service asked for.
+ * @param apiCall The function that makes the call.
+ * @param options The policy, circuit breaker and clock.
+ * @returns The result of the call.
+ * @throws The last failure, as a DesignError.
+ */
+export const callWithRetry = async <T>(
+  apiCall: () => Promise<T>,
+  { policy = DEFAULT_RETRY_POLICY, breaker, sleep = defaultSleep }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    breaker?.check();
+    try {
+      const result = await apiCall();
+      breaker?.recordSuccess();
+      return result;
+    } catch (caught) {
+      const error = toDesignError(caught);
+      breaker?.recordFailure(error);
+      const rule = policy[error.kind];
+      if (!rule || attempt >= rule.maxAttempts) throw error;
+      if (error.retryAfterMs !== undefined && error.retryAfterMs > rule.maxDelayMs) throw error;
+
+      const backoff = Math.min(rule.maxDelayMs, rule.baseDelayMs * 2 ** (attempt - 1) + Math.random() * rule.baseDelayMs);
+      const delay = Math.max(backoff, error.retryAfterMs ?? 0);
+      console.warn(`${error.name}: retrying in ${Math.round(delay)}ms... (Attempt ${attempt}/${rule.maxAttempts - 1})`);
+      await sleep(delay);
+    }
+  }
+};
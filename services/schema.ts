@@ -0,0 +1,186 @@
+import { Type, type Schema as ResponseSchema } from '@google/genai';
+
+/**
+ * A tiny schema language for the JSON the model sends back. Each schema is typed against the
+ * TypeScript type it describes (an object schema must list every property of its type, with a
+ * schema of the matching type), and from one definition we get both a runtime validator and the
+ * responseSchema Gemini is asked to follow.
+ */
+
+export interface Schema<T> {
+  /**
+   * Checks a value.
+   * @param value Anything, typically parsed JSON.
+   * @param path Where the value sits in the whole response, used in the messages.
+   * @returns One message per problem; empty if the value is valid.
+   */
+  validate(value: unknown, path?: string): string[];
+  /** @returns The equivalent Gemini response schema. */
+  toResponseSchema(): ResponseSchema;
+  /** True for optional object properties. */
+  readonly isOptional?: boolean;
+  /** Never set; carries the described type for the compiler. */
+  readonly type?: T;
+}
+
+export interface ValidationResult<T> {
+  value: T | null;
+  /** Empty when the value is valid. */
+  issues: string[];
+}
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'a list' : typeof value === 'string' ? `"${value.slice(0, 40)}"` : String(value);
+
+const at = (path: string): string => path || 'the answer';
+
+interface StringOptions {
+  description?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+}
+
+/**
+ * @param options Length limits, a pattern and a description for the model.
+ * @returns A schema for a string.
+ */
+export const string = ({ description, minLength = 1, maxLength, pattern }: StringOptions = {}): Schema<string> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'string') return [`${at(path)} must be text, not ${describe(value)}`];
+    const length = value.trim().length;
+    if (length < minLength) return [minLength === 1 ? `${at(path)} must not be empty` : `${at(path)} must be at least ${minLength} characters long`];
+    if (maxLength !== undefined && value.length > maxLength) return [`${at(path)} must be at most ${maxLength} characters long`];
+    if (pattern && !pattern.test(value)) return [`${at(path)} must match ${pattern}, not ${describe(value)}`];
+    return [];
+  },
+  toResponseSchema: () => ({ type: Type.STRING, description }),
+});
+
+/**
+ * @param values The allowed values.
+ * @param description What the value means, for the model.
+ * @returns A schema for one of a fixed set of strings.
+ */
+export const oneOf = <T extends string>(values: readonly T[], description?: string): Schema<T> => ({
+  validate(value, path = '') {
+    return typeof value === 'string' && (values as readonly string[]).includes(value)
+      ? []
+      : [`${at(path)} must be one of ${values.join(', ')}, not ${describe(value)}`];
+  },
+  toResponseSchema: () => ({ type: Type.STRING, enum: [...values], description }),
+});
+
+interface NumberOptions {
+  description?: string;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * @param options The allowed range and a description for the model.
+ * @returns A schema for a finite number.
+ */
+export const number = ({ description, min, max }: NumberOptions = {}): Schema<number> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return [`${at(path)} must be a number, not ${describe(value)}`];
+    if (min !== undefined && value < min) return [`${at(path)} must be at least ${min}, not ${value}`];
+    if (max !== undefined && value > max) return [`${at(path)} must be at most ${max}, not ${value}`];
+    return [];
+  },
+  toResponseSchema: () => ({ type: Type.NUMBER, description, minimum: min, maximum: max }),
+});
+
+interface ArrayOptions {
+  description?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * @param items The schema every item must match.
+ * @param options Size limits and a description for the model.
+ * @returns A schema for a list.
+ */
+export const array = <T>(items: Schema<T>, { description, minItems = 0, maxItems }: ArrayOptions = {}): Schema<T[]> => ({
+  validate(value, path = '') {
+    if (!Array.isArray(value)) return [`${at(path)} must be a list, not ${describe(value)}`];
+    if (value.length < minItems) return [`${at(path)} must have at least ${minItems} items, not ${value.length}`];
+    if (maxItems !== undefined && value.length > maxItems) return [`${at(path)} must have at most ${maxItems} items, not ${value.length}`];
+    return value.flatMap((item, index) => items.validate(item, `${path}[${index}]`));
+  },
+  toResponseSchema: () => ({
+    type: Type.ARRAY,
+    description,
+    items: items.toResponseSchema(),
+    minItems: minItems > 0 ? String(minItems) : undefined,
+    maxItems: maxItems !== undefined ? String(maxItems) : undefined,
+  }),
+});
+
+/**
+ * @param properties A schema for every property of the type.
+ * @param description What the object is, for the model.
+ * @returns A schema for an object. Unknown properties are allowed and ignored.
+ */
+export const object = <T>(properties: { [K in keyof T]-?: Schema<T[K]> }, description?: string): Schema<T> => {
+  const entries = Object.entries(properties) as Array<[string, Schema<unknown>]>;
+  return {
+    validate(value, path = '') {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${at(path)} must be an object, not ${describe(value)}`];
+      const record = value as Record<string, unknown>;
+      return entries.flatMap(([key, schema]) => {
+        const childPath = path ? `${path}.${key}` : key;
+        if (record[key] === undefined) return schema.isOptional ? [] : [`${childPath} is missing`];
+        return schema.validate(record[key], childPath);
+      });
+    },
+    toResponseSchema: () => ({
+      type: Type.OBJECT,
+      description,
+      properties: Object.fromEntries(entries.map(([key, schema]) => [key, schema.toResponseSchema()])),
+      required: entries.filter(([, schema]) => !schema.isOptional).map(([key]) => key),
+    }),
+  };
+};
+
+/**
+ * @param schema The schema the property must match when it is present.
+ * @returns A schema for an optional object property.
+ */
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  validate: (value, path) => (value === undefined ? [] : schema.validate(value, path)),
+  toResponseSchema: () => schema.toResponseSchema(),
+  isOptional: true,
+});
+
+/**
+ * Adds checks that span several fields, run only once the value has the right shape.
+ * @param schema The basic shape.
+ * @param check Returns one message per problem.
+ * @returns The combined schema.
+ */
+export const refine = <T>(schema: Schema<T>, check: (value: T, path: string) => string[]): Schema<T> => ({
+  ...schema,
+  validate(value, path = '') {
+    const issues = schema.validate(value, path);
+    return issues.length > 0 ? issues : check(value as T, path);
+  },
+});
+
+/**
+ * Parses and validates a JSON answer from the model.
+ * @param text The raw answer.
+ * @param schema What the answer should look like.
+ * @returns The value if it is valid, and every problem found.
+ */
+export const parseWithSchema = <T>(text: string | undefined, schema: Schema<T>): ValidationResult<T> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text?.trim() ?? '');
+  } catch {
+    return { value: null, issues: ['the answer is not valid JSON'] };
+  }
+  const issues = schema.validate(value);
+  return { value: issues.length === 0 ? (value as T) : null, issues };
+};
@@ -0,0 +1,31 @@
+import { openIndexedDb } from './indexedDb';
+
+/**
+ * Small settings the family changes once and expects to find again, such as prices and what is
+ * already in the craft box. Each setting is stored whole under its own key.
+ */
+
+const SETTINGS_STORE = 'settings';
+
+const settings = openIndexedDb('mini-house-settings', 1, db => {
+  if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+    db.createObjectStore(SETTINGS_STORE);
+  }
+}).store(SETTINGS_STORE);
+
+/**
+ * Loads a setting.
+ * @param key The name of the setting.
+ * @returns The stored value, or null if it was never saved.
+ */
+export const loadSetting = async <T>(key: string): Promise<T | null> =>
+  (await settings.run<T | undefined>('readonly', store => store.get(key))) ?? null;
+
+/**
+ * Saves a setting, replacing the previous value.
+ * @param key The name of the setting.
+ * @param value The new value.
+ */
+export const saveSetting = async <T>(key: string, value: T): Promise<void> => {
+  await settings.run('readwrite', store => store.put(value, key));
+};
@@ -0,0 +1,30 @@
+import type { CuttingList, ImageView } from '../types';
+import { toFileName } from './download';
+
+/**
+ * Shares a design through the device's share sheet (messages, email and the like). Only the
+ * house's name, its one-sentence description and one picture are shared: never the child's own
+ * words, and never a link to anything.
+ */
+
+export const isSharingSupported = (): boolean => typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+/**
+ * Opens the share sheet for a design. Closing the sheet without sharing isn't an error.
+ * @param cuttingList The design's cutting list, for its name and description.
+ * @param picture A picture of the house to share along, if the device can share pictures.
+ */
+export const shareDesign = async (cuttingList: CuttingList, picture: ImageView | null): Promise<void> => {
+  const data: ShareData = { title: cuttingList.houseName, text: `${cuttingList.houseName}: ${cuttingList.description}` };
+  if (picture) {
+    const blob = await (await fetch(picture.url)).blob();
+    const extension = blob.type.split('/')[1]?.replace('+xml', '') || 'png';
+    const file = new File([blob], `${toFileName(cuttingList.houseName)}.${extension}`, { type: blob.type });
+    if (navigator.canShare?.({ files: [file] })) data.files = [file];
+  }
+  try {
+    await navigator.share(data);
+  } catch (error) {
+    if ((error as { name?: unknown }).name !== 'AbortError') throw error;
+  }
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { Material } from '../types';
+import { nestParts, STOCK_SHEETS, type NestingOptions, type PlacedPiece } from './sheetNesting';
+
+const A4 = STOCK_SHEETS.find(sheet => sheet.id === 'a4')!;
+
+const part = (id: string, widthMm: number, heightMm: number, quantity = 1): Material => ({
+  name: 'Cardboard',
+  quantity,
+  dimensions: `${widthMm} x ${heightMm} x 2 mm`,
+  part: { id, label: `Part ${id}`, role: 'wall', widthMm, heightMm, thicknessMm: 2, cutouts: [], glueTabs: [] },
+});
+
+const overlaps = (a: PlacedPiece, b: PlacedPiece): boolean =>
+  a.xMm < b.xMm + b.widthMm && b.xMm < a.xMm + a.widthMm && a.yMm < b.yMm + b.heightMm && b.yMm < a.yMm + a.heightMm;
+
+const options = (changes: Partial<NestingOptions> = {}): NestingOptions => ({ sheet: A4, kerfMm: 1, grain: 'any', ...changes });
+
+const PARTS = [part('P1', 160, 120), part('P2', 160, 100, 2), part('P3', 116, 130, 2), part('P4', 180, 90, 2), part('P5', 40, 40, 3)];
+
+describe('nestParts', () => {
+  it('places every copy of every part exactly once', () => {
+    const result = nestParts(PARTS, options());
+    const placed = result.sheets.flatMap(sheet => sheet.pieces.map(piece => `${piece.partId}#${piece.copy}`));
+    const wanted = PARTS.flatMap(material => Array.from({ length: material.quantity }, (_, index) => `${material.part!.id}#${index + 1}`));
+    expect(result.unplaced).toEqual([]);
+    expect(placed.sort()).toEqual(wanted.sort());
+    expect(result.sheetCount).toBe(result.sheets.length);
+  });
+
+  it('never overlaps two pieces, kerf included', () => {
+    const kerf = 2;
+    const result = nestParts(PARTS, options({ kerfMm: kerf }));
+    for (const sheet of result.sheets) {
+      const grown = sheet.pieces.map(piece => ({ ...piece, widthMm: piece.widthMm + kerf, heightMm: piece.heightMm + kerf }));
+      for (let i = 0; i < grown.length; i++) {
+        for (let j = i + 1; j < grown.length; j++) {
+          expect(overlaps(grown[i], grown[j]), `${grown[i].partId} and ${grown[j].partId}`).toBe(false);
+        }
+      }
+    }
+  });
+
+  it('keeps every piece on the sheet and inside the margin', () => {
+    const margin = 5;
+    const result = nestParts(PARTS, options({ marginMm: margin }));
+    for (const piece of result.sheets.flatMap(sheet => sheet.pieces)) {
+      expect(piece.xMm).toBeGreaterThanOrEqual(margin);
+      expect(piece.yMm).toBeGreaterThanOrEqual(margin);
+      expect(piece.xMm + piece.widthMm).toBeLessThanOrEqual(A4.widthMm - margin);
+      expect(piece.yMm + piece.heightMm).toBeLessThanOrEqual(A4.heightMm - margin);
+    }
+  });
+
+  it('keeps the grain direction when asked to', () => {
+    const vertical = nestParts([part('P1', 250, 100)], options({ grain: 'vertical' }));
+    expect(vertical.unplaced).toEqual([{ partId: 'P1', label: 'Part P1' }]);
+
+    const horizontal = nestParts([part('P1', 250, 100), part('P2', 150, 60, 2)], options({ grain: 'horizontal' }));
+    expect(horizontal.unplaced).toEqual([]);
+    expect(horizontal.sheets.flatMap(sheet => sheet.pieces).every(piece => piece.rotated)).toBe(true);
+  });
+
+  it('reports a part too big for the sheet instead of placing it', () => {
+    const result = nestParts([part('P1', 100, 100), part('P2', 400, 400)], options());
+    expect(result.unplaced).toEqual([{ partId: 'P2', label: 'Part P2' }]);
+    expect(result.sheets.flatMap(sheet => sheet.pieces).map(piece => piece.partId)).toEqual(['P1']);
+  });
+
+  it('uses one sheet for parts that fit on one, with the waste worked out', () => {
+    const result = nestParts([part('P1', 100, 100), part('P2', 100, 100)], options({ kerfMm: 0 }));
+    expect(result.sheetCount).toBe(1);
+    expect(result.wastePercent).toBeCloseTo((1 - 20_000 / (210 * 297)) * 100, 0);
+  });
+
+  it('ignores rows without part geometry', () => {
+    const result = nestParts([{ name: 'Craft sticks', quantity: 10, dimensions: '' }], options());
+    expect(result).toMatchObject({ sheetCount: 0, unplaced: [], wastePercent: 0 });
+  });
+});
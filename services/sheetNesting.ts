@@ -0,0 +1,278 @@
+import type { Material } from '../types';
+
+/**
+ * A sheet of card or board as bought from the shop, in portrait orientation.
+ */
+export interface StockSheet {
+  id: string;
+  /** What the sheet is called in the shop, without its size, which is shown in the family's units. */
+  label: string;
+  widthMm: number;
+  heightMm: number;
+}
+
+export const STOCK_SHEETS: StockSheet[] = [
+  { id: 'a4', label: 'A4', widthMm: 210, heightMm: 297 },
+  { id: 'a3', label: 'A3', widthMm: 297, heightMm: 420 },
+  { id: 'letter', label: 'US Letter', widthMm: 216, heightMm: 279 },
+  { id: 'foam-20x30', label: 'Large foam board', widthMm: 508, heightMm: 762 },
+];
+
+/**
+ * How the grain (corrugation or fibre direction) of the sheet constrains the pieces.
+ * - 'any': pieces may be rotated freely for the tightest fit.
+ * - 'vertical': each piece keeps its height along the sheet's height, so walls bend the same way.
+ * - 'horizontal': each piece is turned so its height runs across the sheet's width.
+ */
+export type GrainDirection = 'any' | 'vertical' | 'horizontal';
+
+export interface NestingOptions {
+  sheet: StockSheet;
+  /** Width of material lost to each cut, in millimetres. */
+  kerfMm: number;
+  grain: GrainDirection;
+  /** Blank border left around the edge of every sheet, in millimetres. */
+  marginMm?: number;
+}
+
+export interface PlacedPiece {
+  partId: string;
+  label: string;
+  /** Which copy of the part this is, starting at 1, for parts needed more than once. */
+  copy: number;
+  xMm: number;
+  yMm: number;
+  /** Size of the piece as laid on the sheet, i.e. after any rotation. */
+  widthMm: number;
+  heightMm: number;
+  rotated: boolean;
+}
+
+export interface SheetLayout {
+  pieces: PlacedPiece[];
+  usedAreaMm2: number;
+}
+
+export interface NestingResult {
+  sheet: StockSheet;
+  sheets: SheetLayout[];
+  sheetCount: number;
+  /** Share of the bought sheets that ends up as offcuts, from 0 to 100. */
+  wastePercent: number;
+  /** Pieces that are bigger than the sheet and could not be placed at all. */
+  unplaced: Array<{ partId: string; label: string }>;
+}
+
+interface FreeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface PieceToPlace {
+  partId: string;
+  label: string;
+  copy: number;
+  widthMm: number;
+  heightMm: number;
+}
+
+// --- START: MaxRects bin packing ---
+
+/**
+ * One sheet being filled using the MaxRects algorithm: it tracks every maximal free rectangle
+ * and places each piece where it leaves the shortest leftover side (best short side fit).
+ */
+class SheetBin {
+  private free: FreeRect[];
+  readonly pieces: PlacedPiece[] = [];
+  usedAreaMm2 = 0;
+
+  constructor(private readonly width: number, private readonly height: number) {
+    this.free = [{ x: 0, y: 0, width, height }];
+  }
+
+  /**
+   * Finds the best spot for a piece of the given (kerf-inflated) size.
+   * @returns The score and position, or null if the piece does not fit anywhere.
+   */
+  findPosition(width: number, height: number): { score: number; x: number; y: number } | null {
+    let best: { score: number; x: number; y: number } | null = null;
+    for (const rect of this.free) {
+      if (width <= rect.width && height <= rect.height) {
+        const score = Math.min(rect.width - width, rect.height - height);
+        if (!best || score < best.score) {
+          best = { score, x: rect.x, y: rect.y };
+        }
+      }
+    }
+    return best;
+  }
+
+  place(piece: PlacedPiece, width: number, height: number): void {
+    const used: FreeRect = { x: piece.xMm, y: piece.yMm, width, height };
+    const next: FreeRect[] = [];
+    for (const rect of this.free) {
+      next.push(...SheetBin.split(rect, used));
+    }
+    // Drop free rectangles fully contained in another one.
+    this.free = next.filter((rect, i) => !next.some((other, j) => i !== j && SheetBin.contains(other, rect) && (j < i || !SheetBin.contains(rect, other))));
+    this.pieces.push(piece);
+    this.usedAreaMm2 += piece.widthMm * piece.heightMm;
+  }
+
+  private static split(rect: FreeRect, used: FreeRect): FreeRect[] {
+    if (used.x >= rect.x + rect.width || used.x + used.width <= rect.x ||
+        used.y >= rect.y + rect.height || used.y + used.height <= rect.y) {
+      return [rect];
+    }
+    const parts: FreeRect[] = [];
+    if (used.x > rect.x) parts.push({ x: rect.x, y: rect.y, width: used.x - rect.x, height: rect.height });
+    if (used.x + used.width < rect.x + rect.width) {
+      parts.push({ x: used.x + used.width, y: rect.y, width: rect.x + rect.width - used.x - used.width, height: rect.height });
+    }
+    if (used.y > rect.y) parts.push({ x: rect.x, y: rect.y, width: rect.width, height: used.y - rect.y });
+    if (used.y + used.height < rect.y + rect.height) {
+      parts.push({ x: rect.x, y: used.y + used.height, width: rect.width, height: rect.y + rect.height - used.y - used.height });
+    }
+    return parts;
+  }
+
+  private static contains(outer: FreeRect, inner: FreeRect): boolean {
+    return inner.x >= outer.x && inner.y >= outer.y &&
+      inner.x + inner.width <= outer.x + outer.width &&
+      inner.y + inner.height <= outer.y + outer.height;
+  }
+}
+
+// --- END: MaxRects bin packing ---
+
+/**
+ * Expands the cutting list into individual pieces, one per copy needed.
+ */
+const collectPieces = (materials: Material[]): PieceToPlace[] =>
+  materials.flatMap(material => {
+    const part = material.part;
+    if (!part) return [];
+    return Array.from({ length: Math.max(0, material.quantity) }, (_, index) => ({
+      partId: part.id,
+      label: part.label,
+      copy: index + 1,
+      widthMm: part.widthMm,
+      heightMm: part.heightMm,
+    }));
+  });
+
+/**
+ * Packs the pieces onto sheets in the given order, opening a new sheet whenever nothing fits.
+ */
+const packInOrder = (pieces: PieceToPlace[], options: NestingOptions): NestingResult => {
+  const { sheet, grain } = options;
+  const kerf = Math.max(0, options.kerfMm);
+  const margin = Math.max(0, options.marginMm ?? 5);
+  // Each piece reserves one kerf on its right and top edge. Adding one kerf to the usable area
+  // lets the last piece in a row or column sit flush against the margin.
+  const usableWidth = sheet.widthMm - 2 * margin + kerf;
+  const usableHeight = sheet.heightMm - 2 * margin + kerf;
+
+  const orientationsFor = (piece: PieceToPlace): Array<{ width: number; height: number; rotated: boolean }> => {
+    const upright = { width: piece.widthMm, height: piece.heightMm, rotated: false };
+    const turned = { width: piece.heightMm, height: piece.widthMm, rotated: true };
+    if (grain === 'vertical') return [upright];
+    if (grain === 'horizontal') return [turned];
+    return [upright, turned];
+  };
+
+  const bins: SheetBin[] = [];
+  const unplaced: NestingResult['unplaced'] = [];
+
+  for (const piece of pieces) {
+    const orientations = orientationsFor(piece);
+    let choice: { bin: SheetBin; x: number; y: number; width: number; height: number; rotated: boolean } | null = null;
+    let bestScore = Infinity;
+
+    for (const bin of bins) {
+      for (const orientation of orientations) {
+        const position = bin.findPosition(orientation.width + kerf, orientation.height + kerf);
+        if (position && position.score < bestScore) {
+          bestScore = position.score;
+          choice = { bin, x: position.x, y: position.y, width: orientation.width, height: orientation.height, rotated: orientation.rotated };
+        }
+      }
+      // Fill earlier sheets before considering later ones.
+      if (choice) break;
+    }
+
+    if (!choice) {
+      const fitting = orientations.find(o => o.width + kerf <= usableWidth && o.height + kerf <= usableHeight);
+      if (!fitting) {
+        unplaced.push({ partId: piece.partId, label: piece.label });
+        continue;
+      }
+      const bin = new SheetBin(usableWidth, usableHeight);
+      bins.push(bin);
+      choice = { bin, x: 0, y: 0, width: fitting.width, height: fitting.height, rotated: fitting.rotated };
+    }
+
+    choice.bin.place({
+      partId: piece.partId,
+      label: piece.label,
+      copy: piece.copy,
+      xMm: choice.x,
+      yMm: choice.y,
+      widthMm: choice.width,
+      heightMm: choice.height,
+      rotated: choice.rotated,
+    }, choice.width + kerf, choice.height + kerf);
+  }
+
+  const sheets: SheetLayout[] = bins.map(bin => ({
+    // Shift from usable-area coordinates to sheet coordinates.
+    pieces: bin.pieces.map(piece => ({ ...piece, xMm: piece.xMm + margin, yMm: piece.yMm + margin })),
+    usedAreaMm2: bin.usedAreaMm2,
+  }));
+
+  const totalArea = sheets.length * sheet.widthMm * sheet.heightMm;
+  const usedArea = sheets.reduce((sum, layout) => sum + layout.usedAreaMm2, 0);
+
+  return {
+    sheet,
+    sheets,
+    sheetCount: sheets.length,
+    wastePercent: totalArea > 0 ? Math.round((1 - usedArea / totalArea) * 1000) / 10 : 0,
+    unplaced,
+  };
+};
+
+type PieceOrder = (a: PieceToPlace, b: PieceToPlace) => number;
+
+// Orders to try the pieces in. Each one suits a different mix of shapes, so the planner runs
+// them all and keeps whichever layout needs the fewest sheets.
+const PIECE_ORDERS: PieceOrder[] = [
+  (a, b) => b.widthMm * b.heightMm - a.widthMm * a.heightMm,
+  (a, b) => Math.max(b.widthMm, b.heightMm) - Math.max(a.widthMm, a.heightMm),
+  (a, b) => b.heightMm - a.heightMm || b.widthMm - a.widthMm,
+  (a, b) => b.widthMm - a.widthMm || b.heightMm - a.heightMm,
+  (a, b) => (b.widthMm + b.heightMm) - (a.widthMm + a.heightMm),
+];
+
+/**
+ * Lays the rectangular parts of a cutting list out on as few stock sheets as possible.
+ * Materials without structured part geometry are ignored.
+ * @param materials The rows of the cutting list.
+ * @param options The stock sheet, kerf and grain settings.
+ * @returns The layout of every sheet, plus the sheet count and waste percentage.
+ */
+export const nestParts = (materials: Material[], options: NestingOptions): NestingResult => {
+  const pieces = collectPieces(materials);
+  let best: NestingResult | null = null;
+  for (const order of PIECE_ORDERS) {
+    const result = packInOrder([...pieces].sort(order), options);
+    if (!best || result.unplaced.length < best.unplaced.length ||
+        (result.unplaced.length === best.unplaced.length && result.sheetCount < best.sheetCount)) {
+      best = result;
+    }
+  }
+  return best!;
+};
@@ -0,0 +1,106 @@
+import { PdfDocument, textWidthMm } from './pdfWriter';
+import { PAPER_SIZES, type PaperSize } from './templateExport';
+import { countUnits, type ShoppingLine, type ShoppingList } from './shoppingList';
+import { translateName, translator, type Locale, type Translate } from './i18n';
+
+/**
+ * The shopping list as files to take to the shop: a CSV for spreadsheets and a printable
+ * checklist with a box to tick for each item.
+ */
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const money = (amount: number): string => amount.toFixed(2);
+
+/**
+ * Writes the shopping list as CSV, one row per item and a total row at the end.
+ * @param list The shopping list.
+ * @param locale The language to write the headings and names in.
+ * @returns The CSV file contents.
+ */
+export const createShoppingCsv = (list: ShoppingList, locale: Locale = 'en'): string => {
+  const t = translator(locale);
+  const { currency } = list;
+  const header = [
+    t('shop.item'), t('shop.csv.needed'), t('shop.unit'), t('shop.csv.have'), t('shop.csv.toBuy'), t('shop.csv.packs'), t('shop.packSize'),
+    t('shop.csv.packPrice', { currency }), t('shop.csv.cost', { currency }), t('shop.csv.for'),
+  ];
+  const rows = list.lines.map(line => [
+    translateName(locale, 'catalog', line.item.name), line.needed, translateName(locale, 'unit', line.item.unit), line.owned, line.toBuy, line.packs, line.item.packSize, money(line.item.price), money(line.cost), line.reason,
+  ]);
+  const total = [t('shop.total'), '', '', '', '', '', '', '', money(list.total), ''];
+  return [header, ...rows, total].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const MARGIN_MM = 15;
+const TITLE_MM = 7;
+const TEXT_MM = 4.2;
+const NOTE_MM = 3.2;
+const ROW_MM = 14;
+const BOX_MM = 5;
+
+/**
+ * What to pick up from the shelf, e.g. "2 packs of Craft card, A4 (10 sheets each)".
+ */
+const checklistLabel = (line: ShoppingLine, t: Translate, locale: Locale): string => {
+  const item = translateName(locale, 'catalog', line.item.name);
+  if (line.item.packSize === 1) return `${line.packs} x ${item}`;
+  const packs = t(line.packs === 1 ? 'shop.pack' : 'shop.packs', { count: line.packs });
+  return t('shop.pdf.packsOf', { packs, item, size: countUnits(line.item.packSize, line.item.unit, locale) });
+};
+
+/**
+ * Builds a printable checklist of what to buy. Items already at home are left off.
+ * Prices are written with the currency code, because the built-in PDF font has no symbol
+ * for most currencies.
+ * @param list The shopping list.
+ * @param houseName The house the list is for, printed as the title.
+ * @param paper The paper size to print on.
+ * @param locale The language to write the checklist in.
+ * @returns The PDF file contents.
+ */
+export const createShoppingChecklistPdf = (list: ShoppingList, houseName: string, paper: PaperSize, locale: Locale = 'en'): Uint8Array => {
+  const t = translator(locale);
+  const { widthMm, heightMm } = PAPER_SIZES[paper];
+  const pdf = new PdfDocument();
+  const lines = list.lines.filter(line => line.packs > 0);
+
+  let page = pdf.addPage(widthMm, heightMm);
+  page.text(t('shop.pdf.title', { name: houseName }), MARGIN_MM, MARGIN_MM + TITLE_MM, TITLE_MM);
+  let y = MARGIN_MM + TITLE_MM * 2.5;
+
+  if (lines.length === 0) {
+    page.text(t('shop.pdf.haveAll'), MARGIN_MM, y, TEXT_MM);
+    return pdf.toBytes();
+  }
+
+  for (const line of lines) {
+    if (y + ROW_MM > heightMm - MARGIN_MM) {
+      page = pdf.addPage(widthMm, heightMm);
+      y = MARGIN_MM;
+    }
+    page.polyline([[MARGIN_MM, y], [MARGIN_MM + BOX_MM, y], [MARGIN_MM + BOX_MM, y + BOX_MM], [MARGIN_MM, y + BOX_MM]], true, { widthMm: 0.4 });
+    const textX = MARGIN_MM + BOX_MM + 4;
+    const cost = `${money(line.cost)} ${list.currency}`;
+    page.text(checklistLabel(line, t, locale), textX, y + TEXT_MM, TEXT_MM);
+    page.text(cost, widthMm - MARGIN_MM, y + TEXT_MM, TEXT_MM, 'end');
+    const amount = countUnits(line.needed, line.item.unit, locale);
+    const need = line.owned > 0
+      ? t('shop.pdf.needHave', { amount, reason: line.reason, owned: line.owned })
+      : t('shop.pdf.need', { amount, reason: line.reason });
+    page.text(need, textX, y + TEXT_MM + NOTE_MM * 1.6, NOTE_MM, 'start', '#555555');
+    y += ROW_MM;
+  }
+
+  const total = t('shop.pdf.total', { amount: `${money(list.total)} ${list.currency}` });
+  if (y + TEXT_MM * 2 > heightMm - MARGIN_MM) {
+    page = pdf.addPage(widthMm, heightMm);
+    y = MARGIN_MM;
+  }
+  page.polyline([[widthMm - MARGIN_MM - textWidthMm(total, TEXT_MM), y], [widthMm - MARGIN_MM, y]], false, { widthMm: 0.3 });
+  page.text(total, widthMm - MARGIN_MM, y + TEXT_MM * 1.5, TEXT_MM, 'end');
+  return pdf.toBytes();
+};
@@ -0,0 +1,162 @@
+import type { CuttingList, HouseSpec, Material, SheetMaterial } from '../types';
+import type { CatalogItem, Inventory, MaterialsCatalog } from './materialsCatalog';
+import { SHEET_MATERIAL_NAMES } from './cuttingListEngine';
+import { nestParts } from './sheetNesting';
+import { usesTape } from './assemblyInstructions';
+import { translateName, translatePartLabel, translator, type Locale, type Translate } from './i18n';
+
+/**
+ * Turns a cutting list into what to buy: the parts are laid out on each sheet size the catalog
+ * sells to find the cheapest that fits, what is already at home is taken off, and whatever is
+ * still needed is rounded up to whole packs.
+ */
+
+export interface ShoppingLine {
+  item: CatalogItem;
+  /** Units this house needs, e.g. 3 sheets. */
+  needed: number;
+  /** Units already at home that go towards it, never more than needed. */
+  owned: number;
+  /** Units still to buy. */
+  toBuy: number;
+  /** Whole packs to buy. */
+  packs: number;
+  cost: number;
+  /** What the item is for, e.g. "7 parts on 2 sheets". */
+  reason: string;
+}
+
+export interface ShoppingList {
+  currency: string;
+  lines: ShoppingLine[];
+  total: number;
+  /** What couldn't be matched to anything in the catalog. */
+  unmatched: string[];
+}
+
+// The width lost to each knife cut when planning sheets, in millimetres.
+const KERF_MM = 1;
+
+/**
+ * Counts something in a unit from the catalog, e.g. "3 sheets". Units the app has no
+ * translation for (one a grown-up typed in) are given an English "s".
+ * @param count How many.
+ * @param unit The unit, as the catalog stores it.
+ * @param locale The language to write it in.
+ * @returns The count with its unit.
+ */
+export const countUnits = (count: number, unit: string, locale: Locale = 'en'): string =>
+  `${count} ${translateName(locale, 'unit', count === 1 ? unit : `${unit}s`)}`;
+
+/**
+ * Prices a need against the inventory.
+ */
+const toLine = (item: CatalogItem, needed: number, inventory: Inventory, reason: string): ShoppingLine => {
+  const owned = Math.min(needed, Math.max(0, inventory[item.id] ?? 0));
+  const toBuy = needed - owned;
+  const packs = Math.ceil(toBuy / item.packSize);
+  return { item, needed, owned, toBuy, packs, cost: packs * item.price, reason };
+};
+
+const sheetMaterialOf = (material: Material): SheetMaterial | null =>
+  (Object.keys(SHEET_MATERIAL_NAMES) as SheetMaterial[]).find(sheet => SHEET_MATERIAL_NAMES[sheet] === material.name) ?? null;
+
+/**
+ * Picks the sheet size that makes the parts cheapest, after counting the sheets already at home.
+ * A size that some part doesn't fit on is only used when nothing bigger is sold.
+ */
+const planSheets = (
+  rows: Material[],
+  sheetMaterial: SheetMaterial,
+  catalog: MaterialsCatalog,
+  inventory: Inventory,
+  t: Translate,
+  locale: Locale
+): { line: ShoppingLine | null; problems: string[] } => {
+  const candidates = catalog.items.filter(item => item.category === 'sheet' && item.sheetMaterial === sheetMaterial && item.widthMm && item.heightMm);
+  const name = translateName(locale, 'material', SHEET_MATERIAL_NAMES[sheetMaterial]);
+  if (candidates.length === 0) {
+    return { line: null, problems: [t('shop.noSheets', { name })] };
+  }
+
+  const partCount = rows.reduce((sum, row) => sum + row.quantity, 0);
+  const plans = candidates.map(item => {
+    const result = nestParts(rows, {
+      sheet: { id: item.id, label: item.name, widthMm: item.widthMm!, heightMm: item.heightMm! },
+      kerfMm: KERF_MM,
+      grain: 'any',
+    });
+    const reason = t('shop.onSheets', { parts: countUnits(partCount, 'part', locale), sheets: countUnits(result.sheetCount, 'sheet', locale) });
+    const line = toLine(item, result.sheetCount, inventory, reason);
+    return { line, unplaced: result.unplaced };
+  });
+  plans.sort((a, b) => a.unplaced.length - b.unplaced.length || a.line.cost - b.line.cost || a.line.needed - b.line.needed);
+
+  const [best] = plans;
+  const problems = best.unplaced.length > 0
+    ? [t('shop.tooBig', { name: name.toLowerCase(), parts: best.unplaced.map(part => `${part.partId} ${translatePartLabel(locale, part.label)}`).join(', ') })]
+    : [];
+  return { line: best.line.needed > 0 ? best.line : null, problems };
+};
+
+/**
+ * Works out what to buy to build a house.
+ * @param cuttingList The parts of the house.
+ * @param spec The house model, for what holds it together (tape for a pitched roof). May be null.
+ * @param catalog What materials cost and how they are sold.
+ * @param inventory What is already at home.
+ * @param locale The language to write the reasons and problems in.
+ * @returns One line per catalog item to get, with the total cost.
+ */
+export const buildShoppingList = (
+  cuttingList: CuttingList,
+  spec: HouseSpec | null,
+  catalog: MaterialsCatalog,
+  inventory: Inventory,
+  locale: Locale = 'en'
+): ShoppingList => {
+  const t = translator(locale);
+  const lines: ShoppingLine[] = [];
+  const unmatched: string[] = [];
+
+  // Sheets, one plan per sheet material.
+  const partRows = cuttingList.materials.filter(material => material.part);
+  const sheetMaterials = [...new Set(partRows.map(sheetMaterialOf).filter((sheet): sheet is SheetMaterial => !!sheet))];
+  for (const sheetMaterial of sheetMaterials) {
+    const { line, problems } = planSheets(partRows.filter(row => sheetMaterialOf(row) === sheetMaterial), sheetMaterial, catalog, inventory, t, locale);
+    if (line) lines.push(line);
+    unmatched.push(...problems);
+  }
+
+  // What holds it together.
+  const firstOf = (category: CatalogItem['category']) => catalog.items.find(item => item.category === category);
+  const glue = firstOf('glue');
+  if (partRows.length > 0 && glue) lines.push(toLine(glue, 1, inventory, t('shop.forJoints')));
+  const tape = firstOf('tape');
+  if (spec && usesTape(spec) && tape) lines.push(toLine(tape, 1, inventory, t('shop.forRoof')));
+
+  // Anything else on the list, matched by name.
+  const needs = new Map<CatalogItem, { count: number; names: string[] }>();
+  for (const material of cuttingList.materials.filter(material => !material.part)) {
+    const text = material.name.toLowerCase();
+    const item = catalog.items.find(candidate => candidate.category === 'other' && candidate.keywords?.some(keyword => text.includes(keyword.toLowerCase())));
+    if (!item) {
+      unmatched.push(`${translateName(locale, 'material', material.name)} (${material.quantity}${material.dimensions ? `, ${material.dimensions}` : ''})`);
+      continue;
+    }
+    const need = needs.get(item) ?? { count: 0, names: [] };
+    need.count += material.quantity;
+    need.names.push(translateName(locale, 'material', material.name));
+    needs.set(item, need);
+  }
+  for (const [item, need] of needs) {
+    lines.push(toLine(item, need.count, inventory, t('shop.forItems', { items: need.names.join(', ').toLowerCase() })));
+  }
+
+  return {
+    currency: catalog.currency,
+    lines,
+    total: lines.reduce((sum, line) => sum + line.cost, 0),
+    unmatched,
+  };
+};
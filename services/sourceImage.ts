@@ -0,0 +1,80 @@
+import type { SourceImage, SourceImageKind } from '../types';
+import type { GeneratedImage } from './designProvider';
+
+/**
+ * Pictures a design can be started from. They are shrunk in the browser before they are sent,
+ * so a phone photo doesn't blow the request size or the model's budget.
+ */
+
+export const SOURCE_IMAGE_KINDS: SourceImageKind[] = ['drawing', 'photo'];
+
+/** The longest side of a picture once it has been shrunk, in pixels. */
+const MAX_SOURCE_IMAGE_PX = 1024;
+/** The smallest it may be shrunk to in order to fit under MAX_SOURCE_IMAGE_URL_LENGTH. */
+const MIN_SOURCE_IMAGE_PX = 256;
+const JPEG_QUALITY = 0.85;
+
+/** The longest data URL the server takes, which leaves room for the rest of the request. */
+export const MAX_SOURCE_IMAGE_URL_LENGTH = 700_000;
+
+export const SOURCE_IMAGE_URL_PATTERN = /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+=*$/;
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("That picture couldn't be opened. Try a photo saved as JPEG or PNG."));
+    };
+    image.src = url;
+  });
+
+/**
+ * Reads a picture the user picked or took, shrinking it to at most MAX_SOURCE_IMAGE_PX on its
+ * longest side and saving it as a JPEG.
+ * @param file The picture from a file input or the camera.
+ * @param kind Whether it is a drawing or a photo of a real house.
+ * @returns The picture, ready to send and save.
+ * @throws Error if the file isn't a picture the browser can open.
+ */
+export const readSourceImage = async (file: File, kind: SourceImageKind): Promise<SourceImage> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error("That file isn't a picture. Pick a photo or a scan of your drawing.");
+  }
+  const image = await loadImage(file);
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("This browser can't read pictures.");
+
+  let longestSide = Math.min(MAX_SOURCE_IMAGE_PX, Math.max(image.naturalWidth, image.naturalHeight));
+  for (;;) {
+    const scale = longestSide / Math.max(image.naturalWidth, image.naturalHeight);
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    // A JPEG has no transparency, so a drawing with a see-through background would turn black.
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const url = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+    if (url.length <= MAX_SOURCE_IMAGE_URL_LENGTH) return { kind, url };
+    if (longestSide <= MIN_SOURCE_IMAGE_PX) throw new Error('That picture is too detailed to send. Try a smaller one.');
+    longestSide = Math.max(MIN_SOURCE_IMAGE_PX, Math.round(longestSide * 0.75));
+  }
+};
+
+/**
+ * Splits a picture's data URL into the raw bytes a model is sent.
+ * @param image The picture.
+ * @returns Its type and base64 bytes.
+ * @throws Error if the URL isn't a base64 image data URL.
+ */
+export const sourceImageBytes = (image: SourceImage): GeneratedImage => {
+  const match = /^data:(image\/[a-z]+);base64,(.*)$/.exec(image.url);
+  if (!match) throw new Error('The picture is not a data URL.');
+  return { mimeType: match[1], base64: match[2] };
+};
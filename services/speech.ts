@@ -0,0 +1,128 @@
+/**
+ * Reads text aloud with the browser's built-in speech synthesis. Only one thing is read at a
+ * time: starting something new stops whatever was being read.
+ */
+
+export interface SpeechOptions {
+  /** The language to read in, e.g. 'es-ES'. */
+  lang?: string;
+  /** The voice to read with. A voice that doesn't speak `lang` is ignored. */
+  voiceURI?: string | null;
+  /** How fast to read, 1 being normal speed. */
+  rate?: number;
+}
+
+export interface SpeakAllHandlers {
+  /** Called as each text starts being read. */
+  onStart?: (index: number) => void;
+  /** Called as each word starts being read, with where it is in its text. */
+  onWord?: (index: number, start: number, end: number) => void;
+  /** Called once, when the last text finishes or reading is stopped. */
+  onEnd?: () => void;
+}
+
+export const isSpeechSupported = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// 'es-ES' and 'es_MX' both speak 'es'.
+const languageOf = (lang: string): string => lang.split(/[-_]/)[0].toLowerCase();
+
+/**
+ * Lists the voices that speak a language, those for the exact region first. Browsers load their
+ * voices after the page, so the list may be empty at first; see `onVoicesChanged`.
+ * @param lang The language, e.g. 'fr-FR'.
+ * @returns The voices.
+ */
+export const listVoices = (lang: string): SpeechSynthesisVoice[] => {
+  if (!isSpeechSupported()) return [];
+  const exact = lang.toLowerCase().replace('_', '-');
+  return window.speechSynthesis
+    .getVoices()
+    .filter(voice => languageOf(voice.lang) === languageOf(lang))
+    .sort((a, b) => Number(b.lang.toLowerCase().replace('_', '-') === exact) - Number(a.lang.toLowerCase().replace('_', '-') === exact));
+};
+
+/**
+ * Listens for the browser's voices to load or change.
+ * @param listener Called each time they do.
+ * @returns A function that stops listening.
+ */
+export const onVoicesChanged = (listener: () => void): (() => void) => {
+  if (!isSpeechSupported()) return () => {};
+  window.speechSynthesis.addEventListener('voiceschanged', listener);
+  return () => window.speechSynthesis.removeEventListener('voiceschanged', listener);
+};
+
+const createUtterance = (text: string, { lang, voiceURI, rate }: SpeechOptions): SpeechSynthesisUtterance => {
+  const utterance = new SpeechSynthesisUtterance(text);
+  if (lang) utterance.lang = lang;
+  if (rate) utterance.rate = rate;
+  const voice = voiceURI ? window.speechSynthesis.getVoices().find(item => item.voiceURI === voiceURI) : undefined;
+  // A voice picked for another language would read this one with the wrong accent.
+  if (voice && (!lang || languageOf(voice.lang) === languageOf(lang))) {
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+  }
+  return utterance;
+};
+
+/**
+ * Finds the end of the word that starts at `start`. Not every browser says how long the word is.
+ * @param text The text being read.
+ * @param start Where the word starts.
+ * @param length The word's length, if the browser gave it.
+ * @returns Where the word ends.
+ */
+export const wordEnd = (text: string, start: number, length?: number): number => {
+  if (length) return start + length;
+  const match = /^\S+/.exec(text.slice(start));
+  return start + (match ? match[0].length : 0);
+};
+
+/**
+ * Starts reading some text aloud.
+ * @param text What to read.
+ * @param onEnd Called once reading finishes or is stopped.
+ * @param options The language, voice and speed.
+ */
+export const speak = (text: string, onEnd?: () => void, options: SpeechOptions = {}): void => {
+  speakAll([text], { onEnd }, options);
+};
+
+/**
+ * Starts reading several texts aloud, one after the other, such as the rows of a list.
+ * @param texts What to read, in order.
+ * @param handlers Called as reading moves through the texts.
+ * @param options The language, voice and speed.
+ */
+export const speakAll = (texts: string[], handlers: SpeakAllHandlers = {}, options: SpeechOptions = {}): void => {
+  if (!isSpeechSupported()) return;
+  window.speechSynthesis.cancel();
+  if (texts.length === 0) {
+    handlers.onEnd?.();
+    return;
+  }
+
+  // Stopping fires an error on the text being read and drops the rest, so the end is reported
+  // from whichever comes first.
+  let hasEnded = false;
+  const end = () => {
+    if (hasEnded) return;
+    hasEnded = true;
+    handlers.onEnd?.();
+  };
+
+  texts.forEach((text, index) => {
+    const utterance = createUtterance(text, options);
+    utterance.onstart = () => handlers.onStart?.(index);
+    utterance.onboundary = event => {
+      if (event.name === 'word') handlers.onWord?.(index, event.charIndex, wordEnd(text, event.charIndex, event.charLength));
+    };
+    utterance.onerror = end;
+    if (index === texts.length - 1) utterance.onend = end;
+    window.speechSynthesis.speak(utterance);
+  });
+};
+
+export const stopSpeaking = (): void => {
+  if (isSpeechSupported()) window.speechSynthesis.cancel();
+};
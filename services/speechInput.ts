@@ -0,0 +1,146 @@
+/**
+ * Listens with the browser's speech recognition and turns what is said into text. Listening
+ * carries on through pauses until it is stopped, so a child can think mid-sentence; the browser
+ * ends a recognition session on its own after a silence, and a new one is started in its place.
+ */
+
+// These experimental APIs are not included in the default TypeScript DOM library.
+interface SpeechRecognitionEvent extends Event {
+  readonly resultIndex: number;
+  readonly results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionResultList {
+  readonly length: number;
+  readonly [index: number]: SpeechRecognitionResult;
+  readonly item: (index: number) => SpeechRecognitionResult;
+}
+
+interface SpeechRecognitionResult {
+  readonly isFinal: boolean;
+  readonly [index: number]: SpeechRecognitionAlternative;
+}
+
+interface SpeechRecognitionAlternative {
+  readonly transcript: string;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  readonly error: string;
+}
+
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onresult: (event: SpeechRecognitionEvent) => void;
+  onerror: (event: SpeechRecognitionErrorEvent) => void;
+  onend: () => void;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: new () => SpeechRecognition;
+    webkitSpeechRecognition: new () => SpeechRecognition;
+  }
+}
+
+// Errors after which starting again would only fail again.
+const FATAL_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture', 'language-not-supported'];
+
+export const isSpeechInputSupported = (): boolean =>
+  typeof window !== 'undefined' && ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window);
+
+export interface DictationOptions {
+  /** The language to listen for, e.g. 'en-US'. */
+  lang?: string;
+  /** Called with everything heard since listening started, including words still being guessed at. */
+  onText: (text: string) => void;
+  /** Called when listening starts or stops, including when it stops on its own. */
+  onListeningChange?: (isListening: boolean) => void;
+}
+
+export interface Dictation {
+  start(): void;
+  stop(): void;
+  /** Stops listening for good and lets go of the microphone. */
+  dispose(): void;
+}
+
+/**
+ * Creates a dictation that listens until it is stopped.
+ * @param options The language and what to do with the text.
+ * @returns The dictation, or null if the browser can't recognise speech.
+ */
+export const createDictation = ({ lang = 'en-US', onText, onListeningChange }: DictationOptions): Dictation | null => {
+  if (!isSpeechInputSupported()) return null;
+
+  const Recognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+  const recognition = new Recognition();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.lang = lang;
+
+  let wanted = false;
+  // Text from sessions the browser has already ended.
+  let earlier = '';
+  let session = '';
+
+  const join = (...parts: string[]): string => parts.map(part => part.trim()).filter(Boolean).join(' ');
+
+  const setListening = (isListening: boolean) => {
+    wanted = isListening;
+    onListeningChange?.(isListening);
+  };
+
+  recognition.onresult = event => {
+    let heard = '';
+    for (let i = 0; i < event.results.length; i++) {
+      heard = join(heard, event.results[i][0].transcript);
+    }
+    session = heard;
+    onText(join(earlier, session));
+  };
+
+  recognition.onerror = event => {
+    if (FATAL_ERRORS.includes(event.error)) {
+      console.error('Speech recognition error:', event.error);
+      setListening(false);
+    }
+  };
+
+  recognition.onend = () => {
+    earlier = join(earlier, session);
+    session = '';
+    if (!wanted) return;
+    try {
+      recognition.start();
+    } catch (e) {
+      console.error('Could not keep listening', e);
+      setListening(false);
+    }
+  };
+
+  return {
+    start() {
+      if (wanted) return;
+      earlier = '';
+      session = '';
+      setListening(true);
+      recognition.start();
+    },
+    stop() {
+      if (!wanted) return;
+      setListening(false);
+      recognition.stop();
+    },
+    dispose() {
+      wanted = false;
+      recognition.onend = () => {};
+      recognition.abort();
+    },
+  };
+};
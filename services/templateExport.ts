@@ -0,0 +1,673 @@
+import type { CuttingList, HouseSpec, Material, PartEdge, PartGeometry, Point2D } from '../types';
+import { PdfDocument, textWidthMm, type PdfLineStyle, type TextAnchor } from './pdfWriter';
+import { cutoutPath, rectangleOutline } from './partOutline';
+import { assembleHouse } from './houseAssembly';
+import { buildAssemblySteps, buildStepDiagram, diagramShapeStyle, type AssemblyOptions, type StepNoteKind } from './assemblyInstructions';
+import { formatDimensions, formatLength, formatSize, MM_PER_INCH, type UnitSystem } from './units';
+import { translate, translateName, translatePartLabel, translator, type Locale, type MessageKey } from './i18n';
+
+// --- START: Drawing model ---
+
+/**
+ * 'cut' lines are cut right through, 'score' lines are folded (tabs) and 'guide' lines are
+ * printing aids such as alignment marks that are never cut.
+ */
+export type LineKind = 'cut' | 'score' | 'guide';
+
+export interface TemplatePath {
+  points: Array<[number, number]>;
+  closed: boolean;
+  kind: LineKind;
+}
+
+export interface TemplateText {
+  text: string;
+  xMm: number;
+  yMm: number;
+  sizeMm: number;
+  anchor: TextAnchor;
+}
+
+/**
+ * A full-size drawing of one physical piece, in millimetres with the origin at the top-left.
+ */
+export interface PartTemplate {
+  partId: string;
+  label: string;
+  copy: number;
+  quantity: number;
+  widthMm: number;
+  heightMm: number;
+  paths: TemplatePath[];
+  texts: TemplateText[];
+}
+
+interface Rect {
+  xMm: number;
+  yMm: number;
+  widthMm: number;
+  heightMm: number;
+}
+
+/**
+ * A filled, outlined shape, used for the build step diagrams. Drawn before the paths and texts.
+ */
+interface FilledShape {
+  points: Array<[number, number]>;
+  fill: string;
+  stroke: string;
+  widthMm: number;
+}
+
+interface DrawingGroup {
+  clip?: Rect;
+  shapes?: FilledShape[];
+  paths: TemplatePath[];
+  texts: TemplateText[];
+}
+
+export interface TemplatePage {
+  widthMm: number;
+  heightMm: number;
+  groups: DrawingGroup[];
+}
+
+export type PaperSize = 'a4' | 'letter';
+
+export const PAPER_SIZES: Record<PaperSize, { label: string; widthMm: number; heightMm: number }> = {
+  a4: { label: 'A4', widthMm: 210, heightMm: 297 },
+  letter: { label: 'US Letter', widthMm: 215.9, heightMm: 279.4 },
+};
+
+const LINE_STYLES: Record<LineKind, PdfLineStyle> = {
+  cut: { widthMm: 0.35, color: '#000000' },
+  score: { widthMm: 0.3, dashMm: [3, 2], color: '#2563eb' },
+  guide: { widthMm: 0.2, dashMm: [1, 1.5], color: '#9ca3af' },
+};
+
+// --- END: Drawing model ---
+
+// --- START: Part templates ---
+
+const TAB_DEPTH_MM = 8;
+const EPSILON = 0.01;
+
+type Vec = [number, number];
+
+const classifyEdge = (a: Point2D, b: Point2D, part: PartGeometry, maxY: number): PartEdge | null => {
+  if (Math.abs(a.yMm) < EPSILON && Math.abs(b.yMm) < EPSILON) return 'bottom';
+  if (Math.abs(a.xMm) < EPSILON && Math.abs(b.xMm) < EPSILON) return 'left';
+  if (Math.abs(a.xMm - part.widthMm) < EPSILON && Math.abs(b.xMm - part.widthMm) < EPSILON) return 'right';
+  if (Math.abs(a.yMm - maxY) < EPSILON && Math.abs(b.yMm - maxY) < EPSILON) return 'top';
+  return null;
+};
+
+/**
+ * Splits the bottom edge around doors, which are open at the bottom.
+ */
+const bottomSpans = (part: PartGeometry): Array<[Vec, Vec]> => {
+  const doors = part.cutouts
+    .filter(cutout => cutout.kind === 'door' && cutout.yMm <= EPSILON)
+    .sort((a, b) => a.xMm - b.xMm);
+  const spans: Array<[Vec, Vec]> = [];
+  let start = 0;
+  for (const door of doors) {
+    if (door.xMm > start) spans.push([[start, 0], [door.xMm, 0]]);
+    start = Math.max(start, door.xMm + door.widthMm);
+  }
+  if (start < part.widthMm) spans.push([[start, 0], [part.widthMm, 0]]);
+  return spans;
+};
+
+/**
+ * Builds the trapezoid-shaped glue tab along a straight edge, folding outward from the part.
+ * The outline runs counter-clockwise, so the outside of the part is on the right of each edge.
+ */
+const glueTab = (from: Vec, to: Vec): Vec[] | null => {
+  const dx = to[0] - from[0];
+  const dy = to[1] - from[1];
+  const length = Math.hypot(dx, dy);
+  if (length < TAB_DEPTH_MM) return null;
+  const ux = dx / length, uy = dy / length;
+  const nx = uy, ny = -ux;
+  const inset = Math.min(TAB_DEPTH_MM, length / 4);
+  return [
+    from,
+    [from[0] + nx * TAB_DEPTH_MM + ux * inset, from[1] + ny * TAB_DEPTH_MM + uy * inset],
+    [to[0] + nx * TAB_DEPTH_MM - ux * inset, to[1] + ny * TAB_DEPTH_MM - uy * inset],
+    to,
+  ];
+};
+
+/**
+ * Draws one copy of a part at full size: outline, fold lines, glue tabs, cut-outs and labels.
+ * @param material The cutting list row holding the part geometry.
+ * @param copy Which copy of the part this is, starting at 1.
+ * @param units The units the size is labelled in.
+ * @param locale The language the labels are written in.
+ * @returns The template in top-left-origin millimetre coordinates.
+ */
+const buildPartTemplate = (material: Material, part: PartGeometry, copy: number, units: UnitSystem, locale: Locale): PartTemplate => {
+  const t = translator(locale);
+  const outline = part.outline ?? rectangleOutline(part);
+  const maxY = Math.max(...outline.map(point => point.yMm));
+  const paths: TemplatePath[] = [];
+  const tabCenters: Vec[] = [];
+
+  outline.forEach((a, index) => {
+    const b = outline[(index + 1) % outline.length];
+    const edge = classifyEdge(a, b, part, maxY);
+    const spans: Array<[Vec, Vec]> = edge === 'bottom' ? bottomSpans(part) : [[[a.xMm, a.yMm], [b.xMm, b.yMm]]];
+    for (const [from, to] of spans) {
+      const tab = edge && part.glueTabs.includes(edge) ? glueTab(from, to) : null;
+      if (tab) {
+        paths.push({ points: [from, to], closed: false, kind: 'score' });
+        paths.push({ points: tab, closed: false, kind: 'cut' });
+        tabCenters.push([(tab[1][0] + tab[2][0]) / 2, (tab[1][1] + tab[2][1]) / 2]);
+      } else {
+        paths.push({ points: [from, to], closed: false, kind: 'cut' });
+      }
+    }
+  });
+
+  for (const cutout of part.cutouts) {
+    const { points, closed } = cutoutPath(cutout);
+    paths.push({ points, closed, kind: 'cut' });
+  }
+
+  // Flip to top-left origin and shift so the tabs are inside the template bounds.
+  const allPoints = paths.flatMap(path => path.points);
+  const minX = Math.min(...allPoints.map(p => p[0]));
+  const maxX = Math.max(...allPoints.map(p => p[0]));
+  const minY = Math.min(...allPoints.map(p => p[1]));
+  const top = Math.max(...allPoints.map(p => p[1]));
+  const flip = ([x, y]: Vec): Vec => [x - minX, top - y];
+
+  const center = flip([part.widthMm / 2, maxY / 2]);
+  const idSize = Math.max(4, Math.min(12, part.widthMm / 6, maxY / 5));
+  const texts: TemplateText[] = [
+    { text: part.id, xMm: center[0], yMm: center[1], sizeMm: idSize, anchor: 'middle' },
+    { text: translatePartLabel(locale, part.label), xMm: center[0], yMm: center[1] + idSize * 0.8, sizeMm: idSize * 0.4, anchor: 'middle' },
+    {
+      text: t(material.quantity > 1 ? 'template.partSizeCopy' : 'template.partSize', {
+        size: formatSize([part.widthMm, part.heightMm], units),
+        material: translateName(locale, 'material', material.name).toLowerCase(),
+        copy,
+        quantity: material.quantity,
+      }),
+      xMm: center[0], yMm: center[1] + idSize * 1.4, sizeMm: idSize * 0.3, anchor: 'middle',
+    },
+    ...tabCenters.map(point => {
+      const [x, y] = flip(point);
+      return { text: t('template.glue'), xMm: x, yMm: y + 1, sizeMm: 2.5, anchor: 'middle' as const };
+    }),
+  ];
+
+  return {
+    partId: part.id,
+    label: translatePartLabel(locale, part.label),
+    copy,
+    quantity: material.quantity,
+    widthMm: maxX - minX,
+    heightMm: top - minY,
+    paths: paths.map(path => ({ ...path, points: path.points.map(flip) })),
+    texts,
+  };
+};
+
+/**
+ * Builds a template for every physical piece in the cutting list, one per copy.
+ * @param materials The rows of the cutting list. Rows without part geometry are skipped.
+ * @param units The units the sizes are labelled in.
+ * @param locale The language the labels are written in.
+ * @returns The full-size part templates.
+ */
+export const buildPartTemplates = (materials: Material[], units: UnitSystem, locale: Locale = 'en'): PartTemplate[] =>
+  materials.flatMap(material => {
+    const part = material.part;
+    if (!part) return [];
+    return Array.from({ length: material.quantity }, (_, index) => buildPartTemplate(material, part, index + 1, units, locale));
+  });
+
+// --- END: Part templates ---
+
+// --- START: Page layout ---
+
+const PAGE_MARGIN_MM = 10;
+const HEADER_MM = 12;
+const GAP_MM = 6;
+const TILE_OVERLAP_MM = 15;
+
+/**
+ * Places a template on a page, optionally turned a quarter turn clockwise.
+ */
+const placeTemplate = (template: PartTemplate, xMm: number, yMm: number, rotated: boolean, clip?: Rect): DrawingGroup => {
+  const transform = ([x, y]: Vec): Vec => rotated ? [xMm + template.heightMm - y, yMm + x] : [xMm + x, yMm + y];
+  return {
+    clip,
+    paths: template.paths.map(path => ({ ...path, points: path.points.map(transform) })),
+    texts: template.texts.map(text => {
+      const [x, y] = transform([text.xMm, text.yMm]);
+      return { ...text, xMm: x, yMm: y };
+    }),
+  };
+};
+
+const crossMark = (x: number, y: number): TemplatePath[] => [
+  { points: [[x - 4, y], [x + 4, y]], closed: false, kind: 'guide' },
+  { points: [[x, y - 4], [x, y + 4]], closed: false, kind: 'guide' },
+];
+
+const headerGroup = (title: string): DrawingGroup => ({
+  paths: [],
+  texts: [{ text: title, xMm: PAGE_MARGIN_MM, yMm: PAGE_MARGIN_MM + 4, sizeMm: 4, anchor: 'start' }],
+});
+
+const buildCoverPage = (cuttingList: CuttingList, spec: HouseSpec | null, paper: PaperSize, units: UnitSystem, { allowCraftKnife = true, locale = 'en' }: AssemblyOptions): TemplatePage => {
+  const t = translator(locale);
+  const { widthMm, heightMm } = PAPER_SIZES[paper];
+  const left = PAGE_MARGIN_MM + 5;
+  const texts: TemplateText[] = [
+    { text: cuttingList.houseName, xMm: widthMm / 2, yMm: 30, sizeMm: 9, anchor: 'middle' },
+    { text: cuttingList.description, xMm: widthMm / 2, yMm: 40, sizeMm: 4, anchor: 'middle' },
+  ];
+  let y = 55;
+  if (spec) {
+    texts.push({
+      text: t('template.finishedSize', {
+        size: formatSize([spec.footprint.widthMm, spec.footprint.depthMm], units),
+        height: formatLength(spec.wallHeightMm, units),
+        roof: t(`roof.${spec.roof.type}`),
+      }),
+      xMm: left, yMm: y, sizeMm: 3.5, anchor: 'start',
+    });
+    y += 8;
+  }
+  // The check square is a round number on the ruler the builder will use.
+  const squareMm = units === 'imperial' ? 2 * MM_PER_INCH : 50;
+  texts.push(
+    { text: t('template.actualSize'), xMm: left, yMm: y, sizeMm: 3.5, anchor: 'start' },
+    { text: t('template.checkSquare', { length: formatLength(squareMm, units) }), xMm: left, yMm: y + 7, sizeMm: 3.5, anchor: 'start' },
+  );
+  const square: Vec = [left, y + 12];
+  const paths: TemplatePath[] = [
+    { points: [square, [square[0] + squareMm, square[1]], [square[0] + squareMm, square[1] + squareMm], [square[0], square[1] + squareMm]], closed: true, kind: 'cut' },
+  ];
+
+  // Legend for the three line styles.
+  const legendY = square[1] + 65;
+  const legend: Array<[LineKind, string]> = [
+    ['cut', t(allowCraftKnife ? 'template.legend.cutKnife' : 'template.legend.cutScissors')],
+    ['score', t('template.legend.score')],
+    ['guide', t('template.legend.guide')],
+  ];
+  legend.forEach(([kind, text], index) => {
+    const lineY = legendY + index * 8;
+    paths.push({ points: [[left, lineY - 1], [left + 15, lineY - 1]], closed: false, kind });
+    texts.push({ text, xMm: left + 20, yMm: lineY, sizeMm: 3.2, anchor: 'start' });
+  });
+
+  // Parts index.
+  let indexY = legendY + legend.length * 8 + 8;
+  texts.push({ text: t('template.partsIndex'), xMm: left, yMm: indexY, sizeMm: 4, anchor: 'start' });
+  for (const material of cuttingList.materials) {
+    if (!material.part || indexY > heightMm - PAGE_MARGIN_MM - 6) continue;
+    indexY += 6;
+    texts.push({
+      text: `${material.part.id}  ${translatePartLabel(locale, material.part.label)}  x${material.quantity}  (${formatDimensions(material.dimensions, units)}, ${translateName(locale, 'material', material.name).toLowerCase()})`,
+      xMm: left + 4, yMm: indexY, sizeMm: 3.2, anchor: 'start',
+    });
+  }
+
+  return { widthMm, heightMm, groups: [{ paths, texts }] };
+};
+
+/**
+ * Splits a template that is bigger than the printable area across several pages.
+ * Neighbouring tiles overlap, and guide lines show where to line each one up.
+ */
+const tileTemplate = (template: PartTemplate, area: Rect, paper: { widthMm: number; heightMm: number }, locale: Locale): Array<{ page: TemplatePage; title: string }> => {
+  const t = translator(locale);
+  const tilesFor = (width: number, height: number) => ({
+    cols: Math.max(1, Math.ceil((width - TILE_OVERLAP_MM) / (area.widthMm - TILE_OVERLAP_MM))),
+    rows: Math.max(1, Math.ceil((height - TILE_OVERLAP_MM) / (area.heightMm - TILE_OVERLAP_MM))),
+  });
+  const upright = tilesFor(template.widthMm, template.heightMm);
+  const turned = tilesFor(template.heightMm, template.widthMm);
+  const rotated = turned.cols * turned.rows < upright.cols * upright.rows;
+  const { cols, rows } = rotated ? turned : upright;
+  const stepX = area.widthMm - TILE_OVERLAP_MM;
+  const stepY = area.heightMm - TILE_OVERLAP_MM;
+  const tileName = (row: number, col: number) => `${String.fromCharCode(65 + row)}${col + 1}`;
+  const part = `${template.partId} ${template.label}`;
+
+  const tiles: Array<{ page: TemplatePage; title: string }> = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const group = placeTemplate(template, area.xMm - col * stepX, area.yMm - row * stepY, rotated, area);
+      const guides: DrawingGroup = {
+        paths: [
+          ...crossMark(area.xMm, area.yMm),
+          ...crossMark(area.xMm + area.widthMm, area.yMm),
+          ...crossMark(area.xMm, area.yMm + area.heightMm),
+          ...crossMark(area.xMm + area.widthMm, area.yMm + area.heightMm),
+        ],
+        texts: [],
+      };
+      if (col > 0) {
+        const x = area.xMm + TILE_OVERLAP_MM;
+        guides.paths.push({ points: [[x, area.yMm], [x, area.yMm + area.heightMm]], closed: false, kind: 'guide' });
+        guides.texts.push({ text: t('template.overlap', { tile: tileName(row, col - 1) }), xMm: x + 1, yMm: area.yMm + area.heightMm - 2, sizeMm: 2.5, anchor: 'start' });
+      }
+      if (row > 0) {
+        const y = area.yMm + TILE_OVERLAP_MM;
+        guides.paths.push({ points: [[area.xMm, y], [area.xMm + area.widthMm, y]], closed: false, kind: 'guide' });
+        guides.texts.push({ text: t('template.overlap', { tile: tileName(row - 1, col) }), xMm: area.xMm + 2, yMm: y - 1, sizeMm: 2.5, anchor: 'start' });
+      }
+      tiles.push({
+        page: { widthMm: paper.widthMm, heightMm: paper.heightMm, groups: [group, guides] },
+        title: t('template.tile', {
+          part: template.quantity > 1 ? t('template.partCopy', { part, copy: template.copy }) : part,
+          tile: tileName(row, col),
+          last: tileName(rows - 1, cols - 1),
+        }),
+      });
+    }
+  }
+  return tiles;
+};
+
+const STEP_DIAGRAM_MM = { widthMm: 55, heightMm: 45 };
+const STEP_TITLE_MM = 4.5;
+const STEP_TEXT_MM = 3.2;
+const LINE_SPACING = 1.45;
+
+const NOTE_PREFIXES: Record<StepNoteKind, MessageKey> = {
+  safety: 'template.note.safety',
+  drying: 'template.note.drying',
+  tip: 'template.note.tip',
+};
+
+/**
+ * Breaks text into lines that fit a width, at spaces.
+ */
+const wrapText = (text: string, widthMm: number, sizeMm: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidthMm(candidate, sizeMm) > widthMm) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Lays the build steps out on pages, one block per step: the diagram on the left and the
+ * instructions, parts, joins and notes beside it.
+ */
+const buildInstructionPages = (
+  cuttingList: CuttingList,
+  spec: HouseSpec,
+  area: Rect,
+  paper: { widthMm: number; heightMm: number },
+  options: AssemblyOptions
+): TemplatePage[] => {
+  const { locale = 'en' } = options;
+  const t = translator(locale);
+  const assembly = assembleHouse(spec, cuttingList.materials);
+  const steps = buildAssemblySteps(spec, cuttingList.materials, options);
+  const textX = area.xMm + STEP_DIAGRAM_MM.widthMm + GAP_MM;
+  const textWidth = area.xMm + area.widthMm - textX;
+  const lineHeight = STEP_TEXT_MM * LINE_SPACING;
+
+  const pages: TemplatePage[] = [];
+  let page: TemplatePage | null = null;
+  let cursorY = 0;
+
+  steps.forEach((step, index) => {
+    const lines = [
+      ...wrapText(step.instruction, textWidth, STEP_TEXT_MM),
+      ...(step.parts.length > 0
+        ? wrapText(t('template.stepParts', {
+          parts: step.parts.map(part => `${part.id} ${translatePartLabel(locale, part.label)}${part.count > 1 ? ` x${part.count}` : ''}`).join(', '),
+        }), textWidth, STEP_TEXT_MM)
+        : []),
+      ...step.joins.flatMap(join => wrapText(`- ${join}`, textWidth, STEP_TEXT_MM)),
+      ...step.notes.flatMap(note => wrapText(t(NOTE_PREFIXES[note.kind], { text: note.text }), textWidth, STEP_TEXT_MM)),
+    ];
+    const diagram = buildStepDiagram(assembly, steps, index);
+    const titleHeight = STEP_TITLE_MM * LINE_SPACING;
+    const blockHeight = titleHeight + Math.max(lines.length * lineHeight, diagram ? STEP_DIAGRAM_MM.heightMm : 0);
+
+    if (!page || cursorY + blockHeight > area.heightMm) {
+      page = { widthMm: paper.widthMm, heightMm: paper.heightMm, groups: [] };
+      pages.push(page);
+      cursorY = 0;
+    }
+    const top = area.yMm + cursorY;
+    const texts: TemplateText[] = [
+      { text: t('guide.step', { number: index + 1, total: steps.length, title: step.title }), xMm: area.xMm, yMm: top + STEP_TITLE_MM, sizeMm: STEP_TITLE_MM, anchor: 'start' },
+      ...lines.map((line, lineIndex) => ({
+        text: line, xMm: diagram ? textX : area.xMm, yMm: top + titleHeight + (lineIndex + 1) * lineHeight - 1, sizeMm: STEP_TEXT_MM, anchor: 'start' as const,
+      })),
+    ];
+
+    const shapes: FilledShape[] = [];
+    if (diagram) {
+      const scale = Math.min(STEP_DIAGRAM_MM.widthMm / diagram.widthMm, STEP_DIAGRAM_MM.heightMm / diagram.heightMm);
+      const offsetX = area.xMm + (STEP_DIAGRAM_MM.widthMm - diagram.widthMm * scale) / 2;
+      const offsetY = top + titleHeight + (STEP_DIAGRAM_MM.heightMm - diagram.heightMm * scale) / 2;
+      for (const shape of diagram.shapes) {
+        const style = diagramShapeStyle(shape);
+        shapes.push({
+          points: shape.points.map(([x, y]) => [offsetX + x * scale, offsetY + y * scale]),
+          fill: style.fill,
+          stroke: style.stroke,
+          // The on-screen widths are for a full-size drawing; the printed one is much smaller.
+          widthMm: style.widthMm * 0.15,
+        });
+      }
+    }
+    page.groups.push({ shapes, paths: [], texts });
+    cursorY += blockHeight + GAP_MM;
+  });
+
+  return pages;
+};
+
+/**
+ * Lays every part template out on printable pages, preceded by a cover page.
+ * Parts that fit are packed several to a page; bigger ones are tiled with alignment marks.
+ * When the house model is known, the build steps follow the parts.
+ * @param cuttingList The cutting list with structured part geometry.
+ * @param spec The house model, used for the overall sizes on the cover page and the build steps.
+ * @param paper The paper size to print on.
+ * @param units The units sizes are written in.
+ * @param options Whether the build steps may use a craft knife, and the language to write in.
+ * @returns The pages, in print order.
+ */
+export const layoutTemplatePages = (
+  cuttingList: CuttingList,
+  spec: HouseSpec | null,
+  paper: PaperSize,
+  units: UnitSystem,
+  options: AssemblyOptions = {}
+): TemplatePage[] => {
+  const size = PAPER_SIZES[paper];
+  const area: Rect = {
+    xMm: PAGE_MARGIN_MM,
+    yMm: PAGE_MARGIN_MM + HEADER_MM,
+    widthMm: size.widthMm - 2 * PAGE_MARGIN_MM,
+    heightMm: size.heightMm - 2 * PAGE_MARGIN_MM - HEADER_MM,
+  };
+  const { locale = 'en' } = options;
+  const t = translator(locale);
+  const templates = buildPartTemplates(cuttingList.materials, units, locale);
+  const fits = (w: number, h: number) => w <= area.widthMm && h <= area.heightMm;
+
+  const pages: Array<{ page: TemplatePage; title: string }> = [];
+  const oversized: PartTemplate[] = [];
+
+  // Shelf packing: fill rows left to right, tallest parts first.
+  let current: { page: TemplatePage; title: string } | null = null;
+  let cursorX = 0, cursorY = 0, shelfHeight = 0;
+  const sorted = [...templates].sort((a, b) => Math.max(b.heightMm, b.widthMm) - Math.max(a.heightMm, a.widthMm));
+
+  for (const template of sorted) {
+    const rotated = !fits(template.widthMm, template.heightMm) && fits(template.heightMm, template.widthMm);
+    if (!rotated && !fits(template.widthMm, template.heightMm)) {
+      oversized.push(template);
+      continue;
+    }
+    const width = rotated ? template.heightMm : template.widthMm;
+    const height = rotated ? template.widthMm : template.heightMm;
+
+    if (current && cursorX + width > area.widthMm) {
+      cursorX = 0;
+      cursorY += shelfHeight + GAP_MM;
+      shelfHeight = 0;
+    }
+    if (!current || cursorY + height > area.heightMm) {
+      current = { page: { widthMm: size.widthMm, heightMm: size.heightMm, groups: [] }, title: t('template.page.parts') };
+      pages.push(current);
+      cursorX = 0;
+      cursorY = 0;
+      shelfHeight = 0;
+    }
+    current.page.groups.push(placeTemplate(template, area.xMm + cursorX, area.yMm + cursorY, rotated));
+    cursorX += width + GAP_MM;
+    shelfHeight = Math.max(shelfHeight, height);
+  }
+
+  for (const template of oversized) {
+    pages.push(...tileTemplate(template, area, size, locale));
+  }
+
+  const instructions = spec ? buildInstructionPages(cuttingList, spec, area, size, options).map(page => ({ page, title: t('template.page.steps') })) : [];
+  const all = [{ page: buildCoverPage(cuttingList, spec, paper, units, options), title: t('template.page.cover') }, ...pages, ...instructions];
+  return all.map(({ page, title }, index) => ({
+    ...page,
+    groups: [...page.groups, headerGroup(t('template.header', { name: cuttingList.houseName, title, page: index + 1, pages: all.length }))],
+  }));
+};
+
+// --- END: Page layout ---
+
+// --- START: Renderers ---
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const SVG_STROKES: Record<LineKind, string> = {
+  cut: 'stroke="#000000" stroke-width="0.35"',
+  score: 'stroke="#2563eb" stroke-width="0.3" stroke-dasharray="3 2"',
+  guide: 'stroke="#9ca3af" stroke-width="0.2" stroke-dasharray="1 1.5"',
+};
+
+const renderGroupSvg = (group: DrawingGroup, clipId?: string): string => {
+  const shapes = (group.shapes ?? []).map(shape => {
+    const points = shape.points.map(([x, y]) => `${Math.round(x * 100) / 100},${Math.round(y * 100) / 100}`).join(' ');
+    return `<polygon points="${points}" fill="${shape.fill}" stroke="${shape.stroke}" stroke-width="${shape.widthMm}"/>`;
+  });
+  const paths = group.paths.map(path => {
+    const tag = path.closed ? 'polygon' : 'polyline';
+    const points = path.points.map(([x, y]) => `${Math.round(x * 100) / 100},${Math.round(y * 100) / 100}`).join(' ');
+    return `<${tag} points="${points}" fill="none" ${SVG_STROKES[path.kind]}/>`;
+  });
+  const anchors: Record<TextAnchor, string> = { start: 'start', middle: 'middle', end: 'end' };
+  const texts = group.texts.map(text =>
+    `<text x="${Math.round(text.xMm * 100) / 100}" y="${Math.round(text.yMm * 100) / 100}" font-size="${text.sizeMm}" font-family="Helvetica, Arial, sans-serif" text-anchor="${anchors[text.anchor]}">${escapeXml(text.text)}</text>`
+  );
+  const content = [...shapes, ...paths, ...texts].join('\n');
+  return clipId ? `<g clip-path="url(#${clipId})">\n${content}\n</g>` : content;
+};
+
+/**
+ * Renders every part on a single, untiled, true-scale SVG sheet (1 user unit = 1 mm),
+ * suitable for large-format printers and cutting machines.
+ * @param cuttingList The cutting list with structured part geometry.
+ * @param units The units the part sizes are labelled in. The drawing itself is always in millimetres.
+ * @param locale The language the labels are written in.
+ * @returns The SVG document as a string.
+ */
+export const createTemplateSvg = (cuttingList: CuttingList, units: UnitSystem, locale: Locale = 'en'): string => {
+  const templates = buildPartTemplates(cuttingList.materials, units, locale);
+  const sheetWidth = Math.max(600, ...templates.map(template => template.widthMm + 2 * PAGE_MARGIN_MM));
+  const groups: DrawingGroup[] = [];
+  let cursorX = PAGE_MARGIN_MM, cursorY = PAGE_MARGIN_MM + HEADER_MM, shelfHeight = 0;
+
+  for (const template of templates) {
+    if (cursorX + template.widthMm > sheetWidth - PAGE_MARGIN_MM) {
+      cursorX = PAGE_MARGIN_MM;
+      cursorY += shelfHeight + GAP_MM;
+      shelfHeight = 0;
+    }
+    groups.push(placeTemplate(template, cursorX, cursorY, false));
+    cursorX += template.widthMm + GAP_MM;
+    shelfHeight = Math.max(shelfHeight, template.heightMm);
+  }
+  const sheetHeight = cursorY + shelfHeight + PAGE_MARGIN_MM;
+  groups.push(headerGroup(translate(locale, 'template.svgHeader', { name: cuttingList.houseName })));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${sheetWidth}mm" height="${sheetHeight}mm" viewBox="0 0 ${sheetWidth} ${sheetHeight}">
+${groups.map(group => renderGroupSvg(group)).join('\n')}
+</svg>
+`;
+};
+
+/**
+ * Renders the laid-out pages as a multi-page PDF.
+ * @param pages The pages from layoutTemplatePages.
+ * @returns The PDF file contents.
+ */
+export const renderTemplatePdf = (pages: TemplatePage[]): Uint8Array => {
+  const pdf = new PdfDocument();
+  for (const templatePage of pages) {
+    const page = pdf.addPage(templatePage.widthMm, templatePage.heightMm);
+    for (const group of templatePage.groups) {
+      const draw = () => {
+        for (const shape of group.shapes ?? []) {
+          page.polygon(shape.points, shape.fill, { widthMm: shape.widthMm, color: shape.stroke });
+        }
+        for (const path of group.paths) {
+          page.polyline(path.points, path.closed, LINE_STYLES[path.kind]);
+        }
+        for (const text of group.texts) {
+          page.text(text.text, text.xMm, text.yMm, text.sizeMm, text.anchor);
+        }
+      };
+      if (group.clip) {
+        page.clip(group.clip.xMm, group.clip.yMm, group.clip.widthMm, group.clip.heightMm, draw);
+      } else {
+        draw();
+      }
+    }
+  }
+  return pdf.toBytes();
+};
+
+/**
+ * Builds the printable, multi-page PDF of every part, tiled to the chosen paper size.
+ * @param cuttingList The cutting list with structured part geometry.
+ * @param spec The house model.
+ * @param paper The paper size to print on.
+ * @param units The units sizes are written in.
+ * @param options Whether the build steps may use a craft knife, and the language to write in.
+ * @returns The PDF file contents.
+ */
+export const createTemplatePdf = (
+  cuttingList: CuttingList,
+  spec: HouseSpec | null,
+  paper: PaperSize,
+  units: UnitSystem,
+  options: AssemblyOptions = {}
+): Uint8Array => renderTemplatePdf(layoutTemplatePages(cuttingList, spec, paper, units, options));
+
+// --- END: Renderers ---
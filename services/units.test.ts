@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { formatDimensions, formatLength, formatRange, formatSize, parseDimensions, toFractionalInches } from './units';
+
+describe('parseDimensions', () => {
+  it('applies a unit written once to every number before it', () => {
+    expect(parseDimensions('120 x 80 x 3 mm')).toEqual({ valuesMm: [120, 80, 3], unit: 'mm' });
+    expect(parseDimensions('12 by 8 cm')).toEqual({ valuesMm: [120, 80], unit: 'cm' });
+  });
+
+  it('reads inches, fractions and feet', () => {
+    expect(parseDimensions('4 1/2" x 2"')?.valuesMm).toEqual([114.3, 50.8]);
+    expect(parseDimensions('½ in')?.valuesMm).toEqual([12.7]);
+    expect(parseDimensions("1' 2\"")?.valuesMm[0]).toBeCloseTo(355.6);
+  });
+
+  it('reads decimal commas and words', () => {
+    expect(parseDimensions('4,5 centimetres')?.valuesMm).toEqual([45]);
+    expect(parseDimensions('about 10 cm long')?.valuesMm).toEqual([100]);
+  });
+
+  it('refuses numbers without a unit', () => {
+    expect(parseDimensions('1 bottle')).toBeNull();
+    expect(parseDimensions('2 cm x 10 pieces')).toBeNull();
+    expect(parseDimensions('')).toBeNull();
+  });
+});
+
+describe('toFractionalInches', () => {
+  it('rounds to a step that suits the size', () => {
+    expect(toFractionalInches(4.72)).toBe('4 3/4');
+    expect(toFractionalInches(0.3)).toBe('5/16');
+    expect(toFractionalInches(7.1)).toBe('7');
+    expect(toFractionalInches(2)).toBe('2');
+  });
+
+  it('never rounds something real down to nothing', () => {
+    expect(toFractionalInches(0.001)).toBe('1/16');
+    expect(toFractionalInches(0)).toBe('0');
+  });
+});
+
+describe('formatting', () => {
+  it('writes lengths and sizes in either system', () => {
+    expect(formatLength(120, 'metric')).toBe('120 mm');
+    expect(formatLength(120.04, 'metric')).toBe('120 mm');
+    expect(formatLength(120, 'imperial')).toBe('4 3/4 in');
+    expect(formatSize([120, 80], 'metric')).toBe('120 x 80 mm');
+    expect(formatSize([120, 80], 'imperial')).toBe('4 3/4 x 3 1/8 in');
+  });
+
+  it('writes a range in the language asked for', () => {
+    expect(formatRange(60, 120, 'metric')).toBe('60 to 120 mm');
+    expect(formatRange(60, 120, 'metric', 'es')).toBe('60 a 120 mm');
+    expect(formatRange(60, 120, 'metric', 'fr')).toBe('60 à 120 mm');
+  });
+
+  it('rewrites a cutting list size, or leaves it if it is not one', () => {
+    expect(formatDimensions('12 x 8 cm', 'metric')).toBe('120 x 80 mm');
+    expect(formatDimensions('12 x 8 cm', 'imperial')).toBe('4 3/4 x 3 1/8 in');
+    expect(formatDimensions('1 bottle', 'imperial')).toBe('1 bottle');
+  });
+});
@@ -0,0 +1,193 @@
+import { loadSetting, saveSetting } from './settingsStore';
+import { translate, type Locale } from './i18n';
+
+/**
+ * Lengths for people: everything is stored and computed in millimetres, and shown in the
+ * family's own units. Inches are written as fractions a child can find on a ruler, e.g.
+ * "4 3/4 in", never "4.72 in".
+ */
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export const UNIT_SYSTEMS: Record<UnitSystem, { shortLabel: string }> = {
+  metric: { shortLabel: 'mm' },
+  imperial: { shortLabel: 'in' },
+};
+
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+const MM_PER_UNIT: Record<LengthUnit, number> = { mm: 1, cm: 10, m: 1000, in: 25.4, ft: 304.8 };
+
+export const MM_PER_INCH = MM_PER_UNIT.in;
+
+// --- START: Parsing ---
+
+/**
+ * A dimensions string read into numbers, e.g. "12 x 8 cm" is 120 by 80 millimetres.
+ */
+export interface ParsedDimensions {
+  /** Each measurement, in the order written, converted to millimetres. */
+  valuesMm: number[];
+  /** The unit the string was written in; the last one when it mixes units. */
+  unit: LengthUnit;
+}
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4',
+  '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+
+const UNIT_WORDS: Array<[RegExp, LengthUnit]> = [
+  [/^(mm|millimet(er|re)s?)$/, 'mm'],
+  [/^(cm|centimet(er|re)s?)$/, 'cm'],
+  [/^(m|met(er|re)s?)$/, 'm'],
+  [/^("|''|in|ins|inch|inches)$/, 'in'],
+  [/^('|ft|foot|feet)$/, 'ft'],
+];
+
+// A number ("4", "4.5", "4,5"), a mixed number ("4 1/2") or a fraction ("1/2"), then maybe a unit.
+const NUMBER = String.raw`(\d+\/\d+|\d+(?:[.,]\d+)?(?:\s+\d+\/\d+)?)`;
+const UNIT = String.raw`(millimet(?:er|re)s?|centimet(?:er|re)s?|met(?:er|re)s?|inch(?:es)?|ins?|feet|foot|ft|mm|cm|m|''|"|')?`;
+const LENGTH = new RegExp(String.raw`${NUMBER}\s*${UNIT}(?![a-z])`, 'g');
+
+const toUnit = (word: string | undefined): LengthUnit | null =>
+  word ? UNIT_WORDS.find(([pattern]) => pattern.test(word))?.[1] ?? null : null;
+
+const toNumber = (text: string): number =>
+  text.split(/\s+/).reduce((sum, piece) => {
+    const [top, bottom] = piece.split('/');
+    return sum + (bottom ? Number(top) / Number(bottom) : Number(top.replace(',', '.')));
+  }, 0);
+
+/**
+ * Reads a dimensions string in whatever units it was written, e.g. "12 x 8 cm", "4 1/2" x 3"",
+ * "120 x 80 x 3 mm", "1 ft 2 in" or "about 10 cm long". A unit written once at the end applies
+ * to every number before it.
+ * @param text The dimensions, as written in a cutting list row.
+ * @returns The measurements in millimetres, or null if a number has no unit (e.g. "1 bottle"),
+ *   since a bare number can't be converted safely.
+ */
+export const parseDimensions = (text: string): ParsedDimensions | null => {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[½⅓⅔¼¾⅛⅜⅝⅞]/g, fraction => ` ${UNICODE_FRACTIONS[fraction]}`)
+    .replace(/[″“”]/g, '"')
+    .replace(/[′‘’]/g, "'");
+  // "x", "×", "*" and "by" separate the measurements; a letter x inside a word doesn't.
+  const segments = normalized.split(/\s*(?:[x×*]|\bby\b)\s*(?=\d)/);
+
+  const values: Array<{ value: number; unit: LengthUnit | null }> = [];
+  for (const segment of segments) {
+    // Feet and inches written together, e.g. 1' 2", make one measurement.
+    let lengthMm: number | null = null;
+    let unit: LengthUnit | null = null;
+    for (const match of segment.matchAll(LENGTH)) {
+      const matchUnit = toUnit(match[2]);
+      if (lengthMm !== null && !(unit === 'ft' && matchUnit === 'in')) break;
+      lengthMm = (lengthMm ?? 0) + toNumber(match[1].trim()) * (matchUnit ? MM_PER_UNIT[matchUnit] : 1);
+      unit = matchUnit ?? unit;
+    }
+    if (lengthMm !== null) values.push({ value: lengthMm, unit });
+  }
+
+  // Bare numbers take the next unit written after them, as in "12 x 8 cm". One with no unit
+  // after it, as in "2 cm x 10 pieces", isn't a length.
+  const unitsAfter = values.map((_, index) => values.slice(index).find(later => later.unit)?.unit ?? null);
+  if (values.length === 0 || unitsAfter.some(unit => !unit)) return null;
+  return {
+    valuesMm: values.map((value, index) => (value.unit ? value.value : value.value * MM_PER_UNIT[unitsAfter[index]!])),
+    unit: unitsAfter[values.length - 1]!,
+  };
+};
+
+// --- END: Parsing ---
+
+// --- START: Formatting ---
+
+/**
+ * Rounds to a fraction of an inch small enough to matter at that size and big enough to find
+ * on a ruler: sixteenths under half an inch, eighths up to six inches, then quarters.
+ */
+const inchStep = (inches: number): number => (inches < 0.5 ? 16 : inches < 6 ? 8 : 4);
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * Writes inches as a whole number and a fraction, e.g. 4.72 becomes "4 3/4".
+ * @param inches The length in inches.
+ * @returns The rounded length, without the unit.
+ */
+export const toFractionalInches = (inches: number): string => {
+  const step = inchStep(Math.abs(inches));
+  // Anything real is at least the smallest step, so a thin sheet never reads as 0.
+  const steps = Math.max(inches > 0 ? 1 : 0, Math.round(inches * step));
+  const whole = Math.floor(steps / step);
+  const rest = steps % step;
+  if (rest === 0) return String(whole);
+  const divisor = gcd(rest, step);
+  const fraction = `${rest / divisor}/${step / divisor}`;
+  return whole > 0 ? `${whole} ${fraction}` : fraction;
+};
+
+const formatNumber = (mm: number, units: UnitSystem): string =>
+  units === 'imperial' ? toFractionalInches(mm / MM_PER_INCH) : String(Math.round(mm * 10) / 10);
+
+/**
+ * Writes one length in the chosen units.
+ * @param mm The length in millimetres.
+ * @param units The units to show it in.
+ * @returns E.g. "120 mm" or "4 3/4 in".
+ */
+export const formatLength = (mm: number, units: UnitSystem): string =>
+  `${formatNumber(mm, units)} ${UNIT_SYSTEMS[units].shortLabel}`;
+
+/**
+ * Writes several lengths as one size, with the unit once at the end.
+ * @param valuesMm The lengths in millimetres, e.g. width and height.
+ * @param units The units to show them in.
+ * @returns E.g. "120 x 80 mm" or "4 3/4 x 3 1/8 in".
+ */
+export const formatSize = (valuesMm: number[], units: UnitSystem): string =>
+  `${valuesMm.map(mm => formatNumber(mm, units)).join(' x ')} ${UNIT_SYSTEMS[units].shortLabel}`;
+
+/**
+ * Writes a range of lengths, with the unit once at the end.
+ * @param minMm The shortest length, in millimetres.
+ * @param maxMm The longest length, in millimetres.
+ * @param units The units to show them in.
+ * @param locale The language to write the range in.
+ * @returns E.g. "60 to 120 mm" or "2 3/8 to 4 3/4 in".
+ */
+export const formatRange = (minMm: number, maxMm: number, units: UnitSystem, locale: Locale = 'en'): string =>
+  translate(locale, 'units.range', { min: formatNumber(minMm, units), max: formatNumber(maxMm, units), unit: UNIT_SYSTEMS[units].shortLabel });
+
+/**
+ * Rewrites a dimensions string from a cutting list row in the chosen units.
+ * @param text The dimensions as written, in any units.
+ * @param units The units to show them in.
+ * @returns The converted size, or the text unchanged if it can't be read (e.g. "1 bottle").
+ */
+export const formatDimensions = (text: string, units: UnitSystem): string => {
+  const parsed = parseDimensions(text);
+  return parsed ? formatSize(parsed.valuesMm, units) : text;
+};
+
+// --- END: Formatting ---
+
+const UNITS_KEY = 'unitSystem';
+
+/**
+ * Loads the units chosen last time. Without a choice, browsers set to the US get inches.
+ * @returns The units to show measurements in.
+ */
+export const loadUnitSystem = async (): Promise<UnitSystem> => {
+  try {
+    const saved = await loadSetting<UnitSystem>(UNITS_KEY);
+    if (saved === 'metric' || saved === 'imperial') return saved;
+  } catch (e) {
+    console.warn('Could not load the units', e);
+  }
+  return typeof navigator !== 'undefined' && /-(US|LR|MM)$/i.test(navigator.language) ? 'imperial' : 'metric';
+};
+
+export const saveUnitSystem = (units: UnitSystem): Promise<void> => saveSetting(UNITS_KEY, units);
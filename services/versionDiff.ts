@@ -0,0 +1,147 @@
+import type { Material, PartCutout } from '../types';
+import { formatDimensions, formatSize, type UnitSystem } from './units';
+import { translateName, translator, type Locale } from './i18n';
+
+export type DiffStatus = 'same' | 'added' | 'removed' | 'changed';
+
+export interface TextDiffSegment {
+  status: Exclude<DiffStatus, 'changed'>;
+  text: string;
+}
+
+export interface MaterialDiffRow {
+  /** The part label (or material name for rows without geometry), used to match rows up. */
+  key: string;
+  status: DiffStatus;
+  before: Material | null;
+  after: Material | null;
+  /** How many more (positive) or fewer (negative) pieces the newer version needs. */
+  quantityDelta: number;
+  /** Short, readable notes on what changed, e.g. "size 160 x 100 → 180 x 100 mm". */
+  changes: string[];
+}
+
+/**
+ * Compares two texts word by word using a longest-common-subsequence table.
+ * Whitespace is kept with the word before it so the segments join back into the original text.
+ * @param before The older text.
+ * @param after The newer text.
+ * @returns The texts as runs of unchanged, removed and added words, in reading order, with
+ *   removed words placed before the words that replace them.
+ */
+export const diffText = (before: string, after: string): TextDiffSegment[] => {
+  const a = before.match(/\S+\s*/g) ?? [];
+  const b = after.match(/\S+\s*/g) ?? [];
+  const same = (x: string, y: string) => x.trim() === y.trim();
+
+  // lcs[i][j] is the length of the longest common subsequence of a[i..] and b[j..].
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(a[i], b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (status: TextDiffSegment['status'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.status === status) {
+      last.text += text;
+    } else {
+      segments.push({ status, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(a[i], b[j])) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  return segments;
+};
+
+const materialKey = (material: Material): string => material.part?.label ?? material.name;
+
+const sizeOf = (material: Material, units: UnitSystem): string =>
+  material.part ? formatSize([material.part.widthMm, material.part.heightMm], units) : formatDimensions(material.dimensions, units);
+
+const describeCutouts = (cutouts: PartCutout[] | undefined): string =>
+  (cutouts ?? []).map(c => `${c.shape} ${c.kind} ${c.widthMm}x${c.heightMm}@${c.xMm},${c.yMm}`).sort().join('; ');
+
+const cutoutCount = (cutouts: PartCutout[] | undefined, kind: PartCutout['kind']): number =>
+  (cutouts ?? []).filter(c => c.kind === kind).length;
+
+/**
+ * Lists what changed on a part between two versions, in words a child can follow.
+ */
+const describeChanges = (before: Material, after: Material, units: UnitSystem, locale: Locale): string[] => {
+  const t = translator(locale);
+  const changes: string[] = [];
+  if (before.name !== after.name) {
+    changes.push(t('diff.material', { before: translateName(locale, 'material', before.name), after: translateName(locale, 'material', after.name) }));
+  }
+  // Compared in millimetres, so a change smaller than the inch rounding still shows.
+  if (sizeOf(before, 'metric') !== sizeOf(after, 'metric')) {
+    changes.push(t('diff.size', { before: sizeOf(before, units), after: sizeOf(after, units) }));
+  }
+  if (before.quantity !== after.quantity) {
+    changes.push(t('diff.quantity', { before: before.quantity, after: after.quantity }));
+  }
+  if (describeCutouts(before.part?.cutouts) !== describeCutouts(after.part?.cutouts)) {
+    const doors = cutoutCount(after.part?.cutouts, 'door') - cutoutCount(before.part?.cutouts, 'door');
+    const windows = cutoutCount(after.part?.cutouts, 'window') - cutoutCount(before.part?.cutouts, 'window');
+    const counted = [
+      doors && t(Math.abs(doors) === 1 ? 'diff.door' : 'diff.doors', { count: `${doors > 0 ? '+' : ''}${doors}` }),
+      windows && t(Math.abs(windows) === 1 ? 'diff.window' : 'diff.windows', { count: `${windows > 0 ? '+' : ''}${windows}` }),
+    ].filter(Boolean);
+    changes.push(counted.length ? counted.join(', ') : t('diff.moved'));
+  }
+  return changes;
+};
+
+/**
+ * Lines up the cutting lists of two versions part by part. Part numbers are not stable between
+ * versions (a hip roof has more panels than a gable roof), so rows are matched by label.
+ * @param before The materials of the older version.
+ * @param after The materials of the newer version.
+ * @param units The units sizes are described in.
+ * @param locale The language the changes are described in.
+ * @returns One row per part, in the order of the newer list with removed parts at the end.
+ */
+export const diffMaterials = (before: Material[], after: Material[], units: UnitSystem, locale: Locale = 'en'): MaterialDiffRow[] => {
+  const beforeByKey = new Map(before.map(material => [materialKey(material), material]));
+  const afterKeys = new Set(after.map(materialKey));
+
+  const rows: MaterialDiffRow[] = after.map(material => {
+    const key = materialKey(material);
+    const old = beforeByKey.get(key) ?? null;
+    if (!old) {
+      return { key, status: 'added', before: null, after: material, quantityDelta: material.quantity, changes: [] };
+    }
+    const changes = describeChanges(old, material, units, locale);
+    return {
+      key,
+      status: changes.length ? 'changed' : 'same',
+      before: old,
+      after: material,
+      quantityDelta: material.quantity - old.quantity,
+      changes,
+    };
+  });
+
+  for (const material of before) {
+    const key = materialKey(material);
+    if (!afterKeys.has(key)) {
+      rows.push({ key, status: 'removed', before: material, after: null, quantityDelta: -material.quantity, changes: [] });
+    }
+  }
+  return rows;
+};
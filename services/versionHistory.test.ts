@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { DesignResult, VersionHistory } from '../types';
+import {
+  addVersion,
+  canRedo,
+  canUndo,
+  discardVersion,
+  EMPTY_HISTORY,
+  getChildVersions,
+  getCurrentVersion,
+  jumpToVersion,
+  redo,
+  startHistory,
+  summarizeVersion,
+  undo,
+  updateVersion,
+} from './versionHistory';
+
+const result = (detailedDescription: string): DesignResult => ({
+  imageViews: null,
+  sketchUrl: null,
+  cuttingList: null,
+  detailedDescription,
+  houseSpec: null,
+});
+
+/** v1, edited into v2, edited into v3. */
+const chain = (): VersionHistory => {
+  const first = startHistory(result('first'));
+  const second = addVersion(first, result('second'), [{ type: 'addStorey' }]);
+  return addVersion(second, result('third'), [{ type: 'roofMaterial', material: 'felt' }]);
+};
+
+describe('addVersion', () => {
+  it('adds a child of the current version and makes it current', () => {
+    const history = chain();
+    expect(history.versions.map(version => [version.id, version.parentId])).toEqual([['v1', null], ['v2', 'v1'], ['v3', 'v2']]);
+    expect(getCurrentVersion(history)?.detailedDescription).toBe('third');
+  });
+
+  it('branches when an older version is edited, keeping the newer ones', () => {
+    const history = addVersion(jumpToVersion(chain(), 'v1'), result('branch'), [{ type: 'addStorey' }]);
+    expect(history.versions).toHaveLength(4);
+    expect(getChildVersions(history, 'v1').map(version => version.id)).toEqual(['v2', 'v4']);
+  });
+
+  it('keeps counting past versions discarded along the way', () => {
+    const history = discardVersion(chain(), 'v2', 'v3');
+    expect(addVersion(history, result('next'), []).currentId).toBe('v4');
+  });
+
+  it('leaves the history it is given untouched', () => {
+    const history = chain();
+    const copy = structuredClone(history);
+    addVersion(history, result('more'), []);
+    undo(history);
+    updateVersion(history, 'v1', { sketchUrl: 'data:,' });
+    expect(history).toEqual(copy);
+  });
+});
+
+describe('undo and redo', () => {
+  it('walks back up the branch and down it again', () => {
+    let history = chain();
+    expect(canUndo(history)).toBe(true);
+    history = undo(undo(history));
+    expect(history.currentId).toBe('v1');
+    expect(canUndo(history)).toBe(false);
+    expect(undo(history)).toBe(history);
+
+    history = redo(history);
+    expect(history.currentId).toBe('v2');
+    history = redo(history);
+    expect(history.currentId).toBe('v3');
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('forgets the redo trail after a new edit or a jump', () => {
+    const undone = undo(chain());
+    expect(canRedo(addVersion(undone, result('other'), []))).toBe(false);
+    expect(canRedo(jumpToVersion(undone, 'v1'))).toBe(false);
+  });
+
+  it('ignores a jump to a version that is not there', () => {
+    const history = chain();
+    expect(jumpToVersion(history, 'v9')).toBe(history);
+  });
+});
+
+describe('updateVersion', () => {
+  it('replaces assets of one version in place', () => {
+    const history = updateVersion(chain(), 'v2', { sketchUrl: 'data:,' });
+    expect(history.versions.map(version => version.sketchUrl)).toEqual([null, 'data:,', null]);
+    expect(history.currentId).toBe('v3');
+  });
+});
+
+describe('discardVersion', () => {
+  it('re-attaches the discarded version’s children to its parent', () => {
+    const history = discardVersion(chain(), 'v2', 'v1');
+    expect(history.versions.map(version => [version.id, version.parentId])).toEqual([['v1', null], ['v3', 'v1']]);
+    expect(history.currentId).toBe('v1');
+  });
+
+  it('refuses to discard the version it is asked to keep, or an unknown one', () => {
+    const history = chain();
+    expect(discardVersion(history, 'v2', 'v2')).toBe(history);
+    expect(discardVersion(history, 'v9', 'v1')).toBe(history);
+    expect(discardVersion(history, 'v2', 'v9')).toBe(history);
+  });
+});
+
+describe('summarizeVersion', () => {
+  it('describes the original and the edits behind a version', () => {
+    const history = chain();
+    expect(summarizeVersion(history.versions[0], history)).toBe('Original design');
+    expect(summarizeVersion(history.versions[0], history, 'metric', 'es')).not.toBe('Original design');
+    expect(summarizeVersion(history.versions[2], history)).toContain('felt');
+  });
+
+  it('starts from an empty history', () => {
+    expect(getCurrentVersion(EMPTY_HISTORY)).toBeNull();
+  });
+});
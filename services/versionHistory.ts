@@ -0,0 +1,166 @@
+import type { ChatMessage, DesignResult, DesignVersion, EditOperation, VersionHistory } from '../types';
+import { describeEdits } from './designEdits';
+import type { UnitSystem } from './units';
+import { translate, type Locale } from './i18n';
+
+/**
+ * Pure helpers for a design's version tree. Every generation and every edit becomes a version;
+ * editing an older version starts a new branch instead of throwing the newer versions away.
+ * None of these functions change the history they are given.
+ */
+
+export const EMPTY_HISTORY: VersionHistory = { versions: [], currentId: null, redoIds: [] };
+
+// Numbers keep counting up even after a version is discarded, so an id is never reused.
+const nextVersionId = (history: VersionHistory): string =>
+  `v${history.versions.reduce((max, version) => Math.max(max, Number(version.id.slice(1)) || 0), 0) + 1}`;
+
+/**
+ * Finds a version by id.
+ * @param history The version tree.
+ * @param id The id of the version.
+ * @returns The version, or null if there is none with that id.
+ */
+export const getVersion = (history: VersionHistory, id: string | null): DesignVersion | null =>
+  history.versions.find(version => version.id === id) ?? null;
+
+/**
+ * @param history The version tree.
+ * @returns The version currently on screen.
+ */
+export const getCurrentVersion = (history: VersionHistory): DesignVersion | null =>
+  getVersion(history, history.currentId);
+
+/**
+ * Lists the versions edited directly from the given one, oldest first.
+ * @param history The version tree.
+ * @param parentId The id of the parent version, or null for the original designs.
+ * @returns The child versions.
+ */
+export const getChildVersions = (history: VersionHistory, parentId: string | null): DesignVersion[] =>
+  history.versions.filter(version => version.parentId === parentId);
+
+/**
+ * Records a new version as a child of the current one and makes it current.
+ * @param history The version tree.
+ * @param result The assets of the new version.
+ * @param edits The changes that produced it, or null for a fresh generation.
+ * @param chat The chat with the design assistant in which the changes were agreed, if there was one.
+ * @returns The updated history.
+ */
+export const addVersion = (
+  history: VersionHistory,
+  result: DesignResult,
+  edits: EditOperation[] | null,
+  chat?: ChatMessage[]
+): VersionHistory => {
+  const version: DesignVersion = {
+    ...result,
+    id: nextVersionId(history),
+    parentId: history.currentId,
+    edits,
+    ...(chat && { chat }),
+    createdAt: Date.now(),
+  };
+  return { versions: [...history.versions, version], currentId: version.id, redoIds: [] };
+};
+
+/**
+ * Starts a new history for a design that was saved before versions were recorded.
+ * @param result The assets of the design.
+ * @returns A history with the design as its only version.
+ */
+export const startHistory = (result: DesignResult): VersionHistory => addVersion(EMPTY_HISTORY, result, null);
+
+export const canUndo = (history: VersionHistory): boolean => !!getCurrentVersion(history)?.parentId;
+
+export const canRedo = (history: VersionHistory): boolean => history.redoIds.length > 0;
+
+/**
+ * Steps back to the version the current one was edited from.
+ * @param history The version tree.
+ * @returns The updated history, or the same history if there is nothing to undo.
+ */
+export const undo = (history: VersionHistory): VersionHistory => {
+  const current = getCurrentVersion(history);
+  if (!current?.parentId) return history;
+  return { ...history, currentId: current.parentId, redoIds: [...history.redoIds, current.id] };
+};
+
+/**
+ * Steps forward again to the version most recently left with undo.
+ * @param history The version tree.
+ * @returns The updated history, or the same history if there is nothing to redo.
+ */
+export const redo = (history: VersionHistory): VersionHistory => {
+  if (!canRedo(history)) return history;
+  return { ...history, currentId: history.redoIds[history.redoIds.length - 1], redoIds: history.redoIds.slice(0, -1) };
+};
+
+/**
+ * Makes any version current. The redo trail no longer applies after a jump, so it is cleared.
+ * @param history The version tree.
+ * @param id The id of the version to show.
+ * @returns The updated history.
+ */
+export const jumpToVersion = (history: VersionHistory, id: string): VersionHistory =>
+  getVersion(history, id) && id !== history.currentId ? { ...history, currentId: id, redoIds: [] } : history;
+
+/**
+ * Replaces some assets of a version in place, e.g. after retrying a single picture. This fixes
+ * the version rather than creating a new one, because the design itself hasn't changed.
+ * @param history The version tree.
+ * @param id The id of the version.
+ * @param changes The assets to replace.
+ * @returns The updated history.
+ */
+export const updateVersion = (history: VersionHistory, id: string, changes: Partial<DesignResult>): VersionHistory => ({
+  ...history,
+  versions: history.versions.map(version => (version.id === id ? { ...version, ...changes } : version)),
+});
+
+/**
+ * Throws one version away after a comparison. Anything edited from it is kept and re-attached
+ * to its parent, so discarding never takes other versions with it.
+ * @param history The version tree.
+ * @param id The id of the version to discard.
+ * @param keepId The id of the version to show afterwards.
+ * @returns The updated history, or the same history if the version can't be discarded.
+ */
+export const discardVersion = (history: VersionHistory, id: string, keepId: string): VersionHistory => {
+  const discarded = getVersion(history, id);
+  if (!discarded || id === keepId || !getVersion(history, keepId)) return history;
+  const versions = history.versions
+    .filter(version => version.id !== id)
+    .map(version => (version.parentId === id ? { ...version, parentId: discarded.parentId } : version));
+  return { versions, currentId: keepId, redoIds: [] };
+};
+
+/**
+ * Describes the edit behind a version in a few words for the timeline.
+ * @param version The version.
+ * @param history The version tree, to name the doors and windows the edit changed.
+ * @param units The units to give sizes in.
+ * @param locale The language to describe it in.
+ * @returns A short summary.
+ */
+export const summarizeVersion = (version: DesignVersion, history?: VersionHistory, units: UnitSystem = 'metric', locale: Locale = 'en'): string => {
+  if (!version.edits) return translate(locale, 'version.original');
+  // Designs saved before edits were a list of changes only say that they were edited.
+  const before = history ? getVersion(history, version.parentId)?.houseSpec ?? undefined : undefined;
+  const changes = Array.isArray(version.edits) ? describeEdits(version.edits, before, units, locale) : [];
+  return changes.length ? changes.join(', ') : translate(locale, 'version.edited');
+};
+
+/**
+ * Strips the version bookkeeping, leaving just the assets.
+ * @param version The version.
+ * @returns The assets of the version.
+ */
+export const toDesignResult = ({ imageViews, sketchUrl, cuttingList, detailedDescription, houseSpec }: DesignVersion): DesignResult => ({
+  imageViews,
+  sketchUrl,
+  cuttingList,
+  detailedDescription,
+  houseSpec,
+});
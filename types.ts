@@ -1,14 +1,61 @@
 
+export type SheetMaterial = 'cardboard' | 'foam-board';
+
+export interface Point2D {
+  xMm: number;
+  yMm: number;
+}
+
+/**
+ * A hole to cut out of a part, measured from the bottom-left corner of the part.
+ */
+export interface PartCutout {
+  kind: 'door' | 'window';
+  shape: 'rectangle' | 'arch' | 'round';
+  xMm: number;
+  yMm: number;
+  widthMm: number;
+  heightMm: number;
+}
+
+export type PartRole = 'base' | 'wall' | 'roof' | 'floor' | 'accessory';
+
+export type PartEdge = 'bottom' | 'top' | 'left' | 'right';
+
+/**
+ * The exact shape of one flat piece of the house. `widthMm` and `heightMm` are the bounding box;
+ * `outline` is only present when the piece is not a plain rectangle (gable ends, hip roof panels...).
+ */
+export interface PartGeometry {
+  id: string;
+  label: string;
+  role: PartRole;
+  /** Which side of the house a wall faces. Set for walls and for the accessories built onto them. */
+  wall?: WallSide;
+  /** What a part is a piece of. Only set for accessories. */
+  accessory?: AccessoryKind;
+  widthMm: number;
+  heightMm: number;
+  thicknessMm: number;
+  outline?: Point2D[];
+  cutouts: PartCutout[];
+  /** Straight edges that get a fold-over glue tab to join them to the neighbouring part. */
+  glueTabs: PartEdge[];
+}
+
 export interface Material {
   name: string;
   quantity: number;
   dimensions: string;
+  part?: PartGeometry;
 }
 
 export interface CuttingList {
   houseName: string;
   description: string;
   materials: Material[];
+  /** What couldn't be worked out, e.g. a part with impossible sizes that was left out. */
+  problems?: string[];
 }
 
 export interface ImageView {
@@ -16,9 +63,201 @@ export interface ImageView {
   url: string;
 }
 
-export interface EditPreferences {
-  primaryColor: string;
-  secondaryColor: string;
-  roofMaterial: string;
-  featureHighlights: string;
+export type RoofType = 'gable' | 'hip' | 'shed' | 'flat';
+
+export type WallSide = 'front' | 'back' | 'left' | 'right';
+
+export interface NamedColor {
+  name: string;
+  hex: string;
+}
+
+/**
+ * A door or window cut into one wall. Positions are measured on the outside face of the wall,
+ * from its bottom-left corner, in millimetres.
+ */
+export interface Opening {
+  kind: 'door' | 'window';
+  wall: WallSide;
+  shape: 'rectangle' | 'arch' | 'round';
+  offsetMm: number;
+  bottomMm: number;
+  widthMm: number;
+  heightMm: number;
+}
+
+export type AccessoryKind = 'chimney' | 'porch' | 'balcony';
+
+/**
+ * Something built onto the outside of one wall, cut from the same sheet as the house.
+ */
+export interface Accessory {
+  kind: AccessoryKind;
+  wall: WallSide;
+}
+
+export type StyleTheme = 'classic' | 'cottage' | 'modern' | 'castle' | 'candy' | 'spooky';
+
+export interface DecorativeFeature {
+  name: string;
+  description: string;
+}
+
+/**
+ * The structured, parametric model of a house. Every generated asset is derived from it.
+ * All lengths are in millimetres at the real size of the miniature.
+ */
+export interface HouseSpec {
+  footprint: {
+    widthMm: number;
+    depthMm: number;
+  };
+  wallHeightMm: number;
+  sheetMaterial: SheetMaterial;
+  roof: {
+    type: RoofType;
+    pitchDeg: number;
+    overhangMm: number;
+    material: string;
+  };
+  openings: Opening[];
+  colors: {
+    walls: NamedColor;
+    roof: NamedColor;
+    trim: NamedColor;
+    door: NamedColor;
+  };
+  features: DecorativeFeature[];
+  /** How many floors the walls are split into. `wallHeightMm` is the height of all of them. Omitted for one. */
+  storeys?: number;
+  accessories?: Accessory[];
+  /** The look the colours and roof were picked from, if the house was given one. */
+  theme?: StyleTheme;
+}
+
+type ColorRole = keyof HouseSpec['colors'];
+
+/**
+ * One change to a house, applied to its model exactly; see designEdits.ts. A `request` is the
+ * only kind that is left to the model to interpret.
+ */
+export type EditOperation =
+  | { type: 'addOpening'; opening: Opening }
+  /** `index` is the opening's position in `HouseSpec.openings` when the operation is applied. */
+  | { type: 'removeOpening'; index: number }
+  | { type: 'moveOpening'; index: number; wall: WallSide; offsetMm: number; bottomMm: number }
+  | { type: 'roofShape'; roofType: RoofType; pitchDeg: number }
+  | { type: 'addStorey' }
+  | { type: 'resize'; widthMm: number; depthMm: number }
+  | { type: 'scale'; percent: number }
+  | { type: 'addAccessory'; accessory: Accessory }
+  | { type: 'removeAccessory'; accessory: Accessory }
+  | { type: 'theme'; theme: StyleTheme }
+  | { type: 'color'; role: ColorRole; color: NamedColor }
+  | { type: 'roofMaterial'; material: string }
+  | { type: 'request'; text: string };
+
+export type SizePreset = 'palm' | 'tabletop' | 'shelf' | 'dollhouse';
+
+/** 'scissors': scissors only. 'craft-knife': a craft knife, used with a grown-up's help. */
+export type ToolLevel = 'scissors' | 'craft-knife';
+
+export type AgeBand = '4-6' | '7-9' | '10-12' | '13+';
+
+/**
+ * How careful the content checks are with ideas and generated text. 'relaxed' allows mild spooky
+ * things, 'standard' softens them into friendlier ones, and 'strict' also softens play-fighting
+ * things such as swords and cannons.
+ */
+export type Strictness = 'relaxed' | 'standard' | 'strict';
+
+/**
+ * What the builder has to work with. Every prompt is told these, and every design is checked
+ * against them.
+ */
+export interface DesignConstraints {
+  size: SizePreset;
+  /** The most the materials may cost. Omitted for no limit. */
+  budget?: {
+    amount: number;
+    /** An ISO 4217 currency code, the same as the materials catalog's. */
+    currency: string;
+  };
+  /** The sheet materials to hand. At least one. */
+  sheetMaterials: SheetMaterial[];
+  tools: ToolLevel;
+  ageBand: AgeBand;
+}
+
+export interface DesignResult {
+  imageViews: ImageView[] | null;
+  sketchUrl: string | null;
+  cuttingList: CuttingList | null;
+  detailedDescription: string | null;
+  houseSpec: HouseSpec | null;
+}
+
+/**
+ * Changes the design assistant suggests. Nothing is changed until the user says yes.
+ */
+export interface ChatProposal {
+  /** The changes in a few friendly words, e.g. "a rounder door and a slide down the side". */
+  summary: string;
+  edits: EditOperation[];
+}
+
+/**
+ * One turn of a chat with the design assistant.
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  /** Changes the assistant suggested in this turn, waiting for a yes. */
+  proposal?: ChatProposal;
+}
+
+/**
+ * One node of a design's version tree: the first generation or an edit, with everything it produced.
+ */
+export interface DesignVersion extends DesignResult {
+  id: string;
+  /** The version this one was edited from, or null for the original design. */
+  parentId: string | null;
+  /** The changes that produced this version, in the order they were made, or null for the original design. */
+  edits: EditOperation[] | null;
+  /** The talk with the design assistant that led to the changes, if they were agreed in a chat. */
+  chat?: ChatMessage[];
+  createdAt: number;
+}
+
+export interface VersionHistory {
+  versions: DesignVersion[];
+  currentId: string | null;
+  /** Versions left with undo, most recent last, so redo can walk back down the same branch. */
+  redoIds: string[];
+}
+
+export type SourceImageKind = 'drawing' | 'photo';
+
+/**
+ * A picture a design was started from: a child's drawing, or a photo of a real house.
+ */
+export interface SourceImage {
+  kind: SourceImageKind;
+  /** The picture as a data URL, already shrunk to a sensible size. */
+  url: string;
+}
+
+/**
+ * A design kept in the local gallery, with everything needed to reopen it without calling the API.
+ */
+export interface SavedDesign extends DesignResult {
+  id: string;
+  name: string;
+  prompt: string;
+  createdAt: number;
+  updatedAt: number;
+  history?: VersionHistory;
+  /** The picture the design was started from, if it was started from one. */
+  sourceImage?: SourceImage;
 }
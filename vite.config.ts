@@ -6,9 +6,14 @@ export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       plugins: [react()],
+      // The Gemini key is deliberately not defined here: it stays on the server (server/index.ts).
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.DESIGN_PROVIDER': JSON.stringify(env.DESIGN_PROVIDER)
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.SERVER_PORT || 8787}`
+        }
       },
       resolve: {
         alias: {